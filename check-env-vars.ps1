@@ -19,21 +19,8 @@ if (-not (Test-Path $envFile)) {
 VITE_SUPABASE_URL=your_supabase_url
 VITE_SUPABASE_ANON_KEY=your_supabase_anon_key
 
-# Chapa Payment Gateway
-VITE_CHAPA_PUBLIC_KEY=your_chapa_public_key
-VITE_CHAPA_SECRET_KEY=your_chapa_secret_key
-VITE_CHAPA_WEBHOOK_URL=your_chapa_webhook_url
-
-# Telebirr Payment Gateway
-VITE_TELEBIRR_APP_KEY=your_telebirr_app_key
-VITE_TELEBIRR_APP_SECRET=your_telebirr_app_secret
-VITE_TELEBIRR_MERCHANT_ID=your_telebirr_merchant_id
-VITE_TELEBIRR_WEBHOOK_URL=your_telebirr_webhook_url
-
-# Bibit Payment Gateway (Optional)
-VITE_BIBIT_API_KEY=your_bibit_api_key
-VITE_BIBIT_MERCHANT_ID=your_bibit_merchant_id
-VITE_BIBIT_WEBHOOK_URL=your_bibit_webhook_url
+# Payment gateway credentials are Supabase function secrets, not .env values:
+#   npx supabase secrets set CHAPA_SECRET_KEY=...
 "@ | Out-File -FilePath $envFile -Encoding UTF8
     
     Write-Host "SUCCESS: Created .env file. Please add your credentials." -ForegroundColor Green
@@ -47,18 +34,17 @@ $envContent = Get-Content $envFile
 # Required variables
 $requiredVars = @(
     "VITE_SUPABASE_URL",
-    "VITE_SUPABASE_ANON_KEY",
-    "VITE_CHAPA_PUBLIC_KEY",
-    "VITE_CHAPA_SECRET_KEY"
+    "VITE_SUPABASE_ANON_KEY"
 )
 
-# Payment gateway variables
-$gatewayVars = @(
-    "VITE_CHAPA_WEBHOOK_URL",
+# Gateway secrets that older setups kept in .env. VITE_ variables are bundled
+# into the browser, so these must live in Supabase function secrets instead.
+$leakedVars = @(
+    "VITE_CHAPA_SECRET_KEY",
     "VITE_TELEBIRR_APP_KEY",
+    "VITE_TELEBIRR_FABRIC_APP_ID",
     "VITE_TELEBIRR_APP_SECRET",
-    "VITE_TELEBIRR_MERCHANT_ID",
-    "VITE_TELEBIRR_WEBHOOK_URL"
+    "VITE_BIBIT_API_KEY"
 )
 
 Write-Host "Checking Required Variables:" -ForegroundColor Yellow
@@ -85,24 +71,16 @@ foreach ($var in $requiredVars) {
 }
 
 Write-Host ""
-Write-Host "Checking Payment Gateway Variables:" -ForegroundColor Yellow
+Write-Host "Checking For Exposed Gateway Secrets:" -ForegroundColor Yellow
 Write-Host ""
 
-foreach ($var in $gatewayVars) {
-    $found = $false
+foreach ($var in $leakedVars) {
     foreach ($line in $envContent) {
         if ($line -match "^$var=(.+)$") {
-            $value = $matches[1].Trim()
-            if ($value -and $value -notmatch "your_.*_key" -and $value -ne "") {
-                $found = $true
-                Write-Host "  [OK] $var is set" -ForegroundColor Green
-                break
-            }
+            Write-Host "  [!] $var is bundled into the browser. Move it to 'npx supabase secrets set' and remove it from .env" -ForegroundColor Red
+            break
         }
     }
-    if (-not $found) {
-        Write-Host "  [!] $var is not set" -ForegroundColor Yellow
-    }
 }
 
 Write-Host ""
@@ -125,9 +103,10 @@ if ($missingVars.Count -gt 0) {
     Write-Host "2. Restart your development server" -ForegroundColor White
     Write-Host "3. Check ENVIRONMENT_VARIABLES.md for details" -ForegroundColor White
 } else {
-    Write-Host "1. Deploy webhook functions to Supabase" -ForegroundColor White
-    Write-Host "2. Configure webhook URLs in payment gateways" -ForegroundColor White
-    Write-Host "3. Start testing payments!" -ForegroundColor White
+    Write-Host "1. Deploy the payment functions to Supabase" -ForegroundColor White
+    Write-Host "2. Set gateway credentials with 'npx supabase secrets set'" -ForegroundColor White
+    Write-Host "3. Configure webhook URLs in payment gateways" -ForegroundColor White
+    Write-Host "4. Start testing payments!" -ForegroundColor White
 }
 
 Write-Host ""
@@ -0,0 +1,177 @@
+-- Admin Audit Log Setup
+-- Append-only record of every admin and system change to users, listings and
+-- transactions, written by database triggers so it cannot be skipped or forged
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Create Admin Audit Log Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    actor_id UUID REFERENCES users(id), -- NULL for scheduled jobs and other system changes
+    action VARCHAR(100) NOT NULL, -- e.g. user.suspend, listing.update, transaction.refunded
+    target_type VARCHAR(20) NOT NULL
+        CHECK (target_type IN ('user', 'listing', 'transaction')),
+    target_id TEXT NOT NULL, -- Text so deleted targets and ID searches keep working
+    -- { field: { before, after } } for the fields that changed
+    changes JSONB NOT NULL DEFAULT '{}',
+    metadata JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Earlier installs required an actor
+ALTER TABLE admin_audit_log ALTER COLUMN actor_id DROP NOT NULL;
+
+-- =============================================================================
+-- STEP 2: Create Indexes for Performance
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at
+ON admin_audit_log(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target
+ON admin_audit_log(target_type, target_id);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor
+ON admin_audit_log(actor_id, created_at DESC);
+
+-- =============================================================================
+-- STEP 3: Enable RLS (Row Level Security)
+-- =============================================================================
+
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read the audit log" ON admin_audit_log;
+DROP POLICY IF EXISTS "Admins can append to the audit log" ON admin_audit_log;
+
+CREATE POLICY "Admins can read the audit log" ON admin_audit_log
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+-- No INSERT, UPDATE or DELETE policies: entries are only written by the
+-- triggers below and cannot be changed through the API
+
+-- =============================================================================
+-- STEP 4: Block Changes to Existing Entries
+-- =============================================================================
+
+-- Also applies to the service role and the SQL editor
+CREATE OR REPLACE FUNCTION prevent_admin_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'admin_audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS admin_audit_log_append_only ON admin_audit_log;
+CREATE TRIGGER admin_audit_log_append_only
+BEFORE UPDATE OR DELETE ON admin_audit_log
+FOR EACH ROW EXECUTE FUNCTION prevent_admin_audit_log_changes();
+
+-- =============================================================================
+-- STEP 5: Record Changes From Triggers
+-- =============================================================================
+
+-- Records a change to a user, listing or transaction when it is made by:
+--   * a signed-in admin, through the API or a database function they called
+--   * an edge function using the service role. It names the admin it acts for
+--     in the x-actor-id header; scheduled jobs leave it out and are recorded
+--     with no actor.
+--   * a direct database session, such as the SQL editor, with no actor
+-- Changes by anyone else are not admin actions and are not recorded.
+CREATE OR REPLACE FUNCTION record_admin_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_before JSONB := to_jsonb(OLD);
+    v_after JSONB := CASE WHEN TG_OP = 'DELETE' THEN '{}'::jsonb ELSE to_jsonb(NEW) END;
+    v_actor UUID;
+    v_changes JSONB;
+    v_target_type TEXT;
+    v_action TEXT;
+BEGIN
+    IF auth.role() = 'service_role' THEN
+        v_actor := NULLIF(NULLIF(current_setting('request.headers', true), '')::json->>'x-actor-id', '')::UUID;
+    ELSIF EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    ) THEN
+        v_actor := auth.uid();
+    ELSIF COALESCE(auth.role(), '') <> '' THEN
+        RETURN NULL;
+    END IF;
+
+    -- { field: { before, after } }, leaving out bookkeeping columns that
+    -- change on every write and say nothing about the action
+    SELECT COALESCE(jsonb_object_agg(key, jsonb_build_object('before', v_before->key, 'after', v_after->key)), '{}'::jsonb)
+    INTO v_changes
+    FROM (SELECT jsonb_object_keys(v_before || v_after) AS key) AS keys
+    WHERE key NOT IN ('updated_at', 'views', 'search_vector')
+      AND (v_before->key) IS DISTINCT FROM (v_after->key);
+
+    IF v_changes = '{}'::jsonb THEN
+        RETURN NULL;
+    END IF;
+
+    v_target_type := CASE TG_TABLE_NAME
+        WHEN 'users' THEN 'user'
+        WHEN 'listings' THEN 'listing'
+        ELSE 'transaction'
+    END;
+
+    -- Named after what changed, e.g. user.suspend, listing.approve, transaction.released
+    v_action := v_target_type || '.' || CASE
+        WHEN TG_OP = 'DELETE' THEN 'delete'
+        WHEN TG_TABLE_NAME = 'users' THEN CASE
+            WHEN v_changes ? 'role' THEN 'role_change'
+            WHEN v_changes ? 'is_active' THEN
+                CASE WHEN (v_after->>'is_active')::boolean THEN 'activate' ELSE 'suspend' END
+            WHEN v_changes ? 'verified' THEN 'verify'
+            ELSE 'update'
+        END
+        WHEN TG_TABLE_NAME = 'listings' THEN CASE
+            WHEN v_changes ? 'status' THEN CASE v_after->>'status'
+                WHEN 'approved' THEN 'approve'
+                WHEN 'rejected' THEN 'reject'
+                ELSE v_after->>'status'
+            END
+            WHEN v_changes ? 'is_active' THEN
+                CASE WHEN (v_after->>'is_active')::boolean THEN 'activate' ELSE 'deactivate' END
+            ELSE 'update'
+        END
+        ELSE CASE
+            WHEN v_changes ? 'status' THEN v_after->>'status'
+            WHEN v_changes ? 'refund' THEN 'refund'
+            ELSE 'update'
+        END
+    END;
+
+    INSERT INTO admin_audit_log (actor_id, action, target_type, target_id, changes)
+    VALUES (v_actor, v_action, v_target_type, COALESCE(v_after->>'id', v_before->>'id'), v_changes);
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS users_admin_audit ON users;
+CREATE TRIGGER users_admin_audit
+AFTER UPDATE OR DELETE ON users
+FOR EACH ROW EXECUTE FUNCTION record_admin_change();
+
+DROP TRIGGER IF EXISTS listings_admin_audit ON listings;
+CREATE TRIGGER listings_admin_audit
+AFTER UPDATE OR DELETE ON listings
+FOR EACH ROW EXECUTE FUNCTION record_admin_change();
+
+DROP TRIGGER IF EXISTS transactions_admin_audit ON transactions;
+CREATE TRIGGER transactions_admin_audit
+AFTER UPDATE OR DELETE ON transactions
+FOR EACH ROW EXECUTE FUNCTION record_admin_change();
+
+-- Success message
+SELECT '✅ Admin audit log setup complete!' as message;
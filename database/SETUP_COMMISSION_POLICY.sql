@@ -0,0 +1,31 @@
+-- Commission Policy Setup
+-- Commission rates now live in src/lib/commission.ts and are snapshotted per transaction
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Store Rates as Percentages
+-- =============================================================================
+
+-- Older transactions stored the 2% rate as a fraction (0.02)
+UPDATE transactions
+SET commission = jsonb_set(commission, '{rate}', to_jsonb((commission->>'rate')::numeric * 100))
+WHERE commission ? 'rate'
+  AND (commission->>'rate')::numeric > 0
+  AND (commission->>'rate')::numeric < 1;
+
+ALTER TABLE transactions ALTER COLUMN commission SET DEFAULT '{"amount": 0, "rate": 2}';
+
+-- =============================================================================
+-- STEP 2: Create Indexes for Performance
+-- =============================================================================
+
+-- Commission rows are looked up by transaction when escrow is released
+CREATE INDEX IF NOT EXISTS idx_admin_commissions_transaction_id
+ON admin_commissions(transaction_id);
+
+-- Reporting by the policy version a transaction was charged under
+CREATE INDEX IF NOT EXISTS idx_transactions_commission_policy
+ON transactions((commission->>'policy_version'));
+
+-- Success message
+SELECT '✅ Commission policy setup complete!' as message;
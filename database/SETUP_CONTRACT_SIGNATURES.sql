@@ -0,0 +1,238 @@
+-- Contract Signatures Setup
+-- Sale and lease contracts are filled from the templates in
+-- supabase/functions/_shared/contracts.ts by the contract-prepare edge
+-- function and signed by both parties with a
+-- typed name or a drawn signature. Each signature records when it was made and
+-- the SHA-256 hash of the text that was signed. Escrow is not released until
+-- both parties have signed where the template requires it.
+-- Deploy the function first: supabase functions deploy contract-prepare
+-- Run after database/SETUP_RENTAL_BOOKINGS.sql
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Notification Types
+-- =============================================================================
+
+-- Only needed where notifications.type uses the notification_type enum
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type') THEN
+        ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'contract_signed';
+    END IF;
+END $$;
+
+-- =============================================================================
+-- STEP 2: Prepare a Contract
+-- =============================================================================
+
+-- Stores the rendered contract text and its hash. The template and whether it
+-- must be signed are snapshotted on the transaction when it is created. The
+-- text can be regenerated until someone signs it. Only contract-prepare calls
+-- this, with the text it rendered for the buyer or seller in p_prepared_by.
+
+-- Older setups let the buyer or seller send the text themselves
+DROP FUNCTION IF EXISTS prepare_transaction_contract(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION prepare_transaction_contract(p_transaction_id UUID, p_terms TEXT, p_prepared_by UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+    v_hash TEXT;
+BEGIN
+    SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+
+    IF NOT FOUND OR p_prepared_by IS NULL OR p_prepared_by NOT IN (v_transaction.buyer_id, v_transaction.seller_id) THEN
+        RAISE EXCEPTION 'Only the buyer or the seller can prepare this contract';
+    END IF;
+
+    IF v_transaction.contract->>'template' IS NULL THEN
+        RAISE EXCEPTION 'This transaction has no contract template';
+    END IF;
+
+    IF v_transaction.status IN ('cancelled', 'refunded', 'released') THEN
+        RAISE EXCEPTION 'This transaction is closed';
+    END IF;
+
+    IF COALESCE(TRIM(p_terms), '') = '' THEN
+        RAISE EXCEPTION 'The contract is empty';
+    END IF;
+
+    v_hash := encode(sha256(convert_to(p_terms, 'UTF8')), 'hex');
+
+    IF v_transaction.contract->'signed_at'->>'buyer' IS NOT NULL
+    OR v_transaction.contract->'signed_at'->>'seller' IS NOT NULL THEN
+        IF v_transaction.contract->>'document_hash' = v_hash THEN
+            RETURN v_transaction.contract;
+        END IF;
+        RAISE EXCEPTION 'The contract has been signed and can no longer change';
+    END IF;
+
+    PERFORM set_config('app.contract_update', 'on', TRUE);
+
+    UPDATE transactions
+    SET contract = COALESCE(contract, '{}'::JSONB) || jsonb_build_object(
+            'terms', p_terms,
+            'document_hash', v_hash,
+            'generated_at', NOW(),
+            'generated_by', p_prepared_by
+        ),
+        updated_at = NOW()
+    WHERE id = p_transaction_id
+    RETURNING contract INTO v_transaction.contract;
+
+    RETURN v_transaction.contract;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =============================================================================
+-- STEP 3: Sign a Contract
+-- =============================================================================
+
+-- Records the caller's signature as buyer or seller. The hash the client shows
+-- must match the stored one, so nobody signs text that changed under them.
+CREATE OR REPLACE FUNCTION sign_transaction_contract(
+    p_transaction_id UUID,
+    p_document_hash TEXT,
+    p_method TEXT,
+    p_name TEXT,
+    p_image TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+    v_role TEXT;
+    v_contract JSONB;
+BEGIN
+    SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    v_role := CASE auth.uid()
+        WHEN v_transaction.buyer_id THEN 'buyer'
+        WHEN v_transaction.seller_id THEN 'seller'
+    END;
+
+    IF v_role IS NULL THEN
+        RAISE EXCEPTION 'Only the buyer or the seller can sign this contract';
+    END IF;
+
+    v_contract := COALESCE(v_transaction.contract, '{}'::JSONB);
+
+    IF v_contract->>'document_hash' IS NULL THEN
+        RAISE EXCEPTION 'The contract has not been prepared yet';
+    END IF;
+
+    IF v_contract->>'document_hash' <> p_document_hash THEN
+        RAISE EXCEPTION 'The contract changed since you opened it. Review it again before signing.';
+    END IF;
+
+    IF v_contract->'signed_at'->>v_role IS NOT NULL THEN
+        RAISE EXCEPTION 'You have already signed this contract';
+    END IF;
+
+    IF v_transaction.status IN ('cancelled', 'refunded', 'released') THEN
+        RAISE EXCEPTION 'This transaction is closed';
+    END IF;
+
+    IF COALESCE(TRIM(p_name), '') = '' THEN
+        RAISE EXCEPTION 'Type your full name to sign';
+    END IF;
+
+    IF p_method NOT IN ('typed', 'drawn') THEN
+        RAISE EXCEPTION 'Unknown signature method: %', p_method;
+    END IF;
+
+    -- Drawn signatures are small PNGs from the signature pad
+    IF p_method = 'drawn' AND (p_image IS NULL OR p_image NOT LIKE 'data:image/png;base64,%' OR LENGTH(p_image) > 500000) THEN
+        RAISE EXCEPTION 'Draw your signature to sign';
+    END IF;
+
+    v_contract := v_contract
+        || jsonb_build_object(
+            'signed_by', COALESCE(v_contract->'signed_by', '{}'::JSONB) || jsonb_build_object(v_role, auth.uid()),
+            'signed_at', COALESCE(v_contract->'signed_at', '{}'::JSONB) || jsonb_build_object(v_role, NOW()),
+            'signatures', COALESCE(v_contract->'signatures', '{}'::JSONB) || jsonb_build_object(v_role, jsonb_build_object(
+                'method', p_method,
+                'name', TRIM(p_name),
+                'image', CASE WHEN p_method = 'drawn' THEN p_image END,
+                'document_hash', p_document_hash,
+                'signed_at', NOW()
+            ))
+        );
+
+    PERFORM set_config('app.contract_update', 'on', TRUE);
+
+    UPDATE transactions
+    SET contract = v_contract,
+        updated_at = NOW()
+    WHERE id = p_transaction_id;
+
+    RETURN v_contract;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION prepare_transaction_contract(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sign_transaction_contract(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION prepare_transaction_contract(UUID, TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION sign_transaction_contract(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- =============================================================================
+-- STEP 4: Protect Contract Terms and Signatures
+-- =============================================================================
+
+-- Transactions can be updated directly, so the contract text, its hash, its
+-- signatures and the signing requirement may only change through the functions above
+CREATE OR REPLACE FUNCTION protect_transaction_contract()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_key TEXT;
+BEGIN
+    IF current_setting('app.contract_update', TRUE) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    FOREACH v_key IN ARRAY ARRAY['template', 'signatures_required', 'terms', 'document_hash', 'signed_by', 'signed_at', 'signatures'] LOOP
+        IF OLD.contract->v_key IS DISTINCT FROM NEW.contract->v_key THEN
+            RAISE EXCEPTION 'Contract terms and signatures can only be changed by preparing or signing the contract';
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_protect_contract ON transactions;
+CREATE TRIGGER transactions_protect_contract
+    BEFORE UPDATE OF contract ON transactions
+    FOR EACH ROW
+    EXECUTE FUNCTION protect_transaction_contract();
+
+-- =============================================================================
+-- STEP 5: Require Signatures Before Release
+-- =============================================================================
+
+-- Covers every release path: buyer confirmation, admin release, dispute
+-- resolution and the escrow-auto-release job
+CREATE OR REPLACE FUNCTION require_contract_signatures()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.contract->>'signatures_required')::BOOLEAN IS TRUE
+    AND (NEW.contract->'signed_at'->>'buyer' IS NULL OR NEW.contract->'signed_at'->>'seller' IS NULL) THEN
+        RAISE EXCEPTION 'Both parties must sign the contract before escrow is released';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_require_contract_signatures ON transactions;
+CREATE TRIGGER transactions_require_contract_signatures
+    BEFORE UPDATE OF status ON transactions
+    FOR EACH ROW
+    WHEN (NEW.status = 'released' AND OLD.status IS DISTINCT FROM 'released')
+    EXECUTE FUNCTION require_contract_signatures();
+
+-- Success message
+SELECT '✅ Contract signatures setup complete!' as message;
@@ -0,0 +1,71 @@
+-- Dispute Resolution Setup
+-- Adds the dispute_resolved notification type and storage rules for dispute evidence
+-- Run SETUP_SELLER_VERIFICATIONS.sql first, it creates the private documents bucket
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Notification Type
+-- =============================================================================
+
+-- Only needed where notifications.type uses the notification_type enum
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type') THEN
+        ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'dispute_resolved';
+    END IF;
+END $$;
+
+-- =============================================================================
+-- STEP 2: Create Indexes for Performance
+-- =============================================================================
+
+-- Admin dispute queue, oldest first
+CREATE INDEX IF NOT EXISTS idx_transactions_open_disputes
+ON transactions((dispute->>'filed_at'))
+WHERE status = 'disputed';
+
+-- =============================================================================
+-- STEP 3: Dispute Evidence Storage Policies
+-- =============================================================================
+
+DROP POLICY IF EXISTS "Parties can upload dispute evidence" ON storage.objects;
+DROP POLICY IF EXISTS "Parties and admins can read dispute evidence" ON storage.objects;
+
+-- Paths look like disputes/<transaction_id>/<user_id>/<file>
+CREATE POLICY "Parties can upload dispute evidence" ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'documents'
+    AND (storage.foldername(name))[1] = 'disputes'
+    AND (storage.foldername(name))[3] = auth.uid()::text
+    AND EXISTS (
+        SELECT 1 FROM transactions
+        WHERE transactions.id::text = (storage.foldername(name))[2]
+        AND auth.uid() IN (transactions.buyer_id, transactions.seller_id)
+        AND transactions.status IN ('escrowed', 'disputed')
+    )
+);
+
+-- Both parties see each other's evidence
+CREATE POLICY "Parties and admins can read dispute evidence" ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'documents'
+    AND (storage.foldername(name))[1] = 'disputes'
+    AND (
+        EXISTS (
+            SELECT 1 FROM transactions
+            WHERE transactions.id::text = (storage.foldername(name))[2]
+            AND auth.uid() IN (transactions.buyer_id, transactions.seller_id)
+        )
+        OR EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    )
+);
+
+-- Success message
+SELECT '✅ Dispute resolution setup complete!' as message;
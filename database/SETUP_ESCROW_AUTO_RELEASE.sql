@@ -0,0 +1,213 @@
+-- Escrow Release Setup
+-- Adds handle_escrow_release, the one way escrow is released: by the buyer
+-- confirming receipt, by an admin, or by the escrow-auto-release edge function,
+-- which reminds buyers a day before release and releases escrow once the hold
+-- period is over. The function also records the commission in admin_commissions.
+-- Deploy the function first: supabase functions deploy escrow-auto-release
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Notification Type
+-- =============================================================================
+
+-- Only needed where notifications.type uses the notification_type enum
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type') THEN
+        ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'escrow_release_reminder';
+    END IF;
+END $$;
+
+-- =============================================================================
+-- STEP 2: Create Indexes for Performance
+-- =============================================================================
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS escrow_release_at TIMESTAMPTZ;
+
+-- The scheduler only looks at escrowed transactions ordered by release time
+CREATE INDEX IF NOT EXISTS idx_transactions_escrow_release_at
+ON transactions(escrow_release_at)
+WHERE status = 'escrowed';
+
+-- =============================================================================
+-- STEP 3: Release Escrow
+-- =============================================================================
+
+-- Records the commission kept on a released or fully refunded transaction.
+-- Refunds only ever return the seller's share (getRefundableAmount in
+-- supabase/functions/_shared/commissionSplit.ts), so the commission amount is
+-- never adjusted. What was refunded and what the seller was paid are kept in
+-- the row's metadata. The split matches COMMISSION_DISTRIBUTION in the same file.
+CREATE OR REPLACE FUNCTION record_admin_commission(
+    p_transaction_id UUID,
+    p_processed_by TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+    v_commission NUMERIC;
+    v_platform NUMERIC;
+    v_distribution JSONB;
+    v_refunded NUMERIC;
+    v_settlement JSONB;
+BEGIN
+    SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id;
+
+    v_commission := COALESCE((v_transaction.commission->>'amount')::NUMERIC, 0);
+    v_platform := ROUND(v_commission * 80 / 100, 2);
+    v_distribution := jsonb_build_object(
+        'platform', jsonb_build_object('amount', v_platform, 'percentage', 80),
+        'admin', jsonb_build_object('amount', v_commission - v_platform, 'percentage', 20),
+        'policy', v_transaction.commission
+    );
+    v_refunded := COALESCE((v_transaction.refund->>'amount')::NUMERIC, 0);
+    v_settlement := jsonb_build_object(
+        'refunded_amount', v_refunded,
+        'seller_payout', CASE
+            WHEN v_transaction.status::TEXT = 'released'
+            THEN GREATEST(v_transaction.amount - v_commission - v_refunded, 0)
+            ELSE 0
+        END
+    );
+
+    UPDATE admin_commissions
+    SET amount = v_commission,
+        rate = (v_transaction.commission->>'rate')::NUMERIC,
+        distribution = v_distribution,
+        metadata = COALESCE(metadata, '{}'::JSONB) || v_settlement,
+        updated_at = NOW()
+    WHERE transaction_id = p_transaction_id;
+
+    IF NOT FOUND THEN
+        INSERT INTO admin_commissions (
+            transaction_id, amount, rate, currency, status, collected_at, distribution, metadata
+        ) VALUES (
+            p_transaction_id,
+            v_commission,
+            (v_transaction.commission->>'rate')::NUMERIC,
+            v_transaction.currency,
+            'collected',
+            NOW(),
+            v_distribution,
+            jsonb_build_object(
+                'transaction_amount', v_transaction.amount,
+                'transaction_currency', v_transaction.currency,
+                'payment_method', v_transaction.payment_method,
+                'processed_by', p_processed_by
+            ) || v_settlement
+        );
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_admin_commission(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_admin_commission(UUID, TEXT) TO service_role;
+
+-- Older setups had a two-argument version that only changed the status
+DROP FUNCTION IF EXISTS handle_escrow_release(UUID, UUID);
+
+-- Releases an escrowed transaction to the seller and records the commission
+-- in one database transaction. Who may release follows TRANSACTION_TRANSITIONS in
+-- supabase/functions/_shared/transactionStateMachine.ts: the buyer confirming
+-- receipt, an admin (also while disputed), or the scheduler with the service
+-- role key. The contract signature trigger still applies.
+CREATE OR REPLACE FUNCTION handle_escrow_release(
+    p_transaction_id UUID,
+    p_reason TEXT DEFAULT 'admin_release',
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+    v_role TEXT;
+    v_actor TEXT;
+    v_now TIMESTAMPTZ := NOW();
+BEGIN
+    SELECT * INTO v_transaction
+    FROM transactions
+    WHERE id = p_transaction_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    IF auth.role() = 'service_role' THEN
+        v_role := 'system';
+        v_actor := 'system';
+    ELSIF EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin') THEN
+        v_role := 'admin';
+        v_actor := auth.uid()::TEXT;
+    ELSIF auth.uid() = v_transaction.buyer_id THEN
+        v_role := 'buyer';
+        v_actor := auth.uid()::TEXT;
+    ELSE
+        RAISE EXCEPTION 'You cannot release this transaction';
+    END IF;
+
+    IF NOT (
+        v_transaction.status::TEXT = 'escrowed'
+        OR (v_transaction.status::TEXT = 'disputed' AND v_role = 'admin')
+    ) THEN
+        RAISE EXCEPTION 'A % cannot move a transaction from % to released', v_role, v_transaction.status;
+    END IF;
+
+    IF v_role = 'buyer' AND p_reason <> 'buyer_confirmed' THEN
+        RAISE EXCEPTION 'Buyers release escrow by confirming receipt';
+    END IF;
+
+    UPDATE transactions
+    SET status = 'released',
+        escrow = COALESCE(escrow, '{}'::JSONB) || jsonb_build_object(
+            'is_escrowed', FALSE,
+            'release_date', v_now,
+            'release_reason', p_reason,
+            'release_notes', p_notes,
+            'released_by', v_actor
+        ),
+        timeline = COALESCE(timeline, '[]'::JSONB) || jsonb_build_array(jsonb_build_object(
+            'status', 'released',
+            'timestamp', v_now,
+            'notes', p_notes,
+            'updated_by', v_actor
+        )),
+        admin_id = CASE WHEN v_role = 'admin' THEN auth.uid() ELSE admin_id END,
+        updated_at = v_now
+    WHERE id = p_transaction_id
+    RETURNING * INTO v_transaction;
+
+    PERFORM record_admin_commission(p_transaction_id, v_actor);
+
+    RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION handle_escrow_release(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION handle_escrow_release(UUID, TEXT, TEXT) TO authenticated, service_role;
+
+-- =============================================================================
+-- STEP 4: Schedule the Edge Function
+-- =============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Replace <project-ref> and <service-role-key> before running.
+-- The function rejects calls without the service role key.
+SELECT cron.unschedule('escrow-auto-release')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'escrow-auto-release');
+
+SELECT cron.schedule(
+    'escrow-auto-release',
+    '0 * * * *', -- Every hour
+    $$
+    SELECT net.http_post(
+        url := 'https://<project-ref>.supabase.co/functions/v1/escrow-auto-release',
+        headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb,
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+-- Success message
+SELECT '✅ Escrow release setup complete!' as message;
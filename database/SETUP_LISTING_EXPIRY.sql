@@ -0,0 +1,104 @@
+-- Listing Expiry Setup
+-- Schedules the listing-expiry edge function, which warns owners a week before
+-- their listing expires and deactivates listings once they have expired
+-- Deploy the function first: supabase functions deploy listing-expiry
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Notification Types
+-- =============================================================================
+
+-- Only needed where notifications.type uses the notification_type enum
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type') THEN
+        ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'listing_expiring';
+        ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'listing_expired';
+    END IF;
+END $$;
+
+-- =============================================================================
+-- STEP 2: Expiry Columns
+-- =============================================================================
+
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS expiry_warning_sent_at TIMESTAMPTZ;
+
+-- How long a listing in the category stays public before it has to be renewed.
+-- Days match LISTING_LIFETIME_DAYS in supabase/functions/_shared/listingExpiry.ts
+CREATE OR REPLACE FUNCTION listing_lifetime(p_category TEXT)
+RETURNS INTERVAL AS $$
+    SELECT CASE p_category
+        WHEN 'car' THEN INTERVAL '45 days'
+        WHEN 'house' THEN INTERVAL '90 days'
+        WHEN 'land' THEN INTERVAL '120 days'
+        WHEN 'commercial' THEN INTERVAL '90 days'
+        ELSE INTERVAL '60 days'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Give existing approved listings a lifetime from today so nothing expires the
+-- moment this runs
+UPDATE listings
+SET expires_at = NOW() + listing_lifetime(category::TEXT)
+WHERE expires_at IS NULL AND status = 'approved';
+
+-- =============================================================================
+-- STEP 3: Start the Lifetime on Approval
+-- =============================================================================
+
+-- The lifetime runs from approval rather than submission, so time spent
+-- waiting for review does not count against it. Also applies when an expired
+-- listing is renewed and goes back to approved.
+CREATE OR REPLACE FUNCTION start_listing_lifetime()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'approved') THEN
+        NEW.expires_at := NOW() + listing_lifetime(NEW.category::TEXT);
+        NEW.expiry_warning_sent_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS listings_start_lifetime ON listings;
+CREATE TRIGGER listings_start_lifetime
+BEFORE INSERT OR UPDATE OF status ON listings
+FOR EACH ROW EXECUTE FUNCTION start_listing_lifetime();
+
+-- =============================================================================
+-- STEP 4: Create Indexes for Performance
+-- =============================================================================
+
+-- The scheduler and public queries only look at approved listings by expiry
+CREATE INDEX IF NOT EXISTS idx_listings_expires_at
+ON listings(expires_at)
+WHERE status = 'approved';
+
+-- =============================================================================
+-- STEP 5: Schedule the Edge Function
+-- =============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Replace <project-ref> and <service-role-key> before running.
+-- The function rejects calls without the service role key.
+SELECT cron.unschedule('listing-expiry')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'listing-expiry');
+
+SELECT cron.schedule(
+    'listing-expiry',
+    '0 3 * * *', -- Every day at 03:00 UTC
+    $$
+    SELECT net.http_post(
+        url := 'https://<project-ref>.supabase.co/functions/v1/listing-expiry',
+        headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb,
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+-- Success message
+SELECT '✅ Listing expiry setup complete!' as message;
@@ -0,0 +1,252 @@
+-- Listing Facets Setup
+-- Counts of matching listings per category, subcategory, city, subcity, price
+-- range and seller verification, for the filter sidebars on the Buy and Rent
+-- pages. Search and facets share one set of filter rules, so the counts always
+-- agree with the results they lead to.
+-- Run after database/SETUP_LISTING_SEARCH.sql
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Shared Filter Rules
+-- =============================================================================
+
+-- Whether a listing is public and matches the filters. p_filters holds the
+-- SearchFilters sent by ListingsService: type, category, subcategory, city,
+-- subcity, min_price, max_price and verified (whether the seller is verified).
+-- p_skip leaves out one filter, so each facet counts the choices next to the
+-- one already made instead of only the selected value.
+CREATE OR REPLACE FUNCTION listing_matches_filters(
+    l listings,
+    p_filters JSONB,
+    p_query TSQUERY DEFAULT NULL,
+    p_skip TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+    SELECT l.status = 'approved'
+        AND l.verified = TRUE
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (p_query IS NULL OR l.search_vector @@ p_query)
+        AND (p_filters->>'type' IS NULL OR l.type::TEXT = p_filters->>'type')
+        AND (COALESCE(p_skip, '') = 'category' OR p_filters->>'category' IS NULL
+            OR l.category::TEXT = p_filters->>'category')
+        AND (COALESCE(p_skip, '') IN ('category', 'subcategory') OR p_filters->>'subcategory' IS NULL
+            OR l.subcategory = p_filters->>'subcategory')
+        AND (COALESCE(p_skip, '') = 'city' OR p_filters->>'city' IS NULL
+            OR l.location->>'city' = p_filters->>'city')
+        AND (COALESCE(p_skip, '') IN ('city', 'subcity') OR p_filters->>'subcity' IS NULL
+            OR l.location->>'subcity' = p_filters->>'subcity')
+        AND (COALESCE(p_skip, '') = 'price' OR p_filters->>'min_price' IS NULL
+            OR l.price >= (p_filters->>'min_price')::NUMERIC)
+        AND (COALESCE(p_skip, '') = 'price' OR p_filters->>'max_price' IS NULL
+            OR l.price <= (p_filters->>'max_price')::NUMERIC)
+        AND (COALESCE(p_skip, '') = 'verified' OR p_filters->>'verified' IS NULL
+            OR EXISTS (
+                SELECT 1 FROM users u
+                WHERE u.id = l.owner_id
+                AND COALESCE(u.verified, FALSE) = (p_filters->>'verified')::BOOLEAN
+            ));
+$$ LANGUAGE sql STABLE;
+
+-- =============================================================================
+-- STEP 2: Search With Shared Filters
+-- =============================================================================
+
+-- Replaces the version in SETUP_LISTING_SEARCH.sql, which took each filter as
+-- its own argument and knew nothing of subcategory, subcity or sellers
+DROP FUNCTION IF EXISTS search_listings(TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_listings(
+    p_query TEXT,
+    p_filters JSONB DEFAULT '{}'::JSONB,
+    p_sort TEXT DEFAULT 'relevance',
+    p_limit INTEGER DEFAULT 12,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+) AS $$
+DECLARE
+    v_query TSQUERY := listing_search_query(p_query);
+BEGIN
+    IF v_query IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH matches AS (
+        SELECT
+            l.*,
+            ts_rank_cd(l.search_vector, v_query) AS match_rank,
+            COUNT(*) OVER () AS match_count
+        FROM listings l
+        WHERE listing_matches_filters(l, COALESCE(p_filters, '{}'::JSONB), v_query)
+        ORDER BY
+            CASE WHEN p_sort = 'price_asc' THEN l.price END ASC,
+            CASE WHEN p_sort = 'price_desc' THEN l.price END DESC,
+            CASE WHEN p_sort = 'views_desc' THEN l.views END DESC,
+            CASE WHEN p_sort = 'date_desc' THEN l.created_at END DESC,
+            match_rank DESC,
+            l.created_at DESC
+        LIMIT p_limit
+        OFFSET p_offset
+    )
+    -- Headlines are only worked out for the page being returned
+    SELECT
+        m.id,
+        m.match_rank,
+        ts_headline('english', m.title, v_query,
+            'StartSel=[[mark]], StopSel=[[/mark]], HighlightAll=true'),
+        ts_headline('english', m.description, v_query,
+            'StartSel=[[mark]], StopSel=[[/mark]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'),
+        m.match_count
+    FROM matches m
+    ORDER BY
+        CASE WHEN p_sort = 'price_asc' THEN m.price END ASC,
+        CASE WHEN p_sort = 'price_desc' THEN m.price END DESC,
+        CASE WHEN p_sort = 'views_desc' THEN m.views END DESC,
+        CASE WHEN p_sort = 'date_desc' THEN m.created_at END DESC,
+        m.match_rank DESC,
+        m.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_listings(TEXT, JSONB, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+-- =============================================================================
+-- STEP 3: Facet Counts
+-- =============================================================================
+
+-- Counts for the current search text and filters:
+-- {
+--   "total": 42,
+--   "category": [{"value": "car", "count": 30}, ...],
+--   "subcategory": [...], "city": [...], "subcity": [...],
+--   "price": [{"min": 0, "max": 500000, "count": 12}, ..., {"min": 10000000, "max": null, "count": 1}],
+--   "verified": [{"value": "true", "count": 25}, {"value": "false", "count": 17}]
+-- }
+-- Price ranges run between consecutive p_price_breaks, the last one open ended.
+-- Both ends count, as they do for min_price and max_price, so each count is
+-- what choosing that range gives.
+-- Subcategories are counted within the chosen category and subcities within
+-- the chosen city, since they mean little on their own.
+CREATE OR REPLACE FUNCTION listing_facets(
+    p_query TEXT DEFAULT NULL,
+    p_filters JSONB DEFAULT '{}'::JSONB,
+    p_price_breaks NUMERIC[] DEFAULT ARRAY[0]::NUMERIC[]
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_filters JSONB := COALESCE(p_filters, '{}'::JSONB);
+    v_query TSQUERY;
+    v_result JSONB;
+BEGIN
+    IF COALESCE(TRIM(p_query), '') <> '' THEN
+        v_query := listing_search_query(p_query);
+
+        -- Nothing searchable was typed, so nothing matches, as in search_listings
+        IF v_query IS NULL THEN
+            RETURN jsonb_build_object(
+                'total', 0,
+                'category', '[]'::JSONB,
+                'subcategory', '[]'::JSONB,
+                'city', '[]'::JSONB,
+                'subcity', '[]'::JSONB,
+                'price', '[]'::JSONB,
+                'verified', '[]'::JSONB
+            );
+        END IF;
+    END IF;
+
+    SELECT jsonb_build_object(
+        'total', (
+            SELECT COUNT(*) FROM listings l
+            WHERE listing_matches_filters(l, v_filters, v_query)
+        ),
+        'category', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value), '[]'::JSONB)
+            FROM (
+                SELECT l.category::TEXT AS value, COUNT(*) AS count
+                FROM listings l
+                WHERE listing_matches_filters(l, v_filters, v_query, 'category')
+                GROUP BY 1
+            ) facet
+        ),
+        'subcategory', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value), '[]'::JSONB)
+            FROM (
+                SELECT l.subcategory AS value, COUNT(*) AS count
+                FROM listings l
+                WHERE v_filters->>'category' IS NOT NULL
+                AND COALESCE(l.subcategory, '') <> ''
+                AND listing_matches_filters(l, v_filters, v_query, 'subcategory')
+                GROUP BY 1
+            ) facet
+        ),
+        'city', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value), '[]'::JSONB)
+            FROM (
+                SELECT l.location->>'city' AS value, COUNT(*) AS count
+                FROM listings l
+                WHERE COALESCE(l.location->>'city', '') <> ''
+                AND listing_matches_filters(l, v_filters, v_query, 'city')
+                GROUP BY 1
+            ) facet
+        ),
+        'subcity', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY count DESC, value), '[]'::JSONB)
+            FROM (
+                SELECT l.location->>'subcity' AS value, COUNT(*) AS count
+                FROM listings l
+                WHERE v_filters->>'city' IS NOT NULL
+                AND COALESCE(l.location->>'subcity', '') <> ''
+                AND listing_matches_filters(l, v_filters, v_query, 'subcity')
+                GROUP BY 1
+            ) facet
+        ),
+        'price', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('min', bucket.min, 'max', bucket.max, 'count', (
+                SELECT COUNT(*) FROM listings l
+                WHERE l.price >= bucket.min
+                AND (bucket.max IS NULL OR l.price <= bucket.max)
+                AND listing_matches_filters(l, v_filters, v_query, 'price')
+            )) ORDER BY bucket.min), '[]'::JSONB)
+            FROM (
+                SELECT breaks.min, LEAD(breaks.min) OVER (ORDER BY breaks.min) AS max
+                FROM unnest(p_price_breaks) AS breaks(min)
+            ) bucket
+        ),
+        'verified', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object('value', value, 'count', count) ORDER BY value DESC), '[]'::JSONB)
+            FROM (
+                SELECT COALESCE(u.verified, FALSE)::TEXT AS value, COUNT(*) AS count
+                FROM listings l
+                LEFT JOIN users u ON u.id = l.owner_id
+                WHERE listing_matches_filters(l, v_filters, v_query, 'verified')
+                GROUP BY 1
+            ) facet
+        )
+    ) INTO v_result;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION listing_facets(TEXT, JSONB, NUMERIC[]) TO anon, authenticated;
+
+-- =============================================================================
+-- STEP 4: Indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_listings_public_type_category
+ON listings(type, category)
+WHERE status = 'approved' AND verified = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_listings_location_city
+ON listings((location->>'city'), (location->>'subcity'));
+
+-- Success message
+SELECT '✅ Listing facets setup complete!' as message;
@@ -0,0 +1,139 @@
+-- Listing Feature Filters Setup
+-- Filters on the category details in listings.features: year, mileage, fuel
+-- and transmission for cars, and bedrooms, area, furnishing and parking for
+-- properties. The filters shown for each category are in src/lib/listingFeatures.ts.
+-- Run after database/SETUP_LISTING_FACETS.sql
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Store Details With Their Types
+-- =============================================================================
+
+-- Older listings kept some details as text, such as "2015" or "true". Numbers
+-- and flags are compared as JSON below and by getListings, where "9" sorts
+-- above "10" and no text equals a number, so convert them once here. The
+-- listing form stores them as numbers and flags.
+WITH converted AS (
+    SELECT l.id, jsonb_object_agg(
+        f.key,
+        CASE
+            WHEN f.key IN ('furnished', 'parking') THEN to_jsonb(LOWER(TRIM(f.value #>> '{}')) = 'true')
+            ELSE to_jsonb(REPLACE(f.value #>> '{}', ',', '')::NUMERIC)
+        END
+    ) AS features
+    FROM listings l, jsonb_each(l.features) AS f
+    WHERE jsonb_typeof(l.features) = 'object'
+      AND jsonb_typeof(f.value) = 'string'
+      AND (
+          (f.key IN ('year', 'mileage', 'bedrooms', 'bathrooms', 'area')
+              AND REPLACE(f.value #>> '{}', ',', '') ~ '^\s*[0-9]+(\.[0-9]+)?\s*$')
+          OR (f.key IN ('furnished', 'parking')
+              AND LOWER(TRIM(f.value #>> '{}')) IN ('true', 'false'))
+      )
+    GROUP BY l.id
+)
+UPDATE listings
+SET features = listings.features || converted.features
+FROM converted
+WHERE listings.id = converted.id;
+
+-- =============================================================================
+-- STEP 2: Shared Filter Rules
+-- =============================================================================
+
+-- Whether a listing is public and matches the filters. p_filters holds the
+-- SearchFilters sent by ListingsService: type, category, subcategory, city,
+-- subcity, min_price, max_price, verified (whether the seller is verified) and
+-- features, the category details named in FEATURE_FILTER_COLUMNS.
+-- p_skip leaves out one filter, so each facet counts the choices next to the
+-- one already made instead of only the selected value.
+CREATE OR REPLACE FUNCTION listing_matches_filters(
+    l listings,
+    p_filters JSONB,
+    p_query TSQUERY DEFAULT NULL,
+    p_skip TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+    SELECT l.status = 'approved'
+        AND l.verified = TRUE
+        AND (l.expires_at IS NULL OR l.expires_at > NOW())
+        AND (p_query IS NULL OR l.search_vector @@ p_query)
+        AND (p_filters->>'type' IS NULL OR l.type::TEXT = p_filters->>'type')
+        AND (COALESCE(p_skip, '') = 'category' OR p_filters->>'category' IS NULL
+            OR l.category::TEXT = p_filters->>'category')
+        AND (COALESCE(p_skip, '') IN ('category', 'subcategory') OR p_filters->>'subcategory' IS NULL
+            OR l.subcategory = p_filters->>'subcategory')
+        AND (COALESCE(p_skip, '') = 'city' OR p_filters->>'city' IS NULL
+            OR l.location->>'city' = p_filters->>'city')
+        AND (COALESCE(p_skip, '') IN ('city', 'subcity') OR p_filters->>'subcity' IS NULL
+            OR l.location->>'subcity' = p_filters->>'subcity')
+        AND (COALESCE(p_skip, '') = 'price' OR p_filters->>'min_price' IS NULL
+            OR l.price >= (p_filters->>'min_price')::NUMERIC)
+        AND (COALESCE(p_skip, '') = 'price' OR p_filters->>'max_price' IS NULL
+            OR l.price <= (p_filters->>'max_price')::NUMERIC)
+        AND (COALESCE(p_skip, '') = 'verified' OR p_filters->>'verified' IS NULL
+            OR EXISTS (
+                SELECT 1 FROM users u
+                WHERE u.id = l.owner_id
+                AND COALESCE(u.verified, FALSE) = (p_filters->>'verified')::BOOLEAN
+            ))
+        -- Category details, compared as JSON as PostgREST does for getListings.
+        -- A listing without the detail does not match a filter on it. They belong
+        -- to the chosen category, so the category facet leaves them out too.
+        AND (COALESCE(p_skip, '') = 'category' OR p_filters->'features' IS NULL OR (
+            (p_filters->'features'->'year_min' IS NULL
+                OR l.features->'year' >= p_filters->'features'->'year_min')
+            AND (p_filters->'features'->'year_max' IS NULL
+                OR l.features->'year' <= p_filters->'features'->'year_max')
+            AND (p_filters->'features'->'mileage_max' IS NULL
+                OR l.features->'mileage' <= p_filters->'features'->'mileage_max')
+            AND (p_filters->'features'->>'fuel_type' IS NULL
+                OR l.features->>'fuel_type' = p_filters->'features'->>'fuel_type')
+            AND (p_filters->'features'->>'transmission' IS NULL
+                OR l.features->>'transmission' = p_filters->'features'->>'transmission')
+            AND (p_filters->'features'->'bedrooms_min' IS NULL
+                OR l.features->'bedrooms' >= p_filters->'features'->'bedrooms_min')
+            AND (p_filters->'features'->'area_min' IS NULL
+                OR l.features->'area' >= p_filters->'features'->'area_min')
+            AND (p_filters->'features'->'area_max' IS NULL
+                OR l.features->'area' <= p_filters->'features'->'area_max')
+            AND (p_filters->'features'->'furnished' IS NULL
+                OR l.features->'furnished' = p_filters->'features'->'furnished')
+            AND (p_filters->'features'->'parking' IS NULL
+                OR l.features->'parking' = p_filters->'features'->'parking')
+        ));
+$$ LANGUAGE sql STABLE;
+
+-- =============================================================================
+-- STEP 3: Indexes
+-- =============================================================================
+
+-- Public listings of one category, narrowed by a detail. The expressions match
+-- the filters above and the ones PostgREST builds for features->year and
+-- features->>fuel_type.
+CREATE INDEX IF NOT EXISTS idx_listings_features_year
+ON listings(category, (features->'year'))
+WHERE status = 'approved' AND verified = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_listings_features_mileage
+ON listings(category, (features->'mileage'))
+WHERE status = 'approved' AND verified = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_listings_features_fuel_transmission
+ON listings(category, (features->>'fuel_type'), (features->>'transmission'))
+WHERE status = 'approved' AND verified = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_listings_features_bedrooms
+ON listings(category, (features->'bedrooms'))
+WHERE status = 'approved' AND verified = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_listings_features_area
+ON listings(category, (features->'area'))
+WHERE status = 'approved' AND verified = TRUE;
+
+CREATE INDEX IF NOT EXISTS idx_listings_features_furnished_parking
+ON listings(category, (features->'furnished'), (features->'parking'))
+WHERE status = 'approved' AND verified = TRUE;
+
+-- Success message
+SELECT '✅ Listing feature filters setup complete!' as message;
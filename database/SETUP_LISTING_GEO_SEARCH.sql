@@ -0,0 +1,145 @@
+-- Listing Geo Search Setup
+-- Sellers drop a pin when they create a listing, stored in
+-- listings.location.coordinates as {"lat": ..., "lng": ...}. This adds indexed
+-- latitude and longitude columns read from it, and the map searches used by
+-- the Buy and Rent map view: everything inside the visible area, and
+-- everything within a distance of a point ("within 3 km of Bole").
+-- Run after database/SETUP_LISTING_FEATURE_FILTERS.sql
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Coordinate Columns
+-- =============================================================================
+
+-- A latitude or longitude from a listing's location, or NULL when it is
+-- missing, not a number or out of range
+CREATE OR REPLACE FUNCTION listing_coordinate(p_location JSONB, p_axis TEXT)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+    v_value JSONB := p_location->'coordinates'->p_axis;
+    v_number DOUBLE PRECISION;
+BEGIN
+    IF v_value IS NULL OR jsonb_typeof(v_value) <> 'number' THEN
+        RETURN NULL;
+    END IF;
+
+    v_number := (v_value #>> '{}')::DOUBLE PRECISION;
+
+    IF (p_axis = 'lat' AND v_number NOT BETWEEN -90 AND 90)
+    OR (p_axis = 'lng' AND v_number NOT BETWEEN -180 AND 180) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN v_number;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE PARALLEL SAFE;
+
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION
+    GENERATED ALWAYS AS (listing_coordinate(location, 'lat')) STORED;
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION
+    GENERATED ALWAYS AS (listing_coordinate(location, 'lng')) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_listings_coordinates
+ON listings(latitude, longitude)
+WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- Great-circle distance in kilometres
+CREATE OR REPLACE FUNCTION distance_km(
+    p_lat1 DOUBLE PRECISION,
+    p_lng1 DOUBLE PRECISION,
+    p_lat2 DOUBLE PRECISION,
+    p_lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT 2 * 6371 * ASIN(SQRT(
+        POWER(SIN(RADIANS(p_lat2 - p_lat1) / 2), 2)
+        + COS(RADIANS(p_lat1)) * COS(RADIANS(p_lat2)) * POWER(SIN(RADIANS(p_lng2 - p_lng1) / 2), 2)
+    ));
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- =============================================================================
+-- STEP 2: Map Searches
+-- =============================================================================
+
+-- Pinned listings inside a map area that match the filters and search text,
+-- as read by listing_matches_filters. An area crossing the 180th meridian has
+-- p_west greater than p_east.
+CREATE OR REPLACE FUNCTION listings_in_bounds(
+    p_south DOUBLE PRECISION,
+    p_west DOUBLE PRECISION,
+    p_north DOUBLE PRECISION,
+    p_east DOUBLE PRECISION,
+    p_filters JSONB DEFAULT '{}'::JSONB,
+    p_query TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 500
+)
+RETURNS SETOF listings AS $$
+DECLARE
+    v_query TSQUERY;
+BEGIN
+    IF COALESCE(TRIM(p_query), '') <> '' THEN
+        v_query := listing_search_query(p_query);
+        IF v_query IS NULL THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    SELECT l.*
+    FROM listings l
+    WHERE l.latitude BETWEEN p_south AND p_north
+      AND (
+          (p_west <= p_east AND l.longitude BETWEEN p_west AND p_east)
+          OR (p_west > p_east AND (l.longitude >= p_west OR l.longitude <= p_east))
+      )
+      AND listing_matches_filters(l, COALESCE(p_filters, '{}'::JSONB), v_query)
+    ORDER BY l.created_at DESC
+    LIMIT LEAST(COALESCE(p_limit, 500), 1000);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Pinned listings within p_radius_km of a point, nearest first. The square
+-- around the circle narrows the search through the coordinate index before
+-- exact distances are worked out.
+CREATE OR REPLACE FUNCTION listings_near(
+    p_lat DOUBLE PRECISION,
+    p_lng DOUBLE PRECISION,
+    p_radius_km DOUBLE PRECISION,
+    p_filters JSONB DEFAULT '{}'::JSONB,
+    p_query TEXT DEFAULT NULL,
+    p_limit INTEGER DEFAULT 500
+)
+RETURNS SETOF listings AS $$
+DECLARE
+    v_query TSQUERY;
+    v_lat_delta DOUBLE PRECISION := p_radius_km / 111.045;
+    v_lng_delta DOUBLE PRECISION := p_radius_km / (111.045 * GREATEST(COS(RADIANS(p_lat)), 0.01));
+BEGIN
+    IF p_radius_km IS NULL OR p_radius_km <= 0 OR p_radius_km > 100 THEN
+        RAISE EXCEPTION 'Search radius must be between 0 and 100 km';
+    END IF;
+
+    IF COALESCE(TRIM(p_query), '') <> '' THEN
+        v_query := listing_search_query(p_query);
+        IF v_query IS NULL THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    SELECT l.*
+    FROM listings l
+    WHERE l.latitude BETWEEN p_lat - v_lat_delta AND p_lat + v_lat_delta
+      AND l.longitude BETWEEN p_lng - v_lng_delta AND p_lng + v_lng_delta
+      AND distance_km(p_lat, p_lng, l.latitude, l.longitude) <= p_radius_km
+      AND listing_matches_filters(l, COALESCE(p_filters, '{}'::JSONB), v_query)
+    ORDER BY distance_km(p_lat, p_lng, l.latitude, l.longitude), l.created_at DESC
+    LIMIT LEAST(COALESCE(p_limit, 500), 1000);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION listings_in_bounds(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, JSONB, TEXT, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION listings_near(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, JSONB, TEXT, INTEGER) TO anon, authenticated;
+
+-- Success message
+SELECT '✅ Listing geo search setup complete!' as message;
@@ -0,0 +1,179 @@
+-- Listing Reservations Setup
+-- Reserves a listing for the buyer whose transaction starts first, so a second
+-- buyer cannot pay for it at the same time. The reservation lapses if payment
+-- is not completed, is held once the buyer has paid, and the listing is marked
+-- sold or rented when escrow is released.
+-- Run after database/SETUP_PAYMENT_ATTEMPTS.sql
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Reservation Columns
+-- =============================================================================
+
+-- reserved_by is the transaction holding the listing. reserved_until is when an
+-- unpaid reservation lapses; it is NULL once the buyer has paid.
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS reserved_by UUID REFERENCES transactions(id) ON DELETE SET NULL;
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS reserved_until TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_listings_reserved_by
+ON listings(reserved_by)
+WHERE reserved_by IS NOT NULL;
+
+-- Set on a transaction paid after its listing went to someone else. It is
+-- never released to the seller automatically; an admin refunds it.
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS refund_required_reason TEXT;
+
+-- =============================================================================
+-- STEP 2: Reserve a Listing for a Transaction
+-- =============================================================================
+
+-- Takes or extends the reservation for a transaction's listing. The listing row
+-- is locked first, so of two buyers starting at once only one gets it.
+-- Minutes match CHECKOUT_ABANDON_MINUTES in supabase/functions/_shared/reconciliation.ts,
+-- after which payment-reconcile cancels the checkout and the reservation is released.
+CREATE OR REPLACE FUNCTION reserve_listing(p_transaction_id UUID)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+    v_transaction transactions%ROWTYPE;
+    v_listing listings%ROWTYPE;
+    v_until TIMESTAMPTZ := NOW() + INTERVAL '60 minutes';
+BEGIN
+    SELECT * INTO v_transaction FROM transactions WHERE id = p_transaction_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Transaction not found';
+    END IF;
+
+    SELECT * INTO v_listing FROM listings WHERE id = v_transaction.listing_id FOR UPDATE;
+
+    IF NOT FOUND OR v_listing.status <> 'approved' THEN
+        RAISE EXCEPTION 'This listing is no longer available';
+    END IF;
+
+    IF v_listing.reserved_by IS NOT NULL
+    AND v_listing.reserved_by <> p_transaction_id
+    AND (v_listing.reserved_until IS NULL OR v_listing.reserved_until > NOW()) THEN
+        RAISE EXCEPTION 'This listing is reserved by another buyer';
+    END IF;
+
+    UPDATE listings
+    SET reserved_by = p_transaction_id,
+        reserved_until = v_until
+    WHERE id = v_listing.id;
+
+    RETURN v_until;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the database and the payment functions reserve listings
+REVOKE EXECUTE ON FUNCTION reserve_listing(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_listing(UUID) TO service_role;
+
+-- =============================================================================
+-- STEP 3: Reserve When a Transaction Starts
+-- =============================================================================
+
+-- Raising here rolls back the insert, so the second buyer never gets a transaction
+CREATE OR REPLACE FUNCTION reserve_listing_for_new_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM reserve_listing(NEW.id);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS transactions_reserve_listing ON transactions;
+CREATE TRIGGER transactions_reserve_listing
+AFTER INSERT ON transactions
+FOR EACH ROW
+EXECUTE FUNCTION reserve_listing_for_new_transaction();
+
+-- =============================================================================
+-- STEP 4: Follow the Transaction Status
+-- =============================================================================
+
+-- Webhooks, the admin panel and the scheduled jobs all move transactions, so
+-- the reservation follows the status here rather than in each of them
+CREATE OR REPLACE FUNCTION update_listing_reservation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IN ('payment_completed', 'paid', 'escrowed', 'disputed') THEN
+        -- Paid: hold the listing until escrow is released or refunded
+        UPDATE listings
+        SET reserved_by = NEW.id,
+            reserved_until = NULL
+        WHERE id = NEW.listing_id
+        AND status NOT IN ('sold', 'rented')
+        AND (reserved_by IS NULL OR reserved_by = NEW.id OR reserved_until <= NOW());
+
+        -- The payment came in after the reservation lapsed and another buyer
+        -- took the listing, or it was sold. The gateway has the money either
+        -- way, so the transaction is flagged for an admin to refund and kept
+        -- out of the automatic release.
+        IF NOT FOUND THEN
+            UPDATE transactions
+            SET refund_required_reason = 'Paid after the listing''s reservation lapsed and it went to another buyer',
+                escrow_release_at = NULL
+            WHERE id = NEW.id;
+        END IF;
+    ELSIF NEW.status IN ('cancelled', 'refunded') THEN
+        UPDATE listings
+        SET reserved_by = NULL,
+            reserved_until = NULL
+        WHERE id = NEW.listing_id
+        AND reserved_by = NEW.id;
+    ELSIF NEW.status = 'released' THEN
+        UPDATE listings
+        SET status = 'rented',
+            reserved_by = NULL,
+            reserved_until = NULL,
+            updated_at = NOW()
+        WHERE id = NEW.listing_id AND type = 'rent';
+
+        UPDATE listings
+        SET status = 'sold',
+            reserved_by = NULL,
+            reserved_until = NULL,
+            updated_at = NOW()
+        WHERE id = NEW.listing_id AND type <> 'rent';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS transactions_update_listing_reservation ON transactions;
+CREATE TRIGGER transactions_update_listing_reservation
+AFTER UPDATE OF status ON transactions
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION update_listing_reservation();
+
+-- =============================================================================
+-- STEP 5: Reserve Listings With Transactions in Progress
+-- =============================================================================
+
+-- Paid transactions hold their listing until they finish
+UPDATE listings l
+SET reserved_by = t.id,
+    reserved_until = NULL
+FROM transactions t
+WHERE t.listing_id = l.id
+AND t.status IN ('payment_completed', 'paid', 'escrowed', 'disputed')
+AND l.reserved_by IS NULL;
+
+-- The newest open checkout holds the rest for the usual time
+UPDATE listings l
+SET reserved_by = t.id,
+    reserved_until = NOW() + INTERVAL '60 minutes'
+FROM (
+    SELECT DISTINCT ON (listing_id) id, listing_id
+    FROM transactions
+    WHERE status IN ('pending', 'payment_initiated')
+    ORDER BY listing_id, created_at DESC
+) t
+WHERE t.listing_id = l.id
+AND l.reserved_by IS NULL;
+
+-- Success message
+SELECT '✅ Listing reservations setup complete!' as message;
@@ -0,0 +1,221 @@
+-- Listing Search Setup
+-- Full-text search over listing titles, descriptions, tags, subcategories and
+-- locations, ranked by relevance with highlighted snippets. Amharic text is
+-- split on Ethiopic punctuation and its interchangeable letters are folded
+-- together, so ሐ, ኀ and ሀ (and ሠ/ሰ, ዐ/አ, ፀ/ጸ) match each other.
+-- Used by ListingsService.searchListings and the Buy and Rent pages
+-- Run after database/SETUP_CONTRACT_SIGNATURES.sql
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Normalize Search Text
+-- =============================================================================
+
+-- Lowercases, turns Ethiopic word spaces and punctuation (፡ ። ፣ ፤ ...) into
+-- spaces and folds each homophone letter family onto one spelling, in all its
+-- vowel orders. Applied to listings and to queries alike.
+CREATE OR REPLACE FUNCTION normalize_search_text(p_text TEXT)
+RETURNS TEXT AS $$
+    SELECT translate(
+        translate(LOWER(COALESCE(p_text, '')), '፠፡።፣፤፥፦፧፨', '         '),
+        'ሐሑሒሓሔሕሖሗኀኁኂኃኄኅኆኇሠሡሢሣሤሥሦሧዐዑዒዓዔዕዖፀፁፂፃፄፅፆ',
+        'ሀሁሂሃሄህሆሇሀሁሂሃሄህሆሇሰሱሲሳሴስሶሷአኡኢኣኤእኦጸጹጺጻጼጽጾ'
+    );
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Title first, then tags and subcategory, then location, then description.
+-- English words are also stemmed, so "houses" finds "house". The simple
+-- configuration keeps Amharic words, which have no stemmer, as they are.
+CREATE OR REPLACE FUNCTION listing_search_vector(
+    p_title TEXT,
+    p_description TEXT,
+    p_tags TEXT[],
+    p_subcategory TEXT,
+    p_location JSONB
+)
+RETURNS TSVECTOR AS $$
+DECLARE
+    v_tags TEXT := COALESCE(array_to_string(p_tags, ' '), '') || ' ' || COALESCE(p_subcategory, '');
+    v_location TEXT := concat_ws(' ',
+        p_location->>'city',
+        p_location->>'subcity',
+        p_location->>'woreda',
+        p_location->>'specific_location'
+    );
+BEGIN
+    RETURN setweight(to_tsvector('english', COALESCE(p_title, '')), 'A')
+        || setweight(to_tsvector('simple', normalize_search_text(p_title)), 'A')
+        || setweight(to_tsvector('simple', normalize_search_text(v_tags)), 'B')
+        || setweight(to_tsvector('simple', normalize_search_text(v_location)), 'C')
+        || setweight(to_tsvector('english', COALESCE(p_description, '')), 'D')
+        || setweight(to_tsvector('simple', normalize_search_text(p_description)), 'D');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- =============================================================================
+-- STEP 2: Search Column and Index
+-- =============================================================================
+
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION update_listing_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector := listing_search_vector(
+        NEW.title,
+        NEW.description,
+        NEW.tags,
+        NEW.subcategory,
+        NEW.location
+    );
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS listings_update_search_vector ON listings;
+CREATE TRIGGER listings_update_search_vector
+    BEFORE INSERT OR UPDATE OF title, description, tags, subcategory, location ON listings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_listing_search_vector();
+
+-- Index existing listings
+UPDATE listings
+SET search_vector = listing_search_vector(title, description, tags, subcategory, location);
+
+CREATE INDEX IF NOT EXISTS idx_listings_search_vector
+ON listings USING GIN (search_vector);
+
+-- =============================================================================
+-- STEP 3: Search Function
+-- =============================================================================
+
+-- Turns what the user typed into a query. Quoted phrases, OR and -exclusions
+-- work as on web search engines; every word that is not excluded also matches
+-- as a prefix, so "ቤ" finds ቤት and ቤቶች while the user is still typing.
+-- Excluded words only match exactly. Commas, brackets and other punctuation
+-- are ignored rather than breaking the query.
+CREATE OR REPLACE FUNCTION listing_search_query(p_query TEXT)
+RETURNS TSQUERY AS $$
+DECLARE
+    v_exact TSQUERY := websearch_to_tsquery('simple', normalize_search_text(p_query));
+    v_prefix TEXT := '';
+    v_token TEXT;
+    v_depth INTEGER := 0;
+    v_excluded_depth INTEGER; -- Depth of the !( ... ) group being read, if any
+    v_after_not BOOLEAN := false;
+BEGIN
+    IF numnode(v_exact) = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    -- Rebuild the parsed query token by token, marking each lexeme as a
+    -- prefix unless it follows ! or sits inside a negated group, so phrases,
+    -- OR and exclusions keep their meaning in the prefix form
+    FOR v_token IN
+        SELECT m[1]
+        FROM regexp_matches(v_exact::TEXT, $re$('(?:[^']|'')*'|<[0-9]+>|<->|[!&|()])$re$, 'g') AS m
+    LOOP
+        IF v_token = '(' THEN
+            v_depth := v_depth + 1;
+            IF v_after_not AND v_excluded_depth IS NULL THEN
+                v_excluded_depth := v_depth;
+            END IF;
+        ELSIF v_token = ')' THEN
+            IF v_excluded_depth = v_depth THEN
+                v_excluded_depth := NULL;
+            END IF;
+            v_depth := v_depth - 1;
+        ELSIF left(v_token, 1) = '''' AND NOT v_after_not AND v_excluded_depth IS NULL THEN
+            v_token := v_token || ':*';
+        END IF;
+
+        v_after_not := v_token = '!';
+        v_prefix := v_prefix || ' ' || v_token;
+    END LOOP;
+
+    -- Both sides carry the exclusions, so OR-ing them cannot let an excluded
+    -- listing back in
+    RETURN websearch_to_tsquery('english', p_query)
+        || to_tsquery('simple', v_prefix);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Approved, verified, unexpired listings matching the query, best match first
+-- unless another order is asked for. Highlights are wrapped in [[mark]] and
+-- [[/mark]], which the web app turns into <mark> elements; ts_headline's own
+-- HTML is never rendered because listing text is user input.
+CREATE OR REPLACE FUNCTION search_listings(
+    p_query TEXT,
+    p_type TEXT DEFAULT NULL,
+    p_category TEXT DEFAULT NULL,
+    p_city TEXT DEFAULT NULL,
+    p_min_price NUMERIC DEFAULT NULL,
+    p_max_price NUMERIC DEFAULT NULL,
+    p_sort TEXT DEFAULT 'relevance',
+    p_limit INTEGER DEFAULT 12,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT,
+    total_count BIGINT
+) AS $$
+DECLARE
+    v_query TSQUERY := listing_search_query(p_query);
+BEGIN
+    IF v_query IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    WITH matches AS (
+        SELECT
+            l.*,
+            ts_rank_cd(l.search_vector, v_query) AS match_rank,
+            COUNT(*) OVER () AS match_count
+        FROM listings l
+        WHERE l.search_vector @@ v_query
+          AND l.status = 'approved'
+          AND l.verified = TRUE
+          AND (l.expires_at IS NULL OR l.expires_at > NOW())
+          AND (p_type IS NULL OR l.type::TEXT = p_type)
+          AND (p_category IS NULL OR l.category::TEXT = p_category)
+          AND (p_city IS NULL OR l.location->>'city' = p_city)
+          AND (p_min_price IS NULL OR l.price >= p_min_price)
+          AND (p_max_price IS NULL OR l.price <= p_max_price)
+        ORDER BY
+            CASE WHEN p_sort = 'price_asc' THEN l.price END ASC,
+            CASE WHEN p_sort = 'price_desc' THEN l.price END DESC,
+            CASE WHEN p_sort = 'views_desc' THEN l.views END DESC,
+            CASE WHEN p_sort = 'date_desc' THEN l.created_at END DESC,
+            match_rank DESC,
+            l.created_at DESC
+        LIMIT p_limit
+        OFFSET p_offset
+    )
+    -- Headlines are only worked out for the page being returned
+    SELECT
+        m.id,
+        m.match_rank,
+        ts_headline('english', m.title, v_query,
+            'StartSel=[[mark]], StopSel=[[/mark]], HighlightAll=true'),
+        ts_headline('english', m.description, v_query,
+            'StartSel=[[mark]], StopSel=[[/mark]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'),
+        m.match_count
+    FROM matches m
+    ORDER BY
+        CASE WHEN p_sort = 'price_asc' THEN m.price END ASC,
+        CASE WHEN p_sort = 'price_desc' THEN m.price END DESC,
+        CASE WHEN p_sort = 'views_desc' THEN m.views END DESC,
+        CASE WHEN p_sort = 'date_desc' THEN m.created_at END DESC,
+        m.match_rank DESC,
+        m.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_listings(TEXT, TEXT, TEXT, TEXT, NUMERIC, NUMERIC, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+-- Success message
+SELECT '✅ Listing search setup complete!' as message;
@@ -0,0 +1,100 @@
+-- Buyer–Seller Messaging Setup
+-- Turns the inquiries table into two-party conversation threads per listing
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Add Conversation Columns to Inquiries
+-- =============================================================================
+
+-- user_id is the sender, recipient_id is the other party of the thread
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS recipient_id UUID REFERENCES users(id) ON DELETE CASCADE;
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS read BOOLEAN DEFAULT false;
+ALTER TABLE inquiries ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+
+-- Existing inquiries were always addressed to the listing owner
+UPDATE inquiries i
+SET recipient_id = l.owner_id
+FROM listings l
+WHERE i.listing_id = l.id AND i.recipient_id IS NULL;
+
+-- =============================================================================
+-- STEP 2: Create Indexes for Performance
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_inquiries_listing_id
+ON inquiries(listing_id);
+
+CREATE INDEX IF NOT EXISTS idx_inquiries_user_id
+ON inquiries(user_id);
+
+-- Unread counts per recipient
+CREATE INDEX IF NOT EXISTS idx_inquiries_recipient_unread
+ON inquiries(recipient_id, read);
+
+CREATE INDEX IF NOT EXISTS idx_inquiries_created_at
+ON inquiries(created_at DESC);
+
+-- =============================================================================
+-- STEP 3: Enable RLS (Row Level Security)
+-- =============================================================================
+
+ALTER TABLE inquiries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view their messages" ON inquiries;
+DROP POLICY IF EXISTS "Users can send messages" ON inquiries;
+DROP POLICY IF EXISTS "Recipients can mark messages as read" ON inquiries;
+
+-- Policy: Only the two parties of a thread can read it
+CREATE POLICY "Participants can view their messages" ON inquiries
+FOR SELECT
+USING (auth.uid() = user_id OR auth.uid() = recipient_id);
+
+-- Policy: Users can only send messages as themselves
+CREATE POLICY "Users can send messages" ON inquiries
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND user_id <> recipient_id);
+
+-- Policy: Recipients can mark messages as read
+CREATE POLICY "Recipients can mark messages as read" ON inquiries
+FOR UPDATE
+USING (auth.uid() = recipient_id)
+WITH CHECK (auth.uid() = recipient_id);
+
+-- Users may only change read and read_at; the message, its sender and its
+-- recipient stay as sent
+CREATE OR REPLACE FUNCTION check_inquiry_read_only_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() <> 'service_role'
+        AND (to_jsonb(NEW) - 'read' - 'read_at' - 'updated_at')
+            IS DISTINCT FROM (to_jsonb(OLD) - 'read' - 'read_at' - 'updated_at') THEN
+        RAISE EXCEPTION 'Only read and read_at can be changed on a message';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS inquiries_read_only_update ON inquiries;
+CREATE TRIGGER inquiries_read_only_update
+BEFORE UPDATE ON inquiries
+FOR EACH ROW
+EXECUTE FUNCTION check_inquiry_read_only_update();
+
+-- =============================================================================
+-- STEP 4: Enable Realtime Delivery
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'inquiries'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE inquiries;
+        RAISE NOTICE 'Added inquiries to supabase_realtime';
+    END IF;
+END $$;
+
+-- Success message
+SELECT '✅ Messaging setup complete!' as message;
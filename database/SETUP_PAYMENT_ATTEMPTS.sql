@@ -0,0 +1,120 @@
+-- Payment Attempts Setup
+-- Keeps one open checkout per buyer and listing, which every retry and payment
+-- method switch reuses, and records each attempt to pay for it.
+-- Abandoned checkouts are cancelled by payment-reconcile
+-- (see database/SETUP_PAYMENT_RECONCILIATION.sql)
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Cancel Orphaned Checkouts
+-- =============================================================================
+
+-- Earlier retries each created a new transaction. Keep the newest open one per
+-- buyer and listing and cancel the rest, so the index below can be created.
+UPDATE transactions t
+SET status = 'cancelled',
+    timeline = COALESCE(t.timeline, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+        'status', 'cancelled',
+        'timestamp', NOW(),
+        'notes', 'Replaced by a newer checkout for the same listing',
+        'updated_by', 'system'
+    )),
+    updated_at = NOW()
+WHERE t.status IN ('pending', 'payment_initiated')
+AND EXISTS (
+    SELECT 1 FROM transactions newer
+    WHERE newer.buyer_id = t.buyer_id
+    AND newer.listing_id = t.listing_id
+    AND newer.status IN ('pending', 'payment_initiated')
+    AND (newer.created_at, newer.id) > (t.created_at, t.id)
+);
+
+-- =============================================================================
+-- STEP 2: One Open Checkout per Buyer and Listing
+-- =============================================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_open_checkout
+ON transactions(buyer_id, listing_id)
+WHERE status IN ('pending', 'payment_initiated');
+
+-- =============================================================================
+-- STEP 3: Create Payment Attempts Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS payment_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transaction_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    payment_method VARCHAR(20) NOT NULL,
+    reference TEXT, -- Gateway reference, once the gateway has accepted the attempt
+    status VARCHAR(20) NOT NULL DEFAULT 'started'
+        CHECK (status IN ('started', 'failed', 'superseded', 'abandoned', 'completed', 'cancelled')),
+    error TEXT, -- Why the gateway refused to start checkout
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMPTZ
+);
+
+-- =============================================================================
+-- STEP 4: Create Indexes for Performance
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_payment_attempts_transaction
+ON payment_attempts(transaction_id, created_at DESC);
+
+-- Webhooks, reconciliation and settlement imports find transactions by the
+-- reference of any of their checkouts, not only the latest
+CREATE INDEX IF NOT EXISTS idx_payment_attempts_reference
+ON payment_attempts(payment_method, reference)
+WHERE reference IS NOT NULL;
+
+-- =============================================================================
+-- STEP 5: Close Attempts When Payment Finishes
+-- =============================================================================
+
+-- Webhooks, the return page and the scheduled job all finish payments, so the
+-- open attempt is closed here rather than in each of them
+CREATE OR REPLACE FUNCTION close_payment_attempts()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE payment_attempts
+    SET status = CASE WHEN NEW.status = 'cancelled' THEN 'cancelled' ELSE 'completed' END,
+        ended_at = NOW()
+    WHERE transaction_id = NEW.id AND status = 'started';
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_close_payment_attempts ON transactions;
+CREATE TRIGGER transactions_close_payment_attempts
+AFTER UPDATE OF status ON transactions
+FOR EACH ROW
+WHEN (OLD.status IN ('pending', 'payment_initiated') AND NEW.status NOT IN ('pending', 'payment_initiated'))
+EXECUTE FUNCTION close_payment_attempts();
+
+-- =============================================================================
+-- STEP 6: Enable RLS (Row Level Security)
+-- =============================================================================
+
+ALTER TABLE payment_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties and admins can read payment attempts" ON payment_attempts;
+
+CREATE POLICY "Parties and admins can read payment attempts" ON payment_attempts
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM transactions
+        WHERE transactions.id = payment_attempts.transaction_id
+        AND (transactions.buyer_id = auth.uid() OR transactions.seller_id = auth.uid())
+    )
+    OR EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+-- No INSERT, UPDATE or DELETE policies: only payment-initialize and
+-- payment-reconcile write attempts
+
+-- Success message
+SELECT '✅ Payment attempts setup complete!' as message;
@@ -0,0 +1,63 @@
+-- Payment Events Setup
+-- One row per gateway webhook event, so retried deliveries are processed once
+-- Written only by the payment webhook functions with the service role key
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Create Payment Events Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS payment_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    gateway VARCHAR(20) NOT NULL, -- chapa, telebirr, bibit
+    event_id TEXT NOT NULL, -- Gateway event ID, shared by retries of the same event
+    reference TEXT NOT NULL, -- Gateway reference stored in transactions.payment_details
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    gateway_status TEXT,
+    amount DECIMAL(15,2),
+    currency VARCHAR(3),
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'processing'
+        CHECK (status IN ('processing', 'processed', 'rejected', 'failed')),
+    error TEXT, -- Why the event was rejected or failed
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    processed_at TIMESTAMPTZ,
+    UNIQUE (gateway, event_id)
+);
+
+-- =============================================================================
+-- STEP 2: Create Indexes for Performance
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_transaction
+ON payment_events(transaction_id, received_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_reference
+ON payment_events(gateway, reference);
+
+-- Rejected and failed events need an admin to look at them
+CREATE INDEX IF NOT EXISTS idx_payment_events_unresolved
+ON payment_events(received_at DESC)
+WHERE status IN ('rejected', 'failed');
+
+-- =============================================================================
+-- STEP 3: Enable RLS (Row Level Security)
+-- =============================================================================
+
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read payment events" ON payment_events;
+
+CREATE POLICY "Admins can read payment events" ON payment_events
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+-- No INSERT, UPDATE or DELETE policies: only the webhook functions write events
+
+-- Success message
+SELECT '✅ Payment events setup complete!' as message;
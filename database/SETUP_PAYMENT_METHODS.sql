@@ -0,0 +1,33 @@
+-- Payment Methods Setup
+-- Adds CBE Birr, M-Pesa Ethiopia and the test-only sandbox gateway to the
+-- payment methods a transaction can use
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Payment Method Enum
+-- =============================================================================
+
+-- Only needed where transactions.payment_method uses the payment_method enum
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'payment_method') THEN
+        ALTER TYPE payment_method ADD VALUE IF NOT EXISTS 'cbe_birr';
+        ALTER TYPE payment_method ADD VALUE IF NOT EXISTS 'mpesa';
+        -- Rejected by the payment functions unless PAYMENT_SANDBOX_ENABLED=true
+        ALTER TYPE payment_method ADD VALUE IF NOT EXISTS 'sandbox';
+    END IF;
+END $$;
+
+-- =============================================================================
+-- STEP 2: Verify
+-- =============================================================================
+
+SELECT enumlabel
+FROM pg_enum
+WHERE enumtypid = (
+    SELECT oid FROM pg_type WHERE typname = 'payment_method'
+)
+ORDER BY enumsortorder;
+
+-- Success message
+SELECT '✅ Payment methods setup complete!' as message;
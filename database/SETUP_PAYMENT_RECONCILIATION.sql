@@ -0,0 +1,175 @@
+-- Payment Reconciliation Setup
+-- Settlement imports and the mismatch report behind Reconciliation in the admin
+-- panel, and the schedule for the payment-reconcile edge function, which
+-- re-verifies transactions stuck in payment_initiated with their gateway
+-- Deploy the functions first: supabase functions deploy payment-reconcile payment-settlement-import
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Reconciliation Column
+-- =============================================================================
+
+-- When payment-reconcile last asked the gateway about this transaction
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS last_reconciled_at TIMESTAMPTZ;
+
+-- =============================================================================
+-- STEP 2: Create Settlement Tables
+-- =============================================================================
+
+-- One row per settlement CSV export imported by an admin
+CREATE TABLE IF NOT EXISTS payment_settlement_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    gateway VARCHAR(20) NOT NULL, -- payment_method value
+    file_name TEXT NOT NULL,
+    file_hash TEXT NOT NULL, -- SHA-256 of the file, so the same export is imported once
+    row_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0, -- Rows without a reference or amount
+    matched_count INTEGER NOT NULL DEFAULT 0,
+    mismatch_count INTEGER NOT NULL DEFAULT 0,
+    period_start DATE, -- First and last settlement day in the file
+    period_end DATE,
+    imported_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (gateway, file_hash)
+);
+
+-- Every payment the gateways report as settled
+CREATE TABLE IF NOT EXISTS payment_settlement_rows (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    import_id UUID NOT NULL REFERENCES payment_settlement_imports(id) ON DELETE CASCADE,
+    gateway VARCHAR(20) NOT NULL,
+    reference TEXT NOT NULL, -- Gateway reference stored in transactions.payment_details
+    amount DECIMAL(15,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL,
+    settled_at TIMESTAMPTZ,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    raw JSONB NOT NULL -- The CSV row as exported
+);
+
+-- =============================================================================
+-- STEP 3: Create Mismatch Report Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS payment_mismatches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    gateway VARCHAR(20) NOT NULL,
+    kind VARCHAR(20) NOT NULL
+        CHECK (kind IN ('missing', 'duplicate', 'amount_differs')),
+    source VARCHAR(20) NOT NULL -- Found by the scheduled job or a settlement import
+        CHECK (source IN ('reconciliation', 'settlement')),
+    reference TEXT NOT NULL,
+    transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    import_id UUID REFERENCES payment_settlement_imports(id) ON DELETE CASCADE,
+    expected_amount DECIMAL(15,2), -- Transaction amount
+    reported_amount DECIMAL(15,2), -- Amount the gateway reported
+    currency VARCHAR(3),
+    message TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'resolved')),
+    resolution_note TEXT,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =============================================================================
+-- STEP 4: Create Indexes for Performance
+-- =============================================================================
+
+-- The scheduled job looks for stale payment_initiated transactions
+CREATE INDEX IF NOT EXISTS idx_transactions_payment_initiated
+ON transactions(last_reconciled_at NULLS FIRST)
+WHERE status = 'payment_initiated';
+
+CREATE INDEX IF NOT EXISTS idx_payment_settlement_rows_reference
+ON payment_settlement_rows(gateway, reference);
+
+CREATE INDEX IF NOT EXISTS idx_payment_mismatches_status
+ON payment_mismatches(status, created_at DESC);
+
+-- Each scheduled run finds the same problems again; keep one open row per problem
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_mismatches_open_reconciliation
+ON payment_mismatches(gateway, reference, kind)
+WHERE source = 'reconciliation' AND status = 'open';
+
+-- =============================================================================
+-- STEP 5: Enable RLS (Row Level Security)
+-- =============================================================================
+
+ALTER TABLE payment_settlement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_settlement_rows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_mismatches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read settlement imports" ON payment_settlement_imports;
+DROP POLICY IF EXISTS "Admins can read settlement rows" ON payment_settlement_rows;
+DROP POLICY IF EXISTS "Admins can read payment mismatches" ON payment_mismatches;
+DROP POLICY IF EXISTS "Admins can resolve payment mismatches" ON payment_mismatches;
+
+CREATE POLICY "Admins can read settlement imports" ON payment_settlement_imports
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+CREATE POLICY "Admins can read settlement rows" ON payment_settlement_rows
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+CREATE POLICY "Admins can read payment mismatches" ON payment_mismatches
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+CREATE POLICY "Admins can resolve payment mismatches" ON payment_mismatches
+FOR UPDATE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+)
+WITH CHECK (
+    resolved_by = auth.uid()
+);
+
+-- No INSERT or DELETE policies: only the reconciliation functions add rows
+
+-- =============================================================================
+-- STEP 6: Schedule the Edge Function
+-- =============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Replace <project-ref> and <service-role-key> before running.
+-- The function rejects calls without the service role key or an admin session.
+SELECT cron.unschedule('payment-reconcile')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'payment-reconcile');
+
+SELECT cron.schedule(
+    'payment-reconcile',
+    '*/30 * * * *', -- Every 30 minutes
+    $$
+    SELECT net.http_post(
+        url := 'https://<project-ref>.supabase.co/functions/v1/payment-reconcile',
+        headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb,
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+-- Success message
+SELECT '✅ Payment reconciliation setup complete!' as message;
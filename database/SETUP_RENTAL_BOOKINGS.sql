@@ -0,0 +1,428 @@
+-- Rental Bookings Setup
+-- Books rent listings for dates instead of selling them outright. A booking
+-- holds its dates on the listing's availability calendar, its security deposit
+-- is held in escrow for the length of the stay, and monthly and yearly rent is
+-- paid period by period from the rent ledger.
+-- Schedules the rent-reminders edge function, which reminds renters before rent
+-- is due, closes bookings once they end and queues unclaimed deposits for refund
+-- Deploy the function first: supabase functions deploy rent-reminders
+-- Run after database/SETUP_LISTING_RESERVATIONS.sql
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Notification Types
+-- =============================================================================
+
+-- Only needed where notifications.type uses the notification_type enum
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type') THEN
+        ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'rent_due';
+        ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'rent_overdue';
+        ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'rental_ended';
+    END IF;
+END $$;
+
+-- =============================================================================
+-- STEP 2: Create Rental Tables
+-- =============================================================================
+
+-- Needed to keep bookings of the same listing from overlapping
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Security deposit asked of renters. NULL means one period's rent.
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS security_deposit NUMERIC(15,2) CHECK (security_deposit >= 0);
+
+-- Terms are copied from the listing when the booking is made (see STEP 4)
+CREATE TABLE IF NOT EXISTS rental_bookings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    listing_id UUID NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+    renter_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    owner_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL, -- First day after the stay
+    rent_period VARCHAR(20) NOT NULL CHECK (rent_period IN ('daily', 'weekly', 'monthly', 'yearly')),
+    period_count INTEGER NOT NULL CHECK (period_count > 0),
+    rent_amount NUMERIC(15,2) NOT NULL, -- Per period
+    deposit_amount NUMERIC(15,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL DEFAULT 'ETB',
+    -- pending until the deposit is paid, confirmed for the stay, then completed
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'confirmed', 'completed', 'cancelled')),
+    confirmed_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    cancelled_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (end_date > start_date),
+    -- Pending bookings hold their dates too, until their checkout is abandoned
+    EXCLUDE USING gist (
+        listing_id WITH =,
+        daterange(start_date, end_date, '[)') WITH &&
+    ) WHERE (status IN ('pending', 'confirmed'))
+);
+
+-- Set by rent-reminders when the owner's claim window on the deposit has
+-- passed and admins have been asked to refund it
+ALTER TABLE rental_bookings ADD COLUMN IF NOT EXISTS deposit_refund_requested_at TIMESTAMPTZ;
+
+-- The rent ledger: one row per rent payment, created with the booking
+CREATE TABLE IF NOT EXISTS rent_payments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    booking_id UUID NOT NULL REFERENCES rental_bookings(id) ON DELETE CASCADE,
+    period_number INTEGER NOT NULL,
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    due_date DATE NOT NULL,
+    amount NUMERIC(15,2) NOT NULL,
+    currency VARCHAR(3) NOT NULL DEFAULT 'ETB',
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'paid', 'cancelled')),
+    paid_at TIMESTAMPTZ,
+    reminder_sent_at TIMESTAMPTZ,
+    overdue_notice_sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (booking_id, period_number)
+);
+
+-- The deposit transaction has only rental_booking_id set; rent transactions
+-- also point at the rent payment they pay
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS rental_booking_id UUID REFERENCES rental_bookings(id) ON DELETE SET NULL;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS rent_payment_id UUID REFERENCES rent_payments(id) ON DELETE SET NULL;
+
+-- =============================================================================
+-- STEP 3: Create Indexes for Performance
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_rental_bookings_listing ON rental_bookings(listing_id, start_date);
+CREATE INDEX IF NOT EXISTS idx_rental_bookings_renter ON rental_bookings(renter_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rental_bookings_owner ON rental_bookings(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rent_payments_due ON rent_payments(due_date) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_transactions_rental_booking ON transactions(rental_booking_id) WHERE rental_booking_id IS NOT NULL;
+
+-- A renter pays several rent periods for the same listing, so the one open
+-- checkout per buyer and listing only applies to purchases...
+DROP INDEX IF EXISTS idx_transactions_open_checkout;
+CREATE UNIQUE INDEX idx_transactions_open_checkout
+ON transactions(buyer_id, listing_id)
+WHERE status IN ('pending', 'payment_initiated') AND rental_booking_id IS NULL;
+
+-- ...and rentals get one open checkout per deposit and per rent payment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_open_deposit
+ON transactions(rental_booking_id)
+WHERE status IN ('pending', 'payment_initiated') AND rent_payment_id IS NULL AND rental_booking_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_open_rent_payment
+ON transactions(rent_payment_id)
+WHERE status IN ('pending', 'payment_initiated') AND rent_payment_id IS NOT NULL;
+
+-- =============================================================================
+-- STEP 4: Fill In Bookings From the Listing
+-- =============================================================================
+
+-- The renter only chooses the listing, start date and number of periods; the
+-- price, deposit and owner always come from the listing
+CREATE OR REPLACE FUNCTION prepare_rental_booking()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_listing listings%ROWTYPE;
+BEGIN
+    SELECT * INTO v_listing FROM listings WHERE id = NEW.listing_id;
+
+    IF NOT FOUND OR v_listing.status <> 'approved' OR v_listing.type <> 'rent' THEN
+        RAISE EXCEPTION 'This listing is not available for rent';
+    END IF;
+
+    IF v_listing.owner_id = NEW.renter_id THEN
+        RAISE EXCEPTION 'You cannot book your own listing';
+    END IF;
+
+    IF NEW.start_date < CURRENT_DATE THEN
+        RAISE EXCEPTION 'The start date has already passed';
+    END IF;
+
+    NEW.owner_id := v_listing.owner_id;
+    NEW.rent_period := COALESCE(v_listing.rent_period::TEXT, 'monthly');
+    NEW.rent_amount := v_listing.price;
+    NEW.deposit_amount := COALESCE(v_listing.security_deposit, v_listing.price);
+    NEW.currency := v_listing.currency;
+    NEW.end_date := (NEW.start_date + NEW.period_count * CASE NEW.rent_period
+            WHEN 'daily' THEN INTERVAL '1 day'
+            WHEN 'weekly' THEN INTERVAL '7 days'
+            WHEN 'yearly' THEN INTERVAL '1 year'
+            ELSE INTERVAL '1 month'
+        END)::DATE;
+    NEW.status := 'pending';
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS rental_bookings_prepare ON rental_bookings;
+CREATE TRIGGER rental_bookings_prepare
+BEFORE INSERT ON rental_bookings
+FOR EACH ROW
+EXECUTE FUNCTION prepare_rental_booking();
+
+-- Monthly and yearly rent is due at the start of each period; shorter stays
+-- are paid in one go on the first day. Matches getRentSchedule in
+-- supabase/functions/_shared/rentals.ts.
+CREATE OR REPLACE FUNCTION create_rent_schedule()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.rent_period IN ('monthly', 'yearly') THEN
+        INSERT INTO rent_payments (booking_id, period_number, period_start, period_end, due_date, amount, currency)
+        SELECT
+            NEW.id,
+            n + 1,
+            (NEW.start_date + n * step)::DATE,
+            (NEW.start_date + (n + 1) * step)::DATE,
+            (NEW.start_date + n * step)::DATE,
+            NEW.rent_amount,
+            NEW.currency
+        FROM generate_series(0, NEW.period_count - 1) AS n,
+            (SELECT CASE NEW.rent_period WHEN 'yearly' THEN INTERVAL '1 year' ELSE INTERVAL '1 month' END AS step) AS s;
+    ELSE
+        INSERT INTO rent_payments (booking_id, period_number, period_start, period_end, due_date, amount, currency)
+        VALUES (NEW.id, 1, NEW.start_date, NEW.end_date, NEW.start_date, NEW.rent_amount * NEW.period_count, NEW.currency);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS rental_bookings_create_rent_schedule ON rental_bookings;
+CREATE TRIGGER rental_bookings_create_rent_schedule
+AFTER INSERT ON rental_bookings
+FOR EACH ROW
+EXECUTE FUNCTION create_rent_schedule();
+
+-- =============================================================================
+-- STEP 5: Rental Transactions
+-- =============================================================================
+
+-- Deposit and rent transactions take their amount, parties and contract dates
+-- from the booking, whatever the client sent
+CREATE OR REPLACE FUNCTION prepare_rental_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_booking rental_bookings%ROWTYPE;
+    v_payment rent_payments%ROWTYPE;
+BEGIN
+    SELECT * INTO v_booking FROM rental_bookings WHERE id = NEW.rental_booking_id;
+
+    IF NOT FOUND OR v_booking.renter_id <> NEW.buyer_id THEN
+        RAISE EXCEPTION 'Rental booking not found';
+    END IF;
+
+    IF NEW.rent_payment_id IS NULL THEN
+        IF v_booking.status <> 'pending' THEN
+            RAISE EXCEPTION 'The deposit for this booking is no longer due';
+        END IF;
+
+        NEW.amount := v_booking.deposit_amount;
+    ELSE
+        SELECT * INTO v_payment FROM rent_payments
+        WHERE id = NEW.rent_payment_id AND booking_id = v_booking.id;
+
+        IF NOT FOUND OR v_payment.status <> 'scheduled' THEN
+            RAISE EXCEPTION 'This rent payment is not due';
+        END IF;
+
+        IF v_booking.status NOT IN ('confirmed', 'completed') THEN
+            RAISE EXCEPTION 'Pay the security deposit before paying rent';
+        END IF;
+
+        NEW.amount := v_payment.amount;
+    END IF;
+
+    NEW.listing_id := v_booking.listing_id;
+    NEW.seller_id := v_booking.owner_id;
+    NEW.currency := v_booking.currency;
+    NEW.contract := COALESCE(NEW.contract, '{}'::JSONB) || jsonb_build_object(
+        'duration', v_booking.period_count,
+        'start_date', v_booking.start_date,
+        'end_date', v_booking.end_date
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS transactions_prepare_rental ON transactions;
+CREATE TRIGGER transactions_prepare_rental
+BEFORE INSERT ON transactions
+FOR EACH ROW
+WHEN (NEW.rental_booking_id IS NOT NULL)
+EXECUTE FUNCTION prepare_rental_transaction();
+
+-- The deposit stays in escrow for the whole stay, so it is never released on
+-- the usual hold period. Once the booking ends the owner can claim it by
+-- disputing it; otherwise rent-reminders asks admins to refund it.
+CREATE OR REPLACE FUNCTION hold_rental_deposit()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.escrow_release_at := NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_hold_rental_deposit ON transactions;
+CREATE TRIGGER transactions_hold_rental_deposit
+BEFORE UPDATE ON transactions
+FOR EACH ROW
+WHEN (NEW.rental_booking_id IS NOT NULL AND NEW.rent_payment_id IS NULL AND NEW.escrow_release_at IS NOT NULL)
+EXECUTE FUNCTION hold_rental_deposit();
+
+-- Booked rentals hold dates on the calendar, not the whole listing, and the
+-- listing stays up for other dates when a rental payment is released
+DROP TRIGGER IF EXISTS transactions_reserve_listing ON transactions;
+CREATE TRIGGER transactions_reserve_listing
+AFTER INSERT ON transactions
+FOR EACH ROW
+WHEN (NEW.rental_booking_id IS NULL)
+EXECUTE FUNCTION reserve_listing_for_new_transaction();
+
+DROP TRIGGER IF EXISTS transactions_update_listing_reservation ON transactions;
+CREATE TRIGGER transactions_update_listing_reservation
+AFTER UPDATE OF status ON transactions
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.rental_booking_id IS NULL)
+EXECUTE FUNCTION update_listing_reservation();
+
+-- =============================================================================
+-- STEP 6: Follow the Transaction Status
+-- =============================================================================
+
+-- Paying the deposit confirms the booking and abandoning its checkout frees the
+-- dates again. Paying a rent transaction marks its period paid.
+CREATE OR REPLACE FUNCTION update_rental_from_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.rent_payment_id IS NOT NULL THEN
+        IF NEW.status IN ('payment_completed', 'paid', 'escrowed') THEN
+            UPDATE rent_payments
+            SET status = 'paid', paid_at = COALESCE(paid_at, NOW())
+            WHERE id = NEW.rent_payment_id AND status = 'scheduled';
+        ELSIF NEW.status = 'refunded' THEN
+            UPDATE rent_payments
+            SET status = 'scheduled', paid_at = NULL
+            WHERE id = NEW.rent_payment_id AND status = 'paid';
+        END IF;
+    ELSIF NEW.status IN ('payment_completed', 'paid', 'escrowed') THEN
+        UPDATE rental_bookings
+        SET status = 'confirmed', confirmed_at = NOW(), updated_at = NOW()
+        WHERE id = NEW.rental_booking_id AND status = 'pending';
+    ELSIF NEW.status IN ('cancelled', 'refunded') THEN
+        -- A deposit refunded after the stay leaves the completed booking as it is
+        UPDATE rental_bookings
+        SET status = 'cancelled', cancelled_at = NOW(), updated_at = NOW()
+        WHERE id = NEW.rental_booking_id AND status IN ('pending', 'confirmed');
+
+        UPDATE rent_payments
+        SET status = 'cancelled'
+        WHERE booking_id = NEW.rental_booking_id
+        AND status = 'scheduled'
+        AND EXISTS (
+            SELECT 1 FROM rental_bookings
+            WHERE rental_bookings.id = NEW.rental_booking_id AND rental_bookings.status = 'cancelled'
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS transactions_update_rental ON transactions;
+CREATE TRIGGER transactions_update_rental
+AFTER UPDATE OF status ON transactions
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.rental_booking_id IS NOT NULL)
+EXECUTE FUNCTION update_rental_from_transaction();
+
+-- =============================================================================
+-- STEP 7: Availability Calendar
+-- =============================================================================
+
+-- Booked dates of a listing for its public calendar, without saying who booked them
+CREATE OR REPLACE FUNCTION get_listing_availability(p_listing_id UUID)
+RETURNS TABLE (start_date DATE, end_date DATE) AS $$
+    SELECT start_date, end_date
+    FROM rental_bookings
+    WHERE listing_id = p_listing_id
+    AND status IN ('pending', 'confirmed')
+    AND end_date > CURRENT_DATE
+    ORDER BY start_date;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_listing_availability(UUID) TO anon, authenticated;
+
+-- =============================================================================
+-- STEP 8: Enable RLS (Row Level Security)
+-- =============================================================================
+
+ALTER TABLE rental_bookings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rent_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Parties and admins can read rental bookings" ON rental_bookings;
+DROP POLICY IF EXISTS "Renters can book listings" ON rental_bookings;
+DROP POLICY IF EXISTS "Parties and admins can read rent payments" ON rent_payments;
+
+CREATE POLICY "Parties and admins can read rental bookings" ON rental_bookings
+FOR SELECT
+USING (
+    renter_id = auth.uid()
+    OR owner_id = auth.uid()
+    OR EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+CREATE POLICY "Renters can book listings" ON rental_bookings
+FOR INSERT
+WITH CHECK (renter_id = auth.uid());
+
+CREATE POLICY "Parties and admins can read rent payments" ON rent_payments
+FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM rental_bookings
+        WHERE rental_bookings.id = rent_payments.booking_id
+        AND (rental_bookings.renter_id = auth.uid() OR rental_bookings.owner_id = auth.uid())
+    )
+    OR EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+-- No UPDATE or DELETE policies: bookings and rent payments follow their
+-- transactions (STEP 6) and the rent-reminders job
+
+-- =============================================================================
+-- STEP 9: Schedule the Edge Function
+-- =============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Replace <project-ref> and <service-role-key> before running.
+-- The function rejects calls without the service role key.
+SELECT cron.unschedule('rent-reminders')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'rent-reminders');
+
+SELECT cron.schedule(
+    'rent-reminders',
+    '0 6 * * *', -- Every day at 06:00 UTC
+    $$
+    SELECT net.http_post(
+        url := 'https://<project-ref>.supabase.co/functions/v1/rent-reminders',
+        headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb,
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+-- Success message
+SELECT '✅ Rental bookings setup complete!' as message;
@@ -0,0 +1,217 @@
+-- Saved Searches Setup
+-- Buyers save the search and filters from Buy or Rent and are alerted when
+-- newly approved listings match, straight away, daily or weekly. The
+-- saved-search-alerts edge function does the matching on a schedule.
+-- Run after database/SETUP_LISTING_GEO_SEARCH.sql
+-- Deploy the function first: supabase functions deploy saved-search-alerts
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Notification Types
+-- =============================================================================
+
+-- Only needed where notifications.type uses the notification_type enum
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'notification_type') THEN
+        ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'saved_search_match';
+    END IF;
+END $$;
+
+-- =============================================================================
+-- STEP 2: Listing Approval Time
+-- =============================================================================
+
+-- When a listing was first approved. Alerts only cover listings approved since
+-- the search was last checked, so a listing renewed after expiring or edited
+-- and approved again is not sent as new.
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+
+UPDATE listings
+SET approved_at = created_at
+WHERE status IN ('approved', 'sold', 'rented', 'inactive') AND approved_at IS NULL;
+
+CREATE OR REPLACE FUNCTION set_listing_approved_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'approved' AND NEW.approved_at IS NULL THEN
+        NEW.approved_at := NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS listings_set_approved_at ON listings;
+CREATE TRIGGER listings_set_approved_at
+BEFORE INSERT OR UPDATE OF status ON listings
+FOR EACH ROW
+EXECUTE FUNCTION set_listing_approved_at();
+
+CREATE INDEX IF NOT EXISTS idx_listings_approved_at
+ON listings(approved_at DESC)
+WHERE status = 'approved' AND verified = TRUE;
+
+-- =============================================================================
+-- STEP 3: Create Saved Searches Table
+-- =============================================================================
+
+-- filters is in the shape listing_matches_filters reads (see
+-- ListingsService.toFilterParams) and query is the typed search text
+CREATE TABLE IF NOT EXISTS saved_searches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL CHECK (LENGTH(TRIM(name)) > 0),
+    query TEXT,
+    filters JSONB NOT NULL DEFAULT '{}',
+    frequency VARCHAR(10) NOT NULL DEFAULT 'daily'
+        CHECK (frequency IN ('instant', 'daily', 'weekly')),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Listings approved after this are new to the search
+    last_checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_notified_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Matches MAX_SAVED_SEARCHES in supabase/functions/_shared/savedSearches.ts
+CREATE OR REPLACE FUNCTION check_saved_search_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (SELECT COUNT(*) FROM saved_searches WHERE user_id = NEW.user_id) >= 20 THEN
+        RAISE EXCEPTION 'You can save up to 20 searches. Delete one to save another.';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS saved_searches_limit ON saved_searches;
+CREATE TRIGGER saved_searches_limit
+BEFORE INSERT ON saved_searches
+FOR EACH ROW
+EXECUTE FUNCTION check_saved_search_limit();
+
+-- =============================================================================
+-- STEP 4: Create Indexes for Performance
+-- =============================================================================
+
+-- A user's searches on their profile
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user
+ON saved_searches(user_id, created_at DESC);
+
+-- Searches due for a check by the scheduler
+CREATE INDEX IF NOT EXISTS idx_saved_searches_due
+ON saved_searches(frequency, last_checked_at)
+WHERE is_active = TRUE;
+
+-- =============================================================================
+-- STEP 5: Enable RLS (Row Level Security)
+-- =============================================================================
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own saved searches" ON saved_searches;
+DROP POLICY IF EXISTS "Users can save searches" ON saved_searches;
+DROP POLICY IF EXISTS "Users can update their own saved searches" ON saved_searches;
+DROP POLICY IF EXISTS "Users can delete their own saved searches" ON saved_searches;
+
+-- Policy: Saved searches are private to the user, and admins for support
+CREATE POLICY "Users can view their own saved searches" ON saved_searches
+FOR SELECT
+USING (
+    auth.uid() = user_id
+    OR EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+CREATE POLICY "Users can save searches" ON saved_searches
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches" ON saved_searches
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches" ON saved_searches
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- =============================================================================
+-- STEP 6: New Matches
+-- =============================================================================
+
+-- Listings approved in (p_since, p_until] that match a saved search, newest
+-- first, with the number of them all. The user's own listings are left out.
+-- Only the saved-search-alerts job calls this, with the service role key.
+CREATE OR REPLACE FUNCTION saved_search_new_matches(
+    p_search_id UUID,
+    p_since TIMESTAMPTZ,
+    p_until TIMESTAMPTZ,
+    p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    total_count BIGINT
+) AS $$
+DECLARE
+    v_search saved_searches%ROWTYPE;
+    v_query TSQUERY;
+BEGIN
+    SELECT * INTO v_search FROM saved_searches s WHERE s.id = p_search_id;
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF COALESCE(TRIM(v_search.query), '') <> '' THEN
+        v_query := listing_search_query(v_search.query);
+        IF v_query IS NULL THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    SELECT l.id, l.title::TEXT, COUNT(*) OVER ()
+    FROM listings l
+    WHERE l.approved_at > p_since
+      AND l.approved_at <= p_until
+      AND l.owner_id <> v_search.user_id
+      AND listing_matches_filters(l, v_search.filters, v_query)
+    ORDER BY l.approved_at DESC
+    LIMIT LEAST(COALESCE(p_limit, 5), 50);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+REVOKE EXECUTE ON FUNCTION saved_search_new_matches(UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION saved_search_new_matches(UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO service_role;
+
+-- =============================================================================
+-- STEP 7: Schedule the Edge Function
+-- =============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+-- Replace <project-ref> and <service-role-key> before running.
+-- The function rejects calls without the service role key. Instant searches
+-- are checked on every run; daily and weekly ones when they are due.
+SELECT cron.unschedule('saved-search-alerts')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'saved-search-alerts');
+
+SELECT cron.schedule(
+    'saved-search-alerts',
+    '*/15 * * * *', -- Every 15 minutes
+    $$
+    SELECT net.http_post(
+        url := 'https://<project-ref>.supabase.co/functions/v1/saved-search-alerts',
+        headers := '{"Content-Type": "application/json", "Authorization": "Bearer <service-role-key>"}'::jsonb,
+        body := '{}'::jsonb
+    );
+    $$
+);
+
+-- Success message
+SELECT '✅ Saved searches setup complete!' as message;
@@ -0,0 +1,151 @@
+-- Seller Verification Setup
+-- Stores verification submissions and keeps their documents in a private bucket
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Create Seller Verifications Table
+-- =============================================================================
+
+-- One row per seller; resubmitting replaces the steps under review
+CREATE TABLE IF NOT EXISTS seller_verifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected')),
+    -- [{ id, required, status, documents: [{ name, type, public_id }], references, review_notes, reviewed_by, reviewed_at }]
+    steps JSONB NOT NULL DEFAULT '[]',
+    submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    reviewed_at TIMESTAMPTZ,
+    reviewed_by UUID REFERENCES users(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =============================================================================
+-- STEP 2: Create Indexes for Performance
+-- =============================================================================
+
+-- Admin review queue
+CREATE INDEX IF NOT EXISTS idx_seller_verifications_status
+ON seller_verifications(status, submitted_at);
+
+-- =============================================================================
+-- STEP 3: Enable RLS (Row Level Security)
+-- =============================================================================
+
+ALTER TABLE seller_verifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own verification" ON seller_verifications;
+DROP POLICY IF EXISTS "Users can submit their own verification" ON seller_verifications;
+DROP POLICY IF EXISTS "Users can resubmit their own verification" ON seller_verifications;
+DROP POLICY IF EXISTS "Admins can review verifications" ON seller_verifications;
+
+-- Policy: Sellers see their own submission, admins see all of them
+CREATE POLICY "Users can view their own verification" ON seller_verifications
+FOR SELECT
+USING (
+    auth.uid() = user_id
+    OR EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+-- Policy: Sellers can only submit as themselves and always start in review
+CREATE POLICY "Users can submit their own verification" ON seller_verifications
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND status = 'pending' AND reviewed_by IS NULL);
+
+CREATE POLICY "Users can resubmit their own verification" ON seller_verifications
+FOR UPDATE
+USING (auth.uid() = user_id AND status <> 'approved')
+WITH CHECK (auth.uid() = user_id AND status = 'pending' AND reviewed_by IS NULL);
+
+-- Policy: Only admins approve or reject steps
+CREATE POLICY "Admins can review verifications" ON seller_verifications
+FOR UPDATE
+USING (
+    EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+-- Sellers can only submit steps for review. Every step they send is reset to
+-- pending, apart from a step an admin already approved that is resubmitted
+-- unchanged; only admins set a step's status and review fields.
+CREATE OR REPLACE FUNCTION reset_submitted_verification_steps()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.role() = 'service_role' OR EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    NEW.steps := COALESCE((
+        SELECT jsonb_agg(
+            CASE
+                WHEN TG_OP = 'UPDATE'
+                    AND step->>'status' = 'approved'
+                    AND OLD.steps @> jsonb_build_array(step)
+                THEN step
+                ELSE (step - 'review_notes' - 'reviewed_by' - 'reviewed_at')
+                    || jsonb_build_object('status', 'pending')
+            END
+            ORDER BY position
+        )
+        FROM jsonb_array_elements(COALESCE(NEW.steps, '[]'::JSONB)) WITH ORDINALITY AS steps(step, position)
+    ), '[]'::JSONB);
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS seller_verifications_reset_steps ON seller_verifications;
+CREATE TRIGGER seller_verifications_reset_steps
+BEFORE INSERT OR UPDATE ON seller_verifications
+FOR EACH ROW
+EXECUTE FUNCTION reset_submitted_verification_steps();
+
+-- =============================================================================
+-- STEP 4: Private Documents Bucket
+-- =============================================================================
+
+-- Documents are read back through short-lived signed URLs only
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+DROP POLICY IF EXISTS "Users can upload their verification documents" ON storage.objects;
+DROP POLICY IF EXISTS "Users and admins can read verification documents" ON storage.objects;
+
+-- Paths look like verifications/<step>/<user_id>/<file>
+CREATE POLICY "Users can upload their verification documents" ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'documents'
+    AND (storage.foldername(name))[1] = 'verifications'
+    AND (storage.foldername(name))[3] = auth.uid()::text
+);
+
+CREATE POLICY "Users and admins can read verification documents" ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'documents'
+    AND (storage.foldername(name))[1] = 'verifications'
+    AND (
+        (storage.foldername(name))[3] = auth.uid()::text
+        OR EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid() AND users.role = 'admin'
+        )
+    )
+);
+
+-- Success message
+SELECT '✅ Seller verification setup complete!' as message;
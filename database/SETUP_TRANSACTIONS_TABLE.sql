@@ -13,7 +13,7 @@ BEGIN
         SELECT 1 FROM information_schema.columns 
         WHERE table_name = 'transactions' AND column_name = 'commission'
     ) THEN
-        ALTER TABLE transactions ADD COLUMN commission JSONB DEFAULT '{"amount": 0, "rate": 0.02}';
+        ALTER TABLE transactions ADD COLUMN commission JSONB DEFAULT '{"amount": 0, "rate": 2}';
         RAISE NOTICE 'Added commission column';
     ELSE
         RAISE NOTICE 'Commission column already exists';
@@ -132,11 +132,9 @@ FOR INSERT
 TO authenticated
 WITH CHECK (auth.uid() = buyer_id);
 
--- Policy: Allow webhook functions to update transactions
--- This allows Edge Functions to update transaction status
-CREATE POLICY "System can update transactions" ON transactions 
-FOR UPDATE 
-USING (true);
+-- Updates: edge functions use the service role, which RLS does not apply to.
+-- Buyers, sellers and admins get their update policy, and every status change
+-- is checked, in database/SETUP_TRANSACTION_TRANSITIONS.sql
 
 -- =============================================================================
 -- STEP 5: Verify Setup
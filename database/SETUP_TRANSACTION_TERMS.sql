@@ -0,0 +1,190 @@
+-- Transaction Terms Setup
+-- Sets the amount, commission and contract template of every new transaction
+-- in the database, whatever the client sent. Sales take their amount, currency
+-- and seller from the listing; rentals from their booking
+-- (see database/SETUP_RENTAL_BOOKINGS.sql).
+-- Run after database/SETUP_RENTAL_BOOKINGS.sql
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Commission Policy
+-- =============================================================================
+
+-- The commission snapshot for an amount. Matches COMMISSION_POLICY in
+-- src/lib/commission.ts, which the web app uses to show the fee before
+-- checkout; change both together and bump the policy version in both.
+CREATE OR REPLACE FUNCTION calculate_commission(
+    p_amount NUMERIC,
+    p_category TEXT,
+    p_type TEXT,
+    p_currency TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_rule TEXT;
+    v_min_amount NUMERIC;
+    v_max_amount NUMERIC;
+    v_rate NUMERIC;
+    v_min_fee NUMERIC;
+    v_max_fee NUMERIC;
+    v_commission NUMERIC;
+    v_capped TEXT;
+BEGIN
+    -- The most specific rule wins: category + type, then type
+    v_rule := CASE
+        WHEN p_type = 'sale' AND p_category IN ('house', 'land', 'commercial', 'car') THEN p_category || ':sale'
+        WHEN p_type = 'rent' THEN 'any:rent'
+        ELSE 'any:any'
+    END;
+
+    -- The price band the amount falls into, or the last one
+    SELECT tiers.min_amount, tiers.max_amount, tiers.rate
+    INTO v_min_amount, v_max_amount, v_rate
+    FROM (VALUES
+        ('house:sale', 0, 5000000, 2),
+        ('house:sale', 5000000, 20000000, 1.5),
+        ('house:sale', 20000000, NULL, 1),
+        ('land:sale', 0, 10000000, 1.5),
+        ('land:sale', 10000000, NULL, 1),
+        ('commercial:sale', 0, 20000000, 2),
+        ('commercial:sale', 20000000, NULL, 1.25),
+        ('car:sale', 0, 1000000, 2.5),
+        ('car:sale', 1000000, NULL, 2),
+        ('any:rent', 0, NULL, 5),
+        ('any:any', 0, NULL, 2)
+    ) AS tiers(rule, min_amount, max_amount, rate)
+    WHERE tiers.rule = v_rule
+    ORDER BY (p_amount >= tiers.min_amount AND (tiers.max_amount IS NULL OR p_amount < tiers.max_amount)) DESC,
+        tiers.min_amount DESC
+    LIMIT 1;
+
+    SELECT fees.min_fee, fees.max_fee
+    INTO v_min_fee, v_max_fee
+    FROM (VALUES
+        ('house:sale', 'ETB', 500, 250000),
+        ('house:sale', 'USD', 10, 5000),
+        ('land:sale', 'ETB', 500, 250000),
+        ('land:sale', 'USD', 10, 5000),
+        ('commercial:sale', 'ETB', 1000, 400000),
+        ('commercial:sale', 'USD', 20, 8000),
+        ('car:sale', 'ETB', 200, 100000),
+        ('car:sale', 'USD', 5, 2000),
+        ('any:rent', 'ETB', 100, 50000),
+        ('any:rent', 'USD', 2, 1000),
+        ('any:any', 'ETB', 50, 250000),
+        ('any:any', 'USD', 1, 5000)
+    ) AS fees(rule, currency, min_fee, max_fee)
+    WHERE fees.rule = v_rule AND fees.currency = COALESCE(p_currency, 'ETB');
+
+    v_commission := p_amount * v_rate / 100;
+
+    IF v_min_fee IS NOT NULL AND v_commission < v_min_fee THEN
+        v_commission := v_min_fee;
+        v_capped := 'min';
+    ELSIF v_max_fee IS NOT NULL AND v_commission > v_max_fee THEN
+        v_commission := v_max_fee;
+        v_capped := 'max';
+    END IF;
+
+    -- Never charge more than the amount itself
+    RETURN jsonb_strip_nulls(jsonb_build_object(
+        'amount', ROUND(LEAST(v_commission, p_amount), 2),
+        'rate', v_rate,
+        'policy_version', '2026-10-01',
+        'rule', v_rule,
+        'tier', jsonb_build_object('min_amount', v_min_amount, 'max_amount', v_max_amount),
+        'capped', v_capped
+    ));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- =============================================================================
+-- STEP 2: Contract Templates
+-- =============================================================================
+
+-- The contract template for a transaction. Matches getContractTemplateId in
+-- supabase/functions/_shared/contracts.ts: rent payments are covered by the
+-- lease signed on their booking's deposit, and "other" listings have none.
+CREATE OR REPLACE FUNCTION transaction_contract_template(
+    p_category TEXT,
+    p_type TEXT,
+    p_is_rent_payment BOOLEAN
+)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN p_type = 'rent' THEN CASE WHEN p_is_rent_payment THEN NULL ELSE 'lease' END
+        WHEN p_category = 'car' THEN 'vehicle_sale'
+        WHEN p_category IN ('house', 'land', 'commercial') THEN 'property_sale'
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =============================================================================
+-- STEP 3: Set Terms on Insert
+-- =============================================================================
+
+-- New transactions always start pending. Every contract template requires
+-- both parties to sign. The trigger is named to fire after
+-- transactions_prepare_rental, which sets a rental's amount first.
+CREATE OR REPLACE FUNCTION prepare_transaction_terms()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_listing listings%ROWTYPE;
+    v_template TEXT;
+BEGIN
+    SELECT * INTO v_listing FROM listings WHERE id = NEW.listing_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Listing not found';
+    END IF;
+
+    IF NEW.rental_booking_id IS NULL THEN
+        NEW.amount := v_listing.price;
+        NEW.currency := v_listing.currency;
+        NEW.seller_id := v_listing.owner_id;
+    END IF;
+
+    -- Snapshot the commission so later policy changes don't affect this
+    -- transaction. Security deposits are refunded in full, so they carry none.
+    IF NEW.rental_booking_id IS NOT NULL AND NEW.rent_payment_id IS NULL THEN
+        NEW.commission := jsonb_build_object('amount', 0, 'rate', 0, 'policy_version', '2026-10-01', 'rule', 'deposit');
+    ELSE
+        NEW.commission := calculate_commission(NEW.amount, v_listing.category::TEXT, v_listing.type::TEXT, NEW.currency::TEXT);
+    END IF;
+
+    -- Snapshot the contract template too, so escrow release knows whether both parties must sign
+    v_template := transaction_contract_template(
+        v_listing.category::TEXT,
+        v_listing.type::TEXT,
+        NEW.rent_payment_id IS NOT NULL
+    );
+
+    NEW.contract := (COALESCE(NEW.contract, '{}'::JSONB) - 'template' - 'signatures_required')
+        || jsonb_strip_nulls(jsonb_build_object('template', v_template))
+        || jsonb_build_object('signatures_required', v_template IS NOT NULL);
+
+    NEW.status := 'pending';
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS transactions_snapshot_terms ON transactions;
+CREATE TRIGGER transactions_snapshot_terms
+BEFORE INSERT ON transactions
+FOR EACH ROW EXECUTE FUNCTION prepare_transaction_terms();
+
+-- =============================================================================
+-- STEP 4: Deposits Carry No Commission
+-- =============================================================================
+
+-- Deposits taken before this change were charged rent commission. Those not
+-- yet released or refunded can still be given back in full.
+UPDATE transactions
+SET commission = jsonb_build_object('amount', 0, 'rate', 0, 'policy_version', '2026-10-01', 'rule', 'deposit')
+WHERE rental_booking_id IS NOT NULL
+AND rent_payment_id IS NULL
+AND status NOT IN ('released', 'refunded')
+AND (commission->>'amount')::NUMERIC > 0;
+
+-- Success message
+SELECT '✅ Transaction terms setup complete!' as message;
@@ -0,0 +1,149 @@
+-- Transaction Transitions Setup
+-- Checks every transaction status change against the transition table in
+-- supabase/functions/_shared/transactionStateMachine.ts, whoever makes it:
+-- the web app, an edge function, a database function or a direct API call.
+-- Buyers and sellers can only move their own transactions and only change
+-- the status, the timeline and the dispute directly.
+-- Run after database/SETUP_COMMISSION_POLICY.sql
+-- Copy and paste this into Supabase SQL Editor
+
+-- =============================================================================
+-- STEP 1: Transition Table
+-- =============================================================================
+
+-- Roles that may move a transaction from one status to another, or NULL when
+-- the move is not allowed. Matches TRANSACTION_TRANSITIONS in
+-- supabase/functions/_shared/transactionStateMachine.ts.
+CREATE OR REPLACE FUNCTION transaction_transition_roles(p_from TEXT, p_to TEXT)
+RETURNS TEXT[] AS $$
+    SELECT CASE p_from || ' -> ' || p_to
+        WHEN 'pending -> payment_initiated' THEN ARRAY['buyer', 'system']
+        WHEN 'pending -> cancelled' THEN ARRAY['buyer', 'admin', 'system']
+        WHEN 'payment_initiated -> payment_completed' THEN ARRAY['system']
+        WHEN 'payment_initiated -> cancelled' THEN ARRAY['buyer', 'admin', 'system']
+        WHEN 'payment_completed -> escrowed' THEN ARRAY['system', 'admin']
+        WHEN 'payment_completed -> refunded' THEN ARRAY['admin']
+        WHEN 'paid -> escrowed' THEN ARRAY['system', 'admin']
+        WHEN 'paid -> refunded' THEN ARRAY['admin']
+        WHEN 'escrowed -> released' THEN ARRAY['buyer', 'admin', 'system']
+        WHEN 'escrowed -> refunded' THEN ARRAY['admin']
+        WHEN 'escrowed -> disputed' THEN ARRAY['buyer', 'seller']
+        WHEN 'disputed -> escrowed' THEN ARRAY['admin']
+        WHEN 'disputed -> released' THEN ARRAY['admin']
+        WHEN 'disputed -> refunded' THEN ARRAY['admin']
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =============================================================================
+-- STEP 2: Check Every Update
+-- =============================================================================
+
+-- The role comes from the request, never from the client: the service role
+-- and direct database sessions (scheduled jobs, the SQL editor) are the
+-- system unless an edge function acts for an admin, then admins, then the
+-- transaction's own buyer and seller. Database functions keep their caller's
+-- auth.uid(), so a buyer confirming receipt through handle_escrow_release is
+-- checked as the buyer. Not SECURITY DEFINER, so current_user tells direct API
+-- writes from writes made inside database functions.
+CREATE OR REPLACE FUNCTION enforce_transaction_update()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_actor UUID;
+    v_role TEXT;
+    v_allowed TEXT[];
+    v_timeline_length INTEGER := COALESCE(jsonb_array_length(OLD.timeline), 0);
+BEGIN
+    IF auth.role() = 'service_role' OR COALESCE(auth.role(), '') = '' THEN
+        -- Edge functions acting for an admin name them in x-actor-id, as
+        -- for the admin audit log
+        v_actor := NULLIF(NULLIF(current_setting('request.headers', TRUE), '')::JSON->>'x-actor-id', '')::UUID;
+        v_role := CASE
+            WHEN auth.role() = 'service_role' AND EXISTS (
+                SELECT 1 FROM users
+                WHERE users.id = v_actor AND users.role = 'admin'
+            ) THEN 'admin'
+            ELSE 'system'
+        END;
+    ELSIF EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    ) THEN
+        v_role := 'admin';
+    ELSIF auth.uid() = OLD.buyer_id THEN
+        v_role := 'buyer';
+    ELSIF auth.uid() = OLD.seller_id THEN
+        v_role := 'seller';
+    ELSE
+        RAISE EXCEPTION 'You are not a party to this transaction';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        v_allowed := transaction_transition_roles(OLD.status::TEXT, NEW.status::TEXT);
+
+        IF v_allowed IS NULL THEN
+            RAISE EXCEPTION 'Cannot move a transaction from % to %', OLD.status, NEW.status;
+        END IF;
+
+        IF NOT v_role = ANY (v_allowed) THEN
+            RAISE EXCEPTION 'A % cannot move a transaction from % to %', v_role, OLD.status, NEW.status;
+        END IF;
+    END IF;
+
+    -- Buyers and sellers writing through the API (not through a database
+    -- function) may only move the status, add to the timeline and file or
+    -- answer a dispute
+    IF v_role IN ('buyer', 'seller') AND current_user IN ('authenticated', 'anon') THEN
+        IF (to_jsonb(NEW) - 'status' - 'timeline' - 'dispute' - 'updated_at')
+            IS DISTINCT FROM (to_jsonb(OLD) - 'status' - 'timeline' - 'dispute' - 'updated_at') THEN
+            RAISE EXCEPTION 'Only the status, timeline and dispute of a transaction can be changed';
+        END IF;
+
+        IF COALESCE(jsonb_array_length(NEW.timeline), 0) < v_timeline_length
+        OR EXISTS (
+            SELECT 1 FROM generate_series(0, v_timeline_length - 1) AS i
+            WHERE NEW.timeline->i IS DISTINCT FROM OLD.timeline->i
+        ) THEN
+            RAISE EXCEPTION 'Timeline entries cannot be changed or removed';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS transactions_enforce_update ON transactions;
+CREATE TRIGGER transactions_enforce_update
+BEFORE UPDATE ON transactions
+FOR EACH ROW EXECUTE FUNCTION enforce_transaction_update();
+
+-- =============================================================================
+-- STEP 3: Update Policy
+-- =============================================================================
+
+-- Replaces the open "System can update transactions" policy. Edge functions
+-- use the service role, which RLS does not apply to.
+DROP POLICY IF EXISTS "System can update transactions" ON transactions;
+DROP POLICY IF EXISTS "Parties and admins can update transactions" ON transactions;
+
+CREATE POLICY "Parties and admins can update transactions" ON transactions
+FOR UPDATE
+TO authenticated
+USING (
+    auth.uid() = buyer_id
+    OR auth.uid() = seller_id
+    OR EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+)
+WITH CHECK (
+    auth.uid() = buyer_id
+    OR auth.uid() = seller_id
+    OR EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+    )
+);
+
+-- Success message
+SELECT '✅ Transaction transitions setup complete!' as message;
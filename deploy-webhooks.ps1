@@ -1,9 +1,25 @@
-# SebahLync Payment Webhook Deployment Script
-# Run this script to deploy your payment webhooks to Supabase
+# SebahLync Edge Function Deployment Script
+# Run this script to deploy the payment webhooks, payment API and scheduled jobs to Supabase.
+# Keep the function list in step with "Deploy Functions" in supabase/functions/README.md
 
 Write-Host "🚀 SebahLync Webhook Deployment" -ForegroundColor Cyan
 Write-Host ""
 
+# Every function the app needs. payment-sandbox is only for test projects.
+$functions = @(
+    "payment-webhook",
+    "payment-initialize",
+    "payment-verify",
+    "payment-refund",
+    "payment-reconcile",
+    "payment-settlement-import",
+    "contract-prepare",
+    "escrow-auto-release",
+    "listing-expiry",
+    "rent-reminders",
+    "saved-search-alerts"
+)
+
 # Check if Supabase CLI is installed
 Write-Host "Checking for Supabase CLI..." -ForegroundColor Yellow
 $supabaseInstalled = Get-Command supabase -ErrorAction SilentlyContinue
@@ -19,9 +35,9 @@ Write-Host ""
 Write-Host "📋 Deployment Steps:" -ForegroundColor Cyan
 Write-Host "1. Login to Supabase: npx supabase login"
 Write-Host "2. Link to project: npx supabase link --project-ref YOUR_PROJECT_REF"
-Write-Host "3. Deploy functions: npx supabase functions deploy payment-chapa"
-Write-Host "                   npx supabase functions deploy payment-telebirr"
-Write-Host "                   npx supabase functions deploy payment-bibit"
+Write-Host "3. Deploy functions: npx supabase functions deploy <function>"
+Write-Host "   for each of: $($functions -join ', ')"
+Write-Host "   payment-sandbox is deployed too when you answer yes to the test project question"
 Write-Host ""
 Write-Host "⚠️  You'll need:" -ForegroundColor Yellow
 Write-Host "   - Supabase project reference (from dashboard)"
@@ -69,43 +85,54 @@ Write-Host "✅ Project linked successfully" -ForegroundColor Green
 Write-Host ""
 
 # Step 4: Deploy functions
-Write-Host "Step 4: Deploying webhook functions..." -ForegroundColor Cyan
-Write-Host ""
-
-Write-Host "Deploying payment-chapa..." -ForegroundColor Yellow
-npx supabase functions deploy payment-chapa
+Write-Host "Is this a test project that should get the payment-sandbox gateway? (y/N): " -ForegroundColor Yellow -NoNewline
+$sandbox = Read-Host
 
-if ($LASTEXITCODE -ne 0) {
-    Write-Host "⚠️  Failed to deploy payment-chapa" -ForegroundColor Red
+if ($sandbox -match '^[Yy]') {
+    $functions += "payment-sandbox"
 }
 
 Write-Host ""
-Write-Host "Deploying payment-telebirr..." -ForegroundColor Yellow
-npx supabase functions deploy payment-telebirr
+Write-Host "Step 4: Deploying edge functions..." -ForegroundColor Cyan
 
-if ($LASTEXITCODE -ne 0) {
-    Write-Host "⚠️  Failed to deploy payment-telebirr" -ForegroundColor Red
-}
+foreach ($function in $functions) {
+    Write-Host ""
+    Write-Host "Deploying $function..." -ForegroundColor Yellow
+    npx supabase functions deploy $function
 
-Write-Host ""
-Write-Host "Deploying payment-bibit..." -ForegroundColor Yellow
-npx supabase functions deploy payment-bibit
-
-if ($LASTEXITCODE -ne 0) {
-    Write-Host "⚠️  Failed to deploy payment-bibit" -ForegroundColor Red
+    if ($LASTEXITCODE -ne 0) {
+        Write-Host "⚠️  Failed to deploy $function" -ForegroundColor Red
+    }
 }
 
 Write-Host ""
 Write-Host "✅ Deployment complete!" -ForegroundColor Green
 Write-Host ""
 Write-Host "📝 Next Steps:" -ForegroundColor Cyan
-Write-Host "1. Copy the function URLs from the output above"
-Write-Host "2. Add them to your .env file:"
-Write-Host "   VITE_CHAPA_WEBHOOK_URL=https://your-project.supabase.co/functions/v1/payment-chapa"
-Write-Host "   VITE_TELEBIRR_WEBHOOK_URL=https://your-project.supabase.co/functions/v1/payment-telebirr"
-Write-Host "   VITE_BIBIT_WEBHOOK_URL=https://your-project.supabase.co/functions/v1/payment-bibit"
-Write-Host ""
-Write-Host "3. Configure webhook URLs in payment gateway dashboards"
-Write-Host ""
-Write-Host "🎉 Your webhook functions are deployed!" -ForegroundColor Green
+Write-Host "1. Set gateway credentials as function secrets (never in .env):"
+Write-Host "   npx supabase secrets set CHAPA_SECRET_KEY=... CHAPA_WEBHOOK_SECRET=..."
+Write-Host "   npx supabase secrets set TELEBIRR_FABRIC_APP_ID=... TELEBIRR_APP_SECRET=..."
+Write-Host "   npx supabase secrets set TELEBIRR_MERCHANT_ID=... TELEBIRR_SHORT_CODE=..."
+Write-Host "   npx supabase secrets set TELEBIRR_PUBLIC_KEY=..."
+Write-Host "   npx supabase secrets set BIBIT_API_KEY=... BIBIT_MERCHANT_ID=... BIBIT_WEBHOOK_SECRET=..."
+Write-Host "   npx supabase secrets set CBE_BIRR_API_URL=... CBE_BIRR_API_KEY=... CBE_BIRR_MERCHANT_ID=... CBE_BIRR_WEBHOOK_SECRET=..."
+Write-Host "   npx supabase secrets set MPESA_CONSUMER_KEY=... MPESA_CONSUMER_SECRET=... MPESA_SHORT_CODE=... MPESA_PASSKEY=... MPESA_WEBHOOK_SECRET=..."
+Write-Host "   npx supabase secrets set SITE_URL=https://your-site.example"
+Write-Host ""
+Write-Host "2. Configure webhook URLs in payment gateway dashboards:"
+Write-Host "   https://YOUR_PROJECT_REF.supabase.co/functions/v1/payment-webhook/<chapa|telebirr|bibit|cbe_birr|mpesa>"
+Write-Host ""
+Write-Host "3. Run database/SETUP_PAYMENT_EVENTS.sql so retried webhooks are processed once"
+Write-Host "4. Schedule the jobs by running the SQL file that names each one:"
+Write-Host "   database/SETUP_PAYMENT_RECONCILIATION.sql (payment-reconcile)"
+Write-Host "   database/SETUP_ESCROW_AUTO_RELEASE.sql (escrow-auto-release)"
+Write-Host "   database/SETUP_LISTING_EXPIRY.sql (listing-expiry)"
+Write-Host "   database/SETUP_RENTAL_BOOKINGS.sql (rent-reminders)"
+Write-Host "   database/SETUP_SAVED_SEARCHES.sql (saved-search-alerts)"
+Write-Host "5. Test projects with payment-sandbox also need:"
+Write-Host "   npx supabase secrets set PAYMENT_SANDBOX_ENABLED=true"
+Write-Host ""
+Write-Host "See supabase/functions/README.md for what each function does and needs."
+Write-Host ""
+Write-Host "🎉 Your edge functions are deployed!" -ForegroundColor Green
 
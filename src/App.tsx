@@ -15,7 +15,11 @@ import Profile from './pages/Profile';
 import Dashboard from './pages/Dashboard';
 import AdminPanel from './pages/AdminPanel';
 import Payment from './pages/Payment';
+import RentalBooking from './pages/RentalBooking';
 import PaymentSuccess from './pages/PaymentSuccess';
+import SandboxCheckout from './pages/SandboxCheckout';
+import Messages from './pages/Messages';
+import Verification from './pages/Verification';
 import About from './pages/About';
 import Contact from './pages/Contact';
 import FAQ from './pages/FAQ';
@@ -62,6 +66,21 @@ function App() {
                     <Dashboard />
                   </ProtectedRoute>
                 } />
+                <Route path="messages" element={
+                  <ProtectedRoute>
+                    <Messages />
+                  </ProtectedRoute>
+                } />
+                <Route path="verification" element={
+                  <ProtectedRoute>
+                    <Verification />
+                  </ProtectedRoute>
+                } />
+                <Route path="book/:id" element={
+                  <ProtectedRoute>
+                    <RentalBooking />
+                  </ProtectedRoute>
+                } />
                 <Route path="payment/:id" element={
                   <ProtectedRoute>
                     <Payment />
@@ -72,6 +91,11 @@ function App() {
                     <PaymentSuccess />
                   </ProtectedRoute>
                 } />
+                <Route path="payment/sandbox" element={
+                  <ProtectedRoute>
+                    <SandboxCheckout />
+                  </ProtectedRoute>
+                } />
                 
                 {/* Admin Routes */}
                 <Route path="admin/*" element={
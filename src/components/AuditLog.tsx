@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  RefreshCw,
+  Search,
+  ChevronDown,
+  ChevronRight,
+  History,
+  User,
+  ShoppingBag,
+  Wallet
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { AuditService } from '../services/audit';
+import { AdminAuditEntry, AuditTargetType } from '../types';
+import { formatRelativeTime } from '../lib/utils';
+import { toast } from 'sonner';
+
+const PAGE_SIZE = 25;
+
+const TARGET_ICONS = {
+  user: User,
+  listing: ShoppingBag,
+  transaction: Wallet,
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const AuditLog: React.FC = () => {
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [targetType, setTargetType] = useState<AuditTargetType | 'all'>('all');
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await AuditService.getAuditLog(
+        {
+          search: appliedSearch || undefined,
+          target_type: targetType === 'all' ? undefined : targetType,
+        },
+        { page, limit: PAGE_SIZE }
+      );
+
+      if (response.success) {
+        setEntries(response.data);
+        setTotal(response.total);
+      } else {
+        toast.error(response.message || 'Failed to load audit log');
+      }
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast.error('Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedSearch, targetType, page]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setAppliedSearch(search.trim());
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Audit Log</h2>
+          <p className="text-gray-600">Every change made by an admin, newest first</p>
+        </div>
+        <Button variant="outline" onClick={loadEntries} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Search by action (e.g. listing.delete) or target ID"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <select
+          value={targetType}
+          onChange={(e) => {
+            setPage(1);
+            setTargetType(e.target.value as AuditTargetType | 'all');
+          }}
+          className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+        >
+          <option value="all">All targets</option>
+          <option value="user">Users</option>
+          <option value="listing">Listings</option>
+          <option value="transaction">Transactions</option>
+        </select>
+        <Button type="submit">Search</Button>
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <History className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No audit entries found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0 divide-y divide-gray-100">
+            {entries.map((entry) => {
+              const isExpanded = expandedId === entry.id;
+              const Icon = TARGET_ICONS[entry.target_type] || History;
+              const changedFields = Object.keys(entry.changes || {});
+
+              return (
+                <div key={entry.id} className="p-4">
+                  <button
+                    className="w-full flex items-center justify-between text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {isExpanded ? (
+                        <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      )}
+                      <Icon className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900">
+                          <Badge className="bg-gray-100 text-gray-800 font-mono mr-2">{entry.action}</Badge>
+                          <span className="text-sm text-gray-500 font-mono truncate">{entry.target_id}</span>
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          by {entry.actor?.full_name || entry.actor?.email || entry.actor_id || 'System'}
+                          {changedFields.length > 0 && ` · ${changedFields.length} field(s) changed`}
+                        </p>
+                      </div>
+                    </div>
+                    <span className="text-sm text-gray-500 flex-shrink-0">{formatRelativeTime(entry.created_at)}</span>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="mt-3 ml-11 space-y-2">
+                      {changedFields.length === 0 ? (
+                        <p className="text-sm text-gray-500">No field changes recorded</p>
+                      ) : (
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-gray-500">
+                              <th className="py-1 pr-4 font-medium">Field</th>
+                              <th className="py-1 pr-4 font-medium">Before</th>
+                              <th className="py-1 font-medium">After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {changedFields.map((field) => (
+                              <tr key={field} className="align-top">
+                                <td className="py-1 pr-4 font-mono text-gray-700">{field}</td>
+                                <td className="py-1 pr-4 text-red-700 break-all">{formatValue(entry.changes[field].before)}</td>
+                                <td className="py-1 text-green-700 break-all">{formatValue(entry.changes[field].after)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                      {entry.metadata && Object.keys(entry.metadata).length > 0 && (
+                        <p className="text-sm text-gray-600">
+                          <span className="font-medium">Details:</span> {formatValue(entry.metadata)}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-600">{total} entries</div>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => Math.max(prev - 1, 1))}
+              disabled={page === 1}
+            >
+              Previous
+            </Button>
+            <div className="text-sm text-gray-600">
+              Page {page} of {totalPages}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => Math.min(prev + 1, totalPages))}
+              disabled={page === totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLog;
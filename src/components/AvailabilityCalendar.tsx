@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from './ui/button';
+import { BookedRange } from '../services/rentals';
+import { isDateBooked } from '@shared/rentals';
+
+interface AvailabilityCalendarProps {
+  booked: BookedRange[];
+  // Dates of the stay being booked, shown over the calendar (end is the first day after)
+  selectedStart?: string;
+  selectedEnd?: string;
+  onSelectDate?: (date: string) => void;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toDateString = (year: number, month: number, day: number) =>
+  new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+
+// Month view of a rent listing's booked dates. Days in the past and booked days can't be picked.
+const AvailabilityCalendar: React.FC<AvailabilityCalendarProps> = ({ booked, selectedStart, selectedEnd, onSelectDate }) => {
+  const today = new Date().toISOString().slice(0, 10);
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+
+  const daysInMonth = new Date(Date.UTC(month.year, month.month + 1, 0)).getUTCDate();
+  const firstWeekday = new Date(Date.UTC(month.year, month.month, 1)).getUTCDay();
+  const label = new Date(Date.UTC(month.year, month.month, 1)).toLocaleDateString([], {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  const changeMonth = (delta: number) => {
+    setMonth(prev => {
+      const next = new Date(prev.year, prev.month + delta, 1);
+      return { year: next.getFullYear(), month: next.getMonth() };
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Button variant="outline" size="sm" onClick={() => changeMonth(-1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="font-medium text-gray-900">{label}</span>
+        <Button variant="outline" size="sm" onClick={() => changeMonth(1)}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs">
+        {WEEKDAYS.map(day => (
+          <div key={day} className="py-1 font-medium text-gray-500">{day}</div>
+        ))}
+        {Array.from({ length: firstWeekday }, (_, index) => (
+          <div key={`blank-${index}`} />
+        ))}
+        {Array.from({ length: daysInMonth }, (_, index) => {
+          const date = toDateString(month.year, month.month, index + 1);
+          const isPast = date < today;
+          const isBooked = isDateBooked(date, booked);
+          const isSelected = !!selectedStart && !!selectedEnd && date >= selectedStart && date < selectedEnd;
+          const disabled = isPast || isBooked || !onSelectDate;
+
+          return (
+            <button
+              key={date}
+              type="button"
+              onClick={() => !disabled && onSelectDate?.(date)}
+              disabled={disabled}
+              title={isBooked ? 'Booked' : undefined}
+              className={`py-2 rounded-md ${
+                isSelected
+                  ? isBooked ? 'bg-red-500 text-white' : 'bg-blue-600 text-white'
+                  : isBooked
+                    ? 'bg-red-100 text-red-700 line-through'
+                    : isPast
+                      ? 'text-gray-300'
+                      : onSelectDate ? 'hover:bg-blue-50 text-gray-900' : 'text-gray-900'
+              }`}
+            >
+              {index + 1}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center space-x-4 text-xs text-gray-600">
+        <span className="flex items-center">
+          <span className="inline-block w-3 h-3 rounded bg-red-100 mr-1" />
+          Booked
+        </span>
+        {selectedStart && (
+          <span className="flex items-center">
+            <span className="inline-block w-3 h-3 rounded bg-blue-600 mr-1" />
+            Your stay
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AvailabilityCalendar;
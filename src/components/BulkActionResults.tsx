@@ -0,0 +1,56 @@
+import React from 'react';
+import { CheckCircle, XCircle, MinusCircle, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { BulkListingResult } from '../services/listings';
+
+interface BulkActionResultsProps {
+  results: BulkListingResult[];
+  titles: Record<string, string>;
+  onDismiss: () => void;
+}
+
+const STATUS_CONFIG = {
+  updated: { icon: CheckCircle, color: 'text-green-600', label: 'Updated' },
+  skipped: { icon: MinusCircle, color: 'text-gray-500', label: 'Skipped' },
+  failed: { icon: XCircle, color: 'text-red-600', label: 'Failed' },
+};
+
+const BulkActionResults: React.FC<BulkActionResultsProps> = ({ results, titles, onDismiss }) => {
+  const count = (status: BulkListingResult['status']) => results.filter(result => result.status === status).length;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium text-gray-900">
+            {count('updated')} updated, {count('skipped')} skipped, {count('failed')} failed
+          </p>
+          <Button variant="outline" size="sm" onClick={onDismiss}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+          {results.map((result) => {
+            const config = STATUS_CONFIG[result.status];
+            const Icon = config.icon;
+
+            return (
+              <div key={result.listing_id} className="flex items-center justify-between py-2 text-sm">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <Icon className={`h-4 w-4 flex-shrink-0 ${config.color}`} />
+                  <span className="truncate">{titles[result.listing_id] || result.listing_id}</span>
+                </div>
+                <span className={`flex-shrink-0 ml-4 ${config.color}`}>
+                  {config.label}{result.message ? `: ${result.message}` : ''}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BulkActionResults;
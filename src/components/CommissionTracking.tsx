@@ -27,6 +27,8 @@ import { TransactionsService } from '../services/transactions';
 import { Transaction } from '../types';
 import { toast } from 'sonner';
 import { formatCurrency } from '../lib/supabase';
+import { CommissionPolicy } from '../lib/commission';
+import { getPaymentMethodName } from '../lib/utils';
 
 interface CommissionTrackingProps {
   loading?: boolean;
@@ -59,7 +61,7 @@ const CommissionTracking: React.FC<CommissionTrackingProps> = ({ loading: initia
     pendingCommissions: 0,
     refundedCommissions: 0,
     averageCommission: 0,
-    commissionRate: 5,
+    commissionRate: CommissionPolicy.getDefaultRate(),
     monthlyRevenue: 0,
   });
   const [filters, setFilters] = useState<FilterState>({
@@ -119,7 +121,7 @@ const CommissionTracking: React.FC<CommissionTrackingProps> = ({ loading: initia
           pendingCommissions,
           refundedCommissions,
           averageCommission: avgCommission,
-          commissionRate: allTransactions[0]?.commission?.rate || 5,
+          commissionRate: allTransactions[0]?.commission?.rate || CommissionPolicy.getDefaultRate(),
           monthlyRevenue,
         });
       }
@@ -194,6 +196,8 @@ const CommissionTracking: React.FC<CommissionTrackingProps> = ({ loading: initia
       telebirr: { icon: Smartphone, color: 'text-green-600' },
       chapa: { icon: Building2, color: 'text-blue-600' },
       bibit: { icon: Smartphone, color: 'text-red-600' },
+      cbe_birr: { icon: Building2, color: 'text-purple-600' },
+      mpesa: { icon: Smartphone, color: 'text-emerald-600' },
     };
 
     const config = methodConfig[method as keyof typeof methodConfig] || { icon: CreditCard, color: 'text-gray-600' };
@@ -389,6 +393,8 @@ const CommissionTracking: React.FC<CommissionTrackingProps> = ({ loading: initia
               <option value="telebirr">Telebirr</option>
               <option value="chapa">Chapa</option>
               <option value="bibit">Bibit</option>
+              <option value="cbe_birr">CBE Birr</option>
+              <option value="mpesa">M-Pesa</option>
             </select>
           </div>
         </CardContent>
@@ -467,7 +473,7 @@ const CommissionTracking: React.FC<CommissionTrackingProps> = ({ loading: initia
                         <td className="py-4 px-4">
                           <div className="flex items-center space-x-2">
                             {getPaymentMethodIcon(transaction.payment_method)}
-                            <span className="text-sm capitalize">{transaction.payment_method}</span>
+                            <span className="text-sm">{getPaymentMethodName(transaction.payment_method)}</span>
                           </div>
                         </td>
                         <td className="py-4 px-4">
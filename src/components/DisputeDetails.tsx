@@ -0,0 +1,111 @@
+import React from 'react';
+import { FileText, Eye, MessageSquare, Scale } from 'lucide-react';
+import { Button } from './ui/button';
+import { DisputesService } from '../services/disputes';
+import { DisputeEvidence, Transaction } from '../types';
+import { formatRelativeTime } from '../lib/utils';
+import { formatCurrency } from '../lib/supabase';
+import { toast } from 'sonner';
+
+interface DisputeDetailsProps {
+  transaction: Transaction;
+}
+
+const RESOLUTION_LABELS = {
+  release: 'Released to seller',
+  refund: 'Refunded to buyer',
+  split: 'Split between buyer and seller',
+};
+
+const DisputeDetails: React.FC<DisputeDetailsProps> = ({ transaction }) => {
+  const dispute = transaction.dispute;
+
+  const getPartyName = (userId?: string) => {
+    if (userId === transaction.buyer_id) return `${transaction.buyer?.full_name || 'Buyer'} (buyer)`;
+    if (userId === transaction.seller_id) return `${transaction.seller?.full_name || 'Seller'} (seller)`;
+    return 'Unknown';
+  };
+
+  const handleViewEvidence = async (publicId: string) => {
+    try {
+      const url = await DisputesService.getEvidenceUrl(publicId);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      console.error('Error opening evidence:', error);
+      toast.error('Failed to open evidence');
+    }
+  };
+
+  const renderEvidence = (evidence?: DisputeEvidence[]) => {
+    if (!evidence || evidence.length === 0) return null;
+
+    return (
+      <div className="space-y-2 mt-2">
+        {evidence.map((item) => (
+          <div key={item.public_id} className="flex items-center justify-between p-2 bg-white rounded-lg border border-gray-200">
+            <div className="flex items-center min-w-0">
+              <FileText className="w-4 h-4 text-gray-400 mr-2 flex-shrink-0" />
+              <span className="text-sm truncate">{item.name}</span>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => handleViewEvidence(item.public_id)}>
+              <Eye className="w-4 h-4 mr-1" />
+              View
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  if (!dispute?.reason) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-orange-50 rounded-lg">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium text-gray-900">Filed by {getPartyName(dispute.filed_by)}</span>
+          {dispute.filed_at && <span className="text-gray-500">{formatRelativeTime(dispute.filed_at)}</span>}
+        </div>
+        <p className="text-sm text-gray-800 mt-1">
+          <span className="font-medium">Reason:</span> {dispute.reason}
+        </p>
+        {dispute.description && <p className="text-sm text-gray-600 mt-1">{dispute.description}</p>}
+        {renderEvidence(dispute.evidence)}
+      </div>
+
+      {dispute.response ? (
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-900 flex items-center">
+              <MessageSquare className="w-4 h-4 mr-1" />
+              Response from {getPartyName(dispute.response.responded_by)}
+            </span>
+            <span className="text-gray-500">{formatRelativeTime(dispute.response.responded_at)}</span>
+          </div>
+          <p className="text-sm text-gray-600 mt-1">{dispute.response.message}</p>
+          {renderEvidence(dispute.response.evidence)}
+        </div>
+      ) : (
+        !dispute.resolution && <p className="text-sm text-gray-500">Waiting for the other party to respond</p>
+      )}
+
+      {dispute.resolution && (
+        <div className="p-3 bg-green-50 rounded-lg text-sm">
+          <p className="font-medium text-gray-900 flex items-center">
+            <Scale className="w-4 h-4 mr-1" />
+            {RESOLUTION_LABELS[dispute.resolution]}
+          </p>
+          {dispute.settlement && dispute.resolution === 'split' && (
+            <p className="text-gray-600 mt-1">
+              Buyer: {formatCurrency(dispute.settlement.buyer_amount, transaction.currency)} · Seller:{' '}
+              {formatCurrency(dispute.settlement.seller_amount, transaction.currency)}
+            </p>
+          )}
+          {dispute.resolution_notes && <p className="text-gray-600 mt-1">{dispute.resolution_notes}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DisputeDetails;
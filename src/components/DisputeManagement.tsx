@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import {
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+  Scale,
+  ArrowUpCircle,
+  ArrowDownCircle,
+  Split
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import DisputeDetails from './DisputeDetails';
+import { TransactionsService } from '../services/transactions';
+import { DisputesService, DisputeResolution } from '../services/disputes';
+import { Transaction } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCurrency } from '../lib/supabase';
+import { formatRelativeTime } from '../lib/utils';
+import { toast } from 'sonner';
+
+const DisputeManagement: React.FC = () => {
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const [disputes, setDisputes] = useState<Transaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(searchParams.get('transaction'));
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [buyerAmounts, setBuyerAmounts] = useState<Record<string, string>>({});
+  const [processing, setProcessing] = useState<string | null>(null);
+
+  const loadDisputes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await TransactionsService.getTransactionsByStatus('disputed', { page: 1, limit: 50 });
+
+      if (response.success) {
+        setDisputes(response.data);
+      } else {
+        toast.error(response.message || 'Failed to load disputes');
+      }
+    } catch (error) {
+      console.error('Error loading disputes:', error);
+      toast.error('Failed to load disputes');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDisputes();
+  }, [loadDisputes]);
+
+  const handleResolve = async (transaction: Transaction, resolution: DisputeResolution) => {
+    if (!user) return;
+
+    try {
+      setProcessing(transaction.id);
+      const response = await DisputesService.resolveDispute(transaction.id, user.id, {
+        resolution,
+        notes: notes[transaction.id] || '',
+        buyer_amount: resolution === 'split' ? Number(buyerAmounts[transaction.id]) : undefined,
+      });
+
+      if (response.success) {
+        setDisputes(prev => prev.filter(t => t.id !== transaction.id));
+        toast.success('Dispute resolved and both parties notified');
+      } else {
+        toast.error(response.message || 'Failed to resolve dispute');
+      }
+    } catch (error) {
+      console.error('Error resolving dispute:', error);
+      toast.error('Failed to resolve dispute');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const renderResolution = (transaction: Transaction) => {
+    const isProcessing = processing === transaction.id;
+    const hasNotes = !!notes[transaction.id]?.trim();
+    const buyerAmount = Number(buyerAmounts[transaction.id]);
+    // The commission is kept, only the rest is split between the parties
+    const refundable = TransactionsService.getRefundableAmount(transaction);
+    const validSplit = buyerAmount > 0 && buyerAmount < refundable;
+
+    return (
+      <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <h4 className="font-medium text-gray-900">Resolve Dispute</h4>
+        <textarea
+          value={notes[transaction.id] || ''}
+          onChange={(e) => setNotes(prev => ({ ...prev, [transaction.id]: e.target.value }))}
+          placeholder="Resolution notes (shared with both parties)"
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          rows={3}
+          disabled={isProcessing}
+        />
+        <div className="flex flex-col md:flex-row md:items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-green-600 hover:text-green-700"
+            onClick={() => handleResolve(transaction, 'release')}
+            disabled={isProcessing || !hasNotes}
+          >
+            <ArrowUpCircle className="h-4 w-4 mr-1" />
+            Release to Seller
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => handleResolve(transaction, 'refund')}
+            disabled={isProcessing || !hasNotes}
+          >
+            <ArrowDownCircle className="h-4 w-4 mr-1" />
+            Refund Buyer
+          </Button>
+          <div className="flex items-center gap-2 md:ml-auto">
+            <Input
+              type="number"
+              min={0}
+              max={refundable}
+              placeholder={`Buyer share (${transaction.currency})`}
+              value={buyerAmounts[transaction.id] || ''}
+              onChange={(e) => setBuyerAmounts(prev => ({ ...prev, [transaction.id]: e.target.value }))}
+              disabled={isProcessing}
+              className="w-48"
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleResolve(transaction, 'split')}
+              disabled={isProcessing || !hasNotes || !validSplit}
+            >
+              <Split className="h-4 w-4 mr-1" />
+              Split
+            </Button>
+          </div>
+        </div>
+        {validSplit && (
+          <p className="text-sm text-gray-500">
+            Buyer receives {formatCurrency(buyerAmount, transaction.currency)}, seller receives{' '}
+            {formatCurrency(refundable - buyerAmount, transaction.currency)}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Disputes</h2>
+          <p className="text-gray-600">Review both sides and settle disputed escrow payments</p>
+        </div>
+        <Button variant="outline" onClick={loadDisputes} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : disputes.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Scale className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No open disputes</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {disputes.map((transaction) => {
+            const isExpanded = expandedId === transaction.id;
+
+            return (
+              <motion.div
+                key={transaction.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+              >
+                <Card>
+                  <CardContent className="p-6">
+                    <button
+                      className="w-full flex items-center justify-between text-left"
+                      onClick={() => setExpandedId(isExpanded ? null : transaction.id)}
+                    >
+                      <div className="flex items-center space-x-4">
+                        {isExpanded ? (
+                          <ChevronDown className="w-5 h-5 text-gray-400" />
+                        ) : (
+                          <ChevronRight className="w-5 h-5 text-gray-400" />
+                        )}
+                        <div>
+                          <p className="font-medium text-gray-900">{transaction.listing?.title || 'Listing'}</p>
+                          <p className="text-sm text-gray-500">
+                            {transaction.buyer?.full_name || 'Buyer'} vs {transaction.seller?.full_name || 'Seller'}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        {transaction.dispute?.filed_at && (
+                          <span className="text-sm text-gray-500">
+                            Opened {formatRelativeTime(transaction.dispute.filed_at)}
+                          </span>
+                        )}
+                        <span className="font-medium">{formatCurrency(transaction.amount, transaction.currency)}</span>
+                        <Badge className={transaction.dispute?.response ? 'bg-blue-100 text-blue-800' : 'bg-yellow-100 text-yellow-800'}>
+                          {transaction.dispute?.response ? 'Both sides in' : 'Awaiting response'}
+                        </Badge>
+                      </div>
+                    </button>
+
+                    {isExpanded && (
+                      <div className="mt-4 space-y-4">
+                        <DisputeDetails transaction={transaction} />
+                        {renderResolution(transaction)}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DisputeManagement;
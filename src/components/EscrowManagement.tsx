@@ -24,9 +24,13 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from './ui/
 import { Badge } from './ui/badge';
 import { Input } from './ui/input';
 import { TransactionsService } from '../services/transactions';
+import { PaymentService } from '../services/payment';
 import { Transaction } from '../types';
+import { useAuth } from '../contexts/AuthContext';
 import { toast } from 'sonner';
 import { formatCurrency } from '../lib/supabase';
+import { getPaymentMethodName } from '../lib/utils';
+import { hasRequiredSignatures } from '@shared/contracts';
 
 interface EscrowManagementProps {
   loading?: boolean;
@@ -51,6 +55,7 @@ interface EscrowStats {
 
 
 const EscrowManagement: React.FC<EscrowManagementProps> = ({ loading: initialLoading = false }) => {
+  const { user } = useAuth();
   const [loading, setLoading] = useState(initialLoading);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
@@ -141,11 +146,12 @@ const EscrowManagement: React.FC<EscrowManagementProps> = ({ loading: initialLoa
   };
 
   const handleReleaseEscrow = async (transactionId: string) => {
+    if (!user) return;
     if (!confirm('Are you sure you want to release escrow funds to the seller?')) return;
 
     try {
       setLoading(true);
-      const response = await TransactionsService.releaseEscrow(transactionId, 'admin-id');
+      const response = await TransactionsService.releaseEscrow(transactionId);
       
       if (response.success) {
         toast.success('Escrow funds released successfully');
@@ -161,15 +167,28 @@ const EscrowManagement: React.FC<EscrowManagementProps> = ({ loading: initialLoa
     }
   };
 
-  const handleRefund = async (transactionId: string) => {
-    if (!confirm('Are you sure you want to refund this transaction?')) return;
+  const handleRefund = async (transaction: Transaction) => {
+    if (!user) return;
+
+    const refundable = TransactionsService.getRefundableAmount(transaction);
+    const input = prompt(
+      `Refund amount (up to ${formatCurrency(refundable, transaction.currency)}). Enter less for a partial refund.`,
+      String(refundable)
+    );
+    if (input === null) return;
+
+    const amount = Number(input);
+    if (!amount || amount <= 0 || amount > refundable) {
+      toast.error(`Enter an amount between 0 and ${formatCurrency(refundable, transaction.currency)}`);
+      return;
+    }
 
     try {
       setLoading(true);
-      const response = await TransactionsService.refundTransaction(transactionId, 'admin-id', 'Refunded by admin');
+      const response = await PaymentService.refundTransaction(transaction.id, 'Refunded by admin', amount);
       
       if (response.success) {
-        toast.success('Transaction refunded successfully');
+        toast.success(amount < refundable ? 'Partial refund sent' : 'Transaction refunded successfully');
         await loadTransactions();
       } else {
         throw new Error(response.message);
@@ -217,6 +236,8 @@ const EscrowManagement: React.FC<EscrowManagementProps> = ({ loading: initialLoa
       telebirr: { icon: Smartphone, color: 'text-green-600' },
       chapa: { icon: Building2, color: 'text-blue-600' },
       bibit: { icon: Smartphone, color: 'text-red-600' },
+      cbe_birr: { icon: Building2, color: 'text-purple-600' },
+      mpesa: { icon: Smartphone, color: 'text-emerald-600' },
     };
 
     const config = methodConfig[method as keyof typeof methodConfig] || { icon: CreditCard, color: 'text-gray-600' };
@@ -372,6 +393,8 @@ const EscrowManagement: React.FC<EscrowManagementProps> = ({ loading: initialLoa
               <option value="telebirr">Telebirr</option>
               <option value="chapa">Chapa</option>
               <option value="bibit">Bibit</option>
+              <option value="cbe_birr">CBE Birr</option>
+              <option value="mpesa">M-Pesa</option>
             </select>
           </div>
         </CardContent>
@@ -447,7 +470,7 @@ const EscrowManagement: React.FC<EscrowManagementProps> = ({ loading: initialLoa
                         <td className="py-4 px-4">
                           <div className="flex items-center space-x-2">
                             {getPaymentMethodIcon(transaction.payment_method)}
-                            <span className="text-sm capitalize">{transaction.payment_method}</span>
+                            <span className="text-sm">{getPaymentMethodName(transaction.payment_method)}</span>
                           </div>
                         </td>
                         <td className="py-4 px-4">
@@ -465,6 +488,8 @@ const EscrowManagement: React.FC<EscrowManagementProps> = ({ loading: initialLoa
                                   variant="outline"
                                   onClick={() => handleReleaseEscrow(transaction.id)}
                                   className="text-green-600 hover:text-green-700"
+                                  disabled={!hasRequiredSignatures(transaction.contract)}
+                                  title={hasRequiredSignatures(transaction.contract) ? undefined : 'Both parties must sign the contract first'}
                                 >
                                   <ArrowUpCircle className="h-4 w-4 mr-1" />
                                   Release
@@ -472,7 +497,7 @@ const EscrowManagement: React.FC<EscrowManagementProps> = ({ loading: initialLoa
                                 <Button
                                   size="sm"
                                   variant="outline"
-                                  onClick={() => handleRefund(transaction.id)}
+                                  onClick={() => handleRefund(transaction)}
                                   className="text-red-600 hover:text-red-700"
                                 >
                                   <ArrowDownCircle className="h-4 w-4 mr-1" />
@@ -508,6 +533,31 @@ const EscrowManagement: React.FC<EscrowManagementProps> = ({ loading: initialLoa
                                   {transaction.escrow?.release_date && (
                                     <div><span className="text-gray-600">Release:</span> {formatDate(transaction.escrow.release_date)}</div>
                                   )}
+                                  {transaction.refund_required_reason && (
+                                    <div className="text-red-600">
+                                      <span className="font-medium">Refund required:</span> {transaction.refund_required_reason}
+                                    </div>
+                                  )}
+                                  {transaction.status === 'escrowed' && transaction.escrow_release_at && (
+                                    <div><span className="text-gray-600">Auto-release:</span> {formatDate(transaction.escrow_release_at)}</div>
+                                  )}
+                                  {transaction.contract?.signatures_required && (
+                                    <div>
+                                      <span className="text-gray-600">Contract:</span>{' '}
+                                      {hasRequiredSignatures(transaction.contract)
+                                        ? 'Signed by both parties'
+                                        : `Awaiting ${[
+                                          !transaction.contract.signed_at?.buyer && 'buyer',
+                                          !transaction.contract.signed_at?.seller && 'seller',
+                                        ].filter(Boolean).join(' and ')} signature`}
+                                    </div>
+                                  )}
+                                  {!!transaction.refund?.amount && (
+                                    <div>
+                                      <span className="text-gray-600">Refunded:</span> {formatCurrency(transaction.refund.amount, transaction.currency)}
+                                      {transaction.refund.refund_reference && ` (${transaction.refund.refund_reference})`}
+                                    </div>
+                                  )}
                                 </div>
                               </div>
 
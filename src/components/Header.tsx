@@ -8,7 +8,8 @@ import {
   Home, 
   Plus,
   LogOut,
-  Settings
+  Settings,
+  MessageCircle
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotifications } from '../contexts/NotificationContext';
@@ -197,6 +198,16 @@ const Header = ({ onMenuClick }: HeaderProps) => {
                           <Home className="w-4 h-4" />
                           <span>Dashboard</span>
                         </button>
+                        <button
+                          onClick={() => {
+                            navigate('/messages');
+                            setShowUserMenu(false);
+                          }}
+                          className="flex items-center space-x-2 w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          <MessageCircle className="w-4 h-4" />
+                          <span>Messages</span>
+                        </button>
                         <button
                           onClick={() => {
                             navigate('/sell');
@@ -0,0 +1,25 @@
+import React from 'react';
+import { parseHighlight } from '../lib/utils';
+
+interface HighlightedTextProps {
+  // Text with matches wrapped in [[mark]] and [[/mark]], from listing search
+  text: string;
+  className?: string;
+}
+
+// Search result text with the matching words highlighted
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, className }) => (
+  <span className={className}>
+    {parseHighlight(text).map((part, index) =>
+      part.highlighted ? (
+        <mark key={index} className="bg-yellow-200 text-inherit rounded-sm px-0.5">
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      )
+    )}
+  </span>
+);
+
+export default HighlightedText;
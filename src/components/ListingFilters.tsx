@@ -0,0 +1,293 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { FacetCount, FeatureFilters, ListingFacets, SearchFilters } from '../types';
+import { FEATURE_FILTERS, FeatureFilterField } from '../lib/listingFeatures';
+import { formatPrice } from '../lib/utils';
+
+interface ListingFiltersProps {
+  filters: SearchFilters;
+  facets: ListingFacets | null;
+  onChange: (changes: Partial<SearchFilters>) => void;
+}
+
+// Cities beyond this are behind "Show all"
+const CITY_LIMIT = 8;
+
+interface FacetOptionProps {
+  label: string;
+  count?: number;
+  selected: boolean;
+  onClick: () => void;
+}
+
+const FacetOption: React.FC<FacetOptionProps> = ({ label, count, selected, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={!selected && count === 0}
+    className={`w-full flex items-center justify-between px-2 py-1.5 rounded-md text-sm text-left transition-colors disabled:opacity-40 ${
+      selected ? 'bg-[#0B132B] text-white' : 'text-gray-700 hover:bg-gray-100'
+    }`}
+  >
+    <span className="truncate capitalize">{label}</span>
+    {count !== undefined && (
+      <span className={`ml-2 text-xs ${selected ? 'text-gray-200' : 'text-gray-500'}`}>{count}</span>
+    )}
+  </button>
+);
+
+interface NumberFilterInputProps {
+  value?: number;
+  placeholder: string;
+  onCommit: (value?: number) => void;
+}
+
+// Applies the number when the field loses focus or Enter is pressed rather than
+// on every keystroke. Give it a key from the value so it resets when cleared.
+const NumberFilterInput: React.FC<NumberFilterInputProps> = ({ value, placeholder, onCommit }) => {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+
+  const commit = () => {
+    const parsed = Number(draft);
+    const next = draft.trim() === '' || !Number.isFinite(parsed) ? undefined : parsed;
+    if (next !== value) onCommit(next);
+  };
+
+  return (
+    <Input
+      type="number"
+      min={0}
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && commit()}
+      className="h-8 text-sm"
+    />
+  );
+};
+
+// Filter sidebar for the Buy and Rent pages. Every option shows how many
+// listings choosing it would give, from ListingsService.getListingFacets.
+const ListingFilters: React.FC<ListingFiltersProps> = ({ filters, facets, onChange }) => {
+  const [showAllCities, setShowAllCities] = useState(false);
+
+  // Keep the chosen value listed even when nothing matches it any more
+  const withSelected = (counts: FacetCount[], selected?: string) =>
+    selected && !counts.some((facet) => facet.value === selected)
+      ? [{ value: selected, count: 0 }, ...counts]
+      : counts;
+
+  const cities = withSelected(facets?.city || [], filters.city);
+  const visibleCities = showAllCities ? cities : cities.slice(0, CITY_LIMIT);
+  const subcategories = withSelected(facets?.subcategory || [], filters.subcategory);
+  const subcities = withSelected(facets?.subcity || [], filters.subcity);
+  const verifiedCount = facets?.verified.find((facet) => facet.value === 'true')?.count;
+
+  const formatRange = (min: number, max: number | null) =>
+    max === null ? `${formatPrice(min)}+` : `${formatPrice(min)} – ${formatPrice(max)}`;
+
+  const featureFields = FEATURE_FILTERS[filters.category || ''] || [];
+  const features = filters.features || {};
+  const setFeatures = (changes: Partial<FeatureFilters>) =>
+    onChange({ features: { ...filters.features, ...changes } });
+
+  const renderFeatureField = (field: FeatureFilterField) => {
+    const unit = field.kind === 'range' || field.kind === 'number' ? field.unit : undefined;
+    const label = unit ? `${field.label} (${unit})` : field.label;
+
+    switch (field.kind) {
+      case 'range':
+        return (
+          <div key={field.minKey}>
+            <p className="text-xs text-gray-600 mb-1">{label}</p>
+            <div className="flex items-center gap-2">
+              <NumberFilterInput
+                key={`${field.minKey}-${features[field.minKey]}`}
+                value={features[field.minKey] as number | undefined}
+                placeholder="Min"
+                onCommit={(value) => setFeatures({ [field.minKey]: value })}
+              />
+              <span className="text-gray-400">–</span>
+              <NumberFilterInput
+                key={`${field.maxKey}-${features[field.maxKey]}`}
+                value={features[field.maxKey] as number | undefined}
+                placeholder="Max"
+                onCommit={(value) => setFeatures({ [field.maxKey]: value })}
+              />
+            </div>
+          </div>
+        );
+      case 'number':
+        return (
+          <div key={field.key}>
+            <p className="text-xs text-gray-600 mb-1">{label}</p>
+            <NumberFilterInput
+              key={`${field.key}-${features[field.key]}`}
+              value={features[field.key] as number | undefined}
+              placeholder="Any"
+              onCommit={(value) => setFeatures({ [field.key]: value })}
+            />
+          </div>
+        );
+      case 'select':
+        return (
+          <div key={field.key}>
+            <p className="text-xs text-gray-600 mb-1">{label}</p>
+            <select
+              value={features[field.key] || ''}
+              onChange={(e) => setFeatures({ [field.key]: e.target.value || undefined })}
+              className="w-full h-8 px-2 border border-gray-300 rounded-md text-sm bg-white"
+            >
+              <option value="">Any</option>
+              {field.options.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        );
+      case 'toggle':
+        return (
+          <label key={field.key} className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={features[field.key] === true}
+              onChange={(e) => setFeatures({ [field.key]: e.target.checked ? true : undefined })}
+            />
+            {label}
+          </label>
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">Filters</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {filters.category && subcategories.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Type</h4>
+            <div className="space-y-1">
+              <FacetOption
+                label="All types"
+                selected={!filters.subcategory}
+                onClick={() => onChange({ subcategory: undefined })}
+              />
+              {subcategories.map((facet) => (
+                <FacetOption
+                  key={facet.value}
+                  label={facet.value}
+                  count={facet.count}
+                  selected={filters.subcategory === facet.value}
+                  onClick={() => onChange({ subcategory: facet.value })}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {featureFields.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Details</h4>
+            <div className="space-y-3">
+              {featureFields.map(renderFeatureField)}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">City</h4>
+          <div className="space-y-1">
+            <FacetOption
+              label="Any city"
+              selected={!filters.city}
+              onClick={() => onChange({ city: undefined, subcity: undefined })}
+            />
+            {visibleCities.map((facet) => (
+              <FacetOption
+                key={facet.value}
+                label={facet.value}
+                count={facet.count}
+                selected={filters.city === facet.value}
+                onClick={() => onChange({ city: facet.value, subcity: undefined })}
+              />
+            ))}
+          </div>
+          {cities.length > CITY_LIMIT && (
+            <button
+              type="button"
+              onClick={() => setShowAllCities(!showAllCities)}
+              className="mt-1 px-2 text-sm text-blue-600 hover:underline"
+            >
+              {showAllCities ? 'Show fewer' : `Show all ${cities.length}`}
+            </button>
+          )}
+        </div>
+
+        {filters.city && subcities.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Subcity</h4>
+            <div className="space-y-1">
+              <FacetOption
+                label={`All of ${filters.city}`}
+                selected={!filters.subcity}
+                onClick={() => onChange({ subcity: undefined })}
+              />
+              {subcities.map((facet) => (
+                <FacetOption
+                  key={facet.value}
+                  label={facet.value}
+                  count={facet.count}
+                  selected={filters.subcity === facet.value}
+                  onClick={() => onChange({ subcity: facet.value })}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Price</h4>
+          <div className="space-y-1">
+            <FacetOption
+              label="Any price"
+              selected={filters.minPrice === undefined && filters.maxPrice === undefined}
+              onClick={() => onChange({ minPrice: undefined, maxPrice: undefined })}
+            />
+            {(facets?.price || []).map((bucket) => (
+              <FacetOption
+                key={bucket.min}
+                label={formatRange(bucket.min, bucket.max)}
+                count={bucket.count}
+                selected={filters.minPrice === bucket.min && filters.maxPrice === (bucket.max ?? undefined)}
+                onClick={() => onChange({ minPrice: bucket.min, maxPrice: bucket.max ?? undefined })}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Seller</h4>
+          <label className="flex items-center justify-between px-2 text-sm text-gray-700">
+            <span className="flex items-center">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={filters.verified === true}
+                onChange={(e) => onChange({ verified: e.target.checked ? true : undefined })}
+              />
+              Verified sellers only
+            </span>
+            {verifiedCount !== undefined && <span className="text-xs text-gray-500">{verifiedCount}</span>}
+          </label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ListingFilters;
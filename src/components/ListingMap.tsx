@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import Supercluster from 'supercluster';
+import { Coordinates, Listing, MapBounds } from '../types';
+import { createTileLayer, labelIcon } from '../lib/map';
+import { formatPrice } from '../lib/utils';
+
+interface ListingMapProps {
+  listings: Listing[];
+  initialCenter: Coordinates;
+  // Drawn on the map, which zooms to fit it, for "within N km" searches
+  circle?: { center: Coordinates; radiusKm: number };
+  onBoundsChange?: (bounds: MapBounds) => void;
+  onSelect: (listing: Listing) => void;
+  className?: string;
+}
+
+interface Viewport {
+  bbox: [number, number, number, number];
+  zoom: number;
+}
+
+// Listings are grouped into clusters until zoomed in this far
+const CLUSTER_MAX_ZOOM = 16;
+
+const readViewport = (map: L.Map): Viewport => {
+  const bounds = map.getBounds();
+  return {
+    bbox: [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()],
+    zoom: Math.round(map.getZoom()),
+  };
+};
+
+// Popup text is set through the DOM so listing titles are never read as HTML
+const createPopup = (listing: Listing, onSelect: (listing: Listing) => void) => {
+  const container = document.createElement('div');
+  container.className = 'space-y-1';
+
+  const title = document.createElement('p');
+  title.className = 'font-semibold text-gray-900';
+  title.textContent = listing.title;
+
+  const price = document.createElement('p');
+  price.className = 'text-sm text-gray-600';
+  price.textContent = formatPrice(listing.price, listing.currency)
+    + (listing.type === 'rent' && listing.rent_period ? ` / ${listing.rent_period}` : '');
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'text-sm text-blue-600 hover:underline';
+  button.textContent = 'View details';
+  button.addEventListener('click', () => onSelect(listing));
+
+  container.append(title, price, button);
+  return container;
+};
+
+// Map of pinned listings, clustered when they are close together on screen.
+// Clicking a cluster zooms into it and clicking a price opens the listing.
+const ListingMap: React.FC<ListingMapProps> = ({
+  listings,
+  initialCenter,
+  circle,
+  onBoundsChange,
+  onSelect,
+  className,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markersRef = useRef<L.LayerGroup | null>(null);
+  const onBoundsChangeRef = useRef(onBoundsChange);
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+
+  useEffect(() => {
+    onBoundsChangeRef.current = onBoundsChange;
+  }, [onBoundsChange]);
+
+  // Create the map once; later centres come from the circle or from the user panning
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current, {
+      center: [initialCenter.lat, initialCenter.lng],
+      zoom: 13,
+    });
+    createTileLayer().addTo(map);
+    markersRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    const handleMoveEnd = () => {
+      const next = readViewport(map);
+      setViewport(next);
+      const [west, south, east, north] = next.bbox;
+      onBoundsChangeRef.current?.({ south, west, north, east });
+    };
+
+    map.on('moveend', handleMoveEnd);
+    handleMoveEnd();
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      markersRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !circle) return;
+
+    const layer = L.circle([circle.center.lat, circle.center.lng], {
+      radius: circle.radiusKm * 1000,
+      color: '#2563eb',
+      weight: 2,
+      fillOpacity: 0.05,
+    }).addTo(map);
+    map.fitBounds(layer.getBounds(), { padding: [20, 20] });
+
+    return () => {
+      layer.remove();
+    };
+  }, [circle]);
+
+  const pinned = useMemo(
+    () => listings.filter((listing) => listing.latitude != null && listing.longitude != null),
+    [listings]
+  );
+
+  const index = useMemo(() => {
+    const clusters = new Supercluster<{ listingIndex: number }>({ radius: 60, maxZoom: CLUSTER_MAX_ZOOM });
+    clusters.load(
+      pinned.map((listing, listingIndex) => ({
+        type: 'Feature' as const,
+        properties: { listingIndex },
+        geometry: { type: 'Point' as const, coordinates: [listing.longitude as number, listing.latitude as number] },
+      }))
+    );
+    return clusters;
+  }, [pinned]);
+
+  // Redraw the markers for what is on screen
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = markersRef.current;
+    if (!map || !layer || !viewport) return;
+
+    layer.clearLayers();
+
+    index.getClusters(viewport.bbox, viewport.zoom).forEach((feature) => {
+      const [lng, lat] = feature.geometry.coordinates;
+      const properties = feature.properties as Partial<Supercluster.ClusterProperties> & { listingIndex?: number };
+
+      if (properties.cluster && properties.cluster_id !== undefined) {
+        const clusterId = properties.cluster_id;
+        L.marker([lat, lng], {
+          icon: labelIcon(
+            String(properties.point_count),
+            'flex items-center justify-center w-10 h-10 rounded-full bg-[#0B132B] text-white text-sm font-semibold border-2 border-white shadow-md cursor-pointer'
+          ),
+        })
+          .on('click', () => map.setView([lat, lng], index.getClusterExpansionZoom(clusterId)))
+          .addTo(layer);
+        return;
+      }
+
+      const listing = pinned[properties.listingIndex as number];
+      L.marker([lat, lng], {
+        icon: labelIcon(
+          formatPrice(listing.price, listing.currency),
+          'px-2 py-1 rounded-full bg-white text-gray-900 text-xs font-semibold border border-gray-300 shadow-md cursor-pointer'
+        ),
+      })
+        .bindPopup(createPopup(listing, onSelect))
+        .addTo(layer);
+    });
+  }, [index, pinned, viewport, onSelect]);
+
+  return <div ref={containerRef} className={className || 'h-[32rem] w-full rounded-lg z-0'} />;
+};
+
+export default ListingMap;
@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, Loader2, LocateFixed } from 'lucide-react';
+import { Button } from './ui/button';
+import ListingMap from './ListingMap';
+import { ListingsService } from '../services/listings';
+import { Coordinates, Listing, MapBounds, SearchFilters } from '../types';
+import { DEFAULT_CENTER, PLACES, RADIUS_OPTIONS, distanceKm, findPlace } from '../lib/geo';
+import { formatPrice } from '../lib/utils';
+
+interface ListingMapViewProps {
+  // Memoize these; the map reloads whenever the object changes
+  filters: SearchFilters;
+}
+
+const MY_LOCATION = 'my-location';
+
+// Map view for the Buy and Rent pages: listings in the area on screen, or
+// within a distance of a place such as Bole or of the buyer's own location
+const ListingMapView: React.FC<ListingMapViewProps> = ({ filters }) => {
+  const navigate = useNavigate();
+  const [listings, setListings] = useState<Listing[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [bounds, setBounds] = useState<MapBounds | null>(null);
+  const [placeName, setPlaceName] = useState('');
+  const [myLocation, setMyLocation] = useState<Coordinates | null>(null);
+  const [radiusKm, setRadiusKm] = useState(3);
+
+  const initialCenter = useMemo(
+    () => findPlace(filters.subcity) || findPlace(filters.city) || DEFAULT_CENTER,
+    // Only where the map opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+
+  const nearCenter = placeName === MY_LOCATION ? myLocation : findPlace(placeName) || null;
+  const circle = useMemo(
+    () => (nearCenter ? { center: nearCenter, radiusKm } : undefined),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [nearCenter?.lat, nearCenter?.lng, radiusKm]
+  );
+
+  // Panning only changes the results when searching the area on screen
+  const areaBounds = circle ? null : bounds;
+
+  const loadListings = useCallback(async () => {
+    if (!circle && !areaBounds) return;
+
+    setLoading(true);
+    setError(null);
+
+    const response = circle
+      ? await ListingsService.getListingsNearby(circle.center, circle.radiusKm, filters)
+      : await ListingsService.getListingsInBounds(areaBounds as MapBounds, filters);
+
+    if (response.success) {
+      setListings(response.data);
+    } else {
+      setError(response.message || 'Failed to load listings');
+    }
+    setLoading(false);
+  }, [circle, areaBounds, filters]);
+
+  useEffect(() => {
+    loadListings();
+  }, [loadListings]);
+
+  const handleBoundsChange = useCallback((next: MapBounds) => {
+    setBounds(next);
+  }, []);
+
+  const handleSelect = useCallback((listing: Listing) => {
+    navigate(`/listing/${listing.id}`);
+  }, [navigate]);
+
+  const handlePlaceChange = (value: string) => {
+    if (value !== MY_LOCATION) {
+      setPlaceName(value);
+      return;
+    }
+
+    navigator.geolocation?.getCurrentPosition(
+      (position) => {
+        setMyLocation({ lat: position.coords.latitude, lng: position.coords.longitude });
+        setPlaceName(MY_LOCATION);
+      },
+      () => setError('Could not get your location')
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <select
+          value={placeName}
+          onChange={(e) => handlePlaceChange(e.target.value)}
+          className="h-9 px-2 border border-gray-300 rounded-md bg-white"
+        >
+          <option value="">Anywhere on the map</option>
+          {'geolocation' in navigator && <option value={MY_LOCATION}>Near my location</option>}
+          {PLACES.map((place) => (
+            <option key={place.name} value={place.name}>
+              Near {place.name === place.city ? place.name : `${place.name}, ${place.city}`}
+            </option>
+          ))}
+        </select>
+        {circle && (
+          <select
+            value={radiusKm}
+            onChange={(e) => setRadiusKm(Number(e.target.value))}
+            className="h-9 px-2 border border-gray-300 rounded-md bg-white"
+          >
+            {RADIUS_OPTIONS.map((radius) => (
+              <option key={radius} value={radius}>within {radius} km</option>
+            ))}
+          </select>
+        )}
+        {circle && (
+          <Button variant="outline" size="sm" onClick={() => setPlaceName('')}>
+            Search the whole map
+          </Button>
+        )}
+        <span className="text-gray-500 flex items-center">
+          {loading ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            `${listings.length} pinned ${listings.length === 1 ? 'listing' : 'listings'}`
+          )}
+        </span>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center text-sm text-red-700">
+          <AlertCircle className="h-4 w-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      <ListingMap
+        listings={listings}
+        initialCenter={initialCenter}
+        circle={circle}
+        onBoundsChange={handleBoundsChange}
+        onSelect={handleSelect}
+      />
+
+      <p className="text-xs text-gray-500">Listings without a map pin are only shown in the grid view.</p>
+
+      {circle && listings.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm divide-y">
+          {listings.slice(0, 10).map((listing) => (
+            <button
+              key={listing.id}
+              type="button"
+              onClick={() => handleSelect(listing)}
+              className="w-full flex items-center justify-between px-4 py-3 text-left hover:bg-gray-50"
+            >
+              <span className="min-w-0">
+                <span className="block font-medium text-gray-900 truncate">{listing.title}</span>
+                <span className="block text-sm text-gray-500">{formatPrice(listing.price, listing.currency)}</span>
+              </span>
+              <span className="flex items-center text-sm text-gray-500 ml-4 flex-shrink-0">
+                <LocateFixed className="w-4 h-4 mr-1" />
+                {distanceKm(circle.center, { lat: listing.latitude as number, lng: listing.longitude as number }).toFixed(1)} km
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ListingMapView;
@@ -32,6 +32,8 @@ import { Input } from './ui/input';
 import { formatRelativeTime, formatPrice } from '../lib/utils';
 import { toast } from 'sonner';
 import { Listing } from '../types';
+import { BulkListingAction, BulkListingResult } from '../services/listings';
+import BulkActionResults from './BulkActionResults';
 
 interface ListingStatusManagementProps {
   listings: Listing[];
@@ -40,6 +42,7 @@ interface ListingStatusManagementProps {
   onRejectListing: (listingId: string) => void;
   onActivateListing: (listingId: string) => void;
   onDeactivateListing: (listingId: string) => void;
+  onBulkUpdate: (listingIds: string[], action: BulkListingAction, reason?: string) => Promise<BulkListingResult[]>;
   onRefresh: () => void;
   onUpdateListing?: (listingId: string, updates: Partial<Listing>) => void;
 }
@@ -51,6 +54,7 @@ const ListingStatusManagement: React.FC<ListingStatusManagementProps> = ({
   onRejectListing,
   onActivateListing,
   onDeactivateListing,
+  onBulkUpdate,
   onRefresh,
   onUpdateListing
 }) => {
@@ -62,6 +66,11 @@ const ListingStatusManagement: React.FC<ListingStatusManagementProps> = ({
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [selectedListings, setSelectedListings] = useState<string[]>([]);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
+  const [bulkResults, setBulkResults] = useState<BulkListingResult[]>([]);
+  const [bulkTitles, setBulkTitles] = useState<Record<string, string>>({});
+  const [bulkProcessing, setBulkProcessing] = useState(false);
+  const [showRejectReason, setShowRejectReason] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
 
   const filteredListings = listings
     .filter(listing => {
@@ -104,43 +113,30 @@ const ListingStatusManagement: React.FC<ListingStatusManagementProps> = ({
     }
   };
 
-  const handleBulkApprove = () => {
-    selectedListings.forEach(listingId => {
-      const listing = listings.find(l => l.id === listingId);
-      if (listing && listing.status === 'pending') {
-        onApproveListing(listingId);
-      }
-    });
-    setSelectedListings([]);
-    toast.success(`Approved ${selectedListings.length} listings`);
+  const runBulkAction = async (action: BulkListingAction, reason?: string) => {
+    try {
+      setBulkProcessing(true);
+      setBulkTitles(Object.fromEntries(
+        listings.filter(l => selectedListings.includes(l.id)).map(l => [l.id, l.title])
+      ));
+      const results = await onBulkUpdate(selectedListings, action, reason);
+      setBulkResults(results);
+      // Keep failed listings selected so they can be retried
+      setSelectedListings(results.filter(r => r.status === 'failed').map(r => r.listing_id));
+      setShowRejectReason(false);
+      setRejectReason('');
+    } finally {
+      setBulkProcessing(false);
+    }
   };
 
-  const handleBulkReject = () => {
-    selectedListings.forEach(listingId => {
-      onRejectListing(listingId);
-    });
-    setSelectedListings([]);
-    toast.success(`Rejected ${selectedListings.length} listings`);
-  };
+  const handleBulkApprove = () => runBulkAction('approve');
 
-  const handleBulkActivate = () => {
-    selectedListings.forEach(listingId => {
-      const listing = listings.find(l => l.id === listingId);
-      if (listing && !listing.is_active) {
-        onActivateListing(listingId);
-      }
-    });
-    setSelectedListings([]);
-    toast.success(`Activated ${selectedListings.length} listings`);
-  };
+  const handleBulkReject = () => runBulkAction('reject', rejectReason);
 
-  const handleBulkDeactivate = () => {
-    selectedListings.forEach(listingId => {
-      onDeactivateListing(listingId);
-    });
-    setSelectedListings([]);
-    toast.success(`Deactivated ${selectedListings.length} listings`);
-  };
+  const handleBulkActivate = () => runBulkAction('activate');
+
+  const handleBulkDeactivate = () => runBulkAction('deactivate');
 
   const handleExport = () => {
     const csvData = filteredListings.map(listing => 
@@ -346,6 +342,7 @@ const ListingStatusManagement: React.FC<ListingStatusManagementProps> = ({
               variant="outline"
               size="sm"
               onClick={handleBulkApprove}
+              disabled={bulkProcessing}
             >
               <CheckCircle className="h-4 w-4 mr-2" />
               Approve Selected
@@ -353,7 +350,8 @@ const ListingStatusManagement: React.FC<ListingStatusManagementProps> = ({
             <Button
               variant="outline"
               size="sm"
-              onClick={handleBulkReject}
+              onClick={() => setShowRejectReason(true)}
+              disabled={bulkProcessing}
             >
               <XCircle className="h-4 w-4 mr-2" />
               Reject Selected
@@ -362,6 +360,7 @@ const ListingStatusManagement: React.FC<ListingStatusManagementProps> = ({
               variant="outline"
               size="sm"
               onClick={handleBulkActivate}
+              disabled={bulkProcessing}
             >
               <CheckCircle2 className="h-4 w-4 mr-2" />
               Activate Selected
@@ -370,6 +369,7 @@ const ListingStatusManagement: React.FC<ListingStatusManagementProps> = ({
               variant="outline"
               size="sm"
               onClick={handleBulkDeactivate}
+              disabled={bulkProcessing}
             >
               <Ban className="h-4 w-4 mr-2" />
               Deactivate Selected
@@ -385,6 +385,41 @@ const ListingStatusManagement: React.FC<ListingStatusManagementProps> = ({
         </div>
       )}
 
+      {/* Rejection Reason */}
+      {selectedListings.length > 0 && showRejectReason && (
+        <div className="p-4 bg-red-50 rounded-lg space-y-3">
+          <textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="Reason for rejection (sent to each owner)"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            rows={2}
+            disabled={bulkProcessing}
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setShowRejectReason(false)} disabled={bulkProcessing}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              className="bg-red-600 hover:bg-red-700"
+              onClick={handleBulkReject}
+              disabled={bulkProcessing || !rejectReason.trim()}
+            >
+              Reject {selectedListings.length} listing(s)
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {bulkResults.length > 0 && (
+        <BulkActionResults
+          results={bulkResults}
+          titles={bulkTitles}
+          onDismiss={() => setBulkResults([])}
+        />
+      )}
+
       {/* Export Button */}
       <div className="flex justify-end">
         <Button variant="outline" onClick={handleExport}>
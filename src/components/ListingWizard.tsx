@@ -9,6 +9,9 @@ import { toast } from 'sonner';
 import FileUpload from './FileUpload';
 import { UploadService } from '../services/upload';
 import { useAuth } from '../contexts/AuthContext';
+import LocationPicker from './LocationPicker';
+import { FEATURE_INPUTS } from '../lib/listingFeatures';
+import { DEFAULT_CENTER, findPlace } from '../lib/geo';
 
 interface ListingWizardProps {
   onComplete: (listingData: any) => void;
@@ -24,6 +27,7 @@ interface ListingData {
   price: number;
   currency: string;
   rentPeriod?: string;
+  securityDeposit?: number;
   location: {
     address: string;
     city: string;
@@ -110,6 +114,7 @@ const ListingWizard: React.FC<ListingWizardProps> = ({ onComplete, onCancel }) =
       case 3:
         if (!listingData.price || listingData.price <= 0) newErrors.price = 'Please enter a valid price';
         if (listingData.type === 'rent' && !listingData.rentPeriod) newErrors.rentPeriod = 'Please select a rental period';
+        if (listingData.securityDeposit !== undefined && listingData.securityDeposit < 0) newErrors.securityDeposit = 'Deposit cannot be negative';
         break;
       case 4:
         if (!listingData.location.address.trim()) newErrors.address = 'Address is required';
@@ -135,6 +140,19 @@ const ListingWizard: React.FC<ListingWizardProps> = ({ onComplete, onCancel }) =
     setCurrentStep(prev => Math.max(prev - 1, 1));
   };
 
+  // Category details are stored as typed values so buyers can filter on them
+  const setFeature = (key: string, value: string | number | boolean | undefined) => {
+    setListingData(prev => {
+      const features = { ...prev.features };
+      if (value === undefined || value === '') {
+        delete features[key];
+      } else {
+        features[key] = value;
+      }
+      return { ...prev, features };
+    });
+  };
+
   const handleImageUpload = (files: File[]) => {
     setListingData(prev => ({ ...prev, images: files }));
     if (errors.images) {
@@ -173,11 +191,12 @@ const ListingWizard: React.FC<ListingWizardProps> = ({ onComplete, onCancel }) =
         documentUrls.push(result.publicUrl);
       }
 
-      const { rentPeriod, images, documents, ...listingDataWithoutFiles } = listingData;
+      const { rentPeriod, securityDeposit, images, documents, ...listingDataWithoutFiles } = listingData;
       
       const finalListingData = {
         ...listingDataWithoutFiles,
         rent_period: rentPeriod, // Convert camelCase to snake_case
+        security_deposit: listingData.type === 'rent' ? securityDeposit : undefined,
         images: imageUrls.map((url, index) => ({
           url,
           public_id: `${user?.id}/${Date.now()}/${listingData.images[index]?.name || 'image'}`,
@@ -245,7 +264,7 @@ const ListingWizard: React.FC<ListingWizardProps> = ({ onComplete, onCancel }) =
                 {Object.entries(categories).map(([key, category]) => (
                   <button
                     key={key}
-                    onClick={() => setListingData(prev => ({ ...prev, category: key, subcategory: '' }))}
+                    onClick={() => setListingData(prev => ({ ...prev, category: key, subcategory: '', features: {} }))}
                     className={`p-3 border rounded-lg text-center transition-all ${
                       listingData.category === key
                         ? 'border-blue-500 bg-blue-50 text-blue-700'
@@ -317,6 +336,61 @@ const ListingWizard: React.FC<ListingWizardProps> = ({ onComplete, onCancel }) =
                 <span>{listingData.description.length} characters</span>
               </div>
             </div>
+
+            {FEATURE_INPUTS[listingData.category] && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Details</label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {FEATURE_INPUTS[listingData.category].map((field) => {
+                    const label = field.unit ? `${field.label} (${field.unit})` : field.label;
+                    const value = listingData.features[field.key];
+
+                    if (field.kind === 'toggle') {
+                      return (
+                        <label key={field.key} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            className="mr-2"
+                            checked={value === true}
+                            onChange={(e) => setFeature(field.key, e.target.checked ? true : undefined)}
+                          />
+                          {label}
+                        </label>
+                      );
+                    }
+
+                    return (
+                      <div key={field.key}>
+                        <label className="block text-sm text-gray-600 mb-1">{label}</label>
+                        {field.kind === 'select' ? (
+                          <select
+                            value={value || ''}
+                            onChange={(e) => setFeature(field.key, e.target.value || undefined)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          >
+                            <option value="">Select</option>
+                            {field.options?.map((option) => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <Input
+                            type={field.kind === 'number' ? 'number' : 'text'}
+                            min={field.kind === 'number' ? 0 : undefined}
+                            value={value ?? ''}
+                            onChange={(e) => setFeature(
+                              field.key,
+                              field.kind === 'number' && e.target.value !== '' ? parseFloat(e.target.value) : e.target.value
+                            )}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-sm text-gray-500 mt-1">Optional, but buyers filter on these</p>
+              </div>
+            )}
           </div>
         );
 
@@ -358,6 +432,25 @@ const ListingWizard: React.FC<ListingWizardProps> = ({ onComplete, onCancel }) =
               </div>
             )}
 
+            {listingData.type === 'rent' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Security Deposit ({listingData.currency})</label>
+                <Input
+                  type="number"
+                  value={listingData.securityDeposit ?? ''}
+                  onChange={(e) => setListingData(prev => ({
+                    ...prev,
+                    securityDeposit: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0,
+                  }))}
+                  placeholder={listingData.price ? String(listingData.price) : '0'}
+                  className={errors.securityDeposit ? 'border-red-500' : ''}
+                />
+                <p className={`text-sm mt-1 ${errors.securityDeposit ? 'text-red-500' : 'text-gray-500'}`}>
+                  {errors.securityDeposit || 'Held in escrow for the whole stay. Leave empty to charge one period\'s rent.'}
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">Currency</label>
               <select
@@ -431,6 +524,21 @@ const ListingWizard: React.FC<ListingWizardProps> = ({ onComplete, onCancel }) =
                 placeholder="e.g., Bole 01"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Map Pin (Recommended)</label>
+              <LocationPicker
+                value={listingData.location.coordinates}
+                center={findPlace(listingData.location.subcity) || findPlace(listingData.location.city) || DEFAULT_CENTER}
+                onChange={(coordinates) => setListingData(prev => ({
+                  ...prev,
+                  location: { ...prev.location, coordinates }
+                }))}
+              />
+              <p className="text-sm text-gray-500 mt-1">
+                Buyers searching the map or near a place only find listings with a pin
+              </p>
+            </div>
           </div>
         );
 
@@ -491,12 +599,33 @@ const ListingWizard: React.FC<ListingWizardProps> = ({ onComplete, onCancel }) =
                 <div>
                   <span className="font-medium">Title:</span> {listingData.title}
                 </div>
+                {FEATURE_INPUTS[listingData.category]?.some((field) => listingData.features[field.key] !== undefined) && (
+                  <div>
+                    <span className="font-medium">Details:</span>{' '}
+                    {FEATURE_INPUTS[listingData.category]
+                      .filter((field) => listingData.features[field.key] !== undefined)
+                      .map((field) => {
+                        const value = listingData.features[field.key];
+                        const option = field.options?.find((o) => o.value === value);
+                        return field.kind === 'toggle'
+                          ? field.label
+                          : `${field.label} ${option?.label || value}${field.unit ? ` ${field.unit}` : ''}`;
+                      })
+                      .join(', ')}
+                  </div>
+                )}
                 <div>
                   <span className="font-medium">Price:</span> {listingData.currency} {listingData.price.toLocaleString()}
                   {listingData.type === 'rent' && listingData.rentPeriod && ` per ${listingData.rentPeriod}`}
                 </div>
+                {listingData.type === 'rent' && (
+                  <div>
+                    <span className="font-medium">Security Deposit:</span> {listingData.currency} {(listingData.securityDeposit ?? listingData.price).toLocaleString()}
+                  </div>
+                )}
                 <div>
                   <span className="font-medium">Location:</span> {listingData.location.address}, {listingData.location.subcity}, {listingData.location.city}
+                  {listingData.location.coordinates ? ' (pinned on the map)' : ' (no map pin)'}
                 </div>
                 <div>
                   <span className="font-medium">Images:</span> {listingData.images.length} uploaded
@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { LocateFixed, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Coordinates } from '../types';
+import { createTileLayer, pinIcon } from '../lib/map';
+
+interface LocationPickerProps {
+  value?: Coordinates;
+  // Where to look when there is no pin yet, such as the chosen subcity
+  center: Coordinates;
+  onChange: (value?: Coordinates) => void;
+}
+
+// Coordinates are kept to about a metre
+const roundCoordinate = (value: number) => Math.round(value * 100000) / 100000;
+
+// Map for sellers to drop a pin on their listing's location. Click to place
+// the pin, drag it to adjust, or use the device's location.
+const LocationPicker: React.FC<LocationPickerProps> = ({ value, center, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerRef = useRef<L.Marker | null>(null);
+  const onChangeRef = useRef(onChange);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const start = value || center;
+    const map = L.map(containerRef.current, {
+      center: [start.lat, start.lng],
+      zoom: value ? 16 : 14,
+    });
+    createTileLayer().addTo(map);
+    map.on('click', (e: L.LeafletMouseEvent) => {
+      onChangeRef.current({ lat: roundCoordinate(e.latlng.lat), lng: roundCoordinate(e.latlng.lng) });
+    });
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      markerRef.current = null;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Follow the chosen area until a pin is dropped
+  useEffect(() => {
+    if (!value) {
+      mapRef.current?.setView([center.lat, center.lng], 14);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [center.lat, center.lng]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (!value) {
+      markerRef.current?.remove();
+      markerRef.current = null;
+      return;
+    }
+
+    if (markerRef.current) {
+      markerRef.current.setLatLng([value.lat, value.lng]);
+      return;
+    }
+
+    const marker = L.marker([value.lat, value.lng], { icon: pinIcon(), draggable: true }).addTo(map);
+    marker.on('dragend', () => {
+      const position = marker.getLatLng();
+      onChangeRef.current({ lat: roundCoordinate(position.lat), lng: roundCoordinate(position.lng) });
+    });
+    markerRef.current = marker;
+  }, [value]);
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) return;
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const coordinates = {
+          lat: roundCoordinate(position.coords.latitude),
+          lng: roundCoordinate(position.coords.longitude),
+        };
+        onChangeRef.current(coordinates);
+        mapRef.current?.setView([coordinates.lat, coordinates.lng], 17);
+        setLocating(false);
+      },
+      () => setLocating(false),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div ref={containerRef} className="h-72 w-full rounded-lg border border-gray-300 z-0" />
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-500">
+        <span>
+          {value
+            ? `Pinned at ${value.lat.toFixed(5)}, ${value.lng.toFixed(5)}. Drag the pin to adjust it.`
+            : 'Click the map where the property is'}
+        </span>
+        <div className="flex gap-2">
+          {'geolocation' in navigator && (
+            <Button type="button" variant="outline" size="sm" onClick={handleUseMyLocation} disabled={locating}>
+              <LocateFixed className="w-4 h-4 mr-1" />
+              {locating ? 'Locating...' : 'Use my location'}
+            </Button>
+          )}
+          {value && (
+            <Button type="button" variant="outline" size="sm" onClick={() => onChange(undefined)}>
+              <X className="w-4 h-4 mr-1" />
+              Remove pin
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocationPicker;
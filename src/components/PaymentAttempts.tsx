@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+import { PaymentService } from '../services/payment';
+import { PaymentAttempt, PaymentAttemptStatus } from '../types';
+import { formatRelativeTime, getPaymentMethodIcon, getPaymentMethodName } from '../lib/utils';
+
+interface PaymentAttemptsProps {
+  transactionId: string;
+}
+
+const STATUS_LABELS: Record<PaymentAttemptStatus, { label: string; color: string }> = {
+  started: { label: 'In progress', color: 'text-blue-600' },
+  failed: { label: 'Could not start', color: 'text-red-600' },
+  superseded: { label: 'Replaced by a later attempt', color: 'text-gray-500' },
+  abandoned: { label: 'Not completed in time', color: 'text-gray-500' },
+  completed: { label: 'Paid', color: 'text-green-600' },
+  cancelled: { label: 'Cancelled', color: 'text-red-600' },
+};
+
+// Every attempt to pay for a transaction, newest first. Renders nothing for
+// transactions paid on the first try.
+const PaymentAttempts: React.FC<PaymentAttemptsProps> = ({ transactionId }) => {
+  const [attempts, setAttempts] = useState<PaymentAttempt[]>([]);
+
+  useEffect(() => {
+    PaymentService.getPaymentAttempts(transactionId).then((response) => {
+      if (response.success) setAttempts(response.data);
+    });
+  }, [transactionId]);
+
+  if (attempts.length < 2 && attempts[0]?.status !== 'failed') return null;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-3">
+      <p className="text-sm font-medium text-gray-900 mb-2">Payment Attempts</p>
+      <div className="space-y-1">
+        {attempts.map((attempt) => {
+          const status = STATUS_LABELS[attempt.status];
+
+          return (
+            <div key={attempt.id} className="flex items-center justify-between text-sm">
+              <span>
+                {getPaymentMethodIcon(attempt.payment_method)} {getPaymentMethodName(attempt.payment_method)}
+                <span className="text-gray-500"> · {formatRelativeTime(attempt.created_at)}</span>
+              </span>
+              <span className={status.color}>
+                {status.label}{attempt.error ? `: ${attempt.error}` : ''}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentAttempts;
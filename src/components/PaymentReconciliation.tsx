@@ -0,0 +1,336 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RefreshCw, Upload, FileSpreadsheet, CheckCircle } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { PaymentService, PAYMENT_SANDBOX_ENABLED } from '../services/payment';
+import { PaymentMethod, PaymentMismatch, PaymentMismatchKind, PaymentSettlementImport } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCurrency } from '../lib/supabase';
+import { formatRelativeTime, getPaymentMethodIcon, getPaymentMethodName } from '../lib/utils';
+import { toast } from 'sonner';
+
+const PAGE_SIZE = 25;
+
+const GATEWAYS: PaymentMethod[] = [
+  'chapa',
+  'telebirr',
+  'bibit',
+  'cbe_birr',
+  'mpesa',
+  ...(PAYMENT_SANDBOX_ENABLED ? ['sandbox' as const] : []),
+];
+
+const KIND_CONFIG: Record<PaymentMismatchKind, { label: string; color: string }> = {
+  missing: { label: 'Missing', color: 'bg-red-100 text-red-800' },
+  duplicate: { label: 'Duplicate', color: 'bg-orange-100 text-orange-800' },
+  amount_differs: { label: 'Amount differs', color: 'bg-yellow-100 text-yellow-800' },
+};
+
+const PaymentReconciliation: React.FC = () => {
+  const { user } = useAuth();
+  const [mismatches, setMismatches] = useState<PaymentMismatch[]>([]);
+  const [imports, setImports] = useState<PaymentSettlementImport[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [status, setStatus] = useState<PaymentMismatch['status'] | 'all'>('open');
+  const [kind, setKind] = useState<PaymentMismatchKind | 'all'>('all');
+  const [page, setPage] = useState(1);
+  const [gateway, setGateway] = useState<PaymentMethod>('chapa');
+  const [file, setFile] = useState<File | null>(null);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [mismatchResponse, importResponse] = await Promise.all([
+        PaymentService.getMismatches(
+          {
+            status: status === 'all' ? undefined : status,
+            kind: kind === 'all' ? undefined : kind,
+          },
+          { page, limit: PAGE_SIZE }
+        ),
+        PaymentService.getSettlementImports(),
+      ]);
+
+      if (mismatchResponse.success) {
+        setMismatches(mismatchResponse.data);
+        setTotal(mismatchResponse.total);
+      } else {
+        toast.error(mismatchResponse.message || 'Failed to load mismatch report');
+      }
+
+      if (importResponse.success) {
+        setImports(importResponse.data);
+      }
+    } catch (error) {
+      console.error('Error loading reconciliation report:', error);
+      toast.error('Failed to load mismatch report');
+    } finally {
+      setLoading(false);
+    }
+  }, [status, kind, page]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const handleRunReconciliation = async () => {
+    try {
+      setRunning(true);
+      const response = await PaymentService.runReconciliation();
+
+      if (response.success && response.data) {
+        const { checked, completed, cancelled, abandoned, mismatched } = response.data;
+        toast.success(
+          `Checked ${checked} stale payment(s): ${completed} completed, ${cancelled} cancelled, ` +
+            `${abandoned} abandoned, ${mismatched} mismatched`
+        );
+        await loadReport();
+      } else {
+        toast.error(response.message || 'Reconciliation failed');
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      const response = await PaymentService.importSettlement(gateway, file);
+
+      if (response.success && response.data) {
+        const { row_count, matched_count, mismatch_count, skipped_rows } = response.data;
+        toast.success(
+          `${row_count} row(s) imported: ${matched_count} matched, ${mismatch_count} mismatch(es)` +
+            (skipped_rows.length > 0 ? `, rows ${skipped_rows.join(', ')} skipped` : '')
+        );
+        setFile(null);
+        setPage(1);
+        await loadReport();
+      } else {
+        toast.error(response.message || 'Settlement import failed');
+      }
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleResolve = async (mismatch: PaymentMismatch) => {
+    if (!user) return;
+
+    const note = prompt('How was this mismatch resolved?');
+    if (!note?.trim()) return;
+
+    const response = await PaymentService.resolveMismatch(mismatch.id, user.id, note.trim());
+
+    if (response.success) {
+      toast.success('Mismatch resolved');
+      await loadReport();
+    } else {
+      toast.error(response.message || 'Failed to resolve mismatch');
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Payment Reconciliation</h2>
+          <p className="text-gray-600">Transactions compared with what the gateways verified and settled</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={loadReport} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={handleRunReconciliation} disabled={running}>
+            {running ? 'Checking...' : 'Re-verify Stale Payments'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Settlement import */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center">
+            <FileSpreadsheet className="h-5 w-5 mr-2" />
+            Import Settlement
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleImport} className="flex flex-col md:flex-row gap-3">
+            <select
+              value={gateway}
+              onChange={(e) => setGateway(e.target.value as PaymentMethod)}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {GATEWAYS.map((method) => (
+                <option key={method} value={method}>
+                  {getPaymentMethodName(method)}
+                </option>
+              ))}
+            </select>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="flex-1 text-sm"
+            />
+            <Button type="submit" disabled={!file || importing}>
+              <Upload className="h-4 w-4 mr-2" />
+              {importing ? 'Importing...' : 'Import CSV'}
+            </Button>
+          </form>
+
+          {imports.length > 0 && (
+            <div className="divide-y divide-gray-100 text-sm">
+              {imports.map((settlement) => (
+                <div key={settlement.id} className="flex items-center justify-between py-2">
+                  <div className="min-w-0">
+                    <span className="mr-2">{getPaymentMethodIcon(settlement.gateway)}</span>
+                    <span className="font-medium">{settlement.file_name}</span>
+                    {settlement.period_start && (
+                      <span className="text-gray-500 ml-2">
+                        {settlement.period_start} – {settlement.period_end}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex-shrink-0 ml-4 text-gray-600">
+                    {settlement.matched_count}/{settlement.row_count} matched
+                    {settlement.mismatch_count > 0 && (
+                      <span className="text-red-600"> · {settlement.mismatch_count} mismatch(es)</span>
+                    )}
+                    <span className="text-gray-400"> · {formatRelativeTime(settlement.created_at)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-3">
+        <select
+          value={status}
+          onChange={(e) => {
+            setPage(1);
+            setStatus(e.target.value as PaymentMismatch['status'] | 'all');
+          }}
+          className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+        >
+          <option value="open">Open</option>
+          <option value="resolved">Resolved</option>
+          <option value="all">All</option>
+        </select>
+        <select
+          value={kind}
+          onChange={(e) => {
+            setPage(1);
+            setKind(e.target.value as PaymentMismatchKind | 'all');
+          }}
+          className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+        >
+          <option value="all">All mismatches</option>
+          <option value="missing">Missing</option>
+          <option value="duplicate">Duplicate</option>
+          <option value="amount_differs">Amount differs</option>
+        </select>
+      </div>
+
+      {/* Mismatch report */}
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : mismatches.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <CheckCircle className="h-12 w-12 text-green-300 mx-auto mb-4" />
+            <p className="text-gray-500">No mismatches found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0 divide-y divide-gray-100">
+            {mismatches.map((mismatch) => (
+              <div key={mismatch.id} className="p-4 flex items-start justify-between">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium text-gray-900">
+                    <Badge className={`${KIND_CONFIG[mismatch.kind].color} mr-2`}>
+                      {KIND_CONFIG[mismatch.kind].label}
+                    </Badge>
+                    <span className="mr-2">
+                      {getPaymentMethodIcon(mismatch.gateway)} {getPaymentMethodName(mismatch.gateway)}
+                    </span>
+                    <span className="text-sm text-gray-500 font-mono">{mismatch.reference}</span>
+                  </p>
+                  <p className="text-sm text-gray-700">{mismatch.message}</p>
+                  <p className="text-sm text-gray-500">
+                    {mismatch.expected_amount != null && (
+                      <>Expected {formatCurrency(mismatch.expected_amount, mismatch.currency || 'ETB')} · </>
+                    )}
+                    {mismatch.reported_amount != null && (
+                      <>Reported {formatCurrency(mismatch.reported_amount, mismatch.currency || 'ETB')} · </>
+                    )}
+                    {mismatch.transaction_id && <span className="font-mono">{mismatch.transaction_id} · </span>}
+                    {mismatch.source === 'settlement' ? 'Settlement import' : 'Scheduled check'}{' '}
+                    {formatRelativeTime(mismatch.created_at)}
+                  </p>
+                  {mismatch.status === 'resolved' && (
+                    <p className="text-sm text-green-700">Resolved: {mismatch.resolution_note}</p>
+                  )}
+                </div>
+                {mismatch.status === 'open' && (
+                  <Button variant="outline" size="sm" className="flex-shrink-0 ml-4" onClick={() => handleResolve(mismatch)}>
+                    Resolve
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-600">{total} mismatches</div>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => Math.max(prev - 1, 1))}
+              disabled={page === 1}
+            >
+              Previous
+            </Button>
+            <div className="text-sm text-gray-600">
+              Page {page} of {totalPages}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => Math.min(prev + 1, totalPages))}
+              disabled={page === totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentReconciliation;
@@ -0,0 +1,230 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import {
+  Home,
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+  CheckCircle,
+  Clock,
+  AlertCircle,
+  XCircle
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { RentalsService } from '../services/rentals';
+import { RentalBooking, RentPayment } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCurrency } from '../lib/supabase';
+import { formatDate } from '../lib/utils';
+import { toast } from 'sonner';
+
+// Bookings the user rents or rents out, with each booking's rent schedule
+const RentLedger: React.FC = () => {
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [bookings, setBookings] = useState<RentalBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(searchParams.get('booking'));
+
+  const loadBookings = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const response = await RentalsService.getUserBookings(user.id);
+
+      if (response.success) {
+        setBookings(response.data);
+      } else {
+        toast.error(response.message || 'Failed to load rentals');
+      }
+    } catch (error) {
+      console.error('Error loading rentals:', error);
+      toast.error('Failed to load rentals');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadBookings();
+  }, [loadBookings]);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const getBookingBadge = (status: RentalBooking['status']) => {
+    const statusConfig = {
+      pending: { label: 'Awaiting Deposit', color: 'bg-yellow-500 text-white' },
+      confirmed: { label: 'Confirmed', color: 'bg-blue-500 text-white' },
+      completed: { label: 'Completed', color: 'bg-green-500 text-white' },
+      cancelled: { label: 'Cancelled', color: 'bg-gray-500 text-white' },
+    };
+    const config = statusConfig[status];
+
+    return <Badge className={config.color}>{config.label}</Badge>;
+  };
+
+  const getPaymentBadge = (payment: RentPayment) => {
+    if (payment.status === 'paid') {
+      return (
+        <Badge className="bg-green-500 text-white">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          Paid
+        </Badge>
+      );
+    }
+    if (payment.status === 'cancelled') {
+      return (
+        <Badge className="bg-gray-500 text-white">
+          <XCircle className="h-3 w-3 mr-1" />
+          Cancelled
+        </Badge>
+      );
+    }
+    if (payment.due_date < today) {
+      return (
+        <Badge className="bg-red-500 text-white">
+          <AlertCircle className="h-3 w-3 mr-1" />
+          Overdue
+        </Badge>
+      );
+    }
+
+    return (
+      <Badge className="bg-yellow-500 text-white">
+        <Clock className="h-3 w-3 mr-1" />
+        Due
+      </Badge>
+    );
+  };
+
+  const payPath = (booking: RentalBooking, payment?: RentPayment) => {
+    const params = new URLSearchParams({ booking: booking.id });
+    if (payment) params.set('rent_payment', payment.id);
+
+    return `/payment/${booking.listing_id}?${params.toString()}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center">
+          <Home className="w-5 h-5 mr-2" />
+          My Rentals
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={loadBookings} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : bookings.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No rentals yet</p>
+        ) : (
+          <div className="space-y-3">
+            {bookings.map((booking) => {
+              const isExpanded = expandedId === booking.id;
+              const isRenter = booking.renter_id === user?.id;
+              const payments = booking.rent_payments || [];
+              // Rent is paid in order, so only the earliest unpaid period can be paid
+              const nextDue = payments.find(payment => payment.status === 'scheduled');
+
+              return (
+                <motion.div
+                  key={booking.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className={`border rounded-lg p-4 ${isExpanded ? 'border-blue-300' : 'border-gray-200'}`}
+                >
+                  <button
+                    className="w-full flex items-center justify-between text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : booking.id)}
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {isExpanded ? (
+                        <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">
+                          {booking.listing?.title || 'Listing'}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {isRenter ? 'Renting' : `Rented by ${booking.renter?.full_name || 'a renter'}`} · {formatDate(booking.start_date)} to {formatDate(booking.end_date)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3 flex-shrink-0">
+                      <span className="font-medium">{formatCurrency(booking.rent_amount, booking.currency)}</span>
+                      {getBookingBadge(booking.status)}
+                    </div>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="mt-4 space-y-3">
+                      <div className="text-sm text-gray-600">
+                        Security deposit: {formatCurrency(booking.deposit_amount, booking.currency)}
+                        {booking.status === 'pending' ? ' (not paid yet)' : ' (held in escrow)'}
+                      </div>
+
+                      {booking.status === 'pending' && isRenter && (
+                        <Button size="sm" onClick={() => navigate(payPath(booking))}>
+                          Pay Deposit
+                        </Button>
+                      )}
+
+                      {payments.length > 0 && (
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-gray-500 border-b">
+                                <th className="py-2 pr-4 font-medium">Period</th>
+                                <th className="py-2 pr-4 font-medium">Due</th>
+                                <th className="py-2 pr-4 font-medium">Amount</th>
+                                <th className="py-2 pr-4 font-medium">Status</th>
+                                <th className="py-2" />
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {payments.map(payment => (
+                                <tr key={payment.id} className="border-b last:border-0">
+                                  <td className="py-2 pr-4">
+                                    {formatDate(payment.period_start)} to {formatDate(payment.period_end)}
+                                  </td>
+                                  <td className="py-2 pr-4">{formatDate(payment.due_date)}</td>
+                                  <td className="py-2 pr-4">{formatCurrency(payment.amount, payment.currency)}</td>
+                                  <td className="py-2 pr-4">{getPaymentBadge(payment)}</td>
+                                  <td className="py-2 text-right">
+                                    {isRenter && booking.status === 'confirmed' && payment.id === nextDue?.id && (
+                                      <Button size="sm" onClick={() => navigate(payPath(booking, payment))}>
+                                        Pay
+                                      </Button>
+                                    )}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RentLedger;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Bell, Loader2, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { SavedSearchesService } from '../services/savedSearches';
+import { SavedSearchFrequency, SearchFilters } from '../types';
+import { SAVED_SEARCH_FREQUENCIES, SAVED_SEARCH_FREQUENCY_LABELS } from '@shared/savedSearches';
+import { formatPrice } from '../lib/utils';
+import { useAuth } from '../contexts/AuthContext';
+import { toast } from 'sonner';
+
+interface SaveSearchButtonProps {
+  // The filters and search text in use on the page
+  filters: SearchFilters;
+}
+
+// A name for the search from its filters, such as "toyota, car in Bole, under ETB 2,000,000"
+const suggestName = (filters: SearchFilters): string => {
+  const parts: string[] = [];
+
+  if (filters.search?.trim()) parts.push(filters.search.trim());
+
+  const what = filters.subcategory || filters.category;
+  const where = filters.subcity || filters.city;
+  if (what || where) {
+    parts.push([what, where && `in ${where}`].filter(Boolean).join(' '));
+  }
+
+  if (filters.minPrice && filters.maxPrice) {
+    parts.push(`${formatPrice(filters.minPrice)} - ${formatPrice(filters.maxPrice)}`);
+  } else if (filters.maxPrice) {
+    parts.push(`under ${formatPrice(filters.maxPrice)}`);
+  } else if (filters.minPrice) {
+    parts.push(`over ${formatPrice(filters.minPrice)}`);
+  }
+
+  const name = parts.join(', ') || (filters.type === 'rent' ? 'All rentals' : 'All listings for sale');
+  return name.slice(0, 100);
+};
+
+// Saves the current search from Buy or Rent with a name and how often to be
+// told about new listings that match it
+const SaveSearchButton: React.FC<SaveSearchButtonProps> = ({ filters }) => {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [frequency, setFrequency] = useState<SavedSearchFrequency>('daily');
+  const [saving, setSaving] = useState(false);
+
+  const handleOpen = () => {
+    if (!user) {
+      toast.error('Please login to save searches');
+      return;
+    }
+
+    setName(suggestName(filters));
+    setOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!user || !name.trim()) return;
+
+    setSaving(true);
+    const response = await SavedSearchesService.createSavedSearch(user.id, name, filters, frequency);
+    setSaving(false);
+
+    if (response.success) {
+      toast.success('Search saved. We will let you know about new matches.');
+      setOpen(false);
+    } else {
+      toast.error(response.message || 'Failed to save search');
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button variant="outline" size="sm" onClick={handleOpen}>
+        <Bell className="h-4 w-4 mr-1" />
+        Save search
+      </Button>
+    );
+  }
+
+  return (
+    <div className="w-full bg-white rounded-lg shadow-sm p-4 space-y-3 text-left">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-gray-900">Save this search</h3>
+        <button type="button" onClick={() => setOpen(false)} className="text-gray-400 hover:text-gray-600">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          value={name}
+          maxLength={100}
+          placeholder="Name"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+        />
+        <select
+          value={frequency}
+          onChange={(e) => setFrequency(e.target.value as SavedSearchFrequency)}
+          className="h-10 px-2 border border-gray-300 rounded-md bg-white text-sm"
+        >
+          {SAVED_SEARCH_FREQUENCIES.map((option) => (
+            <option key={option} value={option}>
+              Alert me {SAVED_SEARCH_FREQUENCY_LABELS[option].toLowerCase()}
+            </option>
+          ))}
+        </select>
+        <Button onClick={handleSave} disabled={saving || !name.trim()}>
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SaveSearchButton;
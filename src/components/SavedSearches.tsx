@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell, BellOff, Search, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { SavedSearchesService } from '../services/savedSearches';
+import { SavedSearch, SavedSearchFrequency } from '../types';
+import { SAVED_SEARCH_FREQUENCIES, SAVED_SEARCH_FREQUENCY_LABELS, getSavedSearchLink } from '@shared/savedSearches';
+import { useAuth } from '../contexts/AuthContext';
+import { formatRelativeTime } from '../lib/utils';
+import { toast } from 'sonner';
+
+// The user's saved searches, with how often each one alerts about new listings
+const SavedSearches: React.FC = () => {
+  const { user } = useAuth();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadSearches = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    const response = await SavedSearchesService.getUserSavedSearches(user.id);
+
+    if (response.success) {
+      setSearches(response.data);
+    } else {
+      toast.error(response.message || 'Failed to load saved searches');
+    }
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadSearches();
+  }, [loadSearches]);
+
+  const handleUpdate = async (
+    search: SavedSearch,
+    updates: { frequency?: SavedSearchFrequency; is_active?: boolean }
+  ) => {
+    const response = await SavedSearchesService.updateSavedSearch(search.id, updates);
+
+    if (response.success && response.data) {
+      const updated = response.data;
+      setSearches((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+    } else {
+      toast.error(response.message || 'Failed to update saved search');
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(`Delete the saved search "${search.name}"?`)) return;
+
+    const response = await SavedSearchesService.deleteSavedSearch(search.id);
+
+    if (response.success) {
+      setSearches((prev) => prev.filter((item) => item.id !== search.id));
+      toast.success('Saved search deleted');
+    } else {
+      toast.error(response.message || 'Failed to delete saved search');
+    }
+  };
+
+  if (!user || (!loading && searches.length === 0)) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Bell className="h-5 w-5 mr-2" />
+          Saved Searches
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading saved searches...</p>
+        ) : (
+          <div className="divide-y">
+            {searches.map((search) => (
+              <div key={search.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Link to={getSavedSearchLink(search)} className="font-medium text-gray-900 hover:underline truncate">
+                      {search.name}
+                    </Link>
+                    <Badge variant="secondary">{search.filters.type === 'rent' ? 'Rent' : 'Buy'}</Badge>
+                    {!search.is_active && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {search.last_notified_at
+                      ? `Last alert ${formatRelativeTime(search.last_notified_at)}`
+                      : 'No new matches yet'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={search.frequency}
+                    onChange={(e) => handleUpdate(search, { frequency: e.target.value as SavedSearchFrequency })}
+                    disabled={!search.is_active}
+                    className="h-9 px-2 border border-gray-300 rounded-md bg-white text-sm"
+                  >
+                    {SAVED_SEARCH_FREQUENCIES.map((option) => (
+                      <option key={option} value={option}>{SAVED_SEARCH_FREQUENCY_LABELS[option]}</option>
+                    ))}
+                  </select>
+                  <Button asChild variant="outline" size="icon" title="Show results">
+                    <Link to={getSavedSearchLink(search)}>
+                      <Search className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    title={search.is_active ? 'Pause alerts' : 'Resume alerts'}
+                    onClick={() => handleUpdate(search, { is_active: !search.is_active })}
+                  >
+                    {search.is_active ? <BellOff className="h-4 w-4" /> : <Bell className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="outline" size="icon" title="Delete" onClick={() => handleDelete(search)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SavedSearches;
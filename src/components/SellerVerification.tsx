@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { 
   CheckCircle, 
@@ -18,13 +18,15 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { toast } from 'sonner';
 import { useAuth } from '../contexts/AuthContext';
+import { VerificationService } from '../services/verification';
+import { SellerVerification as SellerVerificationRecord, VerificationStepId } from '../types';
 
 interface SellerVerificationProps {
   onVerificationComplete?: () => void;
 }
 
 interface VerificationStep {
-  id: string;
+  id: VerificationStepId;
   title: string;
   description: string;
   required: boolean;
@@ -69,11 +71,34 @@ const SellerVerification: React.FC<SellerVerificationProps> = ({
   ]);
 
   const [uploading, setUploading] = useState(false);
+  const [submission, setSubmission] = useState<SellerVerificationRecord | null>(null);
   const [references, setReferences] = useState([
     { name: '', email: '', phone: '', relationship: '' },
     { name: '', email: '', phone: '', relationship: '' }
   ]);
 
+  // Load the user's previous submission so its review status can be shown
+  useEffect(() => {
+    if (!user) return;
+
+    VerificationService.getUserVerification(user.id).then((response) => {
+      if (response.success && response.data) {
+        setSubmission(response.data);
+        // Steps approved earlier don't need to be uploaded again
+        setVerificationSteps(prev =>
+          prev.map(step =>
+            response.data?.steps.some(s => s.id === step.id && s.status === 'approved')
+              ? { ...step, completed: true }
+              : step
+          )
+        );
+      }
+    });
+  }, [user]);
+
+  const getSubmittedStep = (stepId: VerificationStepId) =>
+    submission?.steps.find(step => step.id === stepId);
+
   const handleFileUpload = (stepId: string, files: File[]) => {
     setVerificationSteps(prev => 
       prev.map(step => 
@@ -85,23 +110,45 @@ const SellerVerification: React.FC<SellerVerificationProps> = ({
   };
 
   const handleReferenceChange = (index: number, field: string, value: string) => {
-    setReferences(prev => 
-      prev.map((ref, i) => 
-        i === index ? { ...ref, [field]: value } : ref
+    const updated = references.map((ref, i) =>
+      i === index ? { ...ref, [field]: value } : ref
+    );
+
+    setReferences(updated);
+    setVerificationSteps(prev =>
+      prev.map(step =>
+        step.id === 'references'
+          ? { ...step, completed: updated.some(ref => ref.name && ref.email) }
+          : step
       )
     );
   };
 
   const submitVerification = async () => {
+    if (!user) {
+      toast.error('Please log in to submit verification');
+      return;
+    }
+
     try {
       setUploading(true);
-      
-      // TODO: Implement verification submission
-      // await UsersService.submitVerification({
-      //   steps: verificationSteps,
-      //   references: references.filter(ref => ref.name && ref.email)
-      // });
 
+      const response = await VerificationService.submitVerification({
+        user_id: user.id,
+        steps: verificationSteps.map(step => ({
+          id: step.id,
+          required: step.required,
+          documents: step.documents,
+        })),
+        references: references.filter(ref => ref.name && ref.email),
+      });
+
+      if (!response.success) {
+        toast.error(response.message || 'Failed to submit verification. Please try again.');
+        return;
+      }
+
+      setSubmission(response.data);
       toast.success('Verification submitted successfully! We will review your documents within 24-48 hours.');
       onVerificationComplete?.();
     } catch (error) {
@@ -113,6 +160,10 @@ const SellerVerification: React.FC<SellerVerificationProps> = ({
   };
 
   const getStepStatus = (step: VerificationStep) => {
+    const submitted = getSubmittedStep(step.id);
+    if (submitted?.status === 'rejected' && !step.documents?.length) {
+      return <XCircle className="w-5 h-5 text-red-600" />;
+    }
     if (step.completed) {
       return <CheckCircle className="w-5 h-5 text-green-600" />;
     }
@@ -282,6 +333,48 @@ const SellerVerification: React.FC<SellerVerificationProps> = ({
         </CardContent>
       </Card>
 
+      {/* Review Status */}
+      {submission && (
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                {submission.status === 'approved' ? (
+                  <CheckCircle className="w-6 h-6 text-green-600" />
+                ) : submission.status === 'rejected' ? (
+                  <XCircle className="w-6 h-6 text-red-600" />
+                ) : (
+                  <Clock className="w-6 h-6 text-yellow-600" />
+                )}
+                <div>
+                  <h2 className="text-lg font-semibold">
+                    {submission.status === 'approved'
+                      ? 'You are a verified seller'
+                      : submission.status === 'rejected'
+                      ? 'Some documents need your attention'
+                      : 'Your documents are under review'}
+                  </h2>
+                  <p className="text-sm text-gray-600">
+                    Submitted on {new Date(submission.submitted_at).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+              <Badge
+                className={
+                  submission.status === 'approved'
+                    ? 'bg-green-100 text-green-800'
+                    : submission.status === 'rejected'
+                    ? 'bg-red-100 text-red-800'
+                    : 'bg-yellow-100 text-yellow-800'
+                }
+              >
+                {submission.status}
+              </Badge>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Progress */}
       <Card>
         <CardContent className="p-6">
@@ -315,6 +408,11 @@ const SellerVerification: React.FC<SellerVerificationProps> = ({
                 <div className="flex-1">
                   <h3 className="font-medium text-gray-900">{step.title}</h3>
                   <p className="text-sm text-gray-600">{step.description}</p>
+                  {getSubmittedStep(step.id)?.status === 'rejected' && (
+                    <p className="text-sm text-red-600 mt-1">
+                      Rejected: {getSubmittedStep(step.id)?.review_notes}
+                    </p>
+                  )}
                 </div>
                 {step.required && (
                   <Badge className="bg-red-100 text-red-800 text-xs">Required</Badge>
@@ -405,7 +503,7 @@ const SellerVerification: React.FC<SellerVerificationProps> = ({
           ) : (
             <Button
               onClick={submitVerification}
-              disabled={!canSubmit() || uploading}
+              disabled={!canSubmit() || uploading || submission?.status === 'approved'}
               className="bg-green-600 hover:bg-green-700"
             >
               {uploading ? 'Submitting...' : 'Submit Verification'}
@@ -0,0 +1,348 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import {
+  CheckCircle,
+  XCircle,
+  Clock,
+  RefreshCw,
+  FileText,
+  Eye,
+  User,
+  Mail,
+  Phone,
+  ChevronDown,
+  ChevronRight,
+  ShieldCheck
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { VerificationService } from '../services/verification';
+import { SellerVerification, VerificationStepId, VerificationStepRecord } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatRelativeTime } from '../lib/utils';
+import { toast } from 'sonner';
+
+const STEP_LABELS: Record<VerificationStepId, string> = {
+  identity: 'Identity Verification',
+  address: 'Address Verification',
+  business: 'Business Registration',
+  references: 'References',
+};
+
+const SellerVerificationReview: React.FC = () => {
+  const { user } = useAuth();
+  const [verifications, setVerifications] = useState<SellerVerification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<SellerVerification['status'] | 'all'>('pending');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [processing, setProcessing] = useState<string | null>(null);
+
+  const loadVerifications = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await VerificationService.getVerifications(
+        statusFilter === 'all' ? undefined : statusFilter
+      );
+
+      if (response.success) {
+        setVerifications(response.data);
+      } else {
+        toast.error(response.message || 'Failed to load verifications');
+      }
+    } catch (error) {
+      console.error('Error loading verifications:', error);
+      toast.error('Failed to load verifications');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadVerifications();
+  }, [loadVerifications]);
+
+  const handleViewDocument = async (publicId: string) => {
+    try {
+      const url = await VerificationService.getDocumentUrl(publicId);
+      window.open(url, '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      console.error('Error opening document:', error);
+      toast.error('Failed to open document');
+    }
+  };
+
+  const handleReview = async (
+    verification: SellerVerification,
+    stepId: VerificationStepId,
+    decision: 'approved' | 'rejected'
+  ) => {
+    if (!user) return;
+
+    const key = `${verification.id}:${stepId}`;
+
+    try {
+      setProcessing(key);
+      const response = await VerificationService.reviewStep(
+        verification.id,
+        stepId,
+        decision,
+        user.id,
+        notes[key]
+      );
+
+      if (response.success && response.data) {
+        const updated = response.data;
+        setVerifications(prev => prev.map(v => (v.id === updated.id ? updated : v)));
+        setNotes(prev => ({ ...prev, [key]: '' }));
+        toast.success(`${STEP_LABELS[stepId]} ${decision}`);
+
+        if (updated.status !== verification.status && updated.status !== 'pending') {
+          toast.info(
+            updated.status === 'approved'
+              ? `${updated.user?.full_name || 'Seller'} is now verified`
+              : `${updated.user?.full_name || 'Seller'} has been asked to resubmit`
+          );
+        }
+      } else {
+        toast.error(response.message || 'Failed to review step');
+      }
+    } catch (error) {
+      console.error('Error reviewing step:', error);
+      toast.error('Failed to review step');
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const getStatusBadge = (status: SellerVerification['status'] | VerificationStepRecord['status']) => {
+    switch (status) {
+      case 'approved':
+        return (
+          <Badge className="bg-green-100 text-green-800">
+            <CheckCircle className="w-3 h-3 mr-1" />
+            Approved
+          </Badge>
+        );
+      case 'rejected':
+        return (
+          <Badge className="bg-red-100 text-red-800">
+            <XCircle className="w-3 h-3 mr-1" />
+            Rejected
+          </Badge>
+        );
+      default:
+        return (
+          <Badge className="bg-yellow-100 text-yellow-800">
+            <Clock className="w-3 h-3 mr-1" />
+            Pending
+          </Badge>
+        );
+    }
+  };
+
+  const renderStep = (verification: SellerVerification, step: VerificationStepRecord) => {
+    const key = `${verification.id}:${step.id}`;
+    const isProcessing = processing === key;
+
+    return (
+      <div key={step.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <h4 className="font-medium text-gray-900">{STEP_LABELS[step.id]}</h4>
+            {step.required && (
+              <Badge className="bg-red-100 text-red-800 text-xs">Required</Badge>
+            )}
+          </div>
+          {getStatusBadge(step.status)}
+        </div>
+
+        {step.documents.length > 0 && (
+          <div className="space-y-2">
+            {step.documents.map((doc) => (
+              <div key={doc.public_id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+                <div className="flex items-center min-w-0">
+                  <FileText className="w-4 h-4 text-gray-400 mr-2 flex-shrink-0" />
+                  <span className="text-sm truncate">{doc.name}</span>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => handleViewDocument(doc.public_id)}>
+                  <Eye className="w-4 h-4 mr-1" />
+                  View
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step.references && step.references.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {step.references.map((ref, index) => (
+              <div key={index} className="p-2 bg-gray-50 rounded-lg text-sm">
+                <p className="font-medium text-gray-900">{ref.name}</p>
+                <p className="text-gray-600">{ref.email}</p>
+                {ref.phone && <p className="text-gray-600">{ref.phone}</p>}
+                {ref.relationship && (
+                  <p className="text-gray-500 capitalize">{ref.relationship.replace('_', ' ')}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step.review_notes && (
+          <p className="text-sm text-gray-600">
+            <span className="font-medium">Review notes:</span> {step.review_notes}
+          </p>
+        )}
+
+        <div className="flex flex-col md:flex-row gap-2">
+          <Input
+            placeholder="Reason (required when rejecting)"
+            value={notes[key] || ''}
+            onChange={(e) => setNotes(prev => ({ ...prev, [key]: e.target.value }))}
+            disabled={isProcessing}
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              className="bg-green-600 hover:bg-green-700"
+              onClick={() => handleReview(verification, step.id, 'approved')}
+              disabled={isProcessing || step.status === 'approved'}
+            >
+              <CheckCircle className="w-4 h-4 mr-1" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-red-600 border-red-200 hover:bg-red-50"
+              onClick={() => handleReview(verification, step.id, 'rejected')}
+              disabled={isProcessing || step.status === 'rejected' || !notes[key]?.trim()}
+            >
+              <XCircle className="w-4 h-4 mr-1" />
+              Reject
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Verify Sellers</h2>
+          <p className="text-gray-600">Review seller identity and business documents</p>
+        </div>
+        <div className="flex items-center space-x-3">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as SellerVerification['status'] | 'all')}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+            <option value="all">All</option>
+          </select>
+          <Button variant="outline" onClick={loadVerifications} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : verifications.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <ShieldCheck className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No verification submissions to review</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {verifications.map((verification) => {
+            const isExpanded = expandedId === verification.id;
+
+            return (
+              <motion.div
+                key={verification.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+              >
+                <Card>
+                  <CardContent className="p-6">
+                    <button
+                      className="w-full flex items-center justify-between text-left"
+                      onClick={() => setExpandedId(isExpanded ? null : verification.id)}
+                    >
+                      <div className="flex items-center space-x-4">
+                        {isExpanded ? (
+                          <ChevronDown className="w-5 h-5 text-gray-400" />
+                        ) : (
+                          <ChevronRight className="w-5 h-5 text-gray-400" />
+                        )}
+                        <div className="w-10 h-10 bg-gray-200 rounded-full flex items-center justify-center overflow-hidden">
+                          {verification.user?.avatar_url ? (
+                            <img
+                              src={verification.user.avatar_url}
+                              alt={verification.user.full_name}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <User className="w-5 h-5 text-gray-500" />
+                          )}
+                        </div>
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {verification.user?.full_name || 'Unknown user'}
+                          </p>
+                          <div className="flex items-center space-x-3 text-sm text-gray-500">
+                            {verification.user?.email && (
+                              <span className="flex items-center">
+                                <Mail className="w-3 h-3 mr-1" />
+                                {verification.user.email}
+                              </span>
+                            )}
+                            {verification.user?.phone && (
+                              <span className="flex items-center">
+                                <Phone className="w-3 h-3 mr-1" />
+                                {verification.user.phone}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className="text-sm text-gray-500">
+                          Submitted {formatRelativeTime(verification.submitted_at)}
+                        </span>
+                        {getStatusBadge(verification.status)}
+                      </div>
+                    </button>
+
+                    {isExpanded && (
+                      <div className="mt-4 space-y-3">
+                        {verification.steps.map((step) => renderStep(verification, step))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SellerVerificationReview;
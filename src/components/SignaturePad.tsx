@@ -0,0 +1,88 @@
+import React, { useRef, useState } from 'react';
+import { Button } from './ui/button';
+
+interface SignaturePadProps {
+  // PNG data URL of the drawing, or null once it is cleared
+  onChange: (image: string | null) => void;
+  disabled?: boolean;
+}
+
+// Canvas for drawing a signature with a mouse, pen or finger
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [hasDrawing, setHasDrawing] = useState(false);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+
+    const { x, y } = getPoint(e);
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    setHasDrawing(true);
+    onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasDrawing(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={180}
+        className="w-full h-36 border border-dashed border-gray-300 rounded-lg bg-white touch-none cursor-crosshair"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <span>{hasDrawing ? 'Signature drawn' : 'Draw your signature above'}</span>
+        <Button type="button" variant="outline" size="sm" onClick={handleClear} disabled={disabled || !hasDrawing}>
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
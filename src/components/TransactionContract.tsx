@@ -0,0 +1,210 @@
+import React, { useState, useEffect } from 'react';
+import { FilePenLine, Download, CheckCircle, AlertCircle, Clock, PenLine } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import SignaturePad from './SignaturePad';
+import { ContractsService, TransactionContract as Contract } from '../services/contracts';
+import { CONTRACT_TEMPLATES, hasRequiredSignatures } from '@shared/contracts';
+import { printContract } from '../lib/contractDocument';
+import { ContractSignature, Transaction } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDate } from '../lib/utils';
+import { toast } from 'sonner';
+
+interface TransactionContractProps {
+  transaction: Transaction;
+  onChange: (contract: Contract) => void;
+}
+
+const CLOSED_STATUSES = ['cancelled', 'refunded', 'released'];
+
+// The transaction's sale or lease contract: prepare it, read it, sign it and save it as a PDF
+const TransactionContract: React.FC<TransactionContractProps> = ({ transaction, onChange }) => {
+  const { user } = useAuth();
+  const contract = transaction.contract;
+  const [verified, setVerified] = useState<boolean | null>(null);
+  const [working, setWorking] = useState(false);
+  const [signing, setSigning] = useState(false);
+  const [method, setMethod] = useState<ContractSignature['method']>('typed');
+  const [name, setName] = useState(user?.full_name || '');
+  const [image, setImage] = useState<string | null>(null);
+  const [agreed, setAgreed] = useState(false);
+
+  useEffect(() => {
+    if (!contract?.document_hash) return;
+    ContractsService.verifyContract(contract).then(setVerified);
+  }, [contract]);
+
+  if (!contract?.template) return null;
+
+  const template = CONTRACT_TEMPLATES[contract.template];
+  const role = transaction.buyer_id === user?.id ? 'buyer' : transaction.seller_id === user?.id ? 'seller' : null;
+  const isClosed = CLOSED_STATUSES.includes(transaction.status);
+  const hasSigned = !!role && !!contract.signed_at?.[role];
+
+  const handlePrepare = async () => {
+    try {
+      setWorking(true);
+      const response = await ContractsService.prepareContract(transaction.id);
+
+      if (response.success && response.data) {
+        onChange(response.data);
+      } else {
+        toast.error(response.message || 'Failed to prepare contract');
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleSign = async () => {
+    if (!user) return;
+
+    try {
+      setWorking(true);
+      const response = await ContractsService.signContract(transaction, user.id, {
+        method,
+        name,
+        image: method === 'drawn' ? image || undefined : undefined,
+      });
+
+      if (response.success && response.data) {
+        onChange(response.data);
+        setSigning(false);
+        toast.success('Contract signed');
+      } else {
+        toast.error(response.message || 'Failed to sign contract');
+      }
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const renderParty = (label: string, signature?: ContractSignature) => (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-gray-600">{label}</span>
+      {signature ? (
+        <span className="flex items-center text-green-700">
+          <CheckCircle className="w-4 h-4 mr-1" />
+          {signature.name} · {formatDate(signature.signed_at)}
+        </span>
+      ) : (
+        <span className="flex items-center text-gray-500">
+          <Clock className="w-4 h-4 mr-1" />
+          Not signed
+        </span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-gray-900 flex items-center">
+          <FilePenLine className="w-4 h-4 mr-2" />
+          {template.title}
+        </p>
+        {contract.document_hash && (
+          verified === false ? (
+            <Badge className="bg-red-500 text-white">Hash mismatch</Badge>
+          ) : contract.signed_at?.buyer && contract.signed_at?.seller ? (
+            <Badge className="bg-green-500 text-white">Signed</Badge>
+          ) : (
+            <Badge className="bg-yellow-500 text-white">Awaiting signatures</Badge>
+          )
+        )}
+      </div>
+
+      {!contract.terms ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            The contract is filled in from the listing and both parties' details.
+            {contract.signatures_required && ' Escrow is released only after both parties sign it.'}
+          </p>
+          {role && !isClosed && (
+            <Button size="sm" onClick={handlePrepare} disabled={working}>
+              {working ? 'Preparing...' : 'Prepare Contract'}
+            </Button>
+          )}
+        </div>
+      ) : (
+        <>
+          <pre className="whitespace-pre-wrap text-xs text-gray-800 bg-gray-50 rounded-md p-3 max-h-64 overflow-y-auto font-sans">
+            {contract.terms}
+          </pre>
+          <p className="text-xs text-gray-500 break-all">SHA-256: {contract.document_hash}</p>
+
+          <div className="space-y-1">
+            {renderParty('Seller', contract.signatures?.seller)}
+            {renderParty('Buyer', contract.signatures?.buyer)}
+          </div>
+
+          {contract.signatures_required && !hasRequiredSignatures(contract) && (
+            <p className="text-sm text-gray-500 flex items-center">
+              <AlertCircle className="w-4 h-4 mr-1" />
+              Escrow is released only after both parties sign
+            </p>
+          )}
+
+          {signing ? (
+            <div className="border-t pt-3 space-y-3">
+              <div className="flex space-x-2">
+                <Button size="sm" variant={method === 'typed' ? 'default' : 'outline'} onClick={() => setMethod('typed')}>
+                  Type name
+                </Button>
+                <Button size="sm" variant={method === 'drawn' ? 'default' : 'outline'} onClick={() => setMethod('drawn')}>
+                  Draw signature
+                </Button>
+              </div>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Your full legal name"
+                disabled={working}
+              />
+              {method === 'drawn' && <SignaturePad onChange={setImage} disabled={working} />}
+              <label className="flex items-start text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="mt-1 mr-2"
+                  checked={agreed}
+                  onChange={(e) => setAgreed(e.target.checked)}
+                  disabled={working}
+                />
+                I have read this contract and agree to be bound by it. My signature, the time and the document hash are recorded.
+              </label>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setSigning(false)} disabled={working}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleSign}
+                  disabled={working || !agreed || !name.trim() || (method === 'drawn' && !image) || verified === false}
+                >
+                  {working ? 'Signing...' : 'Sign Contract'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {role && !hasSigned && !isClosed && (
+                <Button size="sm" onClick={() => setSigning(true)} disabled={verified === false}>
+                  <PenLine className="w-4 h-4 mr-1" />
+                  Sign
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={() => printContract(transaction)}>
+                <Download className="w-4 h-4 mr-1" />
+                Download PDF
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TransactionContract;
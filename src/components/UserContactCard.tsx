@@ -17,7 +17,9 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { Card, CardContent } from './ui/card';
 import { toast } from 'sonner';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { MessagingService } from '../services/messaging';
 
 interface UserContactCardProps {
   user: {
@@ -53,6 +55,7 @@ const UserContactCard: React.FC<UserContactCardProps> = ({
   className = ''
 }) => {
   const { user: currentUser } = useAuth();
+  const navigate = useNavigate();
   const [isContacting, setIsContacting] = useState(false);
   const [contactType, setContactType] = useState<'message' | 'call' | 'email' | null>(null);
 
@@ -76,9 +79,11 @@ const UserContactCard: React.FC<UserContactCardProps> = ({
 
       switch (type) {
         case 'message':
-          // Open message modal or navigate to messaging
-          toast.success('Opening message conversation...');
-          // TODO: Implement messaging functionality
+          if (listingId) {
+            navigate(MessagingService.getConversationLink(listingId, user.id));
+          } else {
+            navigate('/messages');
+          }
           break;
         
         case 'call':
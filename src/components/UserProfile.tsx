@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   User, 
@@ -19,7 +20,8 @@ import {
   Upload,
   X,
   Trash2,
-  MoreVertical
+  MoreVertical,
+  Shield
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { Button } from './ui/button';
@@ -43,6 +45,7 @@ const UserProfile: React.FC<UserProfileProps> = ({
   isOwnProfile = false, 
   showEditButton = true 
 }) => {
+  const navigate = useNavigate();
   const { user, isAuthenticated, refreshUser } = useAuth();
   const [profileUser, setProfileUser] = useState(user);
   const [listings, setListings] = useState<Listing[]>([]);
@@ -486,6 +489,16 @@ const UserProfile: React.FC<UserProfileProps> = ({
                     </Button>
                   )}
                   
+                  {isOwnProfile && !profileUser.verified && (
+                    <Button
+                      onClick={() => navigate('/verification')}
+                      className="flex items-center"
+                    >
+                      <Shield className="w-4 h-4 mr-2" />
+                      Get Verified
+                    </Button>
+                  )}
+
                   {!isOwnProfile && isAuthenticated && (
                     <>
                       <Button variant="outline" className="flex items-center">
@@ -0,0 +1,400 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import {
+  Shield,
+  AlertCircle,
+  CheckCircle,
+  XCircle,
+  Clock,
+  RefreshCw,
+  ChevronDown,
+  ChevronRight,
+  Receipt,
+  Upload
+} from 'lucide-react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import DisputeDetails from './DisputeDetails';
+import PaymentAttempts from './PaymentAttempts';
+import TransactionContract from './TransactionContract';
+import { TransactionsService } from '../services/transactions';
+import { DisputesService } from '../services/disputes';
+import { Transaction } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCurrency } from '../lib/supabase';
+import { formatDate } from '../lib/utils';
+import { hasRequiredSignatures } from '@shared/contracts';
+import { toast } from 'sonner';
+
+const DISPUTE_REASONS = [
+  'Item not as described',
+  'Item not delivered',
+  'Seller unresponsive',
+  'Buyer unresponsive',
+  'Documents or ownership issue',
+  'Other',
+];
+
+interface DisputeForm {
+  reason: string;
+  description: string;
+  files: File[];
+}
+
+const emptyForm: DisputeForm = { reason: '', description: '', files: [] };
+
+const UserTransactions: React.FC = () => {
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(searchParams.get('transaction'));
+  const [formFor, setFormFor] = useState<string | null>(null);
+  const [form, setForm] = useState<DisputeForm>(emptyForm);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadTransactions = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const response = await TransactionsService.getUserTransactions(user.id, { page: 1, limit: 50 });
+
+      if (response.success) {
+        setTransactions(response.data);
+      } else {
+        toast.error(response.message || 'Failed to load transactions');
+      }
+    } catch (error) {
+      console.error('Error loading transactions:', error);
+      toast.error('Failed to load transactions');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [loadTransactions]);
+
+  const replaceTransaction = (updated: Transaction) => {
+    setTransactions(prev => prev.map(t => (t.id === updated.id ? { ...t, ...updated } : t)));
+  };
+
+  const openForm = (transactionId: string) => {
+    setFormFor(transactionId);
+    setForm(emptyForm);
+  };
+
+  const handleFileDispute = async (transaction: Transaction) => {
+    if (!user) return;
+
+    try {
+      setSubmitting(true);
+      const response = await DisputesService.fileDispute(transaction.id, user.id, {
+        reason: form.reason,
+        description: form.description,
+        evidence: form.files,
+      });
+
+      if (response.success && response.data) {
+        replaceTransaction(response.data);
+        setFormFor(null);
+        toast.success('Dispute opened. The escrow is on hold until it is resolved.');
+      } else {
+        toast.error(response.message || 'Failed to open dispute');
+      }
+    } catch (error) {
+      console.error('Error filing dispute:', error);
+      toast.error('Failed to open dispute');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRespond = async (transaction: Transaction) => {
+    if (!user) return;
+
+    try {
+      setSubmitting(true);
+      const response = await DisputesService.respondToDispute(
+        transaction.id,
+        user.id,
+        form.description,
+        form.files
+      );
+
+      if (response.success && response.data) {
+        replaceTransaction(response.data);
+        setFormFor(null);
+        toast.success('Your response has been submitted');
+      } else {
+        toast.error(response.message || 'Failed to submit response');
+      }
+    } catch (error) {
+      console.error('Error responding to dispute:', error);
+      toast.error('Failed to submit response');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirmReceipt = async (transaction: Transaction) => {
+    if (!user) return;
+    if (!confirm('Confirm you received the item? This releases the payment to the seller.')) return;
+
+    try {
+      setSubmitting(true);
+      const response = await TransactionsService.confirmReceipt(transaction.id, user.id);
+
+      if (response.success && response.data) {
+        replaceTransaction(response.data);
+        toast.success('Receipt confirmed. The payment has been released to the seller.');
+      } else {
+        toast.error(response.message || 'Failed to confirm receipt');
+      }
+    } catch (error) {
+      console.error('Error confirming receipt:', error);
+      toast.error('Failed to confirm receipt');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const getStatusBadge = (status: string) => {
+    const statusConfig = {
+      escrowed: { label: 'In Escrow', color: 'bg-blue-500 text-white', icon: Shield },
+      released: { label: 'Released', color: 'bg-green-500 text-white', icon: CheckCircle },
+      refunded: { label: 'Refunded', color: 'bg-red-500 text-white', icon: XCircle },
+      cancelled: { label: 'Cancelled', color: 'bg-gray-500 text-white', icon: XCircle },
+      disputed: { label: 'Disputed', color: 'bg-orange-500 text-white', icon: AlertCircle },
+      pending: { label: 'Pending', color: 'bg-yellow-500 text-white', icon: Clock },
+    };
+
+    const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
+    const Icon = config.icon;
+
+    return (
+      <Badge className={config.color}>
+        <Icon className="h-3 w-3 mr-1" />
+        {config.label}
+      </Badge>
+    );
+  };
+
+  const renderForm = (transaction: Transaction, mode: 'file' | 'respond') => (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      {mode === 'file' && (
+        <select
+          value={form.reason}
+          onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+          disabled={submitting}
+        >
+          <option value="">Select a reason</option>
+          {DISPUTE_REASONS.map(reason => (
+            <option key={reason} value={reason}>{reason}</option>
+          ))}
+        </select>
+      )}
+      <textarea
+        value={form.description}
+        onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+        placeholder={mode === 'file' ? 'Describe what went wrong' : 'Explain your side of the dispute'}
+        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+        rows={3}
+        disabled={submitting}
+      />
+      <label className="flex items-center text-sm text-gray-600 cursor-pointer">
+        <Upload className="w-4 h-4 mr-2" />
+        <span>{form.files.length > 0 ? `${form.files.length} file(s) attached` : 'Attach evidence (photos, receipts, documents)'}</span>
+        <Input
+          type="file"
+          multiple
+          accept="image/*,.pdf,.doc,.docx"
+          className="hidden"
+          onChange={(e) => setForm(prev => ({ ...prev, files: Array.from(e.target.files || []) }))}
+          disabled={submitting}
+        />
+      </label>
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" size="sm" onClick={() => setFormFor(null)} disabled={submitting}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => (mode === 'file' ? handleFileDispute(transaction) : handleRespond(transaction))}
+          disabled={submitting || (mode === 'file' ? !form.reason : !form.description.trim())}
+        >
+          {submitting ? 'Submitting...' : mode === 'file' ? 'Open Dispute' : 'Submit Response'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  // Rental checkouts are paid against their booking
+  const getPaymentPath = (transaction: Transaction) => {
+    if (!transaction.rental_booking_id) return `/payment/${transaction.listing_id}`;
+
+    const params = new URLSearchParams({ booking: transaction.rental_booking_id });
+    if (transaction.rent_payment_id) params.set('rent_payment', transaction.rent_payment_id);
+
+    return `/payment/${transaction.listing_id}?${params.toString()}`;
+  };
+
+  const renderActions = (transaction: Transaction) => {
+    const dispute = transaction.dispute;
+    // A rental's security deposit, as opposed to one of its rent payments
+    const isDeposit = !!transaction.rental_booking_id && !transaction.rent_payment_id;
+
+    if (transaction.status === 'escrowed') {
+      if (formFor === transaction.id) return renderForm(transaction, 'file');
+
+      return (
+        <div className="space-y-3">
+          {isDeposit && (
+            <p className="text-sm text-gray-500 flex items-center">
+              <Shield className="w-4 h-4 mr-1" />
+              This security deposit stays in escrow until the stay ends
+            </p>
+          )}
+          {transaction.escrow_release_at && (
+            <p className="text-sm text-gray-500 flex items-center">
+              <Clock className="w-4 h-4 mr-1" />
+              Payment is released to the seller automatically on {formatDate(transaction.escrow_release_at)}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {transaction.buyer_id === user?.id && !isDeposit && (
+              <Button
+                size="sm"
+                className="bg-green-600 hover:bg-green-700"
+                onClick={() => handleConfirmReceipt(transaction)}
+                disabled={submitting || !hasRequiredSignatures(transaction.contract)}
+                title={hasRequiredSignatures(transaction.contract) ? undefined : 'Both parties must sign the contract first'}
+              >
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Confirm Receipt
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-orange-600 border-orange-200 hover:bg-orange-50"
+              onClick={() => openForm(transaction.id)}
+              disabled={submitting}
+            >
+              <AlertCircle className="w-4 h-4 mr-1" />
+              Open Dispute
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    // Retrying reuses this transaction, with the same or another payment method
+    if (['pending', 'payment_initiated'].includes(transaction.status) && transaction.buyer_id === user?.id) {
+      return (
+        <Button size="sm" onClick={() => navigate(getPaymentPath(transaction))}>
+          Continue Payment
+        </Button>
+      );
+    }
+
+    if (transaction.status === 'disputed' && dispute?.filed_by !== user?.id && !dispute?.response) {
+      return formFor === transaction.id ? (
+        renderForm(transaction, 'respond')
+      ) : (
+        <Button size="sm" onClick={() => openForm(transaction.id)}>
+          Respond to Dispute
+        </Button>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center">
+          <Receipt className="w-5 h-5 mr-2" />
+          My Transactions
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={loadTransactions} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : transactions.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No transactions yet</p>
+        ) : (
+          <div className="space-y-3">
+            {transactions.map((transaction) => {
+              const isExpanded = expandedId === transaction.id;
+              const isBuyer = transaction.buyer_id === user?.id;
+
+              return (
+                <motion.div
+                  key={transaction.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className={`border rounded-lg p-4 ${isExpanded ? 'border-blue-300' : 'border-gray-200'}`}
+                >
+                  <button
+                    className="w-full flex items-center justify-between text-left"
+                    onClick={() => setExpandedId(isExpanded ? null : transaction.id)}
+                  >
+                    <div className="flex items-center space-x-3 min-w-0">
+                      {isExpanded ? (
+                        <ChevronDown className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">
+                          {transaction.listing?.title || 'Listing'}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {transaction.rental_booking_id
+                            ? `${isBuyer ? 'Renting' : 'Renting out'} · ${transaction.rent_payment_id ? 'Rent' : 'Deposit'}`
+                            : isBuyer ? 'Buying' : 'Selling'} · {formatDate(transaction.created_at)}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-3 flex-shrink-0">
+                      <span className="font-medium">{formatCurrency(transaction.amount, transaction.currency)}</span>
+                      {getStatusBadge(transaction.status)}
+                    </div>
+                  </button>
+
+                  {isExpanded && (
+                    <div className="mt-4 space-y-3">
+                      <DisputeDetails transaction={transaction} />
+                      <TransactionContract
+                        transaction={transaction}
+                        onChange={(contract) => replaceTransaction({ ...transaction, contract })}
+                      />
+                      <PaymentAttempts transactionId={transaction.id} />
+                      {renderActions(transaction)}
+                    </div>
+                  )}
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UserTransactions;
@@ -28,12 +28,15 @@ import { Input } from './ui/input';
 import { formatRelativeTime, formatPrice } from '../lib/utils';
 import { toast } from 'sonner';
 import { Listing } from '../types';
+import { BulkListingAction, BulkListingResult } from '../services/listings';
+import BulkActionResults from './BulkActionResults';
 
 interface VerifyListingsProps {
   listings: Listing[];
   loading?: boolean;
   onApproveListing: (listingId: string) => void;
   onRejectListing: (listingId: string) => void;
+  onBulkUpdate: (listingIds: string[], action: BulkListingAction, reason?: string) => Promise<BulkListingResult[]>;
   onDeleteListing?: (listingId: string) => void;
   onRefresh: () => void;
   onViewListing?: (listingId: string) => void;
@@ -44,6 +47,7 @@ const VerifyListings: React.FC<VerifyListingsProps> = ({
   loading = false,
   onApproveListing,
   onRejectListing,
+  onBulkUpdate,
   onDeleteListing,
   onRefresh,
   onViewListing
@@ -55,6 +59,11 @@ const VerifyListings: React.FC<VerifyListingsProps> = ({
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [selectedListings, setSelectedListings] = useState<string[]>([]);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
+  const [bulkResults, setBulkResults] = useState<BulkListingResult[]>([]);
+  const [bulkTitles, setBulkTitles] = useState<Record<string, string>>({});
+  const [bulkProcessing, setBulkProcessing] = useState(false);
+  const [showRejectReason, setShowRejectReason] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
   const [selectedListing, setSelectedListing] = useState<Listing | null>(null);
   const [showListingDetails, setShowListingDetails] = useState(false);
 
@@ -98,21 +107,26 @@ const VerifyListings: React.FC<VerifyListingsProps> = ({
     }
   };
 
-  const handleBulkApprove = () => {
-    selectedListings.forEach(listingId => {
-      onApproveListing(listingId);
-    });
-    setSelectedListings([]);
-    toast.success(`Approved ${selectedListings.length} listings`);
+  const runBulkAction = async (action: BulkListingAction, reason?: string) => {
+    try {
+      setBulkProcessing(true);
+      setBulkTitles(Object.fromEntries(
+        listings.filter(l => selectedListings.includes(l.id)).map(l => [l.id, l.title])
+      ));
+      const results = await onBulkUpdate(selectedListings, action, reason);
+      setBulkResults(results);
+      // Keep failed listings selected so they can be retried
+      setSelectedListings(results.filter(r => r.status === 'failed').map(r => r.listing_id));
+      setShowRejectReason(false);
+      setRejectReason('');
+    } finally {
+      setBulkProcessing(false);
+    }
   };
 
-  const handleBulkReject = () => {
-    selectedListings.forEach(listingId => {
-      onRejectListing(listingId);
-    });
-    setSelectedListings([]);
-    toast.success(`Rejected ${selectedListings.length} listings`);
-  };
+  const handleBulkApprove = () => runBulkAction('approve');
+
+  const handleBulkReject = () => runBulkAction('reject', rejectReason);
 
   const handleExport = () => {
     const csvData = filteredListings.map(listing => 
@@ -281,6 +295,7 @@ const VerifyListings: React.FC<VerifyListingsProps> = ({
               variant="outline"
               size="sm"
               onClick={handleBulkApprove}
+              disabled={bulkProcessing}
             >
               <CheckCircle className="h-4 w-4 mr-2" />
               Approve Selected
@@ -288,7 +303,8 @@ const VerifyListings: React.FC<VerifyListingsProps> = ({
             <Button
               variant="outline"
               size="sm"
-              onClick={handleBulkReject}
+              onClick={() => setShowRejectReason(true)}
+              disabled={bulkProcessing}
             >
               <XCircle className="h-4 w-4 mr-2" />
               Reject Selected
@@ -304,6 +320,41 @@ const VerifyListings: React.FC<VerifyListingsProps> = ({
         </div>
       )}
 
+      {/* Rejection Reason */}
+      {selectedListings.length > 0 && showRejectReason && (
+        <div className="p-4 bg-red-50 rounded-lg space-y-3">
+          <textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="Reason for rejection (sent to each owner)"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+            rows={2}
+            disabled={bulkProcessing}
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setShowRejectReason(false)} disabled={bulkProcessing}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              className="bg-red-600 hover:bg-red-700"
+              onClick={handleBulkReject}
+              disabled={bulkProcessing || !rejectReason.trim()}
+            >
+              Reject {selectedListings.length} listing(s)
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {bulkResults.length > 0 && (
+        <BulkActionResults
+          results={bulkResults}
+          titles={bulkTitles}
+          onDismiss={() => setBulkResults([])}
+        />
+      )}
+
       {/* Export Button */}
       <div className="flex justify-end">
         <Button variant="outline" onClick={handleExport}>
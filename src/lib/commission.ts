@@ -0,0 +1,173 @@
+import { CommissionSnapshot, Listing } from '../types';
+import { COMMISSION_DISTRIBUTION, getRefundableAmount, splitCommission } from '@shared/commissionSplit';
+
+type Currency = 'ETB' | 'USD';
+
+export interface CommissionTier {
+  min_amount: number;
+  max_amount?: number; // Exclusive upper bound, open-ended when omitted
+  rate: number; // Percentage
+}
+
+export interface CommissionRule {
+  category?: Listing['category'];
+  type?: Listing['type'];
+  tiers: CommissionTier[];
+  min_fee?: Partial<Record<Currency, number>>;
+  max_fee?: Partial<Record<Currency, number>>;
+}
+
+export interface CommissionContext {
+  category?: Listing['category'];
+  type?: Listing['type'];
+  currency?: Currency;
+  deposit?: boolean; // A rental's security deposit
+}
+
+// Platform commission policy. Bump the version whenever rates change so
+// existing transactions keep a record of the policy they were charged under.
+// The database charges new transactions with its copy in
+// database/SETUP_TRANSACTION_TERMS.sql; change both together.
+export const COMMISSION_POLICY = {
+  version: '2026-10-01',
+  // Shared with the edge functions that release escrow
+  distribution: COMMISSION_DISTRIBUTION,
+  default_rule: {
+    tiers: [{ min_amount: 0, rate: 2 }],
+    min_fee: { ETB: 50, USD: 1 },
+    max_fee: { ETB: 250000, USD: 5000 },
+  } as CommissionRule,
+  // The most specific rule wins: category + type, then category, then type
+  rules: [
+    {
+      category: 'house',
+      type: 'sale',
+      tiers: [
+        { min_amount: 0, max_amount: 5000000, rate: 2 },
+        { min_amount: 5000000, max_amount: 20000000, rate: 1.5 },
+        { min_amount: 20000000, rate: 1 },
+      ],
+      min_fee: { ETB: 500, USD: 10 },
+      max_fee: { ETB: 250000, USD: 5000 },
+    },
+    {
+      category: 'land',
+      type: 'sale',
+      tiers: [
+        { min_amount: 0, max_amount: 10000000, rate: 1.5 },
+        { min_amount: 10000000, rate: 1 },
+      ],
+      min_fee: { ETB: 500, USD: 10 },
+      max_fee: { ETB: 250000, USD: 5000 },
+    },
+    {
+      category: 'commercial',
+      type: 'sale',
+      tiers: [
+        { min_amount: 0, max_amount: 20000000, rate: 2 },
+        { min_amount: 20000000, rate: 1.25 },
+      ],
+      min_fee: { ETB: 1000, USD: 20 },
+      max_fee: { ETB: 400000, USD: 8000 },
+    },
+    {
+      category: 'car',
+      type: 'sale',
+      tiers: [
+        { min_amount: 0, max_amount: 1000000, rate: 2.5 },
+        { min_amount: 1000000, rate: 2 },
+      ],
+      min_fee: { ETB: 200, USD: 5 },
+      max_fee: { ETB: 100000, USD: 2000 },
+    },
+    {
+      // Rent is charged on each period's rent
+      type: 'rent',
+      tiers: [{ min_amount: 0, rate: 5 }],
+      min_fee: { ETB: 100, USD: 2 },
+      max_fee: { ETB: 50000, USD: 1000 },
+    },
+  ] as CommissionRule[],
+};
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export class CommissionPolicy {
+  // Find the rule that applies to a listing category and type
+  static resolveRule(context: CommissionContext = {}): CommissionRule {
+    const { category, type } = context;
+    const rules = COMMISSION_POLICY.rules;
+
+    return (
+      rules.find(rule => rule.category === category && rule.type === type) ||
+      rules.find(rule => rule.category === category && !rule.type) ||
+      rules.find(rule => !rule.category && rule.type === type) ||
+      COMMISSION_POLICY.default_rule
+    );
+  }
+
+  // Find the price band an amount falls into
+  static resolveTier(rule: CommissionRule, amount: number): CommissionTier {
+    return (
+      rule.tiers.find(
+        tier => amount >= tier.min_amount && (tier.max_amount === undefined || amount < tier.max_amount)
+      ) || rule.tiers[rule.tiers.length - 1]
+    );
+  }
+
+  // Calculate the commission for an amount and snapshot how it was derived
+  static calculate(amount: number, context: CommissionContext = {}): CommissionSnapshot {
+    // Security deposits are held for the owner and refunded in full, so they carry no commission
+    if (context.deposit) {
+      return { amount: 0, rate: 0, policy_version: COMMISSION_POLICY.version, rule: 'deposit' };
+    }
+
+    const currency = context.currency || 'ETB';
+    const rule = this.resolveRule(context);
+    const tier = this.resolveTier(rule, amount);
+
+    let commission = (amount * tier.rate) / 100;
+    let capped: CommissionSnapshot['capped'];
+
+    const minFee = rule.min_fee?.[currency];
+    const maxFee = rule.max_fee?.[currency];
+
+    if (minFee !== undefined && commission < minFee) {
+      commission = minFee;
+      capped = 'min';
+    } else if (maxFee !== undefined && commission > maxFee) {
+      commission = maxFee;
+      capped = 'max';
+    }
+
+    // Never charge more than the amount itself
+    commission = roundAmount(Math.min(commission, amount));
+
+    return {
+      amount: commission,
+      rate: tier.rate,
+      policy_version: COMMISSION_POLICY.version,
+      rule: `${rule.category || 'any'}:${rule.type || 'any'}`,
+      tier: {
+        min_amount: tier.min_amount,
+        max_amount: tier.max_amount,
+      },
+      capped,
+    };
+  }
+
+  // Split a commission between the platform and admins
+  static getDistribution(commissionAmount: number) {
+    return splitCommission(commissionAmount);
+  }
+
+  // Amount of a transaction that can still be refunded to the buyer
+  static getRefundableAmount(transaction: Parameters<typeof getRefundableAmount>[0]): number {
+    return getRefundableAmount(transaction);
+  }
+
+  // Rate applied when nothing more specific is known
+  static getDefaultRate(): number {
+    return COMMISSION_POLICY.default_rule.tiers[0].rate;
+  }
+}
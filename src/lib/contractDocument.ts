@@ -0,0 +1,90 @@
+import { CONTRACT_TEMPLATES } from '@shared/contracts';
+import { ContractSignature, Transaction } from '../types';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const renderSignature = (label: string, signature?: ContractSignature) => {
+  if (!signature) {
+    return `
+      <div class="signature">
+        <div class="signature-mark"></div>
+        <div>${label}: not signed</div>
+      </div>`;
+  }
+
+  const mark = signature.method === 'drawn' && signature.image
+    ? `<img src="${escapeHtml(signature.image)}" alt="Signature of ${escapeHtml(signature.name)}" />`
+    : `<span class="typed">${escapeHtml(signature.name)}</span>`;
+
+  return `
+    <div class="signature">
+      <div class="signature-mark">${mark}</div>
+      <div>${label}: ${escapeHtml(signature.name)}</div>
+      <div class="meta">Signed ${escapeHtml(new Date(signature.signed_at).toUTCString())} (${signature.method})</div>
+    </div>`;
+};
+
+// Render a transaction's contract with its signatures and open the browser's
+// print dialog, where it is saved as a PDF. Printing through the browser keeps
+// Amharic names and addresses legible, which the built-in PDF fonts cannot show.
+export function printContract(transaction: Pick<Transaction, 'contract'>): void {
+  const contract = transaction.contract;
+  if (!contract?.terms || !contract.template) return;
+
+  const title = CONTRACT_TEMPLATES[contract.template].title;
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: 'Noto Sans Ethiopic', 'Nyala', Georgia, serif; color: #111; margin: 2.5cm; line-height: 1.5; }
+    .terms { white-space: pre-wrap; font-size: 12pt; }
+    .signatures { display: flex; gap: 2cm; margin-top: 1.5cm; page-break-inside: avoid; }
+    .signature { flex: 1; font-size: 11pt; }
+    .signature-mark { height: 2cm; border-bottom: 1px solid #111; display: flex; align-items: flex-end; }
+    .signature-mark img { max-height: 2cm; }
+    .typed { font-family: 'Brush Script MT', cursive; font-size: 22pt; }
+    .meta { color: #555; font-size: 9pt; }
+    .hash { margin-top: 1cm; color: #555; font-size: 8pt; word-break: break-all; }
+  </style>
+</head>
+<body>
+  <div class="terms">${escapeHtml(contract.terms)}</div>
+  <div class="signatures">
+    ${renderSignature('Seller', contract.signatures?.seller)}
+    ${renderSignature('Buyer', contract.signatures?.buyer)}
+  </div>
+  <div class="hash">Document SHA-256: ${escapeHtml(contract.document_hash || '')}</div>
+</body>
+</html>`;
+
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    return;
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.onafterprint = () => frame.remove();
+
+  // Give drawn signature images a moment to load before printing
+  setTimeout(() => {
+    frameWindow.focus();
+    frameWindow.print();
+  }, 250);
+}
@@ -0,0 +1,55 @@
+import { Coordinates } from '../types';
+
+export interface Place extends Coordinates {
+  name: string;
+  city: string;
+}
+
+// Approximate centres of cities and Addis Ababa's subcities, for searches such
+// as "within 3 km of Bole" and for centring the map when a seller drops a pin
+export const PLACES: Place[] = [
+  { name: 'Addis Ababa', city: 'Addis Ababa', lat: 9.0300, lng: 38.7400 },
+  { name: 'Addis Ketema', city: 'Addis Ababa', lat: 9.0330, lng: 38.7240 },
+  { name: 'Akaky Kaliti', city: 'Addis Ababa', lat: 8.8870, lng: 38.7790 },
+  { name: 'Arada', city: 'Addis Ababa', lat: 9.0350, lng: 38.7520 },
+  { name: 'Bole', city: 'Addis Ababa', lat: 8.9960, lng: 38.7900 },
+  { name: 'Gulele', city: 'Addis Ababa', lat: 9.0640, lng: 38.7360 },
+  { name: 'Kirkos', city: 'Addis Ababa', lat: 9.0060, lng: 38.7550 },
+  { name: 'Kolfe Keranio', city: 'Addis Ababa', lat: 9.0160, lng: 38.6900 },
+  { name: 'Lemi Kura', city: 'Addis Ababa', lat: 9.0300, lng: 38.8750 },
+  { name: 'Lideta', city: 'Addis Ababa', lat: 9.0100, lng: 38.7350 },
+  { name: 'Nifas Silk-Lafto', city: 'Addis Ababa', lat: 8.9600, lng: 38.7400 },
+  { name: 'Yeka', city: 'Addis Ababa', lat: 9.0450, lng: 38.8100 },
+  { name: 'Adama', city: 'Adama', lat: 8.5400, lng: 39.2700 },
+  { name: 'Bahir Dar', city: 'Bahir Dar', lat: 11.5940, lng: 37.3910 },
+  { name: 'Dire Dawa', city: 'Dire Dawa', lat: 9.6010, lng: 41.8500 },
+  { name: 'Gondar', city: 'Gondar', lat: 12.6000, lng: 37.4670 },
+  { name: 'Hawassa', city: 'Hawassa', lat: 7.0620, lng: 38.4760 },
+  { name: 'Jimma', city: 'Jimma', lat: 7.6670, lng: 36.8330 },
+  { name: 'Mekelle', city: 'Mekelle', lat: 13.4970, lng: 39.4750 },
+];
+
+export const DEFAULT_CENTER: Coordinates = { lat: 9.0300, lng: 38.7400 };
+
+// Search radii offered next to a place, in kilometres
+export const RADIUS_OPTIONS = [1, 3, 5, 10, 25];
+
+const normalizePlaceName = (name: string) => name.toLowerCase().replace(/[^a-z]/g, '');
+
+// The known place with this name, matched loosely ("nifas silk lafto", "Bole ")
+export function findPlace(name?: string): Place | undefined {
+  if (!name?.trim()) return undefined;
+  const wanted = normalizePlaceName(name);
+  return PLACES.find((place) => normalizePlaceName(place.name) === wanted);
+}
+
+// Great-circle distance in kilometres, as distance_km in database/SETUP_LISTING_GEO_SEARCH.sql
+export function distanceKm(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+}
@@ -0,0 +1,127 @@
+import { FeatureFilters } from '../types';
+
+// Category-specific details kept in Listing.features: what sellers fill in when
+// they create a listing and what buyers can filter on
+
+type NumberFilterKey = 'yearMin' | 'yearMax' | 'mileageMax' | 'bedroomsMin' | 'areaMin' | 'areaMax';
+
+export interface FeatureOption {
+  value: string;
+  label: string;
+}
+
+// A control in the Buy and Rent filter sidebars
+export type FeatureFilterField =
+  | { kind: 'range'; label: string; unit?: string; minKey: NumberFilterKey; maxKey: NumberFilterKey }
+  | { kind: 'number'; label: string; unit?: string; key: NumberFilterKey }
+  | { kind: 'select'; label: string; key: 'fuelType' | 'transmission'; options: FeatureOption[] }
+  | { kind: 'toggle'; label: string; key: 'furnished' | 'parking' };
+
+// A field in the listing wizard, stored under Listing.features[key]
+export interface FeatureInputField {
+  key: string;
+  label: string;
+  kind: 'number' | 'text' | 'select' | 'toggle';
+  unit?: string;
+  options?: FeatureOption[];
+}
+
+export const FUEL_TYPES: FeatureOption[] = [
+  { value: 'petrol', label: 'Petrol' },
+  { value: 'diesel', label: 'Diesel' },
+  { value: 'hybrid', label: 'Hybrid' },
+  { value: 'electric', label: 'Electric' },
+];
+
+export const TRANSMISSIONS: FeatureOption[] = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'automatic', label: 'Automatic' },
+];
+
+export const FEATURE_FILTERS: Record<string, FeatureFilterField[]> = {
+  car: [
+    { kind: 'range', label: 'Year', minKey: 'yearMin', maxKey: 'yearMax' },
+    { kind: 'number', label: 'Max mileage', unit: 'km', key: 'mileageMax' },
+    { kind: 'select', label: 'Fuel', key: 'fuelType', options: FUEL_TYPES },
+    { kind: 'select', label: 'Transmission', key: 'transmission', options: TRANSMISSIONS },
+  ],
+  house: [
+    { kind: 'number', label: 'Min bedrooms', key: 'bedroomsMin' },
+    { kind: 'range', label: 'Area', unit: 'm²', minKey: 'areaMin', maxKey: 'areaMax' },
+    { kind: 'toggle', label: 'Furnished', key: 'furnished' },
+    { kind: 'toggle', label: 'Parking', key: 'parking' },
+  ],
+  land: [
+    { kind: 'range', label: 'Area', unit: 'm²', minKey: 'areaMin', maxKey: 'areaMax' },
+  ],
+  commercial: [
+    { kind: 'range', label: 'Area', unit: 'm²', minKey: 'areaMin', maxKey: 'areaMax' },
+    { kind: 'toggle', label: 'Furnished', key: 'furnished' },
+    { kind: 'toggle', label: 'Parking', key: 'parking' },
+  ],
+};
+
+export const FEATURE_INPUTS: Record<string, FeatureInputField[]> = {
+  car: [
+    { key: 'make', label: 'Make', kind: 'text' },
+    { key: 'model', label: 'Model', kind: 'text' },
+    { key: 'year', label: 'Year', kind: 'number' },
+    { key: 'mileage', label: 'Mileage', kind: 'number', unit: 'km' },
+    { key: 'fuel_type', label: 'Fuel', kind: 'select', options: FUEL_TYPES },
+    { key: 'transmission', label: 'Transmission', kind: 'select', options: TRANSMISSIONS },
+  ],
+  house: [
+    { key: 'bedrooms', label: 'Bedrooms', kind: 'number' },
+    { key: 'bathrooms', label: 'Bathrooms', kind: 'number' },
+    { key: 'area', label: 'Area', kind: 'number', unit: 'm²' },
+    { key: 'furnished', label: 'Furnished', kind: 'toggle' },
+    { key: 'parking', label: 'Parking', kind: 'toggle' },
+  ],
+  land: [
+    { key: 'area', label: 'Area', kind: 'number', unit: 'm²' },
+  ],
+  commercial: [
+    { key: 'area', label: 'Area', kind: 'number', unit: 'm²' },
+    { key: 'furnished', label: 'Furnished', kind: 'toggle' },
+    { key: 'parking', label: 'Parking', kind: 'toggle' },
+  ],
+};
+
+// The Listing.features key each filter reads, how it compares, and its name in
+// the filters sent to listing_matches_filters (database/SETUP_LISTING_FEATURE_FILTERS.sql)
+export const FEATURE_FILTER_COLUMNS: Record<
+  keyof FeatureFilters,
+  { feature: string; operator: 'gte' | 'lte' | 'eq'; param: string }
+> = {
+  yearMin: { feature: 'year', operator: 'gte', param: 'year_min' },
+  yearMax: { feature: 'year', operator: 'lte', param: 'year_max' },
+  mileageMax: { feature: 'mileage', operator: 'lte', param: 'mileage_max' },
+  fuelType: { feature: 'fuel_type', operator: 'eq', param: 'fuel_type' },
+  transmission: { feature: 'transmission', operator: 'eq', param: 'transmission' },
+  bedroomsMin: { feature: 'bedrooms', operator: 'gte', param: 'bedrooms_min' },
+  areaMin: { feature: 'area', operator: 'gte', param: 'area_min' },
+  areaMax: { feature: 'area', operator: 'lte', param: 'area_max' },
+  furnished: { feature: 'furnished', operator: 'eq', param: 'furnished' },
+  parking: { feature: 'parking', operator: 'eq', param: 'parking' },
+};
+
+// Whether a key names a feature filter. Filters come from URLs and saved
+// searches, so they can hold keys this version does not know.
+export function isFeatureFilterKey(key: string): key is keyof FeatureFilters {
+  return Object.prototype.hasOwnProperty.call(FEATURE_FILTER_COLUMNS, key);
+}
+
+// The set filters that apply to the category, or undefined when there are none
+export function getFeatureFilters(category?: string, features?: FeatureFilters): FeatureFilters | undefined {
+  const keys = new Set(
+    (FEATURE_FILTERS[category || ''] || []).flatMap((field) =>
+      field.kind === 'range' ? [field.minKey, field.maxKey] : [field.key]
+    )
+  );
+
+  const entries = Object.entries(features || {}).filter(
+    ([key, value]) => keys.has(key as keyof FeatureFilters) && value !== undefined
+  );
+
+  return entries.length > 0 ? (Object.fromEntries(entries) as FeatureFilters) : undefined;
+}
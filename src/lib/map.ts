@@ -0,0 +1,41 @@
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+
+// Map tiles come from OpenStreetMap unless VITE_MAP_TILE_URL points elsewhere:
+// a self-hosted tile server, or tiles copied into public/tiles for working
+// offline (VITE_MAP_TILE_URL=/tiles/{z}/{x}/{y}.png)
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = import.meta.env.VITE_MAP_TILE_ATTRIBUTION
+  || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+const TILE_MAX_ZOOM = Number(import.meta.env.VITE_MAP_MAX_ZOOM) || 19;
+
+export function createTileLayer(): L.TileLayer {
+  return L.tileLayer(TILE_URL, {
+    attribution: TILE_ATTRIBUTION,
+    maxZoom: TILE_MAX_ZOOM,
+  });
+}
+
+// Markers are drawn with CSS rather than Leaflet's default image icons, whose
+// URLs do not survive bundling
+export function pinIcon(): L.DivIcon {
+  return L.divIcon({
+    className: '',
+    html: '<div class="w-5 h-5 rounded-full bg-blue-600 border-2 border-white shadow-md"></div>',
+    iconSize: [20, 20],
+    iconAnchor: [10, 10],
+  });
+}
+
+// A marker showing text, such as a price or a cluster's size, centred on its point
+export function labelIcon(label: string, className: string): L.DivIcon {
+  const element = document.createElement('div');
+  element.className = `absolute w-max -translate-x-1/2 -translate-y-1/2 ${className}`;
+  element.textContent = label;
+
+  return L.divIcon({
+    className: '',
+    html: element,
+    iconSize: [0, 0],
+  });
+}
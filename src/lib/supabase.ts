@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { CommissionPolicy, CommissionContext } from './commission';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -192,6 +193,13 @@ export const subscribeToUserTransactions = (
   );
 };
 
+export const subscribeToUserMessages = (
+  userId: string,
+  callback: (payload: Record<string, unknown>) => void
+) => {
+  return subscribeToTable('inquiries', callback, `recipient_id=eq.${userId}`);
+};
+
 export const formatCurrency = (amount: number, currency: string = 'ETB') => {
   return new Intl.NumberFormat('en-ET', {
     style: 'currency',
@@ -237,11 +245,12 @@ export const validatePhone = (phone: string) => {
   return phoneRegex.test(phone);
 };
 
-export const calculateCommission = (amount: number, rate: number = 5) => {
+export const calculateCommission = (amount: number, context?: CommissionContext) => {
+  const commission = CommissionPolicy.calculate(amount, context);
   return {
-    amount: (amount * rate) / 100,
-    rate,
-    netAmount: amount - (amount * rate) / 100,
+    amount: commission.amount,
+    rate: commission.rate,
+    netAmount: amount - commission.amount,
   };
 };
 
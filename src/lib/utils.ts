@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
 import { useState } from "react"
+import { CommissionPolicy, CommissionContext } from "./commission"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -53,11 +54,12 @@ export function validatePhone(phone: string) {
   return phoneRegex.test(phone)
 }
 
-export function calculateCommission(amount: number, rate: number = 5) {
+export function calculateCommission(amount: number, context?: CommissionContext) {
+  const commission = CommissionPolicy.calculate(amount, context)
   return {
-    amount: (amount * rate) / 100,
-    rate,
-    netAmount: amount - (amount * rate) / 100,
+    amount: commission.amount,
+    rate: commission.rate,
+    netAmount: amount - commission.amount,
   }
 }
 
@@ -100,6 +102,18 @@ export function truncateText(text: string, maxLength: number) {
   return text.slice(0, maxLength) + '...'
 }
 
+// Split search highlight text from the search_listings function into plain and
+// matched parts, so matches can be rendered as elements rather than raw HTML
+export function parseHighlight(text: string) {
+  return text
+    .split(/(\[\[mark\]\][\s\S]*?\[\[\/mark\]\])/)
+    .filter(Boolean)
+    .map((part) => {
+      const match = part.match(/^\[\[mark\]\]([\s\S]*)\[\[\/mark\]\]$/)
+      return match ? { text: match[1], highlighted: true } : { text: part, highlighted: false }
+    })
+}
+
 export function getFileSize(bytes: number) {
   if (bytes === 0) return '0 Bytes'
   
@@ -162,6 +176,16 @@ export function getStatusColor(status: string) {
   }
 }
 
+// A listing is reserved while a transaction holds it: until reserved_until
+// when unpaid, and with no end time once the buyer has paid
+export function isListingReserved(
+  listing: { reserved_by?: string | null; reserved_until?: string | null },
+  now: Date = new Date()
+) {
+  if (!listing.reserved_by) return false
+  return !listing.reserved_until || new Date(listing.reserved_until) > now
+}
+
 export function getCategoryIcon(category: string) {
   switch (category) {
     case 'car':
@@ -185,11 +209,36 @@ export function getPaymentMethodIcon(method: string) {
       return '💳'
     case 'bibit':
       return '💎'
+    case 'cbe_birr':
+      return '🏦'
+    case 'mpesa':
+      return '📲'
+    case 'sandbox':
+      return '🧪'
     default:
       return '💰'
   }
 }
 
+export function getPaymentMethodName(method: string) {
+  switch (method) {
+    case 'telebirr':
+      return 'Telebirr'
+    case 'chapa':
+      return 'Chapa'
+    case 'bibit':
+      return 'Bibit'
+    case 'cbe_birr':
+      return 'CBE Birr'
+    case 'mpesa':
+      return 'M-Pesa'
+    case 'sandbox':
+      return 'Sandbox'
+    default:
+      return method
+  }
+}
+
 export function generateId() {
   return Math.random().toString(36).substr(2, 9)
 }
@@ -11,12 +11,16 @@ import {
   BarChart3,
   Settings,
   Bell,
-  RefreshCw
+  RefreshCw,
+  UserCheck,
+  Scale,
+  History,
+  FileSpreadsheet
 } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
-import { ListingsService } from '../services/listings';
+import { ListingsService, BulkListingAction, BulkListingResult } from '../services/listings';
 import { TransactionsService } from '../services/transactions';
 import { UsersService } from '../services/users';
 import { Listing, User } from '../types';
@@ -29,6 +33,10 @@ import VerifyListings from '../components/VerifyListings';
 import AdminDebug from '../components/AdminDebug';
 import EscrowManagement from '../components/EscrowManagement';
 import CommissionTracking from '../components/CommissionTracking';
+import SellerVerificationReview from '../components/SellerVerificationReview';
+import DisputeManagement from '../components/DisputeManagement';
+import AuditLog from '../components/AuditLog';
+import PaymentReconciliation from '../components/PaymentReconciliation';
 
 // Admin-specific interfaces - matches AdminStatsSimple interface
 interface AdminStats {
@@ -62,9 +70,13 @@ const AdminFixed: React.FC = () => {
     { id: 'verify-listings', label: 'Verify Listings', icon: ShoppingBag },
     { id: 'listing-status', label: 'Listing Status', icon: Shield },
     { id: 'manage-users', label: 'Manage Users', icon: Users },
+    { id: 'verify-sellers', label: 'Verify Sellers', icon: UserCheck },
     { id: 'debug', label: 'Debug', icon: AlertTriangle },
     { id: 'manage-escrow', label: 'Manage Escrow', icon: Shield },
+    { id: 'disputes', label: 'Disputes', icon: Scale },
     { id: 'commission-tracking', label: 'Commission Tracking', icon: DollarSign },
+    { id: 'reconciliation', label: 'Reconciliation', icon: FileSpreadsheet },
+    { id: 'audit-log', label: 'Audit Log', icon: History },
     { id: 'notifications', label: 'Notifications', icon: Bell },
     { id: 'analytics', label: 'Analytics', icon: TrendingUp },
     { id: 'settings', label: 'Settings', icon: Settings },
@@ -282,6 +294,27 @@ const AdminFixed: React.FC = () => {
     }
   };
 
+  const handleBulkUpdateListings = async (
+    listingIds: string[],
+    action: BulkListingAction,
+    reason?: string
+  ): Promise<BulkListingResult[]> => {
+    try {
+      const response = await ListingsService.bulkUpdateStatus(listingIds, action, { reason });
+      if (response.success) {
+        toast.success(response.message || 'Listings updated');
+      } else {
+        toast.error(response.message || 'Failed to update listings');
+      }
+      await loadPendingListings();
+      return response.data;
+    } catch (error) {
+      toast.error('Failed to update listings');
+      console.error('Error bulk updating listings:', error);
+      return [];
+    }
+  };
+
   const handleUpdateListing = async (listingId: string, updates: Partial<Listing>) => {
     try {
       const response = await ListingsService.updateListing(listingId, updates);
@@ -451,6 +484,7 @@ const AdminFixed: React.FC = () => {
       loading={loading}
       onApproveListing={handleApproveListing}
       onRejectListing={handleRejectListing}
+      onBulkUpdate={handleBulkUpdateListings}
       onDeleteListing={handleDeleteListing}
       onRefresh={handleRefresh}
     />
@@ -464,6 +498,7 @@ const AdminFixed: React.FC = () => {
       onRejectListing={handleRejectListing}
       onActivateListing={handleActivateListing}
       onDeactivateListing={handleDeactivateListing}
+      onBulkUpdate={handleBulkUpdateListings}
       onRefresh={handleRefresh}
       onUpdateListing={handleUpdateListing}
     />
@@ -497,6 +532,22 @@ const AdminFixed: React.FC = () => {
     <CommissionTracking loading={loading} />
   );
 
+  const renderVerifySellers = () => (
+    <SellerVerificationReview />
+  );
+
+  const renderDisputes = () => (
+    <DisputeManagement />
+  );
+
+  const renderReconciliation = () => (
+    <PaymentReconciliation />
+  );
+
+  const renderAuditLog = () => (
+    <AuditLog />
+  );
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'dashboard':
@@ -507,12 +558,20 @@ const AdminFixed: React.FC = () => {
         return renderListingStatus();
       case 'manage-users':
         return renderManageUsers();
+      case 'verify-sellers':
+        return renderVerifySellers();
       case 'debug':
         return renderDebug();
       case 'manage-escrow':
         return renderManageEscrow();
+      case 'disputes':
+        return renderDisputes();
       case 'commission-tracking':
         return renderCommissionTracking();
+      case 'reconciliation':
+        return renderReconciliation();
+      case 'audit-log':
+        return renderAuditLog();
       default:
         return (
           <div className="text-center py-12">
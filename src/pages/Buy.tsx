@@ -1,13 +1,19 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { Search, MapPin, Star, Heart, Eye, Loader2, AlertCircle } from 'lucide-react';
-import { Link } from 'react-router-dom';
+import { Search, MapPin, Star, Heart, Eye, Loader2, AlertCircle, LayoutGrid, Map as MapIcon } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import HighlightedText from '@/components/HighlightedText';
+import ListingFilters from '@/components/ListingFilters';
+import ListingMapView from '@/components/ListingMapView';
+import SaveSearchButton from '@/components/SaveSearchButton';
 import { ListingsService } from '@/services/listings';
-import { Listing, SearchFilters } from '@/types';
+import { SavedSearchesService } from '@/services/savedSearches';
+import { Listing, ListingFacets, SearchFilters } from '@/types';
 import { formatPrice, formatRelativeTime, getCategoryIcon } from '@/lib/utils';
+import { getFeatureFilters } from '@/lib/listingFeatures';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 
@@ -17,17 +23,23 @@ const Buy: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filters, setFilters] = useState<SearchFilters>({
     category: undefined,
+    subcategory: undefined,
     type: 'sale',
     minPrice: undefined,
     maxPrice: undefined,
     city: undefined,
+    subcity: undefined,
     verified: undefined,
+    features: undefined,
     sortBy: 'date_desc',
   });
   const [pagination, setPagination] = useState({ page: 1, limit: 12 });
   const [totalCount, setTotalCount] = useState(0);
+  const [facets, setFacets] = useState<ListingFacets | null>(null);
+  const [view, setView] = useState<'grid' | 'map'>('grid');
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
 
   const categories = [
     { id: 'all', name: 'All Categories', icon: '🏠' },
@@ -38,48 +50,94 @@ const Buy: React.FC = () => {
     { id: 'other', name: 'Other', icon: '📦' },
   ];
 
+  const activeFilters = useMemo(() => {
+    // Build search filters - only apply if user has actively searched or filtered
+    const searchFilters: SearchFilters = { type: 'sale' }; // Always filter for sale items
+    
+    // Only apply category filter if user has selected something other than 'all'
+    if (filters.category && filters.category !== 'all') {
+      searchFilters.category = filters.category;
+    }
+
+    if (filters.subcategory) {
+      searchFilters.subcategory = filters.subcategory;
+    }
+
+    // Details such as year or bedrooms, for the chosen category only
+    const features = getFeatureFilters(searchFilters.category, filters.features);
+    if (features) {
+      searchFilters.features = features;
+    }
+    
+    // Only apply price filters if user has entered values
+    if (filters.minPrice) {
+      searchFilters.minPrice = filters.minPrice;
+    }
+    if (filters.maxPrice) {
+      searchFilters.maxPrice = filters.maxPrice;
+    }
+    
+    // Only apply city filter if user has entered a city
+    if (filters.city) {
+      searchFilters.city = filters.city;
+    }
+
+    if (filters.subcity) {
+      searchFilters.subcity = filters.subcity;
+    }
+    
+    // Only apply verified filter if user has selected it
+    if (filters.verified !== undefined) {
+      searchFilters.verified = filters.verified;
+    }
+    
+    // Only apply sort if user has selected something other than default
+    if (filters.sortBy && filters.sortBy !== 'date_desc') {
+      searchFilters.sortBy = filters.sortBy;
+    }
+
+    return searchFilters;
+  }, [filters]);
+
+  // Alerts link back here with ?saved=<id>; put that search's filters back
+  useEffect(() => {
+    const savedId = searchParams.get('saved');
+    if (!savedId) return;
+
+    let cancelled = false;
+
+    SavedSearchesService.getSavedSearch(savedId).then((response) => {
+      if (cancelled) return;
+      if (!response.success || !response.data) {
+        toast.error('Saved search not found');
+        return;
+      }
+
+      const { search, ...saved } = SavedSearchesService.toSearchFilters(response.data);
+      setFilters({ ...saved, type: 'sale', sortBy: 'date_desc' });
+      setSearchTerm(search || '');
+      setPagination({ page: 1, limit: 12 });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchParams]);
+
+  const mapFilters = useMemo(
+    () => ({ ...activeFilters, search: searchTerm.trim() || undefined }),
+    [activeFilters, searchTerm]
+  );
+
   const loadListings = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
 
-      // Build search filters - only apply if user has actively searched or filtered
-      const searchFilters: SearchFilters = { type: 'sale' }; // Always filter for sale items
-      
-      // Only apply search if user has typed something
-      if (searchTerm.trim()) {
-        searchFilters.search = searchTerm.trim();
-      }
-      
-      // Only apply category filter if user has selected something other than 'all'
-      if (filters.category && filters.category !== 'all') {
-        searchFilters.category = filters.category;
-      }
-      
-      // Only apply price filters if user has entered values
-      if (filters.minPrice) {
-        searchFilters.minPrice = filters.minPrice;
-      }
-      if (filters.maxPrice) {
-        searchFilters.maxPrice = filters.maxPrice;
-      }
-      
-      // Only apply city filter if user has entered a city
-      if (filters.city) {
-        searchFilters.city = filters.city;
-      }
-      
-      // Only apply verified filter if user has selected it
-      if (filters.verified !== undefined) {
-        searchFilters.verified = filters.verified;
-      }
-      
-      // Only apply sort if user has selected something other than default
-      if (filters.sortBy && filters.sortBy !== 'date_desc') {
-        searchFilters.sortBy = filters.sortBy;
-      }
-
-      const response = await ListingsService.getListings(searchFilters, pagination);
+      // Typed searches are ranked by relevance unless the user picked a sort
+      const response = searchTerm.trim()
+        ? await ListingsService.searchListings(searchTerm.trim(), activeFilters, pagination)
+        : await ListingsService.getListings(activeFilters, pagination);
 
       if (response.success) {
         if (pagination.page === 1) {
@@ -97,12 +155,27 @@ const Buy: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  }, [searchTerm, filters, pagination]);
+  }, [searchTerm, activeFilters, pagination]);
 
   useEffect(() => {
     loadListings();
   }, [loadListings]);
 
+  // Counts for the filter sidebar follow the search and filters, not the page
+  useEffect(() => {
+    let cancelled = false;
+
+    ListingsService.getListingFacets({ ...activeFilters, search: searchTerm.trim() || undefined }).then((response) => {
+      if (!cancelled && response.success) {
+        setFacets(response.data);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchTerm, activeFilters]);
+
   // Listen for listing deletion events from other dashboards
   useEffect(() => {
     const handleListingDeleted = (event: CustomEvent) => {
@@ -127,10 +200,26 @@ const Buy: React.FC = () => {
     setFilters({
       ...filters,
       category: category === 'all' ? undefined : category,
+      subcategory: undefined,
+      features: undefined,
     });
     setPagination({ ...pagination, page: 1 });
   };
 
+  const handleFilterChange = (changes: Partial<SearchFilters>) => {
+    setFilters({ ...filters, ...changes });
+    setPagination({ ...pagination, page: 1 });
+  };
+
+  // Category tabs count listings in each category, and "all" across them
+  const getCategoryCount = (categoryId: string) => {
+    if (!facets) return undefined;
+    if (categoryId === 'all') {
+      return facets.category.reduce((sum, facet) => sum + facet.count, 0);
+    }
+    return facets.category.find((facet) => facet.value === categoryId)?.count || 0;
+  };
+
   const loadMore = () => {
     setPagination({ ...pagination, page: pagination.page + 1 });
   };
@@ -178,7 +267,7 @@ const Buy: React.FC = () => {
               <input 
                 type="text" 
                 className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 pl-10" 
-                placeholder="Search by title, description, or location..." 
+                placeholder="Search by title, description, tags or location (English or አማርኛ)..." 
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
@@ -193,10 +282,11 @@ const Buy: React.FC = () => {
           </div>
 
           {/* Search Results Info */}
-          <div className="mb-4 text-center">
+          <div className="mb-4 flex flex-wrap items-center justify-center gap-3">
             <div className="text-sm text-gray-500">
               {totalCount} properties found
             </div>
+            <SaveSearchButton filters={mapFilters} />
           </div>
         </motion.div>
 
@@ -214,186 +304,229 @@ const Buy: React.FC = () => {
             >
               <span className="mr-2">{category.icon}</span>
               {category.name}
+              {getCategoryCount(category.id) !== undefined && (
+                <span className="ml-2 text-xs opacity-70">{getCategoryCount(category.id)}</span>
+              )}
             </button>
           ))}
         </div>
 
-        {/* Error State */}
-        {error && (
-          <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center">
-            <AlertCircle className="h-5 w-5 text-red-600 mr-3" />
-            <span className="text-red-700">{error}</span>
-          </div>
-        )}
-
-        {/* Loading State */}
-        {loading && listings.length === 0 && (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {[...Array(8)].map((_, index) => (
-              <div key={index} className="bg-white rounded-lg shadow-sm p-4 animate-pulse">
-                <div className="w-full h-48 bg-gray-200 rounded-lg mb-4"></div>
-                <div className="h-4 bg-gray-200 rounded mb-2"></div>
-                <div className="h-4 bg-gray-200 rounded w-3/4 mb-4"></div>
-                <div className="h-6 bg-gray-200 rounded w-1/2"></div>
-              </div>
-            ))}
-          </div>
-        )}
-
-        {/* Listings Grid */}
-        {!loading && listings.length > 0 && (
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.2 }}
-            className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6"
-          >
-            {listings.map((listing, index) => (
-              <motion.div
-                key={listing.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.1 }}
-              >
-                <Card className="group hover:shadow-xl transition-all duration-300 overflow-hidden">
-                  <div className="relative">
-                    <img
-                      src={listing.images[0]?.url || '/placeholder-image.jpg'}
-                      alt={listing.title}
-                      className="w-full h-48 object-cover group-hover:scale-105 transition-transform duration-300"
-                    />
-                    <div className="absolute top-4 left-4">
-                      <Badge variant="gold" className="flex items-center gap-1">
-                        {getCategoryIcon(listing.category)}
-                        {listing.category}
-                      </Badge>
-                    </div>
-                    <div className="absolute top-4 right-4">
-                      <Badge variant={listing.type === 'sale' ? 'default' : 'secondary'}>
-                        {listing.type}
-                      </Badge>
-                    </div>
-                    {listing.verified && (
-                      <div className="absolute bottom-4 right-4">
-                        <Badge variant="success" className="flex items-center gap-1">
-                          <Star className="h-3 w-3" />
-                          Verified
-                        </Badge>
-                      </div>
-                    )}
+        <div className="flex flex-col lg:flex-row gap-8">
+          <aside className="lg:w-64 flex-shrink-0">
+            <ListingFilters filters={filters} facets={facets} onChange={handleFilterChange} />
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            <div className="flex justify-end gap-2 mb-4">
+              <Button variant={view === 'grid' ? 'default' : 'outline'} size="sm" onClick={() => setView('grid')}>
+                <LayoutGrid className="h-4 w-4 mr-1" />
+                Grid
+              </Button>
+              <Button variant={view === 'map' ? 'default' : 'outline'} size="sm" onClick={() => setView('map')}>
+                <MapIcon className="h-4 w-4 mr-1" />
+                Map
+              </Button>
+            </div>
+
+            {view === 'map' ? (
+              <ListingMapView filters={mapFilters} />
+            ) : (
+              <>
+                {/* Error State */}
+                {error && (
+                  <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center">
+                    <AlertCircle className="h-5 w-5 text-red-600 mr-3" />
+                    <span className="text-red-700">{error}</span>
                   </div>
+                )}
 
-                  <CardHeader>
-                    <CardTitle className="line-clamp-2">{listing.title}</CardTitle>
-                    <CardDescription className="flex items-center gap-1">
-                      <MapPin className="h-4 w-4" />
-                      {listing.location.city}, {listing.location.subcity}
-                    </CardDescription>
-                  </CardHeader>
-
-                  <CardContent>
-                    <div className="flex items-center justify-between mb-4">
-                      <div className="text-2xl font-bold text-[#0B132B]">
-                        {formatPrice(listing.price, listing.currency)}
+                {/* Loading State */}
+                {loading && listings.length === 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {[...Array(8)].map((_, index) => (
+                      <div key={index} className="bg-white rounded-lg shadow-sm p-4 animate-pulse">
+                        <div className="w-full h-48 bg-gray-200 rounded-lg mb-4"></div>
+                        <div className="h-4 bg-gray-200 rounded mb-2"></div>
+                        <div className="h-4 bg-gray-200 rounded w-3/4 mb-4"></div>
+                        <div className="h-6 bg-gray-200 rounded w-1/2"></div>
                       </div>
-                      <div className="flex items-center gap-1 text-sm text-gray-500">
-                        <Eye className="h-4 w-4" />
-                        {listing.views}
-                      </div>
-                    </div>
-
-                    <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
-                      <span>{formatRelativeTime(listing.created_at)}</span>
-                    </div>
+                    ))}
+                  </div>
+                )}
 
-                    <div className="flex gap-2">
-                      <Button asChild className="flex-1">
-                        <Link to={`/listing/${listing.id}`}>
-                          View Details
-                        </Link>
-                      </Button>
-                      <Button
-                        variant="outline"
-                        size="icon"
-                        onClick={toggleFavorite}
+                {/* Listings Grid */}
+                {!loading && listings.length > 0 && (
+                  <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: 0.2 }}
+                    className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6"
+                  >
+                    {listings.map((listing, index) => (
+                      <motion.div
+                        key={listing.id}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: index * 0.1 }}
                       >
-                        <Heart className="h-4 w-4" />
-                      </Button>
+                        <Card className="group hover:shadow-xl transition-all duration-300 overflow-hidden">
+                          <div className="relative">
+                            <img
+                              src={listing.images[0]?.url || '/placeholder-image.jpg'}
+                              alt={listing.title}
+                              className="w-full h-48 object-cover group-hover:scale-105 transition-transform duration-300"
+                            />
+                            <div className="absolute top-4 left-4">
+                              <Badge variant="gold" className="flex items-center gap-1">
+                                {getCategoryIcon(listing.category)}
+                                {listing.category}
+                              </Badge>
+                            </div>
+                            <div className="absolute top-4 right-4">
+                              <Badge variant={listing.type === 'sale' ? 'default' : 'secondary'}>
+                                {listing.type}
+                              </Badge>
+                            </div>
+                            {listing.verified && (
+                              <div className="absolute bottom-4 right-4">
+                                <Badge variant="success" className="flex items-center gap-1">
+                                  <Star className="h-3 w-3" />
+                                  Verified
+                                </Badge>
+                              </div>
+                            )}
+                          </div>
+
+                          <CardHeader>
+                            <CardTitle className="line-clamp-2">
+                              {listing.search_highlight ? (
+                                <HighlightedText text={listing.search_highlight.title} />
+                              ) : (
+                                listing.title
+                              )}
+                            </CardTitle>
+                            <CardDescription className="flex items-center gap-1">
+                              <MapPin className="h-4 w-4" />
+                              {listing.location.city}, {listing.location.subcity}
+                            </CardDescription>
+                            {listing.search_highlight?.snippet && (
+                              <HighlightedText
+                                text={listing.search_highlight.snippet}
+                                className="block text-sm text-gray-600 line-clamp-3"
+                              />
+                            )}
+                          </CardHeader>
+
+                          <CardContent>
+                            <div className="flex items-center justify-between mb-4">
+                              <div className="text-2xl font-bold text-[#0B132B]">
+                                {formatPrice(listing.price, listing.currency)}
+                              </div>
+                              <div className="flex items-center gap-1 text-sm text-gray-500">
+                                <Eye className="h-4 w-4" />
+                                {listing.views}
+                              </div>
+                            </div>
+
+                            <div className="flex items-center justify-between text-sm text-gray-500 mb-4">
+                              <span>{formatRelativeTime(listing.created_at)}</span>
+                            </div>
+
+                            <div className="flex gap-2">
+                              <Button asChild className="flex-1">
+                                <Link to={`/listing/${listing.id}`}>
+                                  View Details
+                                </Link>
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="icon"
+                                onClick={toggleFavorite}
+                              >
+                                <Heart className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      </motion.div>
+                    ))}
+                  </motion.div>
+                )}
+
+                {/* Empty State */}
+                {!loading && listings.length === 0 && !error && (
+                  <div className="text-center py-12">
+                    <div className="text-gray-400 mb-4">
+                      <Search className="h-16 w-16 mx-auto" />
                     </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
-          </motion.div>
-        )}
-
-        {/* Empty State */}
-        {!loading && listings.length === 0 && !error && (
-          <div className="text-center py-12">
-            <div className="text-gray-400 mb-4">
-              <Search className="h-16 w-16 mx-auto" />
-            </div>
-            <h3 className="text-lg font-medium text-gray-900 mb-2">
-              {searchTerm || Object.values(filters).some(filter => filter !== undefined && filter !== 'all' && filter !== '') 
-                ? 'No properties found' 
-                : 'No properties available for sale yet'
-              }
-            </h3>
-            <p className="text-gray-600 mb-4">
-              {searchTerm || Object.values(filters).some(filter => filter !== undefined && filter !== 'all' && filter !== '') 
-                ? 'Try adjusting your search criteria or browse all categories.' 
-                : 'Be the first to list your property for sale! Create a listing to get started.'
-              }
-            </p>
-            <div className="flex flex-col sm:flex-row gap-3 justify-center">
-              {(searchTerm || Object.values(filters).some(filter => filter !== undefined && filter !== 'all' && filter !== '')) && (
-                <Button variant="outline" onClick={() => {
-                  setFilters({
-                    category: undefined,
-                    type: 'sale',
-                    minPrice: undefined,
-                    maxPrice: undefined,
-                    city: undefined,
-                    verified: undefined,
-                    sortBy: 'date_desc',
-                  });
-                  setSearchTerm('');
-                  setPagination({ page: 1, limit: 12 });
-                }}>
-                  Clear Filters
-                </Button>
-              )}
-              {user && (
-                <Button 
-                  className="bg-blue-600 hover:bg-blue-700"
-                  onClick={() => window.location.href = '/sell'}
-                >
-                  Create Sale Listing
-                </Button>
-              )}
-            </div>
-          </div>
-        )}
-
-        {/* Load More */}
-        {!loading && listings.length > 0 && listings.length < totalCount && (
-          <div className="text-center mt-8">
-            <Button
-              variant="outline"
-              onClick={loadMore}
-              disabled={loading}
-            >
-              {loading ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Loading...
-                </>
-              ) : (
-                'Load More Properties'
-              )}
-            </Button>
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">
+                      {searchTerm || Object.values(filters).some(filter => filter !== undefined && filter !== 'all' && filter !== '') 
+                        ? 'No properties found' 
+                        : 'No properties available for sale yet'
+                      }
+                    </h3>
+                    <p className="text-gray-600 mb-4">
+                      {searchTerm || Object.values(filters).some(filter => filter !== undefined && filter !== 'all' && filter !== '') 
+                        ? 'Try adjusting your search criteria or browse all categories.' 
+                        : 'Be the first to list your property for sale! Create a listing to get started.'
+                      }
+                    </p>
+                    <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                      {(searchTerm || Object.values(filters).some(filter => filter !== undefined && filter !== 'all' && filter !== '')) && (
+                        <Button variant="outline" onClick={() => {
+                          setFilters({
+                            category: undefined,
+                            subcategory: undefined,
+                            type: 'sale',
+                            minPrice: undefined,
+                            maxPrice: undefined,
+                            city: undefined,
+                            subcity: undefined,
+                            verified: undefined,
+                            features: undefined,
+                            sortBy: 'date_desc',
+                          });
+                          setSearchTerm('');
+                          setPagination({ page: 1, limit: 12 });
+                        }}>
+                          Clear Filters
+                        </Button>
+                      )}
+                      {user && (
+                        <Button 
+                          className="bg-blue-600 hover:bg-blue-700"
+                          onClick={() => window.location.href = '/sell'}
+                        >
+                          Create Sale Listing
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Load More */}
+                {!loading && listings.length > 0 && listings.length < totalCount && (
+                  <div className="text-center mt-8">
+                    <Button
+                      variant="outline"
+                      onClick={loadMore}
+                      disabled={loading}
+                    >
+                      {loading ? (
+                        <>
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          Loading...
+                        </>
+                      ) : (
+                        'Load More Properties'
+                      )}
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
           </div>
-        )}
+        </div>
       </div>
     </div>
   );
@@ -18,14 +18,23 @@ import {
   ChevronRight,
   CheckCircle,
   Clock,
-  XCircle
+  XCircle,
+  MessageCircle,
+  Lock,
+  Calendar
 } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
+import UserContactCard from '../components/UserContactCard';
+import AvailabilityCalendar from '../components/AvailabilityCalendar';
 import { ListingsService } from '../services/listings';
 import { FavoritesService } from '../services/favorites';
+import { TransactionsService } from '../services/transactions';
+import { BookedRange, RentalsService } from '../services/rentals';
 import { Listing } from '../types';
+import { isListingReserved } from '../lib/utils';
+import { getSecurityDeposit } from '@shared/rentals';
 import { useAuth } from '../contexts/AuthContext';
 import { toast } from 'sonner';
 
@@ -38,6 +47,13 @@ const ListingDetail: React.FC = () => {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [isFavorite, setIsFavorite] = useState(false);
   const [processingPayment, setProcessingPayment] = useState(false);
+  const [holdsReservation, setHoldsReservation] = useState(false);
+  const [booked, setBooked] = useState<BookedRange[]>([]);
+
+  // Another buyer's checkout or payment is holding the listing
+  const reservedByOther = !!listing && isListingReserved(listing) && !holdsReservation;
+  // This buyer has already paid and the sale is being completed
+  const paidByYou = holdsReservation && !listing?.reserved_until;
 
   useEffect(() => {
     if (id) {
@@ -52,6 +68,13 @@ const ListingDetail: React.FC = () => {
       const response = await ListingsService.getListingById(id!);
       if (response.success && response.data) {
         setListing(response.data);
+
+        // Rent listings show which dates are already booked
+        if (response.data.type === 'rent') {
+          const availability = await RentalsService.getAvailability(id!);
+          setBooked(availability.data);
+        }
+
         // Increment view count
         await ListingsService.incrementViews(id!);
         
@@ -61,6 +84,12 @@ const ListingDetail: React.FC = () => {
           if (favoriteResult.success) {
             setIsFavorite(favoriteResult.isFavorited);
           }
+
+          // The reservation may be held by this buyer's own checkout or payment
+          if (response.data.reserved_by && isListingReserved(response.data)) {
+            const reservation = await TransactionsService.holdsReservation(user.id, response.data.reserved_by);
+            setHoldsReservation(reservation.holdsReservation);
+          }
         }
       } else {
         toast.error('Listing not found');
@@ -87,11 +116,16 @@ const ListingDetail: React.FC = () => {
       return;
     }
 
+    if (reservedByOther) {
+      toast.error('This listing is reserved by another buyer');
+      return;
+    }
+
     try {
       setProcessingPayment(true);
 
-      // Navigate to payment page
-      navigate(`/payment/${listing.id}`);
+      // Rent listings are booked for dates first; the deposit is paid after that
+      navigate(listing.type === 'rent' ? `/book/${listing.id}` : `/payment/${listing.id}`);
     } catch (error) {
       console.error('Error initiating purchase:', error);
       toast.error('Failed to initiate purchase');
@@ -190,6 +224,10 @@ const ListingDetail: React.FC = () => {
         return <Badge className="bg-yellow-100 text-yellow-800 flex items-center gap-1"><Clock className="w-3 h-3" />Pending</Badge>;
       case 'rejected':
         return <Badge className="bg-red-100 text-red-800 flex items-center gap-1"><XCircle className="w-3 h-3" />Rejected</Badge>;
+      case 'sold':
+        return <Badge className="bg-gray-100 text-gray-800">Sold</Badge>;
+      case 'rented':
+        return <Badge className="bg-gray-100 text-gray-800">Rented</Badge>;
       default:
         return <Badge className="bg-gray-100 text-gray-800">{status}</Badge>;
     }
@@ -231,9 +269,13 @@ const ListingDetail: React.FC = () => {
         </Button>
 
             <div className="flex items-center gap-2">
-              <Button variant="outline" onClick={handleBuyNow} disabled={processingPayment}>
-                <DollarSign className="w-4 h-4" />
-                {listing?.type === 'rent' ? 'Rent' : 'Buy'}
+              <Button
+                variant="outline"
+                onClick={handleBuyNow}
+                disabled={processingPayment || listing.status !== 'approved' || reservedByOther || paidByYou}
+              >
+                {reservedByOther ? <Lock className="w-4 h-4" /> : <DollarSign className="w-4 h-4" />}
+                {reservedByOther ? 'Reserved' : listing.type === 'rent' ? 'Rent' : 'Buy'}
               </Button>
               <Button variant="outline" onClick={toggleFavorite}>
                 <Heart className={`w-4 h-4 ${isFavorite ? 'fill-red-500 text-red-500' : ''}`} />
@@ -332,6 +374,11 @@ const ListingDetail: React.FC = () => {
                         {listing.type === 'rent' ? 'For Rent' : 'For Sale'}
                       </Badge>
                       {getStatusBadge(listing.status)}
+                      {reservedByOther && listing.status === 'approved' && (
+                        <Badge className="bg-orange-100 text-orange-800 flex items-center gap-1">
+                          <Lock className="w-3 h-3" />Reserved
+                        </Badge>
+                      )}
                     </div>
                     <CardTitle className="text-2xl">{listing.title}</CardTitle>
                     </div>
@@ -408,16 +455,43 @@ const ListingDetail: React.FC = () => {
                 <CardTitle>Quick Actions</CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
+                {reservedByOther && listing.status === 'approved' && (
+                  <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm text-orange-800">
+                    <p className="font-medium flex items-center gap-2">
+                      <Lock className="w-4 h-4" />
+                      Reserved by another buyer
+                    </p>
+                    <p className="mt-1">
+                      {listing.reserved_until
+                        ? `They are completing payment. If they don't pay, it becomes available again at ${new Date(listing.reserved_until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+                        : `They have paid and the ${listing.type === 'rent' ? 'rental' : 'sale'} is being completed.`}
+                    </p>
+                  </div>
+                )}
+
+                {holdsReservation && listing.status === 'approved' && (
+                  <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+                    {listing.reserved_until
+                      ? `This listing is held for your checkout until ${new Date(listing.reserved_until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+                      : 'You have paid for this listing. Follow the transaction from your profile.'}
+                  </div>
+                )}
+
                   <Button
                   className="w-full bg-green-600 hover:bg-green-700"
                   onClick={handleBuyNow}
-                  disabled={processingPayment || listing.status !== 'approved'}
+                  disabled={processingPayment || listing.status !== 'approved' || reservedByOther || paidByYou}
                 >
                   {processingPayment ? (
                     <>
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
                       Processing...
                     </>
+                  ) : reservedByOther ? (
+                    <>
+                      <Lock className="w-4 h-4 mr-2" />
+                      Reserved
+                    </>
                   ) : (
                     <>
                       <DollarSign className="w-4 h-4 mr-2" />
@@ -443,9 +517,49 @@ const ListingDetail: React.FC = () => {
                   <Share2 className="w-4 h-4 mr-2" />
                   Share Listing
                 </Button>
+
+                {user?.id === listing.owner_id && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => navigate('/messages')}
+                  >
+                    <MessageCircle className="w-4 h-4 mr-2" />
+                    View Messages
+                  </Button>
+                )}
               </CardContent>
             </Card>
 
+            {/* Availability */}
+            {listing.type === 'rent' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <Calendar className="w-5 h-5 mr-2" />
+                    Availability
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AvailabilityCalendar booked={booked} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Seller */}
+            {listing.owner && user?.id !== listing.owner_id && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Seller Information</CardTitle>
+                </CardHeader>
+                <UserContactCard
+                  user={listing.owner}
+                  listingId={listing.id}
+                  listingTitle={listing.title}
+                />
+              </Card>
+            )}
+
             {/* Listing Info */}
             <Card>
               <CardHeader>
@@ -470,6 +584,12 @@ const ListingDetail: React.FC = () => {
                     <span className="capitalize">{listing.rent_period}</span>
                   </div>
                 )}
+                {listing.type === 'rent' && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Security Deposit:</span>
+                    <span>{formatPrice(getSecurityDeposit(listing.price, listing.security_deposit), listing.currency, 'sale')}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-600">Status:</span>
                   {getStatusBadge(listing.status)}
@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, MessageCircle, Send, User as UserIcon, Package } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Badge } from '../components/ui/badge';
+import { Input } from '../components/ui/input';
+import { MessagingService } from '../services/messaging';
+import { ListingsService } from '../services/listings';
+import { UsersService } from '../services/users';
+import { Conversation, Inquiry } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { formatRelativeTime } from '../lib/utils';
+import { toast } from 'sonner';
+
+const Messages: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [messages, setMessages] = useState<Inquiry[]>([]);
+  const [newConversation, setNewConversation] = useState<Conversation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [draft, setDraft] = useState('');
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const listingId = searchParams.get('listing');
+  const counterpartId = searchParams.get('with');
+  const activeConversation =
+    conversations.find(c => c.listing_id === listingId && c.counterpart_id === counterpartId) ||
+    newConversation;
+
+  const loadConversations = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const response = await MessagingService.getConversations(user.id);
+      if (response.success) {
+        setConversations(response.data);
+      } else {
+        toast.error(response.message || 'Failed to load conversations');
+      }
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+      toast.error('Failed to load conversations');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  // Load the thread selected through the URL, starting a new one when needed
+  useEffect(() => {
+    if (!user || !listingId || !counterpartId) {
+      setNewConversation(null);
+      setMessages([]);
+      return;
+    }
+
+    const openConversation = async () => {
+      try {
+        setLoadingMessages(true);
+
+        const response = await MessagingService.getConversationMessages(user.id, listingId, counterpartId);
+        if (response.success) {
+          setMessages(response.data);
+        }
+
+        if (response.data.length === 0) {
+          const listingResponse = await ListingsService.getListingById(listingId);
+          const listing = listingResponse.data || undefined;
+          let counterpart = listing?.owner_id === counterpartId ? listing?.owner : undefined;
+
+          if (!counterpart) {
+            const userResponse = await UsersService.getUserById(counterpartId);
+            counterpart = userResponse.data || undefined;
+          }
+
+          setNewConversation({
+            listing_id: listingId,
+            listing,
+            counterpart_id: counterpartId,
+            counterpart,
+            unread_count: 0,
+          });
+        } else {
+          setNewConversation(null);
+          await MessagingService.markConversationAsRead(user.id, listingId, counterpartId);
+          setConversations(prev =>
+            prev.map(c =>
+              c.listing_id === listingId && c.counterpart_id === counterpartId
+                ? { ...c, unread_count: 0 }
+                : c
+            )
+          );
+        }
+      } catch (error) {
+        console.error('Error opening conversation:', error);
+        toast.error('Failed to load messages');
+      } finally {
+        setLoadingMessages(false);
+      }
+    };
+
+    openConversation();
+  }, [user, listingId, counterpartId]);
+
+  // Real-time delivery of incoming messages
+  useEffect(() => {
+    if (!user) return;
+
+    const unsubscribe = MessagingService.subscribeToMessages(user.id, (message) => {
+      const isActive = message.listing_id === listingId && message.user_id === counterpartId;
+
+      if (isActive) {
+        setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+        MessagingService.markConversationAsRead(user.id, message.listing_id, message.user_id);
+      } else {
+        toast.info('New message received', { description: message.message });
+      }
+
+      loadConversations();
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user, listingId, counterpartId, loadConversations]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const selectConversation = (conversation: Conversation) => {
+    setSearchParams({ listing: conversation.listing_id, with: conversation.counterpart_id });
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user || !activeConversation || !draft.trim()) return;
+
+    try {
+      setSending(true);
+      const response = await MessagingService.sendMessage({
+        listing_id: activeConversation.listing_id,
+        sender_id: user.id,
+        recipient_id: activeConversation.counterpart_id,
+        message: draft,
+      });
+
+      if (response.success && response.data) {
+        setMessages(prev => [...prev, response.data as Inquiry]);
+        setDraft('');
+        loadConversations();
+      } else {
+        toast.error(response.message || 'Failed to send message');
+      }
+    } catch (error) {
+      console.error('Error sending message:', error);
+      toast.error('Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Messages</h1>
+          <p className="text-gray-600">Talk to buyers and sellers without sharing your phone number</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Conversation List */}
+          <Card className={activeConversation ? 'hidden lg:block' : ''}>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <MessageCircle className="h-5 w-5 mr-2" />
+                Conversations
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {conversations.length > 0 ? (
+                <div className="divide-y divide-gray-100">
+                  {conversations.map((conversation) => {
+                    const isActive =
+                      conversation.listing_id === activeConversation?.listing_id &&
+                      conversation.counterpart_id === activeConversation?.counterpart_id;
+
+                    return (
+                      <button
+                        key={`${conversation.listing_id}:${conversation.counterpart_id}`}
+                        onClick={() => selectConversation(conversation)}
+                        className={`w-full text-left p-4 hover:bg-gray-50 transition-colors ${
+                          isActive ? 'bg-blue-50' : ''
+                        }`}
+                      >
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="font-medium text-sm text-gray-900 truncate">
+                              {conversation.counterpart?.full_name || 'User'}
+                            </p>
+                            <p className="text-xs text-gray-500 truncate">
+                              {conversation.listing?.title || 'Listing'}
+                            </p>
+                            <p className="text-sm text-gray-600 truncate mt-1">
+                              {conversation.last_message?.message}
+                            </p>
+                          </div>
+                          <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                            {conversation.last_message && (
+                              <span className="text-xs text-gray-400">
+                                {formatRelativeTime(conversation.last_message.created_at)}
+                              </span>
+                            )}
+                            {conversation.unread_count > 0 && (
+                              <Badge className="bg-blue-600 text-white">{conversation.unread_count}</Badge>
+                            )}
+                          </div>
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-12 px-4">
+                  <MessageCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <p className="text-gray-500">No conversations yet</p>
+                  <p className="text-sm text-gray-400 mt-1">Contact a seller from any listing to start one</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Message Thread */}
+          <Card className={`lg:col-span-2 flex flex-col ${activeConversation ? '' : 'hidden lg:flex'}`}>
+            {activeConversation ? (
+              <>
+                <CardHeader className="border-b">
+                  <div className="flex items-center gap-3">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="lg:hidden"
+                      onClick={() => setSearchParams({})}
+                    >
+                      <ArrowLeft className="h-4 w-4" />
+                    </Button>
+                    <div className="w-10 h-10 bg-gray-200 rounded-full flex items-center justify-center overflow-hidden">
+                      {activeConversation.counterpart?.avatar_url ? (
+                        <img
+                          src={activeConversation.counterpart.avatar_url}
+                          alt={activeConversation.counterpart.full_name}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <UserIcon className="h-5 w-5 text-gray-500" />
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-lg truncate">
+                        {activeConversation.counterpart?.full_name || 'User'}
+                      </CardTitle>
+                      <button
+                        onClick={() => navigate(`/listing/${activeConversation.listing_id}`)}
+                        className="flex items-center text-sm text-blue-600 hover:text-blue-700 truncate"
+                      >
+                        <Package className="h-4 w-4 mr-1" />
+                        {activeConversation.listing?.title || 'View listing'}
+                      </button>
+                    </div>
+                  </div>
+                </CardHeader>
+
+                <CardContent className="flex-1 overflow-y-auto p-4 space-y-3 min-h-[24rem] max-h-[32rem]">
+                  {loadingMessages ? (
+                    <div className="flex items-center justify-center py-12">
+                      <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                    </div>
+                  ) : messages.length > 0 ? (
+                    messages.map((message) => {
+                      const isOwn = message.user_id === user?.id;
+
+                      return (
+                        <motion.div
+                          key={message.id}
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
+                        >
+                          <div
+                            className={`max-w-[75%] rounded-lg px-4 py-2 ${
+                              isOwn ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+                            }`}
+                          >
+                            <p className="text-sm whitespace-pre-wrap break-words">{message.message}</p>
+                            <p className={`text-xs mt-1 ${isOwn ? 'text-blue-100' : 'text-gray-400'}`}>
+                              {formatRelativeTime(message.created_at)}
+                            </p>
+                          </div>
+                        </motion.div>
+                      );
+                    })
+                  ) : (
+                    <div className="text-center py-12 text-gray-500">
+                      <p>No messages yet. Say hello!</p>
+                    </div>
+                  )}
+                  <div ref={messagesEndRef} />
+                </CardContent>
+
+                <form onSubmit={handleSend} className="border-t p-4 flex gap-2">
+                  <Input
+                    placeholder="Type your message..."
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    disabled={sending}
+                  />
+                  <Button type="submit" disabled={sending || !draft.trim()}>
+                    <Send className="h-4 w-4 mr-2" />
+                    Send
+                  </Button>
+                </form>
+              </>
+            ) : (
+              <CardContent className="flex-1 flex items-center justify-center py-24">
+                <div className="text-center text-gray-500">
+                  <MessageCircle className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <p>Select a conversation to start messaging</p>
+                </div>
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Messages;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   Shield, 
   CheckCircle, 
@@ -16,23 +16,34 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ListingsService } from '@/services/listings';
 import { TransactionsService } from '@/services/transactions';
 import { NotificationsService } from '@/services/notifications';
-import { PaymentService } from '@/services/payment';
-import { Listing } from '@/types';
+import { PaymentService, PAYMENT_SANDBOX_ENABLED } from '@/services/payment';
+import { RentalsService } from '@/services/rentals';
+import { Listing, PaymentMethod, RentalBooking, Transaction } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
-import { formatPrice, formatRelativeTime } from '@/lib/utils';
+import { formatDate, formatPrice, formatRelativeTime, getPaymentMethodName } from '@/lib/utils';
 import { toast } from 'sonner';
 
 const Payment: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { user } = useAuth();
+  // Rent listings are paid through a booking: its deposit, or one rent payment
+  const bookingId = searchParams.get('booking');
+  const rentPaymentId = searchParams.get('rent_payment') || undefined;
   const [listing, setListing] = useState<Listing | null>(null);
+  const [booking, setBooking] = useState<RentalBooking | null>(null);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
-  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<string>('');
+  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<PaymentMethod | ''>('');
   const [error, setError] = useState<string | null>(null);
+  // An earlier checkout for this listing the buyer has not finished paying
+  const [openCheckout, setOpenCheckout] = useState<Transaction | null>(null);
 
-  const paymentMethods = [
+  // CBE Birr and M-Pesa only settle in birr
+  const isBirrListing = listing?.currency === 'ETB';
+
+  const paymentMethods: { id: PaymentMethod; name: string; icon: string; description: string; available: boolean }[] = [
     {
       id: 'chapa',
       name: 'Chapa',
@@ -54,13 +65,51 @@ const Payment: React.FC = () => {
       description: 'Pay with VISA/MasterCard',
       available: true,
     },
+    {
+      id: 'cbe_birr',
+      name: 'CBE Birr',
+      icon: '🏦',
+      description: 'Pay from your CBE Birr wallet (ETB only)',
+      available: isBirrListing,
+    },
+    {
+      id: 'mpesa',
+      name: 'M-Pesa',
+      icon: '📲',
+      description: 'Confirm on your Safaricom phone (ETB only)',
+      available: isBirrListing,
+    },
+    ...(PAYMENT_SANDBOX_ENABLED
+      ? [{
+        id: 'sandbox' as const,
+        name: 'Sandbox',
+        icon: '🧪',
+        description: 'Test payment with simulated gateway responses. No money moves.',
+        available: true,
+      }]
+      : []),
   ];
 
   useEffect(() => {
     if (id) {
       loadListing();
     }
-  }, [id]);
+  }, [id, bookingId]);
+
+  useEffect(() => {
+    if (!id || !user) return;
+
+    const checkout = bookingId
+      ? RentalsService.getOpenCheckout(bookingId, rentPaymentId)
+      : TransactionsService.getOpenCheckout(user.id, id);
+
+    checkout.then((response) => {
+      if (response.success && response.data) {
+        setOpenCheckout(response.data);
+        setSelectedPaymentMethod(response.data.payment_method);
+      }
+    });
+  }, [id, user, bookingId, rentPaymentId]);
 
   const loadListing = async () => {
     if (!id) return;
@@ -71,11 +120,33 @@ const Payment: React.FC = () => {
 
       const response = await ListingsService.getListingById(id);
       
-      if (response.success && response.data) {
-        setListing(response.data);
-      } else {
+      if (!response.success || !response.data) {
         setError(response.message || 'Listing not found');
+        return;
       }
+
+      // Rent listings are booked for dates before anything is paid
+      if (response.data.type === 'rent' && !bookingId) {
+        navigate(`/book/${id}`, { replace: true });
+        return;
+      }
+
+      if (bookingId) {
+        const bookingResponse = await RentalsService.getBooking(bookingId);
+
+        if (!bookingResponse.success || !bookingResponse.data || bookingResponse.data.listing_id !== id) {
+          setError(bookingResponse.message || 'Booking not found');
+          return;
+        }
+        if (rentPaymentId && !bookingResponse.data.rent_payments?.some(payment => payment.id === rentPaymentId)) {
+          setError('Rent payment not found');
+          return;
+        }
+
+        setBooking(bookingResponse.data);
+      }
+
+      setListing(response.data);
     } catch (err) {
       setError('Failed to load listing');
       console.error('Error loading listing:', err);
@@ -98,30 +169,28 @@ const Payment: React.FC = () => {
     try {
       setProcessing(true);
 
-      // Create transaction
+      // Continue the buyer's open checkout for this listing, or start one
       const transactionData = {
         listing_id: listing.id,
         buyer_id: user.id,
         seller_id: listing.owner_id,
         amount: listing.price,
         currency: listing.currency,
-        payment_method: selectedPaymentMethod as 'telebirr' | 'chapa' | 'bibit',
+        payment_method: selectedPaymentMethod,
         status: 'pending' as const,
       };
 
-      const transactionResponse = await TransactionsService.createTransaction(transactionData);
+      const transactionResponse = booking
+        ? await RentalsService.getOrCreateCheckout(booking, user.id, selectedPaymentMethod, rentPaymentId)
+        : await TransactionsService.getOrCreateCheckout(transactionData);
 
       if (transactionResponse.success && transactionResponse.data) {
-        // Initialize payment with the selected gateway
+        setOpenCheckout(transactionResponse.data);
+
+        // Initialize payment with the selected gateway, switching from an earlier one if needed
         const paymentResult = await PaymentService.initializePayment(
-          selectedPaymentMethod as 'chapa' | 'telebirr' | 'bibit',
           transactionResponse.data.id,
-          listing.id,
-          listing.price,
-          listing.currency,
-          user.email,
-          user.phone,
-          user.full_name
+          selectedPaymentMethod
         );
 
         if (paymentResult.success && paymentResult.checkoutUrl) {
@@ -141,14 +210,6 @@ const Payment: React.FC = () => {
     }
   };
 
-  const calculateCommission = (amount: number) => {
-    return amount * 0.02; // 2% commission
-  };
-
-  const calculateTotal = (amount: number) => {
-    return amount + calculateCommission(amount);
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -175,8 +236,23 @@ const Payment: React.FC = () => {
     );
   }
 
-  const commission = calculateCommission(listing.price);
-  const total = calculateTotal(listing.price);
+  const rentPayment = rentPaymentId
+    ? booking?.rent_payments?.find(payment => payment.id === rentPaymentId)
+    : undefined;
+  const amount = rentPayment ? rentPayment.amount : booking ? booking.deposit_amount : listing.price;
+  const amountLabel = rentPayment
+    ? `Rent for ${formatDate(rentPayment.period_start)} to ${formatDate(rentPayment.period_end)}`
+    : booking ? 'Security Deposit' : 'Item Price';
+
+  const commission = TransactionsService.calculateCommission(amount, {
+    category: listing.category,
+    type: listing.type,
+    currency: listing.currency,
+    deposit: !!booking && !rentPayment,
+  });
+  // The buyer pays the amount itself; the service fee comes out of the seller's payout
+  const total = amount;
+  const feeLabel = commission.capped ? 'Service fee' : `Service fee (${commission.rate}%)`;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -192,7 +268,9 @@ const Payment: React.FC = () => {
             Back
           </Button>
           
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">Complete Your Purchase</h1>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            {rentPayment ? 'Pay Your Rent' : booking ? 'Confirm Your Booking' : 'Complete Your Purchase'}
+          </h1>
           <p className="text-gray-600">Secure payment through SebahLync's escrow system</p>
         </div>
 
@@ -226,14 +304,22 @@ const Payment: React.FC = () => {
                   </div>
 
                   <div className="border-t pt-4">
+                    {booking && (
+                      <div className="flex justify-between items-center mb-2 text-sm">
+                        <span className="text-gray-600">Stay</span>
+                        <span>{formatDate(booking.start_date)} to {formatDate(booking.end_date)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between items-center mb-2">
-                      <span className="text-gray-600">Item Price</span>
-                      <span className="font-medium">{formatPrice(listing.price, listing.currency)}</span>
-                    </div>
-                    <div className="flex justify-between items-center mb-2">
-                      <span className="text-gray-600">Service Fee (2%)</span>
-                      <span className="font-medium">{formatPrice(commission, listing.currency)}</span>
+                      <span className="text-gray-600">{amountLabel}</span>
+                      <span className="font-medium">{formatPrice(amount, listing.currency)}</span>
                     </div>
+                    {commission.amount > 0 && (
+                      <div className="flex justify-between items-center mb-2 text-sm">
+                        <span className="text-gray-600">{feeLabel}, paid by the seller</span>
+                        <span className="text-gray-600">{formatPrice(commission.amount, listing.currency)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between items-center text-lg font-bold border-t pt-2">
                       <span>Total</span>
                       <span className="text-[#0B132B]">{formatPrice(total, listing.currency)}</span>
@@ -249,6 +335,12 @@ const Payment: React.FC = () => {
                 <CardTitle className="text-lg">Select Payment Method</CardTitle>
               </CardHeader>
               <CardContent>
+                {openCheckout?.status === 'payment_initiated' && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-sm text-yellow-800">
+                    You started paying for this {booking ? 'booking' : 'listing'} with {getPaymentMethodName(openCheckout.payment_method)}.
+                    Pay again to continue, or choose another method. Unfinished checkouts are cancelled after an hour.
+                  </div>
+                )}
                 <div className="space-y-3">
                   {paymentMethods.map((method) => (
                     <div
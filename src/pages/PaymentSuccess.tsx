@@ -3,21 +3,23 @@ import { useSearchParams, useNavigate } from 'react-router-dom';
 import { CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { supabase } from '@/lib/supabase';
 import { PaymentService } from '@/services/payment';
-import { TransactionsService } from '@/services/transactions';
-import { NotificationsService } from '@/services/notifications';
-import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 
+// How long to wait for a buyer to confirm an M-Pesa push on their phone
+const PHONE_CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+const PHONE_POLL_INTERVAL_MS = 5000;
+
 const PaymentSuccess: React.FC = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
-  const { user } = useAuth();
   const [verifying, setVerifying] = useState(true);
   const [verified, setVerified] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set while the transaction can still be paid, so the buyer can try again
+  const [retryListingId, setRetryListingId] = useState<string | null>(null);
   const transactionId = searchParams.get('transaction') || undefined;
+  const awaitingPhone = searchParams.get('awaiting') === 'phone';
 
   const verifyPayment = useCallback(async () => {
     try {
@@ -28,101 +30,37 @@ const PaymentSuccess: React.FC = () => {
       await new Promise(resolve => setTimeout(resolve, 2000));
 
       // Get payment status
-      const statusResult = await PaymentService.getPaymentStatus(transactionId!);
-      
+      let statusResult = await PaymentService.getPaymentStatus(transactionId!);
+
+      // Keep checking while the buyer confirms on their phone
+      if (awaitingPhone) {
+        const deadline = Date.now() + PHONE_CONFIRMATION_TIMEOUT_MS;
+
+        while (statusResult.success && statusResult.status === 'payment_initiated' && Date.now() < deadline) {
+          await new Promise(resolve => setTimeout(resolve, PHONE_POLL_INTERVAL_MS));
+          statusResult = await PaymentService.getPaymentStatus(transactionId!);
+        }
+      }
+
       if (statusResult.success) {
+        // The server moves paid transactions into escrow and notifies both
+        // parties; this page only reports where the payment is
         if (statusResult.status === 'payment_completed' || statusResult.status === 'escrowed') {
           setVerified(true);
-          
-          // Update transaction status to escrowed if not already
-          if (statusResult.status === 'payment_completed') {
-            await TransactionsService.updateTransactionStatus(transactionId!, 'escrowed');
-            
-            // Create notifications
-            if (statusResult.data) {
-              const transaction = statusResult.data;
-              
-              // Notify buyer
-              await NotificationsService.createNotification({
-                user_id: user?.id || '',
-                type: 'transaction_completed',
-                title: 'Payment Successful',
-                message: 'Your payment has been processed and is held in escrow.',
-                data: {
-                  transaction_id: transactionId || undefined,
-                  listing_id: transaction.listing_id,
-                },
-                priority: 'high',
-                channels: {
-                  in_app: true,
-                  email: true,
-                  sms: true,
-                  push: true,
-                },
-                expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              });
-
-              // Notify seller
-              await NotificationsService.createNotification({
-                user_id: transaction.seller_id,
-                type: 'payment_received',
-                title: 'Payment Received',
-                message: 'Buyer has made payment for your listing.',
-                data: {
-                  transaction_id: transactionId || undefined,
-                  listing_id: transaction.listing_id,
-                  amount: transaction.amount,
-                  currency: transaction.currency,
-                },
-                priority: 'high',
-                channels: {
-                  in_app: true,
-                  email: true,
-                  sms: true,
-                  push: true,
-                },
-                expires_at: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString(),
-              });
-
-              // Notify admin
-              await NotificationsService.createAdminNotification(
-                'New Escrow Transaction',
-                `A new transaction is in escrow and requires admin attention.`,
-                'urgent',
-                `/admin?tab=manage-escrow&transaction=${transactionId}`
-              );
-            }
-          }
-          
           toast.success('Payment verified successfully!');
         } else {
-          // Get transaction to determine payment method
-          const { data: transactionData } = await supabase
-            .from('transactions')
-            .select('payment_method')
-            .eq('id', transactionId!)
-            .single();
-
-          let verifyResult;
-          
-          // Verify with appropriate payment gateway
-          if (transactionData?.payment_method === 'telebirr') {
-            verifyResult = await PaymentService.verifyTelebirrPayment(transactionId!);
-          } else if (transactionData?.payment_method === 'bibit') {
-            verifyResult = await PaymentService.verifyBibitPayment(transactionId!);
-          } else {
-            // Default to Chapa
-            verifyResult = await PaymentService.verifyChapaPayment(transactionId!);
-          }
+          // Ask the gateway directly in case the webhook has not arrived yet
+          const verifyResult = await PaymentService.verifyPayment(transactionId!);
           
           if (verifyResult.success && verifyResult.data?.verified) {
             setVerified(true);
             toast.success('Payment verified successfully!');
-            
-            // Update to escrowed status
-            await TransactionsService.updateTransactionStatus(transactionId!, 'escrowed');
           } else {
             setError('Payment verification failed. Please contact support.');
+
+            if (statusResult.data && ['pending', 'payment_initiated'].includes(statusResult.data.status)) {
+              setRetryListingId(statusResult.data.listing_id);
+            }
           }
         }
       } else {
@@ -134,7 +72,7 @@ const PaymentSuccess: React.FC = () => {
     } finally {
       setVerifying(false);
     }
-  }, [transactionId, user?.id]);
+  }, [transactionId, awaitingPhone]);
 
   useEffect(() => {
     if (transactionId) {
@@ -150,8 +88,14 @@ const PaymentSuccess: React.FC = () => {
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-center">
           <Loader2 className="h-12 w-12 text-blue-600 animate-spin mx-auto mb-4" />
-          <h2 className="text-2xl font-bold text-gray-900 mb-2">Verifying Payment</h2>
-          <p className="text-gray-600">Please wait while we verify your payment...</p>
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">
+            {awaitingPhone ? 'Confirm on Your Phone' : 'Verifying Payment'}
+          </h2>
+          <p className="text-gray-600">
+            {awaitingPhone
+              ? 'Enter your M-Pesa PIN in the prompt on your phone. This page updates once the payment goes through.'
+              : 'Please wait while we verify your payment...'}
+          </p>
         </div>
       </div>
     );
@@ -217,7 +161,16 @@ const PaymentSuccess: React.FC = () => {
             </p>
             
             <div className="space-y-3">
+              {retryListingId && (
+                <Button
+                  onClick={() => navigate(`/payment/${retryListingId}`)}
+                  className="w-full"
+                >
+                  Try Again or Pay Another Way
+                </Button>
+              )}
               <Button 
+                variant={retryListingId ? 'outline' : 'default'}
                 onClick={() => navigate(`/profile?tab=my-transactions`)}
                 className="w-full"
               >
@@ -1,7 +1,23 @@
 import UserProfile from '../components/UserProfile';
+import UserTransactions from '../components/UserTransactions';
+import RentLedger from '../components/RentLedger';
+import SavedSearches from '../components/SavedSearches';
 
 const Profile = () => {
-  return <UserProfile isOwnProfile={true} showEditButton={true} />;
+  return (
+    <>
+      <UserProfile isOwnProfile={true} showEditButton={true} />
+      <div className="max-w-4xl mx-auto mt-6">
+        <UserTransactions />
+      </div>
+      <div className="max-w-4xl mx-auto mt-6">
+        <RentLedger />
+      </div>
+      <div className="max-w-4xl mx-auto mt-6">
+        <SavedSearches />
+      </div>
+    </>
+  );
 };
 
-export default Profile;
\ No newline at end of file
+export default Profile;
@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, Calendar, MapPin, Shield } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import AvailabilityCalendar from '@/components/AvailabilityCalendar';
+import { ListingsService } from '@/services/listings';
+import { BookedRange, RentalsService } from '@/services/rentals';
+import { Listing } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatDate, formatPrice } from '@/lib/utils';
+import {
+  addRentPeriods,
+  getRentSchedule,
+  getSecurityDeposit,
+  MAX_RENT_PERIODS,
+  overlapsBooking,
+} from '@shared/rentals';
+import { toast } from 'sonner';
+
+const PERIOD_LABELS = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+const RentalBooking: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [listing, setListing] = useState<Listing | null>(null);
+  const [booked, setBooked] = useState<BookedRange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState<string | null>(null);
+  const [periodCount, setPeriodCount] = useState(1);
+
+  useEffect(() => {
+    if (id) {
+      loadListing();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  const loadListing = async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [listingResponse, availabilityResponse] = await Promise.all([
+        ListingsService.getListingById(id),
+        RentalsService.getAvailability(id),
+      ]);
+
+      if (!listingResponse.success || !listingResponse.data) {
+        setError(listingResponse.message || 'Listing not found');
+        return;
+      }
+
+      const loaded = listingResponse.data;
+      if (loaded.type !== 'rent' || loaded.status !== 'approved') {
+        setError('This listing is not available to rent.');
+        return;
+      }
+      if (loaded.owner_id === user?.id) {
+        setError('You cannot book your own listing.');
+        return;
+      }
+
+      setListing(loaded);
+      setBooked(availabilityResponse.data);
+    } catch (err) {
+      setError('Failed to load listing');
+      console.error('Error loading listing:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBook = async () => {
+    if (!listing || !user || !startDate) {
+      toast.error('Pick a start date');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+
+      const response = await RentalsService.createBooking(listing.id, user.id, startDate, periodCount);
+
+      if (response.success && response.data) {
+        navigate(`/payment/${listing.id}?booking=${response.data.id}`);
+      } else {
+        toast.error(response.message || 'Failed to book listing');
+        // Someone else may have taken the dates; show the calendar as it is now
+        const availability = await RentalsService.getAvailability(listing.id);
+        if (availability.success) setBooked(availability.data);
+        setSubmitting(false);
+      }
+    } catch (error) {
+      console.error('Booking error:', error);
+      toast.error(error instanceof Error ? error.message : 'Booking failed');
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#0B132B] mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading availability...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !listing) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Booking Unavailable</h2>
+          <p className="text-gray-600 mb-4">{error || 'Unable to load this listing.'}</p>
+          <Button onClick={() => navigate(-1)}>
+            Go Back
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const rentPeriod = listing.rent_period || 'monthly';
+  const maxPeriods = MAX_RENT_PERIODS[rentPeriod];
+  const endDate = startDate ? addRentPeriods(startDate, rentPeriod, periodCount) : null;
+  const schedule = startDate ? getRentSchedule(startDate, rentPeriod, periodCount, listing.price) : [];
+  const deposit = getSecurityDeposit(listing.price, listing.security_deposit);
+  const clashes = !!startDate && !!endDate && overlapsBooking(startDate, endDate, booked);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <Button
+            variant="outline"
+            onClick={() => navigate(-1)}
+            className="mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back
+          </Button>
+
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Book Your Stay</h1>
+          <p className="text-gray-600">Pick your dates, then pay the security deposit to confirm the booking</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Dates */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center">
+                  <Calendar className="h-5 w-5 mr-2" />
+                  Availability
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AvailabilityCalendar
+                  booked={booked}
+                  selectedStart={startDate || undefined}
+                  selectedEnd={endDate || undefined}
+                  onSelectDate={setStartDate}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Length of Stay</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-center space-x-3">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={maxPeriods}
+                    value={periodCount}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10) || 1;
+                      setPeriodCount(Math.min(Math.max(value, 1), maxPeriods));
+                    }}
+                    className="w-24"
+                  />
+                  <span className="text-gray-600">
+                    {PERIOD_LABELS[rentPeriod]}{periodCount === 1 ? '' : 's'} (up to {maxPeriods})
+                  </span>
+                </div>
+                {startDate && endDate && (
+                  <p className="text-sm text-gray-600 mt-3">
+                    {formatDate(startDate)} to {formatDate(endDate)}
+                  </p>
+                )}
+                {clashes && (
+                  <p className="text-sm text-red-600 mt-2">
+                    Your stay overlaps dates that are already booked. Pick another start date or a shorter stay.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Summary */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Booking Summary</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="flex items-start space-x-4">
+                    <img
+                      src={listing.images[0]?.url || '/placeholder-image.jpg'}
+                      alt={listing.title}
+                      className="w-20 h-20 object-cover rounded-lg"
+                    />
+                    <div className="flex-1">
+                      <h3 className="font-medium text-gray-900 mb-1">{listing.title}</h3>
+                      <div className="flex items-center text-sm text-gray-600">
+                        <MapPin className="h-4 w-4 mr-1" />
+                        <span>{listing.location.city}, {listing.location.subcity}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="border-t pt-4 space-y-2">
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">Rent</span>
+                      <span className="font-medium">
+                        {formatPrice(listing.price, listing.currency)} / {PERIOD_LABELS[rentPeriod]}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-gray-600">Security deposit (due now)</span>
+                      <span className="font-medium">{formatPrice(deposit, listing.currency)}</span>
+                    </div>
+                  </div>
+
+                  {schedule.length > 0 && (
+                    <div className="border-t pt-4">
+                      <div className="font-medium text-gray-900 mb-2">Rent Schedule</div>
+                      <div className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                        {schedule.map(installment => (
+                          <div key={installment.period_number} className="flex justify-between">
+                            <span className="text-gray-600">Due {formatDate(installment.due_date)}</span>
+                            <span>{formatPrice(installment.amount, listing.currency)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800 flex items-start">
+              <Shield className="h-5 w-5 mr-2 flex-shrink-0" />
+              <span>
+                The deposit is held in escrow for the whole stay and returned afterwards unless the owner raises a dispute.
+                Your dates are held for an hour while you pay it.
+              </span>
+            </div>
+
+            <Button
+              onClick={handleBook}
+              disabled={!startDate || clashes || submitting}
+              className="w-full"
+              size="lg"
+            >
+              {submitting ? 'Booking...' : 'Book and Pay Deposit'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RentalBooking;
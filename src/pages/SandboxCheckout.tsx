@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams, useNavigate } from 'react-router-dom';
+import { FlaskConical, AlertCircle, ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PaymentService, PAYMENT_SANDBOX_ENABLED, SandboxResult, SandboxScenario } from '@/services/payment';
+import { Transaction } from '@/types';
+import { formatCurrency } from '@/lib/supabase';
+import { toast } from 'sonner';
+
+const SCENARIOS: { id: SandboxScenario; label: string; description: string }[] = [
+  {
+    id: 'success',
+    label: 'Success',
+    description: 'Payment goes through and the webhook arrives straight away',
+  },
+  {
+    id: 'failure',
+    label: 'Failure',
+    description: 'Payment is declined and the transaction is cancelled',
+  },
+  {
+    id: 'delay',
+    label: 'Delayed webhook',
+    description: 'Payment goes through but the webhook arrives late, so the return page has to verify it',
+  },
+  {
+    id: 'duplicate',
+    label: 'Duplicate delivery',
+    description: 'The same webhook is delivered twice; the second is ignored',
+  },
+  {
+    id: 'amount_mismatch',
+    label: 'Amount mismatch',
+    description: 'The gateway reports a different amount; the webhook is rejected and nothing changes',
+  },
+];
+
+// Stands in for a gateway's checkout page when paying with the sandbox gateway
+const SandboxCheckout: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const transactionId = searchParams.get('transaction') || '';
+  const [transaction, setTransaction] = useState<Transaction | null>(null);
+  const [running, setRunning] = useState<SandboxScenario | null>(null);
+  const [result, setResult] = useState<SandboxResult | null>(null);
+
+  useEffect(() => {
+    if (!transactionId) return;
+
+    PaymentService.getPaymentStatus(transactionId).then((response) => {
+      if (response.success && response.data) {
+        setTransaction(response.data);
+      } else {
+        toast.error(response.message || 'Transaction not found');
+      }
+    });
+  }, [transactionId]);
+
+  const runScenario = async (scenario: SandboxScenario) => {
+    try {
+      setRunning(scenario);
+      const response = await PaymentService.runSandboxScenario(transactionId, scenario);
+
+      if (response.success && response.data) {
+        setResult(response.data);
+      } else {
+        toast.error(response.message || 'Sandbox payment failed');
+      }
+    } catch (error) {
+      console.error('Error running sandbox scenario:', error);
+      toast.error('Sandbox payment failed');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  if (!PAYMENT_SANDBOX_ENABLED || !transactionId) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Sandbox Unavailable</h2>
+          <p className="text-gray-600 mb-4">
+            {PAYMENT_SANDBOX_ENABLED ? 'No transaction was given.' : 'The payment sandbox is not enabled.'}
+          </p>
+          <Button onClick={() => navigate('/')}>Go Home</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center">
+            <FlaskConical className="h-8 w-8 mr-3 text-purple-600" />
+            Sandbox Checkout
+          </h1>
+          <p className="text-gray-600">Test payment. No money moves.</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Transaction</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-gray-700 space-y-1">
+            <p className="font-mono">{transactionId}</p>
+            {transaction && (
+              <p>
+                {formatCurrency(transaction.amount, transaction.currency)} · status{' '}
+                <span className="font-medium">{transaction.status}</span>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {!result ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Choose a Scenario</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {SCENARIOS.map((scenario) => (
+                <div
+                  key={scenario.id}
+                  className="flex items-center justify-between border border-gray-200 rounded-lg p-4"
+                >
+                  <div className="pr-4">
+                    <div className="font-medium">{scenario.label}</div>
+                    <div className="text-sm text-gray-600">{scenario.description}</div>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => runScenario(scenario.id)}
+                    disabled={running !== null}
+                  >
+                    {running === scenario.id ? 'Running...' : 'Run'}
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Webhook Deliveries</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {result.delayed_ms !== undefined && (
+                <p className="text-sm text-gray-600">
+                  The webhook will be sent in {Math.round(result.delayed_ms / 1000)} seconds.
+                </p>
+              )}
+              {result.deliveries.map((delivery, index) => (
+                <div key={index} className="border border-gray-200 rounded-lg p-3 text-sm">
+                  <p className="font-medium">
+                    Delivery {index + 1}: HTTP {delivery.status}
+                  </p>
+                  <pre className="mt-2 text-xs text-gray-600 whitespace-pre-wrap break-all">
+                    {JSON.stringify(delivery.body, null, 2)}
+                  </pre>
+                </div>
+              ))}
+              <Button
+                className="w-full"
+                onClick={() => navigate(`/payment/success?transaction=${transactionId}`)}
+              >
+                Return to SebahLync
+                <ArrowRight className="h-4 w-4 ml-2" />
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SandboxCheckout;
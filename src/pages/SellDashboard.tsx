@@ -1,8 +1,8 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, List, BarChart3, Settings, Eye, Edit, Trash2, Clock, CheckCircle, XCircle } from 'lucide-react';
+import { Plus, List, BarChart3, Settings, Eye, Edit, Trash2, Clock, CheckCircle, XCircle, RefreshCw } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
@@ -10,10 +10,15 @@ import { toast } from 'sonner';
 import ListingWizard from '../components/ListingWizard';
 import { ListingsService } from '../services/listings';
 import { Listing } from '../types';
+import { LISTING_EXPIRY_WARNING_DAYS, isListingExpired } from '@shared/listingExpiry';
+import { formatDate } from '../lib/utils';
 
 const SellDashboard: React.FC = () => {
   const { user, isAuthenticated } = useAuth();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const highlightedId = searchParams.get('listing');
+  const [renewingId, setRenewingId] = useState<string | null>(null);
   const [showWizard, setShowWizard] = useState(false);
   const [listings, setListings] = useState<Listing[]>([]);
   const [loading, setLoading] = useState(true);
@@ -127,6 +132,39 @@ const SellDashboard: React.FC = () => {
     }
   };
 
+  const handleRenewListing = async (listingId: string) => {
+    if (!user) return;
+
+    try {
+      setRenewingId(listingId);
+      const response = await ListingsService.renewListing(listingId, user.id);
+      if (response.success && response.data) {
+        toast.success(`Listing renewed until ${formatDate(response.data.expires_at)}`);
+        const updatedListings = listings.map(listing =>
+          listing.id === listingId ? { ...listing, ...response.data } : listing
+        );
+        setListings(updatedListings);
+        calculateStats(updatedListings);
+      } else {
+        toast.error(response.message || 'Failed to renew listing');
+      }
+    } catch (error) {
+      console.error('Error renewing listing:', error);
+      toast.error('Failed to renew listing. Please try again.');
+    } finally {
+      setRenewingId(null);
+    }
+  };
+
+  // Expired listings, and approved ones inside the warning window, can be renewed
+  const canRenew = (listing: Listing) => {
+    if (!listing.expires_at) return false;
+    if (listing.status === 'inactive') return isListingExpired(listing.expires_at);
+    if (listing.status !== 'approved') return false;
+    const daysLeft = (new Date(listing.expires_at).getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+    return daysLeft <= LISTING_EXPIRY_WARNING_DAYS;
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'approved':
@@ -135,6 +173,8 @@ const SellDashboard: React.FC = () => {
         return <Badge className="bg-yellow-100 text-yellow-800"><Clock className="w-3 h-3 mr-1" />Pending</Badge>;
       case 'rejected':
         return <Badge className="bg-red-100 text-red-800"><XCircle className="w-3 h-3 mr-1" />Rejected</Badge>;
+      case 'inactive':
+        return <Badge className="bg-gray-100 text-gray-800"><Clock className="w-3 h-3 mr-1" />Inactive</Badge>;
       default:
         return <Badge className="bg-gray-100 text-gray-800">{status}</Badge>;
     }
@@ -278,7 +318,9 @@ const SellDashboard: React.FC = () => {
                     key={listing.id}
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
-                    className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow"
+                    className={`border rounded-lg p-6 hover:shadow-md transition-shadow ${
+                      listing.id === highlightedId ? 'border-blue-400' : 'border-gray-200'
+                    }`}
                   >
                     <div className="flex items-start justify-between">
                       <div className="flex-1">
@@ -299,6 +341,11 @@ const SellDashboard: React.FC = () => {
                             {listing.views || 0} views
                           </span>
                           <span>Created {new Date(listing.created_at).toLocaleDateString()}</span>
+                          {listing.expires_at && ['approved', 'inactive'].includes(listing.status) && (
+                            <span className={canRenew(listing) ? 'text-orange-600' : undefined}>
+                              {isListingExpired(listing.expires_at) ? 'Expired' : 'Expires'} {formatDate(listing.expires_at)}
+                            </span>
+                          )}
                         </div>
                       </div>
                       
@@ -321,6 +368,18 @@ const SellDashboard: React.FC = () => {
                           </Button>
                         )}
                         
+                        {canRenew(listing) && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleRenewListing(listing.id)}
+                            disabled={renewingId === listing.id}
+                            className="bg-blue-600 hover:bg-blue-700"
+                          >
+                            <RefreshCw className={`w-4 h-4 mr-1 ${renewingId === listing.id ? 'animate-spin' : ''}`} />
+                            Renew listing
+                          </Button>
+                        )}
+
                         <Button
                           variant="outline"
                           size="sm"
@@ -0,0 +1,11 @@
+import SellerVerification from '../components/SellerVerification';
+
+const Verification = () => {
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4 sm:px-6 lg:px-8">
+      <SellerVerification />
+    </div>
+  );
+};
+
+export default Verification;
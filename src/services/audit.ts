@@ -0,0 +1,73 @@
+import { supabase } from '../lib/supabase';
+import { BaseService } from './base';
+import { AdminAuditEntry, AuditTargetType } from '../types';
+
+export interface AuditLogFilters {
+  search?: string;
+  action?: string;
+  target_type?: AuditTargetType;
+  actor_id?: string;
+}
+
+// Admin and system changes are written to the audit log by database triggers
+// (see database/SETUP_ADMIN_AUDIT_LOG.sql); the app only reads it
+export class AuditService extends BaseService {
+  // Get audit entries, newest first
+  static async getAuditLog(
+    filters: AuditLogFilters = {},
+    pagination: { page: number; limit: number } = { page: 1, limit: 25 }
+  ): Promise<{ success: boolean; data: AdminAuditEntry[]; total: number; message?: string }> {
+    try {
+      const { page, limit } = pagination;
+      const offset = (page - 1) * limit;
+
+      let query = supabase
+        .from('admin_audit_log')
+        .select(`
+          *,
+          actor:users!admin_audit_log_actor_id_fkey(
+            id,
+            full_name,
+            email
+          )
+        `, { count: 'exact' })
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (filters.action) {
+        query = query.like('action', `${filters.action}%`);
+      }
+
+      if (filters.target_type) {
+        query = query.eq('target_type', filters.target_type);
+      }
+
+      if (filters.actor_id) {
+        query = query.eq('actor_id', filters.actor_id);
+      }
+
+      if (filters.search) {
+        const search = filters.search.replace(/[,()]/g, ' ').trim();
+        query = query.or(`action.ilike.%${search}%,target_id.ilike.%${search}%`);
+      }
+
+      const { data, error, count } = await query;
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data || [],
+        total: count || 0,
+      };
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      return {
+        success: false,
+        data: [],
+        total: 0,
+        message: error instanceof Error ? error.message : 'Failed to fetch audit log',
+      };
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { supabase } from '../lib/supabase';
+import { NotificationsService } from './notifications';
+import { hashContract } from '@shared/contracts';
+import { ContractSignature, Transaction } from '../types';
+
+// Contracts are filled from the templates in _shared/contracts by the
+// contract-prepare edge function and stored on the transaction. The database
+// hashes the text and records signatures, so the text cannot change once
+// someone has signed (see database/SETUP_CONTRACT_SIGNATURES.sql).
+
+export type TransactionContract = Transaction['contract'];
+
+export interface SignContractData {
+  method: ContractSignature['method'];
+  name: string;
+  image?: string; // PNG data URL, for drawn signatures
+}
+
+export class ContractsService {
+  // Have the server fill the transaction's contract template from the listing,
+  // the parties and the transaction, and store the text with its hash
+  static async prepareContract(
+    transactionId: string
+  ): Promise<{ success: boolean; data: TransactionContract | null; message?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('contract-prepare', {
+        body: { transactionId },
+      });
+
+      if (error) {
+        // Error responses carry the reason in their body
+        const response = (error as { context?: Response }).context;
+        const details = response && typeof response.json === 'function'
+          ? await response.json().catch(() => null)
+          : null;
+
+        return {
+          success: false,
+          data: null,
+          message: details?.message || 'Failed to prepare contract',
+        };
+      }
+
+      return {
+        success: true,
+        data: data.data,
+      };
+    } catch (error) {
+      console.error('Error preparing contract:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to prepare contract',
+      };
+    }
+  }
+
+  // Sign the contract as the signed-in buyer or seller, then tell the other party
+  static async signContract(
+    transaction: Transaction,
+    userId: string,
+    signature: SignContractData
+  ): Promise<{ success: boolean; data: TransactionContract | null; message?: string }> {
+    try {
+      const documentHash = transaction.contract?.document_hash;
+
+      if (!documentHash || !(await this.verifyContract(transaction.contract))) {
+        return {
+          success: false,
+          data: null,
+          message: 'The contract text does not match its hash. Prepare the contract again before signing.',
+        };
+      }
+
+      const { data, error } = await supabase.rpc('sign_transaction_contract', {
+        p_transaction_id: transaction.id,
+        p_document_hash: documentHash,
+        p_method: signature.method,
+        p_name: signature.name,
+        p_image: signature.image || null,
+      });
+
+      if (error) throw error;
+
+      const contract = data as TransactionContract;
+      const fullySigned = !!contract.signed_at?.buyer && !!contract.signed_at?.seller;
+      const otherPartyId = userId === transaction.buyer_id ? transaction.seller_id : transaction.buyer_id;
+
+      await NotificationsService.createContractSignedNotification(
+        otherPartyId,
+        transaction.id,
+        transaction.listing?.title || 'your transaction',
+        signature.name.trim(),
+        fullySigned
+      );
+
+      return {
+        success: true,
+        data: contract,
+      };
+    } catch (error) {
+      console.error('Error signing contract:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to sign contract',
+      };
+    }
+  }
+
+  // Whether the stored text still hashes to the stored document hash
+  static async verifyContract(contract?: TransactionContract | null): Promise<boolean> {
+    if (!contract?.terms || !contract.document_hash) return false;
+    return (await hashContract(contract.terms)) === contract.document_hash;
+  }
+}
@@ -0,0 +1,334 @@
+import { supabase, formatCurrency } from '../lib/supabase';
+import { UploadService } from './upload';
+import { TransactionsService } from './transactions';
+import { PaymentService } from './payment';
+import { NotificationsService } from './notifications';
+import { hasRequiredSignatures } from '@shared/contracts';
+import { DisputeEvidence, Transaction, TransactionDispute } from '../types';
+
+const DOCUMENTS_BUCKET = 'documents';
+
+export type DisputeResolution = NonNullable<TransactionDispute['resolution']>;
+
+export interface FileDisputeData {
+  reason: string;
+  description?: string;
+  evidence?: File[];
+}
+
+export interface ResolveDisputeData {
+  resolution: DisputeResolution;
+  notes: string;
+  buyer_amount?: number; // Only used for split settlements
+}
+
+export class DisputesService {
+  // Open a dispute on an escrowed transaction, with optional evidence
+  static async fileDispute(
+    transactionId: string,
+    userId: string,
+    dispute: FileDisputeData
+  ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
+    try {
+      if (!dispute.reason.trim()) {
+        return {
+          success: false,
+          data: null,
+          message: 'A reason is required to open a dispute',
+        };
+      }
+
+      const evidence = await this.uploadEvidence(transactionId, userId, dispute.evidence);
+
+      const result = await TransactionsService.disputeTransaction(transactionId, dispute.reason.trim(), userId, {
+        description: dispute.description?.trim() || undefined,
+        evidence,
+      });
+
+      if (!result.success || !result.data) return result;
+
+      const transaction = result.data;
+      const counterpartyId = transaction.buyer_id === userId ? transaction.seller_id : transaction.buyer_id;
+      const title = transaction.listing?.title || 'your transaction';
+
+      await NotificationsService.createDisputeNotification(
+        counterpartyId,
+        transactionId,
+        'Dispute Opened',
+        `A dispute was opened on ${title}: ${dispute.reason.trim()}. Respond with your side and any evidence.`
+      );
+      await NotificationsService.createAdminNotification(
+        'Dispute Opened',
+        `A dispute was opened on ${title} and needs review`,
+        'urgent',
+        `/admin?tab=disputes&transaction=${transactionId}`
+      );
+
+      return result;
+    } catch (error) {
+      console.error('Error filing dispute:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to file dispute',
+      };
+    }
+  }
+
+  // Record the other party's side of an open dispute
+  static async respondToDispute(
+    transactionId: string,
+    userId: string,
+    message: string,
+    files: File[] = []
+  ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
+    try {
+      const { data: transaction, error: fetchError } = await supabase
+        .from('transactions')
+        .select('id, status, buyer_id, seller_id, dispute, timeline')
+        .eq('id', transactionId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const dispute: TransactionDispute = transaction.dispute || { is_disputed: false };
+
+      if (transaction.status !== 'disputed') {
+        return { success: false, data: null, message: 'This transaction has no open dispute' };
+      }
+
+      if (![transaction.buyer_id, transaction.seller_id].includes(userId) || dispute.filed_by === userId) {
+        return { success: false, data: null, message: 'Only the other party can respond to this dispute' };
+      }
+
+      if (dispute.response) {
+        return { success: false, data: null, message: 'A response has already been submitted' };
+      }
+
+      if (!message.trim()) {
+        return { success: false, data: null, message: 'A response message is required' };
+      }
+
+      const evidence = await this.uploadEvidence(transactionId, userId, files);
+      const now = new Date().toISOString();
+
+      const { data, error } = await supabase
+        .from('transactions')
+        .update({
+          dispute: {
+            ...dispute,
+            response: {
+              message: message.trim(),
+              evidence,
+              responded_by: userId,
+              responded_at: now,
+            },
+          },
+          timeline: [
+            ...(transaction.timeline || []),
+            { status: 'disputed', timestamp: now, notes: 'Response submitted', updated_by: userId },
+          ],
+          updated_at: now,
+        })
+        .eq('id', transactionId)
+        .eq('status', 'disputed')
+        .select('*, listing:listings!transactions_listing_id_fkey(id, title)')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!data) {
+        return { success: false, data: null, message: 'The dispute was resolved while you were responding' };
+      }
+
+      if (dispute.filed_by) {
+        await NotificationsService.createDisputeNotification(
+          dispute.filed_by,
+          transactionId,
+          'Dispute Response Received',
+          `The other party responded to your dispute on ${data.listing?.title || 'your transaction'}`
+        );
+      }
+      await NotificationsService.createAdminNotification(
+        'Dispute Response Received',
+        `Both sides of the dispute on ${data.listing?.title || 'a transaction'} are in`,
+        'high',
+        `/admin?tab=disputes&transaction=${transactionId}`
+      );
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error responding to dispute:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to respond to dispute',
+      };
+    }
+  }
+
+  // Settle a dispute by releasing to the seller, refunding the buyer or splitting the escrow (admin only)
+  static async resolveDispute(
+    transactionId: string,
+    adminId: string,
+    resolution: ResolveDisputeData
+  ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
+    try {
+      const notes = resolution.notes.trim();
+
+      if (!notes) {
+        return { success: false, data: null, message: 'Resolution notes are required' };
+      }
+
+      const { data: transaction, error: fetchError } = await supabase
+        .from('transactions')
+        .select('id, status, amount, currency, commission, refund, buyer_id, seller_id, dispute, escrow, contract')
+        .eq('id', transactionId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      if (transaction.status !== 'disputed') {
+        return { success: false, data: null, message: 'This transaction has no open dispute' };
+      }
+
+      // Check before a split refunds anything, since its release would then fail
+      if (resolution.resolution !== 'refund' && !hasRequiredSignatures(transaction.contract)) {
+        return {
+          success: false,
+          data: null,
+          message: 'Both parties must sign the contract before escrow is released. Refund the buyer instead.',
+        };
+      }
+
+      // The commission is kept either way, so only the rest is settled between the parties
+      const refundable = TransactionsService.getRefundableAmount(transaction);
+      const buyerAmount =
+        resolution.resolution === 'refund'
+          ? refundable
+          : resolution.resolution === 'split'
+            ? Math.round((resolution.buyer_amount || 0) * 100) / 100
+            : 0;
+
+      if (resolution.resolution === 'split' && (buyerAmount <= 0 || buyerAmount >= refundable)) {
+        return {
+          success: false,
+          data: null,
+          message: `The buyer share of a split must be between 0 and ${refundable} ${transaction.currency}`,
+        };
+      }
+
+      const now = new Date().toISOString();
+      const dispute: TransactionDispute = {
+        ...transaction.dispute,
+        is_disputed: false,
+        resolution: resolution.resolution,
+        resolution_notes: notes,
+        settlement: {
+          buyer_amount: buyerAmount,
+          seller_amount: Math.round((refundable - buyerAmount) * 100) / 100,
+        },
+        resolved_by: adminId,
+        resolved_at: now,
+      };
+      const updates: Record<string, unknown> = { dispute, updated_at: now };
+
+      let result: { success: boolean; data: Transaction | null; message?: string };
+
+      if (resolution.resolution === 'refund') {
+        result = await PaymentService.refundTransaction(transactionId, `Dispute resolved: ${notes}`);
+      } else {
+        // For a split the buyer's share goes back through the gateway first, the rest is released
+        if (resolution.resolution === 'split') {
+          const refundResult = await PaymentService.refundTransaction(
+            transactionId,
+            `Dispute split: ${notes}`,
+            buyerAmount
+          );
+
+          if (!refundResult.success) return refundResult;
+        }
+
+        result = await TransactionsService.releaseEscrow(
+          transactionId,
+          resolution.resolution === 'split'
+            ? { reason: 'dispute_split', notes: `Dispute split: ${notes}` }
+            : { reason: 'dispute_resolved', notes: `Dispute resolved: ${notes}` }
+        );
+      }
+
+      if (result.success) {
+        const { error } = await supabase
+          .from('transactions')
+          .update(updates)
+          .eq('id', transactionId);
+
+        if (error) throw error;
+        if (result.data) result.data.dispute = dispute;
+      }
+
+      if (!result.success) return result;
+
+      const outcome = this.describeResolution(resolution.resolution, dispute, transaction.currency);
+      await NotificationsService.createDisputeResolvedNotification(transaction.buyer_id, transactionId, outcome);
+      await NotificationsService.createDisputeResolvedNotification(transaction.seller_id, transactionId, outcome);
+
+      return result;
+    } catch (error) {
+      console.error('Error resolving dispute:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to resolve dispute',
+      };
+    }
+  }
+
+  // Get a short-lived link to a piece of dispute evidence in the private bucket
+  static async getEvidenceUrl(publicId: string, expiresIn: number = 300): Promise<string> {
+    return await UploadService.getSignedUrl(DOCUMENTS_BUCKET, publicId, expiresIn);
+  }
+
+  // Store evidence under disputes/<transaction_id>/<user_id>/ so storage policies can check the parties
+  private static async uploadEvidence(
+    transactionId: string,
+    userId: string,
+    files: File[] = []
+  ): Promise<DisputeEvidence[]> {
+    if (files.length === 0) return [];
+
+    const uploaded = await UploadService.uploadDocuments(files, userId, undefined, `disputes/${transactionId}`);
+    const now = new Date().toISOString();
+
+    return uploaded.map(doc => ({
+      name: doc.name,
+      public_id: doc.public_id,
+      uploaded_by: userId,
+      uploaded_at: now,
+    }));
+  }
+
+  private static describeResolution(
+    resolution: DisputeResolution,
+    dispute: TransactionDispute,
+    currency: string
+  ): string {
+    switch (resolution) {
+      case 'release':
+        return 'The dispute was resolved in favour of the seller and the escrow was released.';
+      case 'refund':
+        return `The dispute was resolved in favour of the buyer and ${formatCurrency(
+          dispute.settlement?.buyer_amount || 0,
+          currency
+        )} was refunded.`;
+      default:
+        return `The dispute was settled with a split: ${formatCurrency(
+          dispute.settlement?.buyer_amount || 0,
+          currency
+        )} refunded to the buyer and ${formatCurrency(dispute.settlement?.seller_amount || 0, currency)} released to the seller.`;
+    }
+  }
+}
@@ -1,6 +1,41 @@
 import { supabase } from '../lib/supabase';
 import { BaseService, ServiceResponse } from './base';
-import { Listing, SearchFilters, CreateListingData, UpdateListingData } from '../types';
+import { NotificationsService } from './notifications';
+import { getListingExpiresAt, isListingExpired } from '@shared/listingExpiry';
+import { FEATURE_FILTER_COLUMNS, isFeatureFilterKey } from '../lib/listingFeatures';
+import { Coordinates, FeatureFilters, Listing, ListingFacets, MapBounds, SearchFilters, CreateListingData, UpdateListingData } from '../types';
+
+// Listings updated per request by bulk moderation
+const BULK_BATCH_SIZE = 20;
+
+// Where the price ranges in the filter sidebars start, in the listing's currency
+export const PRICE_BREAKS: Record<'sale' | 'rent', number[]> = {
+  sale: [0, 500000, 1000000, 2500000, 5000000, 10000000],
+  rent: [0, 5000, 10000, 20000, 50000, 100000],
+};
+
+// Most pins the map shows at once
+const MAP_LISTING_LIMIT = 500;
+
+// What a map marker and its popup need
+const MAP_LISTING_COLUMNS = 'id, title, price, currency, type, category, rent_period, location, images, latitude, longitude, created_at';
+
+export type BulkListingAction = 'approve' | 'reject' | 'activate' | 'deactivate';
+
+export interface BulkListingResult {
+  listing_id: string;
+  status: 'updated' | 'skipped' | 'failed';
+  message?: string;
+}
+
+// A row returned by the search_listings function
+interface ListingSearchMatch {
+  id: string;
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+  total_count: number;
+}
 
 export class ListingsService extends BaseService {
   // Get all listings with filters and pagination
@@ -8,6 +43,12 @@ export class ListingsService extends BaseService {
     filters: SearchFilters = {},
     pagination: { page: number; limit: number } = { page: 1, limit: 12 }
   ): Promise<{ success: boolean; data: Listing[]; total: number; message?: string }> {
+    // Text search goes through the full-text index, ranked by relevance
+    if (filters.search?.trim()) {
+      const { search, ...rest } = filters;
+      return this.searchListings(search, rest, pagination);
+    }
+
     try {
       const { page, limit } = pagination;
       const offset = (page - 1) * limit;
@@ -62,12 +103,14 @@ export class ListingsService extends BaseService {
         }
       }
 
-      // Get listings with owner information
+      // Get listings with owner information. Filtering on the seller needs an
+      // inner join, which would otherwise hide listings whose owner cannot be read.
+      const ownerJoin = filters.verified !== undefined ? '!inner' : '';
       let query = supabase
         .from('listings')
         .select(`
           *,
-          owner:users!listings_owner_id_fkey(
+          owner:users!listings_owner_id_fkey${ownerJoin}(
             id,
             full_name,
             email,
@@ -76,9 +119,10 @@ export class ListingsService extends BaseService {
             avatar_url,
             rating
           )
-        `)
+        `, { count: 'exact' })
         .eq('status', 'approved')
         .eq('verified', true)
+        .or(this.notExpiredFilter())
         .order(orderBy.column, { ascending: orderBy.ascending })
         .range(offset, offset + limit - 1);
 
@@ -87,6 +131,10 @@ export class ListingsService extends BaseService {
         query = query.eq('category', filters.category);
       }
 
+      if (filters.subcategory) {
+        query = query.eq('subcategory', filters.subcategory);
+      }
+
       if (filters.type) {
         query = query.eq('type', filters.type);
       }
@@ -103,10 +151,23 @@ export class ListingsService extends BaseService {
         query = query.eq('location->>city', filters.city);
       }
 
-      if (filters.search) {
-        query = query.or(`title.ilike.%${filters.search}%,description.ilike.%${filters.search}%,location->>city.ilike.%${filters.search}%`);
+      if (filters.subcity) {
+        query = query.eq('location->>subcity', filters.subcity);
+      }
+
+      if (filters.verified !== undefined) {
+        query = query.eq('owner.verified', filters.verified);
       }
 
+      // Category details. Numbers and flags are compared as JSON so that 9
+      // sorts below 10; text such as the fuel type is compared as text.
+      Object.entries(filters.features || {}).forEach(([key, value]) => {
+        if (value === undefined || !isFeatureFilterKey(key)) return;
+        const { feature, operator } = FEATURE_FILTER_COLUMNS[key];
+        const column = typeof value === 'string' ? `features->>${feature}` : `features->${feature}`;
+        query = query.filter(column, operator, value);
+      });
+
       const { data, error, count } = await query;
 
       if (error) throw error;
@@ -284,7 +345,7 @@ export class ListingsService extends BaseService {
       // Check if listing exists and user has permission to delete it
       const { data: listing, error: fetchError } = await supabase
         .from('listings')
-        .select('id, owner_id, title')
+        .select('*')
         .eq('id', id)
         .single();
 
@@ -312,12 +373,62 @@ export class ListingsService extends BaseService {
       }
       
       console.log('Listing deleted successfully from database');
+
       return this.success(null, 'Listing deleted successfully');
     } catch (error) {
       return this.handleError(error, 'deleteListing');
     }
   }
 
+  // Renew a listing for another full lifetime. Listings that already expired
+  // and were deactivated by the expiry job go back on the market.
+  static async renewListing(listingId: string, ownerId: string): Promise<{ success: boolean; data: Listing | null; message?: string }> {
+    try {
+      const { data: listing, error: fetchError } = await supabase
+        .from('listings')
+        .select('*')
+        .eq('id', listingId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      if (listing.owner_id !== ownerId) {
+        return { success: false, data: null, message: 'Only the owner can renew this listing' };
+      }
+
+      const wasExpired = listing.status === 'inactive' && isListingExpired(listing.expires_at);
+
+      if (listing.status !== 'approved' && !wasExpired) {
+        return { success: false, data: null, message: 'Only approved or expired listings can be renewed' };
+      }
+
+      const { data, error } = await supabase
+        .from('listings')
+        .update({
+          expires_at: getListingExpiresAt(listing.category),
+          expiry_warning_sent_at: null,
+          ...(wasExpired ? { status: 'approved', is_active: true } : {}),
+        })
+        .eq('id', listingId)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error renewing listing:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to renew listing',
+      };
+    }
+  }
+
   // Increment view count
   static async incrementViews(id: string): Promise<{ success: boolean; message?: string }> {
     try {
@@ -358,6 +469,7 @@ export class ListingsService extends BaseService {
         `)
         .eq('status', 'approved')
         .eq('verified', true)
+        .or(this.notExpiredFilter())
         .order('views', { ascending: false })
         .limit(limit);
 
@@ -400,6 +512,7 @@ export class ListingsService extends BaseService {
         .eq('category', category)
         .eq('status', 'approved')
         .eq('verified', true)
+        .or(this.notExpiredFilter())
         .order('created_at', { ascending: false })
         .limit(limit);
 
@@ -419,15 +532,72 @@ export class ListingsService extends BaseService {
     }
   }
 
-  // Search listings
+  // Full-text search over title, description, tags, subcategory and location.
+  // Results come back best match first unless another sort is chosen, with
+  // the matching words in the title and description marked (see parseHighlight).
   static async searchListings(
     searchTerm: string,
     filters: Omit<SearchFilters, 'search'> = {},
     pagination: { page: number; limit: number } = { page: 1, limit: 12 }
   ): Promise<{ success: boolean; data: Listing[]; total: number; message?: string }> {
     try {
-      const searchFilters = { ...filters, search: searchTerm };
-      return await this.getListings(searchFilters, pagination);
+      const { page, limit } = pagination;
+
+      const { data: matches, error: searchError } = await supabase.rpc('search_listings', {
+        p_query: searchTerm,
+        p_filters: this.toFilterParams(filters),
+        p_sort: filters.sortBy || 'relevance',
+        p_limit: limit,
+        p_offset: (page - 1) * limit,
+      });
+
+      if (searchError) throw searchError;
+
+      const results = (matches || []) as ListingSearchMatch[];
+      if (results.length === 0) {
+        return {
+          success: true,
+          data: [],
+          total: 0,
+        };
+      }
+
+      const { data, error } = await supabase
+        .from('listings')
+        .select(`
+          *,
+          owner:users!listings_owner_id_fkey(
+            id,
+            full_name,
+            email,
+            phone,
+            verified,
+            avatar_url,
+            rating
+          )
+        `)
+        .in('id', results.map((match) => match.id));
+
+      if (error) throw error;
+
+      // Keep the order the search returned them in
+      const listingsById = new Map((data || []).map((listing: Listing) => [listing.id, listing]));
+      const listings = results
+        .filter((match) => listingsById.has(match.id))
+        .map((match) => ({
+          ...listingsById.get(match.id)!,
+          search_highlight: {
+            rank: match.rank,
+            title: match.title_highlight,
+            snippet: match.snippet,
+          },
+        }));
+
+      return {
+        success: true,
+        data: listings,
+        total: Number(results[0].total_count),
+      };
     } catch (error) {
       console.error('Error searching listings:', error);
       return {
@@ -439,6 +609,102 @@ export class ListingsService extends BaseService {
     }
   }
 
+  // Count results per category, subcategory, city, subcity, price range and
+  // seller verification for the current search, see database/SETUP_LISTING_FACETS.sql
+  static async getListingFacets(
+    filters: SearchFilters = {}
+  ): Promise<{ success: boolean; data: ListingFacets | null; message?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('listing_facets', {
+        p_query: filters.search?.trim() || null,
+        p_filters: this.toFilterParams(filters),
+        p_price_breaks: PRICE_BREAKS[filters.type || 'sale'],
+      });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error fetching listing facets:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to fetch listing facets',
+      };
+    }
+  }
+
+  // Pinned listings inside a map area, for the map view on Buy and Rent
+  static async getListingsInBounds(
+    bounds: MapBounds,
+    filters: SearchFilters = {}
+  ): Promise<{ success: boolean; data: Listing[]; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .rpc('listings_in_bounds', {
+          p_south: bounds.south,
+          p_west: bounds.west,
+          p_north: bounds.north,
+          p_east: bounds.east,
+          p_filters: this.toFilterParams(filters),
+          p_query: filters.search?.trim() || null,
+          p_limit: MAP_LISTING_LIMIT,
+        })
+        .select(MAP_LISTING_COLUMNS);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []) as unknown as Listing[],
+      };
+    } catch (error) {
+      console.error('Error fetching listings in map area:', error);
+      return {
+        success: false,
+        data: [],
+        message: error instanceof Error ? error.message : 'Failed to fetch listings in this area',
+      };
+    }
+  }
+
+  // Pinned listings within radiusKm of a point, nearest first
+  static async getListingsNearby(
+    center: Coordinates,
+    radiusKm: number,
+    filters: SearchFilters = {}
+  ): Promise<{ success: boolean; data: Listing[]; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .rpc('listings_near', {
+          p_lat: center.lat,
+          p_lng: center.lng,
+          p_radius_km: radiusKm,
+          p_filters: this.toFilterParams(filters),
+          p_query: filters.search?.trim() || null,
+          p_limit: MAP_LISTING_LIMIT,
+        })
+        .select(MAP_LISTING_COLUMNS);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: (data || []) as unknown as Listing[],
+      };
+    } catch (error) {
+      console.error('Error fetching nearby listings:', error);
+      return {
+        success: false,
+        data: [],
+        message: error instanceof Error ? error.message : 'Failed to fetch nearby listings',
+      };
+    }
+  }
+
   // Get similar listings
   static async getSimilarListings(
     listingId: string,
@@ -477,6 +743,7 @@ export class ListingsService extends BaseService {
         .neq('id', listingId)
         .eq('status', 'approved')
         .eq('verified', true)
+        .or(this.notExpiredFilter())
         .gte('price', price - priceRange)
         .lte('price', price + priceRange)
         .order('created_at', { ascending: false })
@@ -541,6 +808,188 @@ export class ListingsService extends BaseService {
     }
   }
 
+  // Approve, reject, activate or deactivate many listings at once. Each batch
+  // is one update, and the result reports what happened to every listing so a
+  // failed batch does not hide the ones that went through.
+  static async bulkUpdateStatus(
+    listingIds: string[],
+    action: BulkListingAction,
+    options: { reason?: string } = {}
+  ): Promise<{ success: boolean; data: BulkListingResult[]; message?: string }> {
+    try {
+      const reason = options.reason?.trim();
+
+      if (action === 'reject' && !reason) {
+        return { success: false, data: [], message: 'A rejection reason is required' };
+      }
+
+      const currentUser = await this.getCurrentUser();
+      if (!(await this.isAdmin(currentUser.id))) {
+        return { success: false, data: [], message: 'Only admins can moderate listings' };
+      }
+
+      const updates: Record<BulkListingAction, UpdateListingData> = {
+        approve: { status: 'approved', verified: true, is_active: true },
+        reject: { status: 'rejected', verified: false, is_active: false, verification_notes: reason },
+        activate: { is_active: true },
+        deactivate: { is_active: false },
+      };
+
+      const results: BulkListingResult[] = [];
+      const ids = Array.from(new Set(listingIds));
+
+      for (let i = 0; i < ids.length; i += BULK_BATCH_SIZE) {
+        const batch = ids.slice(i, i + BULK_BATCH_SIZE);
+
+        const { data: current, error: fetchError } = await supabase
+          .from('listings')
+          .select('*')
+          .in('id', batch);
+
+        if (fetchError) {
+          console.error('Error fetching listings for bulk update:', fetchError);
+          batch.forEach(id => results.push({ listing_id: id, status: 'failed', message: fetchError.message }));
+          continue;
+        }
+
+        const byId = new Map((current || []).map(listing => [listing.id, listing]));
+        const eligible: string[] = [];
+
+        for (const id of batch) {
+          const listing = byId.get(id);
+          const skipReason = listing ? this.getBulkSkipReason(listing, action) : 'Listing not found';
+
+          if (skipReason) {
+            results.push({ listing_id: id, status: listing ? 'skipped' : 'failed', message: skipReason });
+          } else {
+            eligible.push(id);
+          }
+        }
+
+        if (eligible.length === 0) continue;
+
+        const { data: updated, error: updateError } = await supabase
+          .from('listings')
+          .update(updates[action])
+          .in('id', eligible)
+          .select('*');
+
+        if (updateError) {
+          console.error('Error in bulk listing update:', updateError);
+          eligible.forEach(id => results.push({ listing_id: id, status: 'failed', message: updateError.message }));
+          continue;
+        }
+
+        const updatedById = new Map((updated || []).map(listing => [listing.id, listing]));
+
+        for (const id of eligible) {
+          const after = updatedById.get(id);
+
+          // Rows filtered out by RLS come back missing rather than as an error
+          if (!after) {
+            results.push({ listing_id: id, status: 'failed', message: 'Listing could not be updated' });
+            continue;
+          }
+
+          results.push({ listing_id: id, status: 'updated' });
+
+          if (action === 'approve' || action === 'reject') {
+            await NotificationsService.createListingApprovalNotification(
+              after.owner_id,
+              after.title,
+              id,
+              action === 'approve',
+              reason
+            );
+          }
+        }
+      }
+
+      const updatedCount = results.filter(result => result.status === 'updated').length;
+
+      return {
+        success: updatedCount > 0 || ids.length === 0,
+        data: results,
+        message: `${updatedCount} of ${ids.length} listing(s) updated`,
+      };
+    } catch (error) {
+      console.error('Error bulk updating listings:', error);
+      return {
+        success: false,
+        data: [],
+        message: error instanceof Error ? error.message : 'Failed to update listings',
+      };
+    }
+  }
+
+  // PostgREST filter for listings that have not reached their expiry date
+  private static notExpiredFilter(): string {
+    return `expires_at.is.null,expires_at.gt.${new Date().toISOString()}`;
+  }
+
+  // SearchFilters in the shape listing_matches_filters reads, leaving out unset ones
+  static toFilterParams(filters: Omit<SearchFilters, 'search'>): Record<string, unknown> {
+    // Unknown keys, such as ones from an old link, are left out
+    const features = Object.entries(filters.features || {})
+      .filter(([key]) => isFeatureFilterKey(key))
+      .map(([key, value]) => [FEATURE_FILTER_COLUMNS[key as keyof FeatureFilters].param, value]);
+
+    const params: Record<string, unknown> = {
+      type: filters.type,
+      category: filters.category,
+      subcategory: filters.subcategory,
+      city: filters.city,
+      subcity: filters.subcity,
+      min_price: filters.minPrice,
+      max_price: filters.maxPrice,
+      verified: filters.verified,
+      features: features.length > 0 ? Object.fromEntries(features) : undefined,
+    };
+
+    return Object.fromEntries(
+      Object.entries(params).filter(([, value]) => value !== undefined && value !== '')
+    );
+  }
+
+  // SearchFilters back from the listing_matches_filters shape, as kept on saved searches
+  static fromFilterParams(params: Record<string, unknown>): SearchFilters {
+    const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+    const number = (value: unknown) => (typeof value === 'number' ? value : undefined);
+    const featureKeys = Object.keys(FEATURE_FILTER_COLUMNS) as (keyof FeatureFilters)[];
+    const featureParams = (params.features || {}) as Record<string, unknown>;
+
+    const features = Object.fromEntries(
+      featureKeys
+        .map((key) => [key, featureParams[FEATURE_FILTER_COLUMNS[key].param]])
+        .filter(([, value]) => value !== undefined && value !== null)
+    ) as FeatureFilters;
+
+    return {
+      type: params.type === 'rent' || params.type === 'sale' ? params.type : undefined,
+      category: text(params.category),
+      subcategory: text(params.subcategory),
+      city: text(params.city),
+      subcity: text(params.subcity),
+      minPrice: number(params.min_price),
+      maxPrice: number(params.max_price),
+      verified: typeof params.verified === 'boolean' ? params.verified : undefined,
+      features: Object.keys(features).length > 0 ? features : undefined,
+    };
+  }
+
+  // Why a listing is left alone by a bulk action, if it is
+  private static getBulkSkipReason(listing: Listing, action: BulkListingAction): string | null {
+    switch (action) {
+      case 'approve':
+      case 'reject':
+        return listing.status === 'pending' ? null : `Already ${listing.status}`;
+      case 'activate':
+        return listing.is_active ? 'Already active' : null;
+      case 'deactivate':
+        return listing.is_active ? null : 'Already inactive';
+    }
+  }
+
   // Get listing statistics
   static async getListingStats(): Promise<{ success: boolean; data: unknown; message?: string }> {
     try {
@@ -0,0 +1,238 @@
+import { supabase, subscribeToUserMessages } from '../lib/supabase';
+import { Inquiry, Conversation, SendMessageData } from '../types';
+
+const MESSAGE_SELECT = `
+  *,
+  listing:listings!inquiries_listing_id_fkey(
+    id,
+    title,
+    price,
+    currency,
+    type,
+    category,
+    images,
+    owner_id
+  ),
+  sender:users!inquiries_user_id_fkey(
+    id,
+    full_name,
+    avatar_url,
+    verified
+  ),
+  recipient:users!inquiries_recipient_id_fkey(
+    id,
+    full_name,
+    avatar_url,
+    verified
+  )
+`;
+
+export class MessagingService {
+  // Send a message to the other party of a listing conversation
+  static async sendMessage(
+    messageData: SendMessageData
+  ): Promise<{ success: boolean; data: Inquiry | null; message?: string }> {
+    try {
+      const text = messageData.message.trim();
+
+      if (!text) {
+        return {
+          success: false,
+          data: null,
+          message: 'Message cannot be empty',
+        };
+      }
+
+      if (messageData.sender_id === messageData.recipient_id) {
+        return {
+          success: false,
+          data: null,
+          message: 'You cannot message yourself',
+        };
+      }
+
+      const { data, error } = await supabase
+        .from('inquiries')
+        .insert({
+          listing_id: messageData.listing_id,
+          user_id: messageData.sender_id,
+          recipient_id: messageData.recipient_id,
+          message: text,
+          contact: messageData.contact,
+          read: false,
+        })
+        .select(MESSAGE_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error sending message:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to send message',
+      };
+    }
+  }
+
+  // Get the user's conversations, one per listing and counterpart
+  static async getConversations(
+    userId: string
+  ): Promise<{ success: boolean; data: Conversation[]; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('inquiries')
+        .select(MESSAGE_SELECT)
+        .or(`user_id.eq.${userId},recipient_id.eq.${userId}`)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const conversations = new Map<string, Conversation>();
+
+      (data || []).forEach((message: Inquiry) => {
+        const isSender = message.user_id === userId;
+        const counterpartId = isSender ? message.recipient_id : message.user_id;
+        const key = `${message.listing_id}:${counterpartId}`;
+
+        let conversation = conversations.get(key);
+        if (!conversation) {
+          // Messages are ordered newest first, so the first one seen is the latest
+          conversation = {
+            listing_id: message.listing_id,
+            listing: message.listing,
+            counterpart_id: counterpartId,
+            counterpart: isSender ? message.recipient : message.sender,
+            last_message: message,
+            unread_count: 0,
+          };
+          conversations.set(key, conversation);
+        }
+
+        if (!isSender && !message.read) {
+          conversation.unread_count += 1;
+        }
+      });
+
+      return {
+        success: true,
+        data: Array.from(conversations.values()),
+      };
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
+      return {
+        success: false,
+        data: [],
+        message: error instanceof Error ? error.message : 'Failed to fetch conversations',
+      };
+    }
+  }
+
+  // Get all messages exchanged between two users about a listing
+  static async getConversationMessages(
+    userId: string,
+    listingId: string,
+    counterpartId: string
+  ): Promise<{ success: boolean; data: Inquiry[]; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('inquiries')
+        .select(MESSAGE_SELECT)
+        .eq('listing_id', listingId)
+        .or(
+          `and(user_id.eq.${userId},recipient_id.eq.${counterpartId}),and(user_id.eq.${counterpartId},recipient_id.eq.${userId})`
+        )
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data || [],
+      };
+    } catch (error) {
+      console.error('Error fetching conversation messages:', error);
+      return {
+        success: false,
+        data: [],
+        message: error instanceof Error ? error.message : 'Failed to fetch messages',
+      };
+    }
+  }
+
+  // Mark every message the user received in a conversation as read
+  static async markConversationAsRead(
+    userId: string,
+    listingId: string,
+    counterpartId: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { error } = await supabase
+        .from('inquiries')
+        .update({
+          read: true,
+          read_at: new Date().toISOString(),
+        })
+        .eq('listing_id', listingId)
+        .eq('user_id', counterpartId)
+        .eq('recipient_id', userId)
+        .eq('read', false);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+      };
+    } catch (error) {
+      console.error('Error marking conversation as read:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to mark conversation as read',
+      };
+    }
+  }
+
+  // Get unread messages count
+  static async getUnreadCount(userId: string): Promise<{ success: boolean; count: number; message?: string }> {
+    try {
+      const { count, error } = await supabase
+        .from('inquiries')
+        .select('*', { count: 'exact', head: true })
+        .eq('recipient_id', userId)
+        .eq('read', false);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        count: count || 0,
+      };
+    } catch (error) {
+      console.error('Error fetching unread message count:', error);
+      return {
+        success: false,
+        count: 0,
+        message: error instanceof Error ? error.message : 'Failed to fetch unread count',
+      };
+    }
+  }
+
+  // Subscribe to messages delivered to the user
+  static subscribeToMessages(userId: string, onMessage: (message: Inquiry) => void): () => void {
+    return subscribeToUserMessages(userId, (payload) => {
+      if (payload.eventType === 'INSERT' && payload.new) {
+        onMessage(payload.new as Inquiry);
+      }
+    });
+  }
+
+  // Build the link to a conversation page
+  static getConversationLink(listingId: string, counterpartId: string): string {
+    return `/messages?listing=${listingId}&with=${counterpartId}`;
+  }
+}
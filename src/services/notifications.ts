@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import { Notification, CreateNotificationData } from '../types';
+import { SavedSearchAlertTarget, SavedSearchMatch, buildSavedSearchMatchNotification } from '@shared/savedSearches';
 
 export class NotificationsService {
   // Get user notifications
@@ -194,7 +195,8 @@ export class NotificationsService {
     userId: string,
     listingTitle: string,
     listingId: string,
-    approved: boolean
+    approved: boolean,
+    reason?: string
   ): Promise<{ success: boolean; data: Notification | null; message?: string }> {
     const notificationData: CreateNotificationData = {
       user_id: userId,
@@ -202,7 +204,9 @@ export class NotificationsService {
       title: approved ? 'Listing Approved!' : 'Listing Rejected',
       message: approved
         ? `Your listing "${listingTitle}" has been approved and is now active.`
-        : `Your listing "${listingTitle}" was rejected. Please check the details and resubmit.`,
+        : reason
+          ? `Your listing "${listingTitle}" was rejected: ${reason}. Please update it and resubmit.`
+          : `Your listing "${listingTitle}" was rejected. Please check the details and resubmit.`,
       link: approved ? `/listing/${listingId}` : '/profile?tab=my-listings',
       priority: 'high',
       channels: { in_app: true, email: false, sms: false, push: false },
@@ -256,19 +260,105 @@ export class NotificationsService {
     return await this.createNotification(notificationData);
   }
 
+  // Create notification for a dispute being opened or answered
+  static async createDisputeNotification(
+    userId: string,
+    transactionId: string,
+    title: string,
+    message: string
+  ): Promise<{ success: boolean; data: Notification | null; message?: string }> {
+    const notificationData: CreateNotificationData = {
+      user_id: userId,
+      type: 'dispute_initiated',
+      title,
+      message,
+      data: { transaction_id: transactionId },
+      link: `/profile?tab=my-transactions&transaction=${transactionId}`,
+      priority: 'high',
+      channels: { in_app: true, email: true, sms: false, push: false },
+      expires_at: '',
+    };
+
+    return await this.createNotification(notificationData);
+  }
+
+  // Create notification for a resolved dispute
+  static async createDisputeResolvedNotification(
+    userId: string,
+    transactionId: string,
+    message: string
+  ): Promise<{ success: boolean; data: Notification | null; message?: string }> {
+    const notificationData: CreateNotificationData = {
+      user_id: userId,
+      type: 'dispute_resolved',
+      title: 'Dispute Resolved',
+      message,
+      data: { transaction_id: transactionId },
+      link: `/profile?tab=my-transactions&transaction=${transactionId}`,
+      priority: 'high',
+      channels: { in_app: true, email: true, sms: false, push: false },
+      expires_at: '',
+    };
+
+    return await this.createNotification(notificationData);
+  }
+
+  // Create notification for a contract signature, telling the other party what is left to do
+  static async createContractSignedNotification(
+    userId: string,
+    transactionId: string,
+    listingTitle: string,
+    signerName: string,
+    fullySigned: boolean
+  ): Promise<{ success: boolean; data: Notification | null; message?: string }> {
+    const notificationData: CreateNotificationData = {
+      user_id: userId,
+      type: 'contract_signed',
+      title: fullySigned ? 'Contract Signed' : 'Contract Awaiting Your Signature',
+      message: fullySigned
+        ? `${signerName} signed the contract for "${listingTitle}". Both parties have now signed.`
+        : `${signerName} signed the contract for "${listingTitle}". Review and sign it so the escrow can be released.`,
+      data: { transaction_id: transactionId },
+      link: `/profile?tab=my-transactions&transaction=${transactionId}`,
+      priority: fullySigned ? 'medium' : 'high',
+      channels: { in_app: true, email: true, sms: false, push: false },
+      expires_at: '',
+    };
+
+    return await this.createNotification(notificationData);
+  }
+
+  // Create notification for new listings matching a saved search; the
+  // saved-search-alerts job sends the same alert through the shared builder
+  static async createSavedSearchMatchNotification(
+    search: SavedSearchAlertTarget,
+    listings: SavedSearchMatch[],
+    total?: number
+  ): Promise<{ success: boolean; data: Notification | null; message?: string }> {
+    const notificationData: CreateNotificationData = {
+      ...buildSavedSearchMatchNotification(search, listings, total),
+      expires_at: '',
+    };
+
+    return await this.createNotification(notificationData);
+  }
+
   // Create notification for user verification
   static async createUserVerificationNotification(
     userId: string,
-    verified: boolean
+    verified: boolean,
+    reason?: string
   ): Promise<{ success: boolean; data: Notification | null; message?: string }> {
     const notificationData: CreateNotificationData = {
       user_id: userId,
-      type: 'user_verified',
+      type: verified ? 'user_verified' : 'user_rejected',
       title: verified ? 'Account Verified!' : 'Account Verification Required',
       message: verified
         ? 'Your account has been verified. You can now access all platform features.'
+        : reason
+        ? `Your verification was not approved: ${reason}. Please update your documents and resubmit.`
         : 'Your account verification is pending. Please complete the verification process.',
-      link: '/profile',
+      link: verified ? '/profile' : '/verification',
       priority: verified ? 'high' : 'medium',
       channels: { in_app: true, email: false, sms: false, push: false },
       expires_at: '',
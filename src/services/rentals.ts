@@ -0,0 +1,232 @@
+import { supabase } from '../lib/supabase';
+import { OPEN_CHECKOUT_STATUSES, TransactionsService } from './transactions';
+import { PaymentMethod, RentalBooking, Transaction } from '../types';
+
+// Rent listings are booked for dates rather than bought. The database copies
+// the terms from the listing, creates the rent schedule and keeps bookings
+// from overlapping (see database/SETUP_RENTAL_BOOKINGS.sql).
+
+const BOOKING_SELECT = `
+  *,
+  listing:listings!rental_bookings_listing_id_fkey(
+    id,
+    title,
+    images,
+    location
+  ),
+  renter:users!rental_bookings_renter_id_fkey(
+    id,
+    full_name,
+    email,
+    phone
+  ),
+  owner:users!rental_bookings_owner_id_fkey(
+    id,
+    full_name,
+    email,
+    phone
+  ),
+  rent_payments!rent_payments_booking_id_fkey(*)
+`;
+
+// Booked dates on a listing's calendar. end_date is the first free day.
+export interface BookedRange {
+  start_date: string;
+  end_date: string;
+}
+
+export class RentalsService {
+  // Get the dates already booked on a listing, for its availability calendar
+  static async getAvailability(listingId: string): Promise<{ success: boolean; data: BookedRange[]; message?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('get_listing_availability', { p_listing_id: listingId });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data || [],
+      };
+    } catch (error) {
+      console.error('Error fetching listing availability:', error);
+      return {
+        success: false,
+        data: [],
+        message: error instanceof Error ? error.message : 'Failed to fetch availability',
+      };
+    }
+  }
+
+  // Book a rent listing. The booking holds its dates until the deposit
+  // checkout is paid or abandoned.
+  static async createBooking(
+    listingId: string,
+    renterId: string,
+    startDate: string,
+    periodCount: number
+  ): Promise<{ success: boolean; data: RentalBooking | null; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('rental_bookings')
+        .insert({
+          listing_id: listingId,
+          renter_id: renterId,
+          start_date: startDate,
+          period_count: periodCount,
+        })
+        .select(BOOKING_SELECT)
+        .single();
+
+      if (error) {
+        // exclusion_violation: another booking already holds some of these dates
+        if (error.code === '23P01') {
+          return {
+            success: false,
+            data: null,
+            message: 'Some of those dates are already booked. Pick other dates.',
+          };
+        }
+        throw error;
+      }
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error creating rental booking:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to book listing',
+      };
+    }
+  }
+
+  // Get a booking with its rent ledger
+  static async getBooking(id: string): Promise<{ success: boolean; data: RentalBooking | null; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('rental_bookings')
+        .select(BOOKING_SELECT)
+        .eq('id', id)
+        .order('period_number', { referencedTable: 'rent_payments', ascending: true })
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error fetching rental booking:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to fetch rental booking',
+      };
+    }
+  }
+
+  // Get the bookings a user rents or owns, newest first, with their rent ledgers
+  static async getUserBookings(userId: string): Promise<{ success: boolean; data: RentalBooking[]; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('rental_bookings')
+        .select(BOOKING_SELECT)
+        .or(`renter_id.eq.${userId},owner_id.eq.${userId}`)
+        .neq('status', 'cancelled')
+        .order('created_at', { ascending: false })
+        .order('period_number', { referencedTable: 'rent_payments', ascending: true });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data || [],
+      };
+    } catch (error) {
+      console.error('Error fetching rental bookings:', error);
+      return {
+        success: false,
+        data: [],
+        message: error instanceof Error ? error.message : 'Failed to fetch rental bookings',
+      };
+    }
+  }
+
+  // Get the renter's unpaid checkout for a booking's deposit, or for one rent payment
+  static async getOpenCheckout(
+    bookingId: string,
+    rentPaymentId?: string
+  ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
+    try {
+      let query = supabase
+        .from('transactions')
+        .select('*')
+        .eq('rental_booking_id', bookingId)
+        .in('status', OPEN_CHECKOUT_STATUSES);
+
+      query = rentPaymentId
+        ? query.eq('rent_payment_id', rentPaymentId)
+        : query.is('rent_payment_id', null);
+
+      const { data, error } = await query.maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error fetching rental checkout:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to fetch rental checkout',
+      };
+    }
+  }
+
+  // Reuse the renter's unpaid checkout for the deposit or a rent payment, or
+  // start one. The database sets the amount from the booking.
+  static async getOrCreateCheckout(
+    booking: RentalBooking,
+    renterId: string,
+    paymentMethod: PaymentMethod,
+    rentPaymentId?: string
+  ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
+    const open = await this.getOpenCheckout(booking.id, rentPaymentId);
+    if (!open.success || open.data) return open;
+
+    const rentPayment = rentPaymentId
+      ? booking.rent_payments?.find(payment => payment.id === rentPaymentId)
+      : undefined;
+
+    if (rentPaymentId && !rentPayment) {
+      return {
+        success: false,
+        data: null,
+        message: 'Rent payment not found',
+      };
+    }
+
+    const created = await TransactionsService.createTransaction({
+      listing_id: booking.listing_id,
+      buyer_id: renterId,
+      seller_id: booking.owner_id,
+      amount: rentPayment ? rentPayment.amount : booking.deposit_amount,
+      currency: booking.currency,
+      payment_method: paymentMethod,
+      rental_booking_id: booking.id,
+      rent_payment_id: rentPaymentId,
+    });
+    if (created.success) return created;
+
+    // Another tab may have started the same checkout first
+    const concurrent = await this.getOpenCheckout(booking.id, rentPaymentId);
+    return concurrent.data ? concurrent : created;
+  }
+}
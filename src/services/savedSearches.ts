@@ -0,0 +1,169 @@
+import { supabase } from '../lib/supabase';
+import { ListingsService } from './listings';
+import { SavedSearch, SavedSearchFrequency, SearchFilters } from '../types';
+
+// Searches saved from Buy and Rent. The saved-search-alerts job checks them for
+// newly approved listings (see database/SETUP_SAVED_SEARCHES.sql).
+export class SavedSearchesService {
+  // Get the user's saved searches, newest first
+  static async getUserSavedSearches(userId: string): Promise<{ success: boolean; data: SavedSearch[]; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data || [],
+      };
+    } catch (error) {
+      console.error('Error fetching saved searches:', error);
+      return {
+        success: false,
+        data: [],
+        message: error instanceof Error ? error.message : 'Failed to fetch saved searches',
+      };
+    }
+  }
+
+  // Get one saved search, such as the one an alert links back to
+  static async getSavedSearch(id: string): Promise<{ success: boolean; data: SavedSearch | null; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error fetching saved search:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to fetch saved search',
+      };
+    }
+  }
+
+  // Save the filters and search text in use. Only listings approved from now on are alerted.
+  static async createSavedSearch(
+    userId: string,
+    name: string,
+    filters: SearchFilters,
+    frequency: SavedSearchFrequency
+  ): Promise<{ success: boolean; data: SavedSearch | null; message?: string }> {
+    try {
+      const { search, ...rest } = filters;
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .insert({
+          user_id: userId,
+          name: name.trim(),
+          query: search?.trim() || null,
+          filters: ListingsService.toFilterParams(rest),
+          frequency,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+        message: 'Search saved',
+      };
+    } catch (error) {
+      console.error('Error saving search:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to save search',
+      };
+    }
+  }
+
+  // Rename a saved search, change how often it alerts, or pause it
+  static async updateSavedSearch(
+    id: string,
+    updates: Partial<Pick<SavedSearch, 'name' | 'frequency' | 'is_active'>>
+  ): Promise<{ success: boolean; data: SavedSearch | null; message?: string }> {
+    try {
+      const changes: Record<string, unknown> = {
+        ...updates,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (updates.name !== undefined) {
+        changes.name = updates.name.trim();
+      }
+
+      // A resumed search starts from now rather than alerting on everything it missed
+      if (updates.is_active) {
+        changes.last_checked_at = new Date().toISOString();
+      }
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error updating saved search:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to update saved search',
+      };
+    }
+  }
+
+  // Delete a saved search and stop its alerts
+  static async deleteSavedSearch(id: string): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { error } = await supabase
+        .from('saved_searches')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      return {
+        success: true,
+      };
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to delete saved search',
+      };
+    }
+  }
+
+  // The search's filters and text, ready to put back on the Buy or Rent page
+  static toSearchFilters(savedSearch: SavedSearch): SearchFilters {
+    return {
+      ...ListingsService.fromFilterParams(savedSearch.filters),
+      search: savedSearch.query || undefined,
+    };
+  }
+}
@@ -1,14 +1,25 @@
 import { supabase } from '../lib/supabase';
-import { Transaction, CreateTransactionData } from '../types';
+import { CommissionPolicy, CommissionContext } from '../lib/commission';
+import {
+  getTransitionError,
+  planTransition,
+  TransactionStatus,
+  TransitionActor,
+  TransitionRole,
+} from '@shared/transactionStateMachine';
+import { getEscrowReleaseAt } from '@shared/escrowPolicy';
+import { hasRequiredSignatures } from '@shared/contracts';
+import { NotificationsService } from './notifications';
+import { Transaction, CreateTransactionData, CommissionSnapshot, DisputeEvidence } from '../types';
+
+// A checkout the buyer has not paid for yet. Only one per buyer and listing,
+// or for rentals, per deposit and rent payment.
+export const OPEN_CHECKOUT_STATUSES: TransactionStatus[] = ['pending', 'payment_initiated'];
 
 export class TransactionsService {
-  // Calculate commission (2%)
-  static calculateCommission(amount: number): { amount: number; rate: number } {
-    const rate = 0.02; // 2%
-    return {
-      amount: amount * rate,
-      rate,
-    };
+  // Calculate commission for a listing using the platform commission policy
+  static calculateCommission(amount: number, context?: CommissionContext): CommissionSnapshot {
+    return CommissionPolicy.calculate(amount, context);
   }
 
   // Create a new transaction
@@ -16,21 +27,11 @@ export class TransactionsService {
     transactionData: CreateTransactionData
   ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
     try {
-      // Calculate commission
-      const commission = this.calculateCommission(transactionData.amount);
-      
-      const transactionPayload = {
-        ...transactionData,
-        commission: {
-          amount: commission.amount,
-          rate: commission.rate,
-        },
-        status: 'pending' as const,
-      };
-
+      // The database sets the amount, commission and contract template from the
+      // listing or booking (database/SETUP_TRANSACTION_TERMS.sql)
       const { data, error } = await supabase
         .from('transactions')
-        .insert(transactionPayload)
+        .insert(transactionData)
         .select(`
           *,
           listing:listings!transactions_listing_id_fkey(
@@ -77,6 +78,100 @@ export class TransactionsService {
     }
   }
 
+  // Get the buyer's unpaid checkout for a listing, if they have one
+  static async getOpenCheckout(
+    buyerId: string,
+    listingId: string
+  ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('buyer_id', buyerId)
+        .eq('listing_id', listingId)
+        .is('rental_booking_id', null)
+        .in('status', OPEN_CHECKOUT_STATUSES)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error fetching open checkout:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to fetch open checkout',
+      };
+    }
+  }
+
+  // Check whether a listing's reservation is held by one of the buyer's own transactions
+  static async holdsReservation(
+    buyerId: string,
+    reservedBy: string
+  ): Promise<{ success: boolean; holdsReservation: boolean; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('id')
+        .eq('id', reservedBy)
+        .eq('buyer_id', buyerId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        holdsReservation: !!data,
+      };
+    } catch (error) {
+      console.error('Error checking listing reservation:', error);
+      return {
+        success: false,
+        holdsReservation: false,
+        message: error instanceof Error ? error.message : 'Failed to check listing reservation',
+      };
+    }
+  }
+
+  // Reuse the buyer's unpaid checkout for a listing, so retries do not leave
+  // orphaned transactions behind. A checkout whose amount no longer matches the
+  // listing is cancelled and replaced.
+  static async getOrCreateCheckout(
+    transactionData: CreateTransactionData
+  ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
+    const open = await this.getOpenCheckout(transactionData.buyer_id, transactionData.listing_id);
+    if (!open.success) return open;
+
+    if (open.data) {
+      const isCurrent = Number(open.data.amount) === Number(transactionData.amount)
+        && open.data.currency === transactionData.currency;
+
+      if (isCurrent) return open;
+
+      const cancelled = await this.updateTransactionStatus(
+        open.data.id,
+        'cancelled',
+        { id: transactionData.buyer_id, role: 'buyer' },
+        { notes: 'Listing price changed before payment' }
+      );
+      if (!cancelled.success) return cancelled;
+    }
+
+    const created = await this.createTransaction(transactionData);
+    if (created.success) return created;
+
+    // Another tab may have started a checkout for the same listing first
+    const concurrent = await this.getOpenCheckout(transactionData.buyer_id, transactionData.listing_id);
+    return concurrent.data ? concurrent : created;
+  }
+
   // Get transaction by ID
   static async getTransactionById(id: string): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
     try {
@@ -266,31 +361,70 @@ export class TransactionsService {
     }
   }
 
-  // Update transaction status
+  // Move a transaction to a new status. Only moves in the transition table are
+  // accepted, and each one is appended to the transaction timeline.
   static async updateTransactionStatus(
     id: string,
-    status: string,
-    adminId?: string
+    status: TransactionStatus,
+    actor: TransitionActor,
+    options: { notes?: string; updates?: Record<string, unknown> } = {}
   ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
     try {
-      const updateData: any = {
-        status,
+      const { data: current, error: fetchError } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      if (
+        (actor.role === 'buyer' && actor.id !== current.buyer_id) ||
+        (actor.role === 'seller' && actor.id !== current.seller_id)
+      ) {
+        return {
+          success: false,
+          data: null,
+          message: 'You are not a party to this transaction',
+        };
+      }
+
+      const transition = planTransition(current, status, actor, options.notes);
+
+      if (!transition.allowed) {
+        return {
+          success: false,
+          data: null,
+          message: transition.reason,
+        };
+      }
+
+      const updateData: Record<string, unknown> = {
+        ...options.updates,
+        ...transition.update,
         updated_at: new Date().toISOString(),
       };
 
-      if (adminId) {
-        updateData.admin_id = adminId;
+      if (actor.role === 'admin' && actor.id) {
+        updateData.admin_id = actor.id;
       }
 
-      // If status is 'escrowed', set escrow_release_at
-      if (status === 'escrowed') {
-        updateData.escrow_release_at = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(); // 7 days
+      // If status is 'escrowed', set escrow_release_at from the category's hold period
+      if (transition.changed && status === 'escrowed') {
+        const { data: listing } = await supabase
+          .from('listings')
+          .select('category')
+          .eq('id', current.listing_id)
+          .maybeSingle();
+
+        updateData.escrow_release_at = getEscrowReleaseAt(listing?.category);
       }
 
       const { data, error } = await supabase
         .from('transactions')
         .update(updateData)
         .eq('id', id)
+        .eq('status', current.status) // Fails if someone else moved it in the meantime
         .select(`
           *,
           listing:listings!transactions_listing_id_fkey(
@@ -319,10 +453,18 @@ export class TransactionsService {
             avatar_url
           )
         `)
-        .single();
+        .maybeSingle();
 
       if (error) throw error;
 
+      if (!data) {
+        return {
+          success: false,
+          data: null,
+          message: 'Transaction status changed while updating, please try again',
+        };
+      }
+
       return {
         success: true,
         data,
@@ -337,23 +479,64 @@ export class TransactionsService {
     }
   }
 
-  // Release escrow funds
+  // Get the role a user plays in a transaction
+  static async getActorRole(transactionId: string, userId: string): Promise<TransitionRole | null> {
+    const { data, error } = await supabase
+      .from('transactions')
+      .select('buyer_id, seller_id')
+      .eq('id', transactionId)
+      .single();
+
+    if (error) throw error;
+
+    if (data.buyer_id === userId) return 'buyer';
+    if (data.seller_id === userId) return 'seller';
+    return null;
+  }
+
+  // Release escrow funds. The database function moves the status, records the
+  // release on the timeline and the commission in admin_commissions together.
   static async releaseEscrow(
     transactionId: string,
-    adminId: string
+    options: { reason?: string; notes?: string } = {}
   ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
     try {
-      // Call the database function to handle escrow release
-      const { data, error } = await supabase.rpc('handle_escrow_release', {
+      const { data: current, error: fetchError } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('id', transactionId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const transitionError = getTransitionError(current.status, 'released', 'admin');
+
+      if (transitionError) {
+        return {
+          success: false,
+          data: null,
+          message: transitionError,
+        };
+      }
+
+      if (!hasRequiredSignatures(current.contract)) {
+        return {
+          success: false,
+          data: null,
+          message: 'Both parties must sign the contract before escrow is released',
+        };
+      }
+
+      const { error } = await supabase.rpc('handle_escrow_release', {
         p_transaction_id: transactionId,
-        p_admin_id: adminId,
+        p_reason: options.reason || 'admin_release',
+        p_notes: options.notes || 'Escrow released',
       });
 
       if (error) throw error;
 
       // Get the updated transaction
-      const transaction = await this.getTransactionById(transactionId);
-      return transaction;
+      return await this.getTransactionById(transactionId);
     } catch (error) {
       console.error('Error releasing escrow:', error);
       return {
@@ -364,67 +547,82 @@ export class TransactionsService {
     }
   }
 
-  // Refund transaction
-  static async refundTransaction(
+  // Buyer confirms they received the item, which releases escrow before the hold period ends
+  static async confirmReceipt(
     transactionId: string,
-    adminId: string,
-    reason?: string
+    buyerId: string
   ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
     try {
-      const { data, error } = await supabase
+      const { data: current, error: fetchError } = await supabase
         .from('transactions')
-        .update({
-          status: 'refunded',
-          admin_id: adminId,
-          updated_at: new Date().toISOString(),
-        })
+        .select('status, buyer_id, contract')
         .eq('id', transactionId)
-        .select(`
-          *,
-          listing:listings!transactions_listing_id_fkey(
-            id,
-            title,
-            price,
-            currency,
-            type,
-            category,
-            images
-          ),
-          buyer:users!transactions_buyer_id_fkey(
-            id,
-            full_name,
-            email,
-            phone,
-            verified,
-            avatar_url
-          ),
-          seller:users!transactions_seller_id_fkey(
-            id,
-            full_name,
-            email,
-            phone,
-            verified,
-            avatar_url
-          )
-        `)
         .single();
 
+      if (fetchError) throw fetchError;
+
+      if (current.buyer_id !== buyerId) {
+        return {
+          success: false,
+          data: null,
+          message: 'You are not a party to this transaction',
+        };
+      }
+
+      const transitionError = getTransitionError(current.status, 'released', 'buyer');
+
+      if (transitionError) {
+        return {
+          success: false,
+          data: null,
+          message: transitionError,
+        };
+      }
+
+      if (!hasRequiredSignatures(current.contract)) {
+        return {
+          success: false,
+          data: null,
+          message: 'Both parties must sign the contract before escrow is released',
+        };
+      }
+
+      const { error } = await supabase.rpc('handle_escrow_release', {
+        p_transaction_id: transactionId,
+        p_reason: 'buyer_confirmed',
+        p_notes: 'Buyer confirmed receipt',
+      });
+
       if (error) throw error;
 
-      return {
-        success: true,
-        data,
-      };
+      const result = await this.getTransactionById(transactionId);
+
+      if (result.success && result.data) {
+        await NotificationsService.createEscrowReleaseNotification(
+          result.data.seller_id,
+          result.data.listing?.title || 'your listing',
+          result.data.amount,
+          result.data.currency,
+          transactionId
+        );
+      }
+
+      return result;
     } catch (error) {
-      console.error('Error refunding transaction:', error);
+      console.error('Error confirming receipt:', error);
       return {
         success: false,
         data: null,
-        message: error instanceof Error ? error.message : 'Failed to refund transaction',
+        message: error instanceof Error ? error.message : 'Failed to confirm receipt',
       };
     }
   }
 
+  // Amount that can still be refunded to the buyer. The commission is never refunded.
+  static getRefundableAmount(transaction: Pick<Transaction, 'amount' | 'commission' | 'refund'>): number {
+    return CommissionPolicy.getRefundableAmount(transaction);
+  }
+
   // Get transaction statistics
   static async getTransactionStats(): Promise<{ success: boolean; data: any; message?: string }> {
     try {
@@ -604,52 +802,38 @@ export class TransactionsService {
   static async disputeTransaction(
     transactionId: string,
     reason: string,
-    userId: string
+    userId: string,
+    details: { description?: string; evidence?: DisputeEvidence[] } = {}
   ): Promise<{ success: boolean; data: Transaction | null; message?: string }> {
     try {
-      const { data, error } = await supabase
-        .from('transactions')
-        .update({
-          status: 'disputed',
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', transactionId)
-        .select(`
-          *,
-          listing:listings!transactions_listing_id_fkey(
-            id,
-            title,
-            price,
-            currency,
-            type,
-            category,
-            images
-          ),
-          buyer:users!transactions_buyer_id_fkey(
-            id,
-            full_name,
-            email,
-            phone,
-            verified,
-            avatar_url
-          ),
-          seller:users!transactions_seller_id_fkey(
-            id,
-            full_name,
-            email,
-            phone,
-            verified,
-            avatar_url
-          )
-        `)
-        .single();
-
-      if (error) throw error;
+      const role = await this.getActorRole(transactionId, userId);
+
+      if (!role) {
+        return {
+          success: false,
+          data: null,
+          message: 'Only the buyer or seller can dispute a transaction',
+        };
+      }
 
-      return {
-        success: true,
-        data,
-      };
+      return await this.updateTransactionStatus(
+        transactionId,
+        'disputed',
+        { id: userId, role },
+        {
+          notes: reason,
+          updates: {
+            dispute: {
+              is_disputed: true,
+              filed_by: userId,
+              filed_at: new Date().toISOString(),
+              reason,
+              description: details.description,
+              evidence: details.evidence || [],
+            },
+          },
+        }
+      );
     } catch (error) {
       console.error('Error disputing transaction:', error);
       return {
@@ -177,14 +177,18 @@ export class UploadService {
     }
   }
 
-  // Upload documents
+  // Upload documents to the private documents bucket
   static async uploadDocuments(
     files: File[],
     userId: string,
-    listingId?: string
+    listingId?: string,
+    folder?: string
   ): Promise<Array<{ name: string; url: string; type: string; public_id: string }>> {
     try {
-      const basePath = listingId ? `documents/${listingId}` : 'documents/temp';
+      // Documents are never public, read them back through getSignedUrl
+      await this.ensureBucketExists('documents', false);
+
+      const basePath = folder || (listingId ? `documents/${listingId}` : 'documents/temp');
       const results = await this.uploadMultipleFiles(files, 'documents', basePath, userId);
 
       return results.map((result) => ({
@@ -498,4 +498,4 @@ export class UsersService {
       };
     }
   }
-}
\ No newline at end of file
+}
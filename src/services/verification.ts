@@ -0,0 +1,288 @@
+import { supabase } from '../lib/supabase';
+import { UploadService } from './upload';
+import { UsersService } from './users';
+import { NotificationsService } from './notifications';
+import {
+  SellerVerification,
+  SubmitVerificationData,
+  VerificationStepId,
+  VerificationStepRecord,
+} from '../types';
+
+const DOCUMENTS_BUCKET = 'documents';
+
+const VERIFICATION_SELECT = `
+  *,
+  user:users!seller_verifications_user_id_fkey(
+    id,
+    full_name,
+    email,
+    phone,
+    avatar_url,
+    role,
+    verified,
+    created_at
+  )
+`;
+
+export class VerificationService {
+  // Submit (or resubmit) the seller's verification documents for review
+  static async submitVerification(
+    submission: SubmitVerificationData
+  ): Promise<{ success: boolean; data: SellerVerification | null; message?: string }> {
+    try {
+      const existing = await this.getUserVerification(submission.user_id);
+      const previousSteps = existing.data?.steps || [];
+
+      const steps: VerificationStepRecord[] = [];
+
+      for (const step of submission.steps) {
+        const previous = previousSteps.find(s => s.id === step.id);
+        const files = step.documents || [];
+        const references = step.id === 'references'
+          ? submission.references.filter(ref => ref.name && ref.email)
+          : undefined;
+        const hasContent = files.length > 0 || (references && references.length > 0);
+
+        if (!hasContent) {
+          // Keep steps that were already approved on an earlier submission
+          if (previous?.status === 'approved') {
+            steps.push(previous);
+          } else if (step.required) {
+            return {
+              success: false,
+              data: null,
+              message: `Missing documents for required step: ${step.id}`,
+            };
+          }
+          continue;
+        }
+
+        const uploaded = files.length > 0
+          ? await UploadService.uploadDocuments(
+              files,
+              submission.user_id,
+              undefined,
+              `verifications/${step.id}`
+            )
+          : [];
+
+        steps.push({
+          id: step.id,
+          required: step.required,
+          status: 'pending',
+          documents: uploaded.map(doc => ({
+            name: doc.name,
+            type: step.id,
+            public_id: doc.public_id,
+          })),
+          references,
+        });
+      }
+
+      const { data, error } = await supabase
+        .from('seller_verifications')
+        .upsert(
+          {
+            user_id: submission.user_id,
+            status: this.getOverallStatus(steps),
+            steps,
+            submitted_at: new Date().toISOString(),
+            reviewed_at: null,
+            reviewed_by: null,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id' }
+        )
+        .select(VERIFICATION_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error submitting verification:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to submit verification',
+      };
+    }
+  }
+
+  // Get the latest verification submission of a user
+  static async getUserVerification(
+    userId: string
+  ): Promise<{ success: boolean; data: SellerVerification | null; message?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('seller_verifications')
+        .select(VERIFICATION_SELECT)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error fetching verification:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to fetch verification',
+      };
+    }
+  }
+
+  // Get verification submissions for the admin review queue
+  static async getVerifications(
+    status?: SellerVerification['status']
+  ): Promise<{ success: boolean; data: SellerVerification[]; message?: string }> {
+    try {
+      let query = supabase
+        .from('seller_verifications')
+        .select(VERIFICATION_SELECT)
+        .order('submitted_at', { ascending: true });
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return {
+        success: true,
+        data: data || [],
+      };
+    } catch (error) {
+      console.error('Error fetching verifications:', error);
+      return {
+        success: false,
+        data: [],
+        message: error instanceof Error ? error.message : 'Failed to fetch verifications',
+      };
+    }
+  }
+
+  // Approve or reject a single verification step (admin only)
+  static async reviewStep(
+    verificationId: string,
+    stepId: VerificationStepId,
+    decision: 'approved' | 'rejected',
+    adminId: string,
+    notes?: string
+  ): Promise<{ success: boolean; data: SellerVerification | null; message?: string }> {
+    try {
+      if (decision === 'rejected' && !notes?.trim()) {
+        return {
+          success: false,
+          data: null,
+          message: 'A reason is required when rejecting a step',
+        };
+      }
+
+      const { data: verification, error: fetchError } = await supabase
+        .from('seller_verifications')
+        .select('*')
+        .eq('id', verificationId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const now = new Date().toISOString();
+      const steps: VerificationStepRecord[] = (verification.steps || []).map((step: VerificationStepRecord) =>
+        step.id === stepId
+          ? {
+              ...step,
+              status: decision,
+              review_notes: notes?.trim() || undefined,
+              reviewed_by: adminId,
+              reviewed_at: now,
+            }
+          : step
+      );
+
+      const previousStatus: SellerVerification['status'] = verification.status;
+      const status = this.getOverallStatus(steps);
+      const isFinal = status !== 'pending';
+
+      const { data, error } = await supabase
+        .from('seller_verifications')
+        .update({
+          steps,
+          status,
+          reviewed_at: isFinal ? now : null,
+          reviewed_by: isFinal ? adminId : null,
+          updated_at: now,
+        })
+        .eq('id', verificationId)
+        .select(VERIFICATION_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      // Flip the user's verified flag and notify them once the outcome changes
+      if (status !== previousStatus && status === 'approved') {
+        const userResult = await UsersService.verifyUser(verification.user_id);
+        if (!userResult.success) throw new Error(userResult.message);
+
+        await NotificationsService.createUserVerificationNotification(verification.user_id, true);
+      } else if (status !== previousStatus && status === 'rejected') {
+        const { error: userError } = await supabase
+          .from('users')
+          .update({
+            verified: false,
+            updated_at: now,
+          })
+          .eq('id', verification.user_id);
+
+        if (userError) throw userError;
+
+        await NotificationsService.createUserVerificationNotification(
+          verification.user_id,
+          false,
+          notes?.trim()
+        );
+      }
+
+      return {
+        success: true,
+        data,
+      };
+    } catch (error) {
+      console.error('Error reviewing verification step:', error);
+      return {
+        success: false,
+        data: null,
+        message: error instanceof Error ? error.message : 'Failed to review verification step',
+      };
+    }
+  }
+
+  // Get a short-lived link to a verification document in the private bucket
+  static async getDocumentUrl(publicId: string, expiresIn: number = 300): Promise<string> {
+    return await UploadService.getSignedUrl(DOCUMENTS_BUCKET, publicId, expiresIn);
+  }
+
+  // A submission is approved once every required step is approved and nothing awaits review
+  private static getOverallStatus(steps: VerificationStepRecord[]): SellerVerification['status'] {
+    if (steps.some(step => step.required && step.status === 'rejected')) {
+      return 'rejected';
+    }
+
+    const requiredApproved = steps
+      .filter(step => step.required)
+      .every(step => step.status === 'approved');
+    const awaitingReview = steps.some(step => step.status === 'pending');
+
+    return requiredApproved && !awaitingReview ? 'approved' : 'pending';
+  }
+}
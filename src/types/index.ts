@@ -37,6 +37,41 @@ export interface Database {
         Insert: Omit<Inquiry, 'id' | 'created_at'>;
         Update: Partial<Omit<Inquiry, 'id' | 'created_at'>>;
       };
+      seller_verifications: {
+        Row: SellerVerification;
+        Insert: Omit<SellerVerification, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Omit<SellerVerification, 'id' | 'created_at' | 'updated_at'>>;
+      };
+      admin_audit_log: {
+        Row: AdminAuditEntry;
+        Insert: never;
+        Update: never;
+      };
+      payment_attempts: {
+        Row: PaymentAttempt;
+        Insert: never;
+        Update: never;
+      };
+      payment_mismatches: {
+        Row: PaymentMismatch;
+        Insert: never;
+        Update: Pick<PaymentMismatch, 'status' | 'resolution_note' | 'resolved_by' | 'resolved_at'>;
+      };
+      payment_settlement_imports: {
+        Row: PaymentSettlementImport;
+        Insert: never;
+        Update: never;
+      };
+      rental_bookings: {
+        Row: RentalBooking;
+        Insert: Pick<RentalBooking, 'listing_id' | 'renter_id' | 'start_date' | 'period_count'>;
+        Update: never;
+      };
+      rent_payments: {
+        Row: RentPayment;
+        Insert: never;
+        Update: never;
+      };
     };
     Views: {
       [_ in never]: never;
@@ -51,9 +86,10 @@ export interface Database {
       handle_escrow_release: {
         Args: {
           p_transaction_id: string;
-          p_admin_id: string;
+          p_reason?: string;
+          p_notes?: string;
         };
-        Returns: void;
+        Returns: Transaction;
       };
       create_user_profile: {
         Args: {
@@ -81,9 +117,10 @@ export interface Database {
       listing_type: 'sale' | 'rent';
       listing_status: 'pending' | 'approved' | 'rejected' | 'sold' | 'rented' | 'inactive';
       transaction_status: 'pending' | 'payment_initiated' | 'payment_completed' | 'escrowed' | 'released' | 'refunded' | 'cancelled' | 'disputed' | 'paid';
-      payment_method: 'telebirr' | 'chapa' | 'bibit';
-      notification_type: 'listing_approved' | 'listing_rejected' | 'payment_received' | 'escrow_released' | 'user_verified' | 'user_rejected' | 'transaction_completed' | 'transaction_cancelled' | 'dispute_initiated' | 'system_announcement' | 'system_message';
+      payment_method: PaymentMethod;
+      notification_type: 'listing_approved' | 'listing_rejected' | 'payment_received' | 'escrow_released' | 'escrow_release_reminder' | 'listing_expiring' | 'listing_expired' | 'rent_due' | 'rent_overdue' | 'rental_ended' | 'saved_search_match' | 'contract_signed' | 'user_verified' | 'user_rejected' | 'transaction_completed' | 'transaction_cancelled' | 'dispute_initiated' | 'dispute_resolved' | 'system_announcement' | 'system_message';
       notification_priority: 'low' | 'medium' | 'high' | 'urgent';
+      verification_status: 'pending' | 'approved' | 'rejected';
     };
   };
 }
@@ -137,7 +174,8 @@ export interface Listing {
   price: number;
   currency: 'ETB' | 'USD';
   type: 'sale' | 'rent';
-  rent_period?: 'monthly' | 'yearly' | 'daily';
+  rent_period?: RentPeriod;
+  security_deposit?: number; // Asked of renters; one period's rent when not set
   location: {
     city: string;
     subcity: string;
@@ -195,10 +233,44 @@ export interface Listing {
   tags: string[];
   is_active: boolean;
   expires_at: string;
+  expiry_warning_sent_at?: string;
+  // Transaction holding the listing, see database/SETUP_LISTING_RESERVATIONS.sql.
+  // An unpaid reservation lapses at reserved_until; a paid one has no end time.
+  reserved_by?: string;
+  reserved_until?: string;
+  // Read from location.coordinates, see database/SETUP_LISTING_GEO_SEARCH.sql
+  latitude?: number;
+  longitude?: number;
+  // Set on results from ListingsService.searchListings
+  search_highlight?: ListingSearchHighlight;
   created_at: string;
   updated_at: string;
 }
 
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// A map area in degrees
+export interface MapBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Why a listing matched a search. Matching words in the title and snippet are
+// wrapped in [[mark]] and [[/mark]]; render them with parseHighlight.
+export interface ListingSearchHighlight {
+  rank: number;
+  title: string;
+  snippet: string;
+}
+
+// Matches the gateway adapters in supabase/functions/_shared/gateways/index.ts
+export type PaymentMethod = 'telebirr' | 'chapa' | 'bibit' | 'cbe_birr' | 'mpesa' | 'sandbox';
+
 export interface Transaction {
   id: string;
   listing_id: string;
@@ -209,11 +281,8 @@ export interface Transaction {
   seller?: User;
   amount: number;
   currency: 'ETB' | 'USD';
-  commission: {
-    amount: number;
-    rate: number;
-  };
-  payment_method: 'telebirr' | 'chapa' | 'bibit';
+  commission: CommissionSnapshot;
+  payment_method: PaymentMethod;
   payment_details: {
     transaction_id?: string;
     reference?: string;
@@ -235,9 +304,19 @@ export interface Transaction {
     release_reason?: string;
     release_notes?: string;
     released_by?: string;
+    reminder_sent_at?: string;
   };
+  escrow_release_at?: string; // Automatic release time, set when the payment is escrowed
+  refund_required_reason?: string; // Paid after the listing went to someone else; never released automatically
+  rental_booking_id?: string; // Set on a rental's deposit and rent transactions
+  rent_payment_id?: string; // The rent payment this transaction pays; not set for the deposit
   contract: {
+    template?: ContractTemplateId; // Snapshotted when the transaction is created
+    signatures_required?: boolean; // Escrow is not released until both parties sign
     terms?: string;
+    document_hash?: string; // SHA-256 of terms
+    generated_at?: string;
+    generated_by?: string;
     duration?: number;
     start_date?: string;
     end_date?: string;
@@ -249,6 +328,10 @@ export interface Transaction {
       buyer?: string;
       seller?: string;
     };
+    signatures?: {
+      buyer?: ContractSignature;
+      seller?: ContractSignature;
+    };
   };
   delivery: {
     method?: 'pickup' | 'delivery' | 'meetup';
@@ -266,22 +349,18 @@ export interface Transaction {
     notes?: string;
     proof_of_delivery?: string[];
   };
-  dispute: {
-    is_disputed: boolean;
-    reason?: string;
-    description?: string;
-    evidence?: string[];
-    resolution?: string;
-    resolved_by?: string;
-    resolved_at?: string;
-  };
+  dispute: TransactionDispute;
   refund: {
-    amount?: number;
+    amount?: number; // Total refunded so far
     reason?: string;
     processed_at?: string;
     processed_by?: string;
     refund_method?: string;
     refund_reference?: string;
+    partial?: boolean;
+    history?: RefundRecord[];
+    // A refund sent to the gateway and not yet recorded; its amount is already counted above
+    pending?: { amount: number; reason?: string; requested_by: string; requested_at: string };
   };
   timeline: Array<{
     status: string;
@@ -298,10 +377,50 @@ export interface Transaction {
   updated_at: string;
 }
 
+// One refund sent to the payment gateway
+export interface RefundRecord {
+  amount: number;
+  reason?: string;
+  refund_method: Transaction['payment_method'];
+  refund_reference?: string;
+  processed_at: string;
+  processed_by: string;
+}
+
+export interface DisputeEvidence {
+  name: string;
+  public_id: string; // Path inside the private documents bucket
+  uploaded_by: string;
+  uploaded_at: string;
+}
+
+export interface TransactionDispute {
+  is_disputed: boolean;
+  filed_by?: string;
+  filed_at?: string;
+  reason?: string;
+  description?: string;
+  evidence?: DisputeEvidence[];
+  response?: {
+    message: string;
+    evidence?: DisputeEvidence[];
+    responded_by: string;
+    responded_at: string;
+  };
+  resolution?: 'release' | 'refund' | 'split';
+  resolution_notes?: string;
+  settlement?: {
+    buyer_amount: number;
+    seller_amount: number;
+  };
+  resolved_by?: string;
+  resolved_at?: string;
+}
+
 export interface Notification {
   id: string;
   user_id: string;
-  type: 'listing_approved' | 'listing_rejected' | 'payment_received' | 'escrow_released' | 'user_verified' | 'user_rejected' | 'transaction_completed' | 'transaction_cancelled' | 'dispute_initiated' | 'system_announcement';
+  type: 'listing_approved' | 'listing_rejected' | 'payment_received' | 'escrow_released' | 'escrow_release_reminder' | 'listing_expiring' | 'listing_expired' | 'rent_due' | 'rent_overdue' | 'rental_ended' | 'saved_search_match' | 'contract_signed' | 'user_verified' | 'user_rejected' | 'transaction_completed' | 'transaction_cancelled' | 'dispute_initiated' | 'dispute_resolved' | 'system_announcement';
   title: string;
   message: string;
   data?: {
@@ -310,6 +429,8 @@ export interface Notification {
     amount?: number;
     currency?: string;
     url?: string;
+    saved_search_id?: string; // Set on saved_search_match, with the new listings
+    listing_ids?: string[];
     metadata?: any;
   };
   priority: 'low' | 'medium' | 'high' | 'urgent';
@@ -336,6 +457,19 @@ export interface Notification {
   updated_at: string;
 }
 
+// Commission applied to a transaction, frozen at creation time
+export interface CommissionSnapshot {
+  amount: number;
+  rate: number; // Percentage of the transaction amount
+  policy_version?: string;
+  rule?: string;
+  tier?: {
+    min_amount: number;
+    max_amount?: number;
+  };
+  capped?: 'min' | 'max';
+}
+
 export interface AdminCommission {
   id: string;
   transaction_id: string;
@@ -354,6 +488,7 @@ export interface AdminCommission {
       amount: number;
       percentage: number;
     };
+    policy?: CommissionSnapshot;
   };
   notes?: string;
   metadata: {
@@ -361,11 +496,144 @@ export interface AdminCommission {
     transaction_currency: string;
     payment_method: string;
     processed_by?: string;
+    refunded_amount?: number; // Refunded to the buyer before the release, never out of the commission
+    seller_payout?: number; // Paid to the seller on release, 0 when fully refunded
   };
   created_at: string;
   updated_at: string;
 }
 
+export type AuditTargetType = 'user' | 'listing' | 'transaction';
+
+// One admin or system change, written by database triggers. Entries are never
+// updated or deleted.
+export interface AdminAuditEntry {
+  id: string;
+  // Null for scheduled jobs and other system changes
+  actor_id: string | null;
+  actor?: Pick<User, 'id' | 'full_name' | 'email'>;
+  action: string;
+  target_type: AuditTargetType;
+  target_id: string;
+  // Only the fields that changed
+  changes: Record<string, { before: unknown; after: unknown }>;
+  metadata?: Record<string, unknown>;
+  created_at: string;
+}
+
+export type PaymentAttemptStatus = 'started' | 'failed' | 'superseded' | 'abandoned' | 'completed' | 'cancelled';
+
+// One try at paying for a transaction. Retries and payment method switches
+// reuse the transaction and add an attempt.
+export interface PaymentAttempt {
+  id: string;
+  transaction_id: string;
+  payment_method: PaymentMethod;
+  reference?: string;
+  status: PaymentAttemptStatus;
+  error?: string;
+  created_at: string;
+  ended_at?: string;
+}
+
+export type PaymentMismatchKind = 'missing' | 'duplicate' | 'amount_differs';
+
+// A payment our transactions and a gateway disagree on, found by the
+// reconciliation job or a settlement import
+export interface PaymentMismatch {
+  id: string;
+  gateway: PaymentMethod;
+  kind: PaymentMismatchKind;
+  source: 'reconciliation' | 'settlement';
+  reference: string;
+  transaction_id?: string;
+  import_id?: string;
+  expected_amount?: number;
+  reported_amount?: number;
+  currency?: string;
+  message: string;
+  status: 'open' | 'resolved';
+  resolution_note?: string;
+  resolved_by?: string;
+  resolved_at?: string;
+  created_at: string;
+}
+
+// One gateway settlement CSV export compared with our transactions
+export interface PaymentSettlementImport {
+  id: string;
+  gateway: PaymentMethod;
+  file_name: string;
+  row_count: number;
+  skipped_count: number;
+  matched_count: number;
+  mismatch_count: number;
+  period_start?: string;
+  period_end?: string;
+  imported_by?: string;
+  created_at: string;
+}
+
+// Matches the rent periods in supabase/functions/_shared/rentals.ts
+export type RentPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type RentalBookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled';
+
+// Dates booked on a rent listing. Its terms are copied from the listing when
+// it is made, and it is confirmed once the security deposit is paid.
+export interface RentalBooking {
+  id: string;
+  listing_id: string;
+  listing?: Pick<Listing, 'id' | 'title' | 'images' | 'location'>;
+  renter_id: string;
+  renter?: Pick<User, 'id' | 'full_name' | 'email' | 'phone'>;
+  owner_id: string;
+  owner?: Pick<User, 'id' | 'full_name' | 'email' | 'phone'>;
+  start_date: string;
+  end_date: string; // First day after the stay
+  rent_period: RentPeriod;
+  period_count: number;
+  rent_amount: number; // Per period
+  deposit_amount: number;
+  currency: 'ETB' | 'USD';
+  status: RentalBookingStatus;
+  rent_payments?: RentPayment[];
+  confirmed_at?: string;
+  completed_at?: string;
+  cancelled_at?: string;
+  deposit_refund_requested_at?: string; // Admins asked to refund the unclaimed deposit
+  created_at: string;
+  updated_at: string;
+}
+
+export type ContractTemplateId = 'vehicle_sale' | 'property_sale' | 'lease';
+
+// How a party signed a transaction's contract (see database/SETUP_CONTRACT_SIGNATURES.sql)
+export interface ContractSignature {
+  method: 'typed' | 'drawn';
+  name: string;
+  image?: string; // PNG data URL of a drawn signature
+  document_hash: string;
+  signed_at: string;
+}
+
+// One row of a booking's rent ledger
+export interface RentPayment {
+  id: string;
+  booking_id: string;
+  period_number: number;
+  period_start: string;
+  period_end: string;
+  due_date: string;
+  amount: number;
+  currency: 'ETB' | 'USD';
+  status: 'scheduled' | 'paid' | 'cancelled';
+  paid_at?: string;
+  reminder_sent_at?: string;
+  overdue_notice_sent_at?: string;
+  created_at: string;
+}
+
 export interface Favorite {
   id: string;
   user_id: string;
@@ -377,24 +645,136 @@ export interface Inquiry {
   id: string;
   listing_id: string;
   user_id: string;
+  recipient_id: string;
+  listing?: Listing;
+  sender?: User;
+  recipient?: User;
   message: string;
   contact?: string;
+  read: boolean;
+  read_at?: string;
   created_at: string;
 }
 
+export type VerificationStepId = 'identity' | 'address' | 'business' | 'references';
+
+export interface VerificationReference {
+  name: string;
+  email: string;
+  phone: string;
+  relationship: string;
+}
+
+export interface VerificationStepRecord {
+  id: VerificationStepId;
+  required: boolean;
+  status: 'pending' | 'approved' | 'rejected';
+  documents: Array<{
+    name: string;
+    type: string;
+    public_id: string; // Path inside the private documents bucket
+  }>;
+  references?: VerificationReference[];
+  review_notes?: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+}
+
+export interface SellerVerification {
+  id: string;
+  user_id: string;
+  user?: User;
+  status: 'pending' | 'approved' | 'rejected';
+  steps: VerificationStepRecord[];
+  submitted_at: string;
+  reviewed_at?: string;
+  reviewed_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
 // UI Types
 export interface SearchFilters {
   category?: string;
+  subcategory?: string;
   type?: 'sale' | 'rent';
   minPrice?: number;
   maxPrice?: number;
   city?: string;
   subcity?: string;
-  verified?: boolean;
+  verified?: boolean; // Whether the seller is verified; public listings are all verified
+  features?: FeatureFilters;
   search?: string;
   sortBy?: 'price_asc' | 'price_desc' | 'date_desc' | 'views_desc';
 }
 
+// Filters on Listing.features. Which ones apply depends on the category, see
+// FEATURE_FILTERS in lib/listingFeatures.
+export interface FeatureFilters {
+  yearMin?: number;
+  yearMax?: number;
+  mileageMax?: number;
+  fuelType?: 'petrol' | 'diesel' | 'hybrid' | 'electric';
+  transmission?: 'manual' | 'automatic';
+  bedroomsMin?: number;
+  areaMin?: number;
+  areaMax?: number;
+  furnished?: boolean;
+  parking?: boolean;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// A price range from ListingsService.getListingFacets; max is null for the last, open-ended one
+export interface PriceFacetCount {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+// Result counts for the current search. Each facet ignores its own filter, so
+// it shows what choosing another value would give.
+export interface ListingFacets {
+  total: number;
+  category: FacetCount[];
+  subcategory: FacetCount[];
+  city: FacetCount[];
+  subcity: FacetCount[];
+  price: PriceFacetCount[];
+  verified: FacetCount[];
+}
+
+// Matches the alert frequencies in supabase/functions/_shared/savedSearches.ts
+export type SavedSearchFrequency = 'instant' | 'daily' | 'weekly';
+
+// A search saved from Buy or Rent. filters is in the shape the database
+// matches on; ListingsService.fromFilterParams turns it back into SearchFilters.
+export interface SavedSearch {
+  id: string;
+  user_id: string;
+  name: string;
+  query?: string | null;
+  filters: Record<string, unknown>;
+  frequency: SavedSearchFrequency;
+  is_active: boolean;
+  last_checked_at: string;
+  last_notified_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Conversation {
+  listing_id: string;
+  listing?: Listing;
+  counterpart_id: string;
+  counterpart?: User;
+  last_message?: Inquiry;
+  unread_count: number;
+}
+
 export interface PaginationParams {
   page: number;
   limit: number;
@@ -444,7 +824,8 @@ export interface CreateListingData {
   price: number;
   currency: 'ETB' | 'USD';
   type: 'sale' | 'rent';
-  rent_period?: 'monthly' | 'yearly' | 'daily';
+  rent_period?: RentPeriod;
+  security_deposit?: number;
   location: {
     city: string;
     subcity: string;
@@ -464,7 +845,8 @@ export interface UpdateListingData {
   price?: number;
   currency?: 'ETB' | 'USD';
   type?: 'sale' | 'rent';
-  rent_period?: 'monthly' | 'yearly' | 'daily';
+  rent_period?: RentPeriod;
+  security_deposit?: number;
   location?: {
     city: string;
     subcity: string;
@@ -485,7 +867,9 @@ export interface CreateTransactionData {
   seller_id: string;
   amount: number;
   currency: 'ETB' | 'USD';
-  payment_method: 'telebirr' | 'chapa' | 'bibit';
+  payment_method: PaymentMethod;
+  rental_booking_id?: string;
+  rent_payment_id?: string;
   payment_details?: {
     transaction_id?: string;
     reference?: string;
@@ -500,6 +884,8 @@ export interface CreateTransactionData {
     webhook_received_at?: string;
   };
   contract?: {
+    template?: ContractTemplateId;
+    signatures_required?: boolean;
     terms?: string;
     duration?: number;
     start_date?: string;
@@ -567,15 +953,7 @@ export interface UpdateTransactionData {
     notes?: string;
     proof_of_delivery?: string[];
   };
-  dispute?: {
-    is_disputed?: boolean;
-    reason?: string;
-    description?: string;
-    evidence?: string[];
-    resolution?: string;
-    resolved_by?: string;
-    resolved_at?: string;
-  };
+  dispute?: Partial<TransactionDispute>;
   refund?: {
     amount?: number;
     reason?: string;
@@ -592,9 +970,27 @@ export interface UpdateTransactionData {
   }>;
 }
 
+export interface SendMessageData {
+  listing_id: string;
+  sender_id: string;
+  recipient_id: string;
+  message: string;
+  contact?: string;
+}
+
+export interface SubmitVerificationData {
+  user_id: string;
+  steps: Array<{
+    id: VerificationStepId;
+    required: boolean;
+    documents?: File[];
+  }>;
+  references: VerificationReference[];
+}
+
 export interface CreateNotificationData {
   user_id: string;
-  type: 'listing_approved' | 'listing_rejected' | 'payment_received' | 'escrow_released' | 'user_verified' | 'user_rejected' | 'transaction_completed' | 'transaction_cancelled' | 'dispute_initiated' | 'system_announcement' | 'system_message';
+  type: 'listing_approved' | 'listing_rejected' | 'payment_received' | 'escrow_released' | 'escrow_release_reminder' | 'listing_expiring' | 'listing_expired' | 'rent_due' | 'rent_overdue' | 'rental_ended' | 'saved_search_match' | 'contract_signed' | 'user_verified' | 'user_rejected' | 'transaction_completed' | 'transaction_cancelled' | 'dispute_initiated' | 'dispute_resolved' | 'system_announcement' | 'system_message';
   title: string;
   message: string;
   data?: {
@@ -603,6 +999,8 @@ export interface CreateNotificationData {
     amount?: number;
     currency?: string;
     url?: string;
+    saved_search_id?: string; // Set on saved_search_match, with the new listings
+    listing_ids?: string[];
     metadata?: any;
   };
   priority: 'low' | 'medium' | 'high' | 'urgent';
@@ -673,7 +1071,7 @@ export interface ListingFormData {
   price: number;
   currency: 'ETB' | 'USD';
   type: 'sale' | 'rent';
-  rent_period?: 'monthly' | 'yearly' | 'daily';
+  rent_period?: RentPeriod;
   location: {
     city: string;
     subcity: string;
@@ -0,0 +1,32 @@
+// Commission bookkeeping shared by the web app and the escrow edge functions.
+// Keep this file free of imports so it runs unchanged in the browser and in Deno.
+
+// Share of every commission kept by the platform, the rest goes to admins
+export const COMMISSION_DISTRIBUTION = {
+  platform: 80,
+  admin: 20,
+};
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// Split a commission between the platform and admins
+export function splitCommission(commissionAmount: number) {
+  const { platform, admin } = COMMISSION_DISTRIBUTION;
+  const platformAmount = roundAmount((commissionAmount * platform) / 100);
+
+  return {
+    platform: { amount: platformAmount, percentage: platform },
+    admin: { amount: roundAmount(commissionAmount - platformAmount), percentage: admin },
+  };
+}
+
+// What can still go back to the buyer. The commission is never refunded.
+export function getRefundableAmount(transaction: {
+  amount: number;
+  commission?: { amount?: number } | null;
+  refund?: { amount?: number } | null;
+}): number {
+  const refunded = transaction.refund?.amount || 0;
+  const commission = transaction.commission?.amount || 0;
+  return Math.max(0, roundAmount(transaction.amount - commission - refunded));
+}
@@ -0,0 +1,217 @@
+// Contract templates shared by the web app and the escrow edge functions.
+// Keep this file free of imports so it runs unchanged in the browser and in Deno.
+
+export type ContractTemplateId = "vehicle_sale" | "property_sale" | "lease";
+
+export interface ContractTemplate {
+  title: string;
+  // Escrow is not released until the buyer and the seller have both signed
+  signaturesRequired: boolean;
+  // {{placeholders}} are filled by getContractValues
+  body: string;
+}
+
+const GOVERNING_LAW =
+  "This agreement is governed by the laws of the Federal Democratic Republic of Ethiopia. " +
+  "Disputes are first raised through SebahLync dispute resolution.";
+
+export const CONTRACT_TEMPLATES: Record<ContractTemplateId, ContractTemplate> = {
+  vehicle_sale: {
+    title: "Vehicle Sale Agreement",
+    signaturesRequired: true,
+    body: `VEHICLE SALE AGREEMENT
+
+Reference: {{reference}}
+Date: {{contract_date}}
+
+This agreement is made through SebahLync between:
+Seller: {{seller_name}} ({{seller_contact}})
+Buyer: {{buyer_name}} ({{buyer_contact}})
+
+1. Vehicle. The Seller sells to the Buyer the vehicle listed as "{{listing_title}}": {{vehicle_details}}, located in {{location}}.
+
+2. Price. The Buyer pays {{amount}} into SebahLync escrow. The funds are released to the Seller once both parties have signed this agreement and the Buyer confirms receipt, or the escrow hold period ends without a dispute.
+
+3. Handover. The Seller hands over the vehicle, its keys, the title document (libre) and any service records, and completes the transfer of ownership with the road transport authority. The Seller confirms the vehicle is free of loans, liens and unpaid fines.
+
+4. Condition. The vehicle is sold as described in the listing. If it is not, the Buyer may open a dispute on SebahLync before the funds are released.
+
+5. Costs. Transfer fees and taxes are paid as the law requires unless both parties agree otherwise in writing.
+
+6. Governing law. ${GOVERNING_LAW}`,
+  },
+  property_sale: {
+    title: "Property Sale Agreement",
+    signaturesRequired: true,
+    body: `PROPERTY SALE AGREEMENT
+
+Reference: {{reference}}
+Date: {{contract_date}}
+
+This agreement is made through SebahLync between:
+Seller: {{seller_name}} ({{seller_contact}})
+Buyer: {{buyer_name}} ({{buyer_contact}})
+
+1. Property. The Seller sells to the Buyer the {{category}} property listed as "{{listing_title}}", located at {{location}}. Details: {{property_details}}.
+
+2. Price. The Buyer pays {{amount}} into SebahLync escrow. The funds are released to the Seller once both parties have signed this agreement and the Buyer confirms the handover, or the escrow hold period ends without a dispute.
+
+3. Title. The Seller confirms they own the property, that it is free of mortgages and other claims, and will sign the documents needed to register the transfer with the city land administration.
+
+4. Handover. The Seller hands over the property, its keys and its title deed (carta) on the date agreed with the Buyer.
+
+5. Condition. The property is sold as described in the listing. If it is not, the Buyer may open a dispute on SebahLync before the funds are released.
+
+6. Costs. Registration fees and taxes are paid as the law requires unless both parties agree otherwise in writing.
+
+7. Governing law. ${GOVERNING_LAW}`,
+  },
+  lease: {
+    title: "Lease Agreement",
+    signaturesRequired: true,
+    body: `LEASE AGREEMENT
+
+Reference: {{reference}}
+Date: {{contract_date}}
+
+This agreement is made through SebahLync between:
+Landlord: {{seller_name}} ({{seller_contact}})
+Tenant: {{buyer_name}} ({{buyer_contact}})
+
+1. Premises. The Landlord lets to the Tenant the {{category}} listed as "{{listing_title}}", located at {{location}}.
+
+2. Term. The lease runs from {{start_date}} until {{end_date}}.
+
+3. Rent. The rent is {{rent}} per {{rent_period}}, paid through SebahLync on the due dates shown in the rent ledger.
+
+4. Security deposit. The Tenant pays a security deposit of {{amount}}, held in SebahLync escrow for the whole lease. It is returned to the Tenant after the lease ends unless the Landlord opens a dispute for damage or unpaid rent.
+
+5. Use and care. The Tenant keeps the premises in good condition, uses them only as agreed and does not sublet without the Landlord's written consent. The Landlord carries out repairs that are not caused by the Tenant.
+
+6. Ending the lease. Either party may end the lease early only as the law allows or as both parties agree in writing.
+
+7. Governing law. ${GOVERNING_LAW}`,
+  },
+};
+
+// The template for a transaction. Rent payments are covered by the lease
+// signed on their booking's deposit, and "other" listings have no template.
+export function getContractTemplateId(
+  category: string,
+  type: string,
+  isRentPayment = false
+): ContractTemplateId | null {
+  if (type === "rent") return isRentPayment ? null : "lease";
+  if (category === "car") return "vehicle_sale";
+  if (["house", "land", "commercial"].includes(category)) return "property_sale";
+  return null;
+}
+
+export interface ContractParty {
+  full_name?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface ContractInput {
+  transaction: {
+    id: string;
+    amount: number;
+    currency: string;
+    created_at: string;
+    contract?: { start_date?: string; end_date?: string } | null;
+  };
+  listing: {
+    title: string;
+    category: string;
+    price: number;
+    rent_period?: string;
+    location?: { city?: string; subcity?: string; woreda?: string; specific_location?: string };
+    features?: Record<string, unknown>;
+  };
+  buyer: ContractParty;
+  seller: ContractParty;
+}
+
+const RENT_PERIOD_UNITS: Record<string, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+};
+
+function formatAmount(amount: number, currency: string): string {
+  return `${currency} ${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+}
+
+function contact(party: ContractParty): string {
+  return [party.email, party.phone].filter(Boolean).join(", ") || "no contact details";
+}
+
+// Listing features as "label value" pairs, skipping the ones not filled in
+function describe(features: Record<string, unknown>, fields: [string, string, string?][]): string {
+  const parts = fields
+    .filter(([key]) => features[key] !== undefined && features[key] !== null && features[key] !== "")
+    .map(([key, label, unit]) => `${label} ${features[key]}${unit || ""}`);
+
+  return parts.length > 0 ? parts.join(", ") : "as described in the listing";
+}
+
+// Values for a template's placeholders. The date is the transaction's, so the
+// same transaction always renders to the same document.
+export function getContractValues(input: ContractInput): Record<string, string> {
+  const { transaction, listing, buyer, seller } = input;
+  const features = listing.features || {};
+  const location = listing.location || {};
+
+  return {
+    reference: transaction.id,
+    contract_date: transaction.created_at.slice(0, 10),
+    buyer_name: buyer.full_name || "",
+    buyer_contact: contact(buyer),
+    seller_name: seller.full_name || "",
+    seller_contact: contact(seller),
+    listing_title: listing.title,
+    category: listing.category,
+    location: [location.specific_location, location.woreda, location.subcity, location.city].filter(Boolean).join(", "),
+    amount: formatAmount(transaction.amount, transaction.currency),
+    rent: formatAmount(listing.price, transaction.currency),
+    rent_period: RENT_PERIOD_UNITS[listing.rent_period || "monthly"] || "month",
+    start_date: transaction.contract?.start_date || "",
+    end_date: transaction.contract?.end_date || "",
+    vehicle_details: describe(features, [
+      ["make", "make"],
+      ["model", "model"],
+      ["year", "year"],
+      ["mileage", "mileage", " km"],
+      ["color", "colour"],
+    ]),
+    property_details: describe(features, [
+      ["area", "area", " m²"],
+      ["bedrooms", "bedrooms"],
+      ["bathrooms", "bathrooms"],
+      ["floors", "floors"],
+    ]),
+  };
+}
+
+// Fill a template. Missing values are left as blanks to be completed by hand.
+export function renderContract(templateId: ContractTemplateId, values: Record<string, string>): string {
+  return CONTRACT_TEMPLATES[templateId].body.replace(/\{\{(\w+)\}\}/g, (_, key: string) => values[key] || "________");
+}
+
+// SHA-256 of the contract text as hex, the same digest the database stores
+export async function hashContract(terms: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(terms));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Whether escrow may be released as far as the contract is concerned
+export function hasRequiredSignatures(
+  contract?: { signatures_required?: boolean; signed_at?: { buyer?: string; seller?: string } } | null
+): boolean {
+  if (!contract?.signatures_required) return true;
+  return !!contract.signed_at?.buyer && !!contract.signed_at?.seller;
+}
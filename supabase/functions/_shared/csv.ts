@@ -0,0 +1,45 @@
+// Parse CSV text into records of fields, following RFC 4180 quoting.
+// Blank lines are dropped.
+export function parseCsv(text: string): string[][] {
+  // Exports saved from Excel start with a byte order mark
+  const input = text.replace(/^\uFEFF/, "");
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some((value) => value.trim() !== "")) records.push(record);
+    record = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  endRecord();
+  return records;
+}
@@ -0,0 +1,26 @@
+// Escrow hold periods shared by the web app and the escrow edge functions.
+// Keep this file free of imports so it runs unchanged in the browser and in Deno.
+
+// Days funds stay in escrow before they are released automatically
+export const DEFAULT_ESCROW_HOLD_DAYS = 7;
+
+// Property handovers take longer to check than a car, so they are held longer
+export const ESCROW_HOLD_DAYS: Record<string, number> = {
+  car: 5,
+  house: 14,
+  land: 21,
+  commercial: 14,
+  other: 7,
+};
+
+// How long before the automatic release the buyer is reminded
+export const ESCROW_REMINDER_HOURS = 24;
+
+export function getEscrowHoldDays(category?: string | null): number {
+  return (category && ESCROW_HOLD_DAYS[category]) || DEFAULT_ESCROW_HOLD_DAYS;
+}
+
+// When escrow for a listing category is released if nobody acts
+export function getEscrowReleaseAt(category?: string | null, from: Date = new Date()): string {
+  return new Date(from.getTime() + getEscrowHoldDays(category) * 24 * 60 * 60 * 1000).toISOString();
+}
@@ -0,0 +1,185 @@
+import { TransactionStatus } from "../transactionStateMachine.ts";
+import { verifyHmacSignature } from "../signatures.ts";
+import { PaymentGatewayAdapter } from "./types.ts";
+import { amountField, field } from "./payload.ts";
+
+const BASE_URL = "https://api.bibit.com/v1";
+
+function getConfig() {
+  return {
+    apiKey: Deno.env.get("BIBIT_API_KEY") || "",
+    merchantId: Deno.env.get("BIBIT_MERCHANT_ID") || "",
+  };
+}
+
+interface BibitWebhookData {
+  id?: string;
+  event_id?: string;
+  reference?: string;
+  status?: string;
+  amount?: {
+    value?: number | string;
+    currency?: string;
+  };
+  data?: {
+    reference?: string;
+    status?: string;
+  };
+}
+
+function mapStatus(gatewayStatus: string): TransactionStatus {
+  if (gatewayStatus === "success" || gatewayStatus === "completed") return "payment_completed";
+  if (gatewayStatus === "failed") return "cancelled";
+  return "payment_initiated";
+}
+
+export const bibit: PaymentGatewayAdapter = {
+  name: "bibit",
+  label: "Bibit",
+  referenceField: "bibit_reference",
+  settlementColumns: {
+    reference: ["reference", "merchantreference"],
+    amount: ["amount", "value"],
+    currency: ["currency"],
+    settledAt: ["settledat", "date"],
+  },
+  mapStatus,
+
+  isConfigured() {
+    const config = getConfig();
+    return !!config.apiKey && !!config.merchantId;
+  },
+
+  async initialize(request) {
+    const config = getConfig();
+    const reference = `SBL_${request.transactionId}_${Date.now()}`;
+
+    const response = await fetch(`${BASE_URL}/payments/initialize`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        merchantId: config.merchantId,
+        reference,
+        amount: {
+          value: request.amount.toString(),
+          currency: request.currency.toUpperCase(),
+        },
+        customer: {
+          email: request.customer.email,
+          phone: request.customer.phone,
+        },
+        description: request.description,
+        callbackUrl: request.callbackUrl,
+        returnUrl: request.returnUrl,
+        metadata: {
+          transaction_id: request.transactionId,
+          listing_id: request.listingId,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("Bibit initialize error:", await response.text());
+      return { success: false, message: `Failed to initialize payment: ${response.status}` };
+    }
+
+    const data = await response.json();
+    const checkoutUrl = data.data?.authorization_url || data.authorization_url;
+
+    if ((data.status === "success" || data.success) && checkoutUrl) {
+      return {
+        success: true,
+        checkoutUrl,
+        paymentDetails: { bibit_reference: reference },
+      };
+    }
+
+    return { success: false, message: data.message || "Failed to initialize Bibit payment" };
+  },
+
+  async verify(transaction) {
+    const reference = transaction.payment_details?.bibit_reference;
+    if (!reference) return { success: false, message: "Bibit reference not found" };
+
+    const response = await fetch(`${BASE_URL}/payments/verify/${reference}`, {
+      headers: { "Authorization": `Bearer ${getConfig().apiKey}` },
+    });
+
+    const data = await response.json();
+
+    if (data.status === "success" && data.data) {
+      return {
+        success: true,
+        paid: mapStatus(data.data.status) === "payment_completed",
+        status: data.data.status,
+        amount: Number(data.data.amount?.value ?? data.data.amount),
+        currency: data.data.amount?.currency || data.data.currency,
+        data: data.data,
+      };
+    }
+
+    return { success: false, message: data.message || "Payment verification failed" };
+  },
+
+  async refund(transaction, amount, reason) {
+    const config = getConfig();
+    const reference = transaction.payment_details?.bibit_reference;
+    if (!reference) return { success: false, message: "Bibit reference not found" };
+
+    const response = await fetch(`${BASE_URL}/payments/refund`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({
+        merchant_id: config.merchantId,
+        reference,
+        amount: amount.toFixed(2),
+        currency: transaction.currency,
+        reason: reason || "Refund",
+      }),
+    });
+
+    const data = await response.json();
+
+    if (data.status === "success" && data.data) {
+      return {
+        success: true,
+        reference: data.data.refund_reference || data.data.reference,
+        data: data.data,
+      };
+    }
+
+    return { success: false, message: data.message || "Bibit refund failed" };
+  },
+
+  verifyWebhookSignature(req, rawBody) {
+    return verifyHmacSignature(
+      Deno.env.get("BIBIT_WEBHOOK_SECRET"),
+      rawBody,
+      req.headers.get("x-bibit-signature")
+    );
+  },
+
+  parseWebhook(payload) {
+    const webhookData = payload as BibitWebhookData;
+
+    const reference = field(webhookData.reference ?? webhookData.data?.reference);
+    if (!reference) return null;
+
+    const gatewayStatus = field(webhookData.status ?? webhookData.data?.status) || "pending";
+
+    return {
+      eventId: field(webhookData.event_id ?? webhookData.id) || `${reference}:${gatewayStatus}`,
+      reference,
+      gatewayStatus,
+      status: mapStatus(gatewayStatus),
+      amount: amountField(webhookData.amount?.value),
+      currency: field(webhookData.amount?.currency),
+    };
+  },
+};
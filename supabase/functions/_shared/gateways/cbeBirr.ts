@@ -0,0 +1,172 @@
+import { TransactionStatus } from "../transactionStateMachine.ts";
+import { verifyHmacSignature } from "../signatures.ts";
+import { PaymentGatewayAdapter } from "./types.ts";
+import { amountField, field } from "./payload.ts";
+
+// CBE issues the API URL together with the merchant credentials
+function getConfig() {
+  return {
+    apiUrl: (Deno.env.get("CBE_BIRR_API_URL") || "").replace(/\/$/, ""),
+    apiKey: Deno.env.get("CBE_BIRR_API_KEY") || "",
+    merchantId: Deno.env.get("CBE_BIRR_MERCHANT_ID") || "",
+  };
+}
+
+function headers() {
+  return {
+    "Content-Type": "application/json",
+    "Authorization": `Bearer ${getConfig().apiKey}`,
+  };
+}
+
+interface CbeBirrWebhookData {
+  eventId?: string;
+  orderId?: string;
+  paymentId?: string;
+  status?: string;
+  amount?: number | string;
+  currency?: string;
+}
+
+function mapStatus(gatewayStatus: string): TransactionStatus {
+  const status = gatewayStatus.toUpperCase();
+  if (status === "PAID" || status === "COMPLETED") return "payment_completed";
+  if (status === "FAILED" || status === "CANCELLED" || status === "EXPIRED") return "cancelled";
+  return "payment_initiated";
+}
+
+export const cbeBirr: PaymentGatewayAdapter = {
+  name: "cbe_birr",
+  label: "CBE Birr",
+  referenceField: "cbe_order_id",
+  settlementColumns: {
+    reference: ["orderid", "merchantorderid"],
+    amount: ["amount"],
+    currency: ["currency"],
+    settledAt: ["paidat", "transactiondate", "date"],
+  },
+  mapStatus,
+
+  isConfigured() {
+    const config = getConfig();
+    return !!config.apiUrl && !!config.apiKey && !!config.merchantId;
+  },
+
+  async initialize(request) {
+    if (request.currency !== "ETB") {
+      return { success: false, message: "CBE Birr only accepts payments in ETB" };
+    }
+
+    const config = getConfig();
+    const orderId = `SBL_${request.transactionId}_${Date.now()}`;
+
+    const response = await fetch(`${config.apiUrl}/payments`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify({
+        merchantId: config.merchantId,
+        orderId,
+        amount: request.amount.toFixed(2),
+        currency: request.currency,
+        description: request.description,
+        payerPhone: request.customer.phone,
+        callbackUrl: request.callbackUrl,
+        returnUrl: request.returnUrl,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("CBE Birr initialize error:", await response.text());
+      return { success: false, message: `Failed to initialize payment: ${response.status}` };
+    }
+
+    const data = await response.json();
+
+    if (data.status === "success" && data.data?.checkoutUrl) {
+      return {
+        success: true,
+        checkoutUrl: data.data.checkoutUrl,
+        paymentDetails: { cbe_order_id: orderId, cbe_payment_id: data.data.paymentId },
+      };
+    }
+
+    return { success: false, message: data.message || "Failed to initialize CBE Birr payment" };
+  },
+
+  async verify(transaction) {
+    const orderId = transaction.payment_details?.cbe_order_id;
+    if (!orderId) return { success: false, message: "CBE Birr order ID not found" };
+
+    const response = await fetch(`${getConfig().apiUrl}/payments/${orderId}`, {
+      headers: headers(),
+    });
+
+    const data = await response.json();
+
+    if (data.status === "success" && data.data) {
+      return {
+        success: true,
+        paid: mapStatus(data.data.status) === "payment_completed",
+        status: data.data.status,
+        amount: Number(data.data.amount),
+        currency: data.data.currency || "ETB",
+        data: data.data,
+      };
+    }
+
+    return { success: false, message: data.message || "Payment verification failed" };
+  },
+
+  async refund(transaction, amount, reason) {
+    const orderId = transaction.payment_details?.cbe_order_id;
+    if (!orderId) return { success: false, message: "CBE Birr order ID not found" };
+
+    const response = await fetch(`${getConfig().apiUrl}/payments/${orderId}/refunds`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify({
+        amount: amount.toFixed(2),
+        reason: reason || "Refund",
+        refundRequestId: `SBL_RF_${transaction.id}_${Date.now()}`,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (data.status === "success" && data.data) {
+      return {
+        success: true,
+        reference: data.data.refundId,
+        data: data.data,
+      };
+    }
+
+    return { success: false, message: data.message || "CBE Birr refund failed" };
+  },
+
+  verifyWebhookSignature(req, rawBody) {
+    return verifyHmacSignature(
+      Deno.env.get("CBE_BIRR_WEBHOOK_SECRET"),
+      rawBody,
+      req.headers.get("x-cbe-signature")
+    );
+  },
+
+  parseWebhook(payload) {
+    const webhookData = payload as CbeBirrWebhookData;
+
+    const orderId = field(webhookData.orderId);
+    if (!orderId) return null;
+
+    const gatewayStatus = field(webhookData.status) || "PENDING";
+
+    return {
+      eventId: field(webhookData.eventId) || `${field(webhookData.paymentId) || orderId}:${gatewayStatus}`,
+      reference: orderId,
+      gatewayStatus,
+      status: mapStatus(gatewayStatus),
+      amount: amountField(webhookData.amount),
+      currency: field(webhookData.currency) || "ETB",
+    };
+  },
+};
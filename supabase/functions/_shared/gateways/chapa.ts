@@ -0,0 +1,173 @@
+import { TransactionStatus } from "../transactionStateMachine.ts";
+import { verifyHmacSignature } from "../signatures.ts";
+import { PaymentGatewayAdapter } from "./types.ts";
+import { amountField, field } from "./payload.ts";
+
+const BASE_URL = "https://api.chapa.co/v1";
+
+const secretKey = () => Deno.env.get("CHAPA_SECRET_KEY") || "";
+
+interface ChapaWebhookData {
+  event?: string;
+  reference?: string;
+  tx_ref?: string;
+  status?: string;
+  amount?: number | string;
+  currency?: string;
+  // Older payloads nest the charge under data
+  data?: {
+    tx_ref?: string;
+    reference?: string;
+    transaction_id?: string;
+    status?: string;
+    amount?: number | string;
+    currency?: string;
+  };
+}
+
+function mapStatus(gatewayStatus: string): TransactionStatus {
+  if (gatewayStatus === "success" || gatewayStatus === "successful") return "payment_completed";
+  if (gatewayStatus === "failed") return "cancelled";
+  return "payment_initiated";
+}
+
+export const chapa: PaymentGatewayAdapter = {
+  name: "chapa",
+  label: "Chapa",
+  referenceField: "tx_ref",
+  settlementColumns: {
+    reference: ["txref", "reference"],
+    amount: ["amount"],
+    currency: ["currency"],
+    settledAt: ["createdat", "date"],
+  },
+  mapStatus,
+
+  isConfigured() {
+    return !!secretKey();
+  },
+
+  async initialize(request) {
+    const txRef = `SBL_${request.transactionId}_${Date.now()}`;
+    const [firstName, ...lastName] = (request.customer.name || "").split(" ");
+
+    const response = await fetch(`${BASE_URL}/transaction/initialize`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${secretKey()}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        amount: request.amount.toString(),
+        currency: request.currency,
+        email: request.customer.email,
+        phone_number: request.customer.phone,
+        first_name: firstName || undefined,
+        last_name: lastName.join(" ") || undefined,
+        tx_ref: txRef,
+        callback_url: request.callbackUrl,
+        return_url: request.returnUrl,
+        customization: {
+          title: "SebahLync",
+          description: request.description,
+        },
+      }),
+    });
+
+    const data = await response.json();
+
+    if (response.ok && data.status === "success" && data.data?.checkout_url) {
+      return {
+        success: true,
+        checkoutUrl: data.data.checkout_url,
+        paymentDetails: { tx_ref: txRef },
+      };
+    }
+
+    console.error("Chapa initialize error:", data);
+    return { success: false, message: data.message || "Failed to initialize Chapa payment" };
+  },
+
+  async verify(transaction) {
+    const txRef = transaction.payment_details?.tx_ref;
+    if (!txRef) return { success: false, message: "Transaction reference not found" };
+
+    const response = await fetch(`${BASE_URL}/transaction/verify/${txRef}`, {
+      headers: { "Authorization": `Bearer ${secretKey()}` },
+    });
+
+    const data = await response.json();
+
+    if (data.status === "success" && data.data) {
+      return {
+        success: true,
+        paid: mapStatus(data.data.status) === "payment_completed",
+        status: data.data.status,
+        amount: Number(data.data.amount),
+        currency: data.data.currency,
+        data: data.data,
+      };
+    }
+
+    return { success: false, message: data.message || "Payment verification failed" };
+  },
+
+  async refund(transaction, amount, reason) {
+    const txRef = transaction.payment_details?.tx_ref;
+    if (!txRef) return { success: false, message: "Transaction reference not found" };
+
+    const response = await fetch(`${BASE_URL}/refund/${txRef}`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${secretKey()}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        amount: amount.toFixed(2),
+        reason: reason || "Refund",
+        meta: { transaction_id: transaction.id },
+      }),
+    });
+
+    const data = await response.json();
+
+    if (response.ok && data.status === "success") {
+      return {
+        success: true,
+        reference: data.data?.refund_reference || data.data?.reference || String(txRef),
+        data: data.data,
+      };
+    }
+
+    return { success: false, message: data.message || "Chapa refund failed" };
+  },
+
+  // Chapa signs the raw body with the webhook secret set in its dashboard
+  verifyWebhookSignature(req, rawBody) {
+    return verifyHmacSignature(
+      Deno.env.get("CHAPA_WEBHOOK_SECRET"),
+      rawBody,
+      req.headers.get("x-chapa-signature") || req.headers.get("chapa-signature")
+    );
+  },
+
+  parseWebhook(payload) {
+    const webhookData = payload as ChapaWebhookData;
+    const charge = webhookData.data || webhookData;
+
+    const txRef = field(charge.tx_ref ?? webhookData.tx_ref);
+    if (!txRef) return null;
+
+    const gatewayStatus = field(charge.status ?? webhookData.status) || "pending";
+    const chapaReference = field(charge.reference ?? webhookData.reference ?? webhookData.data?.transaction_id);
+
+    return {
+      eventId: `${chapaReference || txRef}:${gatewayStatus}`,
+      reference: txRef,
+      gatewayStatus,
+      status: mapStatus(gatewayStatus),
+      amount: amountField(charge.amount ?? webhookData.amount),
+      currency: field(charge.currency ?? webhookData.currency),
+    };
+  },
+};
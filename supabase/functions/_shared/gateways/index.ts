@@ -0,0 +1,25 @@
+import { PaymentGatewayAdapter } from "./types.ts";
+import { chapa } from "./chapa.ts";
+import { telebirr } from "./telebirr.ts";
+import { bibit } from "./bibit.ts";
+import { cbeBirr } from "./cbeBirr.ts";
+import { mpesa } from "./mpesa.ts";
+import { sandbox } from "./sandbox.ts";
+
+export * from "./types.ts";
+
+// Adapters by transactions.payment_method. A new gateway is one adapter file
+// plus an entry here.
+export const gateways: Record<string, PaymentGatewayAdapter> = {
+  chapa,
+  telebirr,
+  bibit,
+  cbe_birr: cbeBirr,
+  mpesa,
+  sandbox,
+};
+
+// Where each gateway posts its payment callbacks, handled by payment-webhook
+export function getWebhookUrl(method: string): string {
+  return `${Deno.env.get("SUPABASE_URL")}/functions/v1/payment-webhook/${method}`;
+}
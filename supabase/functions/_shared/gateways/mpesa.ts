@@ -0,0 +1,240 @@
+import { TransactionStatus } from "../transactionStateMachine.ts";
+import { timingSafeEqual } from "../signatures.ts";
+import { PaymentGatewayAdapter } from "./types.ts";
+import { amountField, field } from "./payload.ts";
+
+// Safaricom M-Pesa Ethiopia (Daraja). Payments are STK pushes: the buyer
+// confirms on their phone instead of on a checkout page.
+
+function getConfig() {
+  return {
+    baseUrl: (Deno.env.get("MPESA_BASE_URL") || "https://api.safaricom.et").replace(/\/$/, ""),
+    consumerKey: Deno.env.get("MPESA_CONSUMER_KEY") || "",
+    consumerSecret: Deno.env.get("MPESA_CONSUMER_SECRET") || "",
+    shortCode: Deno.env.get("MPESA_SHORT_CODE") || "",
+    passkey: Deno.env.get("MPESA_PASSKEY") || "",
+    webhookSecret: Deno.env.get("MPESA_WEBHOOK_SECRET") || "",
+  };
+}
+
+interface MpesaCallbackItem {
+  Name: string;
+  Value?: number | string;
+}
+
+interface MpesaWebhookData {
+  Body?: {
+    stkCallback?: {
+      MerchantRequestID?: string;
+      CheckoutRequestID?: string;
+      ResultCode?: number | string;
+      ResultDesc?: string;
+      CallbackMetadata?: { Item?: MpesaCallbackItem[] };
+    };
+  };
+}
+
+// ResultCode 0 is a completed payment, any other code is a failed or
+// cancelled one. Without a code the buyer has not answered yet.
+function mapStatus(gatewayStatus: string): TransactionStatus {
+  if (gatewayStatus === "0") return "payment_completed";
+  if (/^\d+$/.test(gatewayStatus)) return "cancelled";
+  return "payment_initiated";
+}
+
+// Daraja timestamps are East Africa Time, YYYYMMDDHHmmss
+function getTimestamp(): string {
+  const eat = new Date(Date.now() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[^0-9]/g, "").slice(0, 14);
+}
+
+function getPassword(timestamp: string): string {
+  const config = getConfig();
+  return btoa(`${config.shortCode}${config.passkey}${timestamp}`);
+}
+
+// M-Pesa needs a Safaricom number in 2517XXXXXXXX form
+function normalizePhone(phone?: string): string | null {
+  const digits = (phone || "").replace(/\D/g, "");
+  const normalized = digits.startsWith("251") ? digits
+    : digits.startsWith("0") ? `251${digits.slice(1)}`
+    : `251${digits}`;
+
+  return /^2517\d{8}$/.test(normalized) ? normalized : null;
+}
+
+async function getAccessToken(): Promise<string | null> {
+  const config = getConfig();
+
+  const response = await fetch(`${config.baseUrl}/v1/token/generate?grant_type=client_credentials`, {
+    headers: { "Authorization": `Basic ${btoa(`${config.consumerKey}:${config.consumerSecret}`)}` },
+  });
+
+  if (!response.ok) {
+    console.error("M-Pesa token error:", await response.text());
+    return null;
+  }
+
+  const data = await response.json();
+  return data.access_token || null;
+}
+
+export const mpesa: PaymentGatewayAdapter = {
+  name: "mpesa",
+  label: "M-Pesa",
+  referenceField: "mpesa_checkout_request_id",
+  settlementColumns: {
+    reference: ["checkoutrequestid"],
+    amount: ["amount"],
+    currency: ["currency"],
+    settledAt: ["transactiondate", "completiontime", "date"],
+  },
+  mapStatus,
+
+  isConfigured() {
+    const config = getConfig();
+    return !!config.consumerKey && !!config.consumerSecret && !!config.shortCode &&
+      !!config.passkey && !!config.webhookSecret;
+  },
+
+  async initialize(request) {
+    if (request.currency !== "ETB") {
+      return { success: false, message: "M-Pesa only accepts payments in ETB" };
+    }
+
+    const phone = normalizePhone(request.customer.phone);
+    if (!phone) {
+      return { success: false, message: "Add your Safaricom M-Pesa number (07...) to your profile to pay with M-Pesa" };
+    }
+
+    const token = await getAccessToken();
+    if (!token) return { success: false, message: "Failed to connect to M-Pesa" };
+
+    const config = getConfig();
+    const timestamp = getTimestamp();
+    const merchantRequestId = `SBL_${request.transactionId}_${Date.now()}`;
+
+    // Daraja callbacks are not signed, so the callback URL carries a secret token
+    const callbackUrl = `${request.callbackUrl}?token=${encodeURIComponent(config.webhookSecret)}`;
+
+    const response = await fetch(`${config.baseUrl}/mpesa/stkpush/v3/processrequest`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        MerchantRequestID: merchantRequestId,
+        BusinessShortCode: config.shortCode,
+        Password: getPassword(timestamp),
+        Timestamp: timestamp,
+        TransactionType: "CustomerPayBillOnline",
+        Amount: Math.round(request.amount),
+        PartyA: phone,
+        PartyB: config.shortCode,
+        PhoneNumber: phone,
+        CallBackURL: callbackUrl,
+        AccountReference: request.transactionId.slice(0, 12),
+        TransactionDesc: request.description.slice(0, 100),
+      }),
+    });
+
+    const data = await response.json();
+
+    if (response.ok && String(data.ResponseCode) === "0" && data.CheckoutRequestID) {
+      return {
+        success: true,
+        // Nothing to redirect to: the buyer waits on the return page while
+        // they confirm on their phone
+        checkoutUrl: `${request.returnUrl}&awaiting=phone`,
+        paymentDetails: {
+          mpesa_checkout_request_id: data.CheckoutRequestID,
+          mpesa_merchant_request_id: data.MerchantRequestID || merchantRequestId,
+        },
+      };
+    }
+
+    console.error("M-Pesa initialize error:", data);
+    return { success: false, message: data.errorMessage || data.ResponseDescription || "Failed to initialize M-Pesa payment" };
+  },
+
+  async verify(transaction) {
+    const checkoutRequestId = transaction.payment_details?.mpesa_checkout_request_id;
+    if (!checkoutRequestId) return { success: false, message: "M-Pesa checkout request not found" };
+
+    const token = await getAccessToken();
+    if (!token) return { success: false, message: "Failed to connect to M-Pesa" };
+
+    const config = getConfig();
+    const timestamp = getTimestamp();
+
+    const response = await fetch(`${config.baseUrl}/mpesa/stkpushquery/v1/query`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        BusinessShortCode: config.shortCode,
+        Password: getPassword(timestamp),
+        Timestamp: timestamp,
+        CheckoutRequestID: checkoutRequestId,
+      }),
+    });
+
+    const data = await response.json();
+
+    // Daraja answers with an error code while the buyer has not responded
+    if (data.errorCode) {
+      return { success: true, paid: false, status: "pending", data };
+    }
+
+    if (response.ok && data.ResultCode !== undefined) {
+      const status = String(data.ResultCode);
+      return {
+        success: true,
+        paid: mapStatus(status) === "payment_completed",
+        status,
+        currency: "ETB",
+        data,
+      };
+    }
+
+    return { success: false, message: data.ResultDesc || "Payment verification failed" };
+  },
+
+  // Reversals are asynchronous and need initiator credentials, so they are
+  // made from the M-Pesa organisation portal
+  refund() {
+    return Promise.resolve({
+      success: false,
+      message: "M-Pesa payments are refunded as a reversal from the M-Pesa organisation portal",
+    });
+  },
+
+  verifyWebhookSignature(req) {
+    const secret = getConfig().webhookSecret;
+    const token = new URL(req.url).searchParams.get("token");
+    return Promise.resolve(!!secret && !!token && timingSafeEqual(secret, token));
+  },
+
+  parseWebhook(payload) {
+    const callback = (payload as MpesaWebhookData).Body?.stkCallback;
+
+    const checkoutRequestId = field(callback?.CheckoutRequestID);
+    if (!callback || !checkoutRequestId) return null;
+
+    const gatewayStatus = field(callback.ResultCode) || "pending";
+    const items = callback.CallbackMetadata?.Item || [];
+    const item = (name: string) => items.find((entry) => entry.Name === name)?.Value;
+
+    return {
+      eventId: `${checkoutRequestId}:${gatewayStatus}`,
+      reference: checkoutRequestId,
+      gatewayStatus,
+      status: mapStatus(gatewayStatus),
+      amount: amountField(item("Amount")),
+      currency: "ETB",
+    };
+  },
+};
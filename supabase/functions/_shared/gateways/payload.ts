@@ -0,0 +1,10 @@
+// Read optional fields from gateway payloads, which mix strings and numbers
+
+export function field(value: unknown): string | undefined {
+  return value === undefined || value === null || value === "" ? undefined : String(value);
+}
+
+export function amountField(value: unknown): number | undefined {
+  const text = field(value);
+  return text === undefined ? undefined : Number(text);
+}
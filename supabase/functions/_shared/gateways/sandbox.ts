@@ -0,0 +1,110 @@
+import { TransactionStatus } from "../transactionStateMachine.ts";
+import { hmacSha256Hex, verifyHmacSignature } from "../signatures.ts";
+import { PaymentGatewayAdapter } from "./types.ts";
+import { amountField, field } from "./payload.ts";
+
+// Built-in test gateway. No money moves: the payment-sandbox function plays
+// the gateway, records what was "paid" on the transaction and posts webhooks.
+// Only usable where PAYMENT_SANDBOX_ENABLED=true, never set it in production.
+
+export function isSandboxEnabled(): boolean {
+  return Deno.env.get("PAYMENT_SANDBOX_ENABLED") === "true";
+}
+
+// Both ends of the sandbox run in this project, so the service role key
+// doubles as the webhook secret
+const webhookSecret = () => Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+export function signSandboxWebhook(rawBody: string): Promise<string> {
+  return hmacSha256Hex(webhookSecret(), rawBody);
+}
+
+interface SandboxWebhookData {
+  event_id?: string;
+  reference?: string;
+  status?: string;
+  amount?: number | string;
+  currency?: string;
+}
+
+function mapStatus(gatewayStatus: string): TransactionStatus {
+  if (gatewayStatus === "paid") return "payment_completed";
+  if (gatewayStatus === "failed") return "cancelled";
+  return "payment_initiated";
+}
+
+export const sandbox: PaymentGatewayAdapter = {
+  name: "sandbox",
+  label: "Sandbox",
+  referenceField: "sandbox_reference",
+  settlementColumns: {
+    reference: ["reference"],
+    amount: ["amount"],
+    currency: ["currency"],
+    settledAt: ["date"],
+  },
+  mapStatus,
+
+  isConfigured() {
+    return isSandboxEnabled();
+  },
+
+  initialize(request) {
+    const reference = `SBX_${request.transactionId}_${Date.now()}`;
+
+    // The checkout page is part of the web app, next to the return page
+    const checkoutUrl = `${new URL(request.returnUrl).origin}/payment/sandbox?transaction=${request.transactionId}`;
+
+    return Promise.resolve({
+      success: true,
+      checkoutUrl,
+      paymentDetails: { sandbox_reference: reference, sandbox_status: "pending" },
+    });
+  },
+
+  // payment-sandbox stores the outcome of the chosen scenario on the transaction
+  verify(transaction) {
+    const details = transaction.payment_details || {};
+    const status = field(details.sandbox_status) || "pending";
+
+    return Promise.resolve({
+      success: true,
+      paid: mapStatus(status) === "payment_completed",
+      status,
+      amount: amountField(details.sandbox_amount),
+      currency: transaction.currency,
+      data: { sandbox_reference: details.sandbox_reference, sandbox_status: status },
+    });
+  },
+
+  refund(transaction, amount) {
+    return Promise.resolve({
+      success: true,
+      reference: `SBX_RF_${transaction.id}_${Date.now()}`,
+      data: { amount },
+    });
+  },
+
+  async verifyWebhookSignature(req, rawBody) {
+    if (!isSandboxEnabled()) return false;
+    return await verifyHmacSignature(webhookSecret(), rawBody, req.headers.get("x-sandbox-signature"));
+  },
+
+  parseWebhook(payload) {
+    const webhookData = payload as SandboxWebhookData;
+
+    const reference = field(webhookData.reference);
+    if (!reference) return null;
+
+    const gatewayStatus = field(webhookData.status) || "pending";
+
+    return {
+      eventId: field(webhookData.event_id) || `${reference}:${gatewayStatus}`,
+      reference,
+      gatewayStatus,
+      status: mapStatus(gatewayStatus),
+      amount: amountField(webhookData.amount),
+      currency: field(webhookData.currency),
+    };
+  },
+};
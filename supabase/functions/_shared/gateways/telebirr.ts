@@ -0,0 +1,204 @@
+import { TransactionStatus } from "../transactionStateMachine.ts";
+import { verifyRsaSha256Signature } from "../signatures.ts";
+import { PaymentGatewayAdapter } from "./types.ts";
+import { amountField, field } from "./payload.ts";
+
+const BASE_URL = "https://app.telebirr.com/api/api";
+
+function getConfig() {
+  return {
+    fabricAppId: Deno.env.get("TELEBIRR_FABRIC_APP_ID") || "",
+    appSecret: Deno.env.get("TELEBIRR_APP_SECRET") || "",
+    merchantId: Deno.env.get("TELEBIRR_MERCHANT_ID") || "",
+    shortCode: Deno.env.get("TELEBIRR_SHORT_CODE") || "",
+  };
+}
+
+interface TelebirrWebhookData {
+  outTradeNo?: string;
+  transactionId?: string;
+  status?: string;
+  amount?: number | string;
+  totalAmount?: number | string;
+  currency?: string;
+  timestamp?: string;
+  sign?: string;
+  sign_type?: string;
+}
+
+function mapStatus(gatewayStatus: string): TransactionStatus {
+  if (gatewayStatus === "SUCCESS" || gatewayStatus === "successful") return "payment_completed";
+  if (gatewayStatus === "FAILED" || gatewayStatus === "failed") return "cancelled";
+  return "payment_initiated";
+}
+
+// Telebirr signs every field except the signature itself, sorted by name and
+// joined as key=value pairs
+function getSignedContent(payload: Record<string, unknown>): string {
+  return Object.keys(payload)
+    .filter((key) => key !== "sign" && key !== "sign_type" && field(payload[key]) !== undefined)
+    .sort()
+    .map((key) => {
+      const value = payload[key];
+      return `${key}=${typeof value === "object" ? JSON.stringify(value) : String(value)}`;
+    })
+    .join("&");
+}
+
+function headers() {
+  const config = getConfig();
+  return {
+    "Content-Type": "application/json",
+    "X-APP-Key": config.fabricAppId,
+    "Authorization": `Bearer ${config.appSecret}`,
+  };
+}
+
+export const telebirr: PaymentGatewayAdapter = {
+  name: "telebirr",
+  label: "Telebirr",
+  referenceField: "order_id",
+  settlementColumns: {
+    reference: ["merchorderid", "outtradeno", "orderid"],
+    amount: ["totalamount", "amount"],
+    currency: ["transcurrency", "currency"],
+    settledAt: ["transendtime", "transtime", "date"],
+  },
+  mapStatus,
+
+  isConfigured() {
+    const config = getConfig();
+    return !!config.fabricAppId && !!config.appSecret && !!config.merchantId;
+  },
+
+  async initialize(request) {
+    const config = getConfig();
+    const orderId = `SBL_${request.transactionId}_${Date.now()}`;
+
+    const response = await fetch(`${BASE_URL}/payment/v1.0.0/create-payment`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify({
+        outTradeNo: orderId,
+        subject: request.description,
+        totalAmount: request.amount.toString(),
+        shortCode: config.shortCode || config.merchantId,
+        notifyUrl: request.callbackUrl,
+        returnUrl: request.returnUrl,
+        receiveName: request.customer.name,
+        appId: config.fabricAppId,
+        timeoutExpress: "30m",
+        account: config.merchantId,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("Telebirr initialize error:", await response.text());
+      return { success: false, message: `Failed to initialize payment: ${response.status}` };
+    }
+
+    const data = await response.json();
+    const checkoutUrl = data.data?.toPayUrl || data.toPayUrl;
+
+    if ((data.code === "200" || data.success) && checkoutUrl) {
+      return {
+        success: true,
+        checkoutUrl,
+        paymentDetails: { order_id: orderId },
+      };
+    }
+
+    return { success: false, message: data.message || "Failed to initialize Telebirr payment" };
+  },
+
+  async verify(transaction) {
+    const orderId = transaction.payment_details?.order_id;
+    if (!orderId) return { success: false, message: "Order ID not found" };
+
+    const response = await fetch(`${BASE_URL}/payment/v1.0.0/query-payment/${orderId}`, {
+      headers: headers(),
+    });
+
+    const data = await response.json();
+
+    if (data.code === "200" && data.data) {
+      return {
+        success: true,
+        paid: mapStatus(data.data.status) === "payment_completed",
+        status: data.data.status,
+        amount: Number(data.data.totalAmount),
+        currency: "ETB",
+        data: data.data,
+      };
+    }
+
+    return { success: false, message: data.message || "Payment verification failed" };
+  },
+
+  async refund(transaction, amount, reason) {
+    const config = getConfig();
+    const orderId = transaction.payment_details?.order_id;
+    if (!orderId) return { success: false, message: "Order ID not found" };
+
+    const refundRequestNo = `SBL_RF_${transaction.id}_${Date.now()}`;
+
+    const response = await fetch(`${BASE_URL}/payment/v1.0.0/refund`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify({
+        merchantAppId: config.merchantId,
+        merchantCode: config.shortCode,
+        outTradeNo: orderId,
+        refundRequestNo,
+        refundAmount: amount.toFixed(2),
+        refundReason: reason || "Refund",
+      }),
+    });
+
+    const data = await response.json();
+
+    if (data.code === "200" && data.data) {
+      return {
+        success: true,
+        reference: data.data.refundOrderId || refundRequestNo,
+        data: data.data,
+      };
+    }
+
+    return { success: false, message: data.message || "Telebirr refund failed" };
+  },
+
+  verifyWebhookSignature(_req, rawBody) {
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return Promise.resolve(false);
+    }
+
+    return verifyRsaSha256Signature(
+      Deno.env.get("TELEBIRR_PUBLIC_KEY"),
+      getSignedContent(payload),
+      field(payload.sign) ?? null
+    );
+  },
+
+  parseWebhook(payload) {
+    const webhookData = payload as TelebirrWebhookData;
+
+    const orderId = field(webhookData.outTradeNo);
+    if (!orderId) return null;
+
+    const gatewayStatus = field(webhookData.status) || "pending";
+
+    return {
+      eventId: `${field(webhookData.transactionId) || orderId}:${gatewayStatus}`,
+      reference: orderId,
+      gatewayStatus,
+      status: mapStatus(gatewayStatus),
+      amount: amountField(webhookData.totalAmount ?? webhookData.amount),
+      // Telebirr only settles in birr
+      currency: field(webhookData.currency) || "ETB",
+    };
+  },
+};
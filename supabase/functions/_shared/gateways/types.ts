@@ -0,0 +1,94 @@
+import { TransactionStatus } from "../transactionStateMachine.ts";
+
+// What every payment gateway adapter provides to the payment API functions and
+// the webhook router. Gateway secrets are read from the function environment
+// and never leave it.
+
+export interface GatewayCustomer {
+  email?: string;
+  phone?: string;
+  name?: string;
+}
+
+export interface InitializeRequest {
+  transactionId: string;
+  listingId: string;
+  amount: number;
+  currency: string;
+  customer: GatewayCustomer;
+  description: string;
+  callbackUrl: string;
+  returnUrl: string;
+}
+
+export interface InitializeResult {
+  success: boolean;
+  checkoutUrl?: string;
+  // Gateway references merged into transactions.payment_details
+  paymentDetails?: Record<string, unknown>;
+  message?: string;
+}
+
+export interface VerifyResult {
+  success: boolean;
+  paid?: boolean;
+  status?: string;
+  amount?: number;
+  currency?: string;
+  data?: Record<string, unknown>;
+  message?: string;
+}
+
+export interface RefundResult {
+  success: boolean;
+  reference?: string;
+  data?: Record<string, unknown>;
+  message?: string;
+}
+
+export interface GatewayTransaction {
+  id: string;
+  currency: string;
+  payment_details?: Record<string, unknown> | null;
+}
+
+// A gateway callback reduced to what the webhook router needs
+export interface WebhookEvent {
+  // Unique per gateway event, retries of the same event share it
+  eventId: string;
+  // Gateway reference stored on the transaction under the adapter's referenceField
+  reference: string;
+  gatewayStatus: string;
+  status: TransactionStatus;
+  amount?: number;
+  currency?: string;
+}
+
+// Headers that may hold each value in the gateway's settlement CSV export.
+// Headers are compared lowercased with everything but letters and digits removed.
+export interface SettlementColumns {
+  reference: string[];
+  amount: string[];
+  // Exports without a currency column are taken to be in ETB
+  currency: string[];
+  settledAt: string[];
+}
+
+export interface PaymentGatewayAdapter {
+  // Matches transactions.payment_method
+  name: string;
+  label: string;
+  // payment_details key holding the gateway's reference for a transaction
+  referenceField: string;
+  settlementColumns: SettlementColumns;
+  isConfigured(): boolean;
+  initialize(request: InitializeRequest): Promise<InitializeResult>;
+  verify(transaction: GatewayTransaction): Promise<VerifyResult>;
+  refund(transaction: GatewayTransaction, amount: number, reason?: string): Promise<RefundResult>;
+  // Checked against the raw body before the payload is trusted
+  verifyWebhookSignature(req: Request, rawBody: string): Promise<boolean>;
+  // null when the payload carries no reference
+  parseWebhook(payload: Record<string, unknown>): WebhookEvent | null;
+  // Transaction status for a gateway payment status
+  mapStatus(gatewayStatus: string): TransactionStatus;
+}
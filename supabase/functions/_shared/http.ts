@@ -0,0 +1,44 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Request helpers for the payment API functions the web app calls directly
+
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// With an actorId the admin audit log records the client's changes as made by
+// that user; without one they are recorded as system changes
+export function createServiceClient(actorId?: string): SupabaseClient {
+  return createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    global: { headers: actorId ? { "x-actor-id": actorId } : {} },
+  });
+}
+
+// The signed-in user behind the request's access token, with their role
+export async function getRequestUser(
+  req: Request,
+  supabase: SupabaseClient
+): Promise<{ id: string; role: string } | null> {
+  const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+  if (!token) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  const { data: profile } = await supabase
+    .from("users")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  return { id: user.id, role: profile?.role || "buyer" };
+}
@@ -0,0 +1,30 @@
+// Listing lifetimes shared by the web app and the listing-expiry edge function.
+// Keep this file free of imports so it runs unchanged in the browser and in Deno.
+
+// Days a listing stays public before the owner has to renew it
+export const DEFAULT_LISTING_LIFETIME_DAYS = 60;
+
+// Cars sell quickly and go stale; property and land take longer to move
+export const LISTING_LIFETIME_DAYS: Record<string, number> = {
+  car: 45,
+  house: 90,
+  land: 120,
+  commercial: 90,
+  other: 60,
+};
+
+// How many days before expiry the owner is warned
+export const LISTING_EXPIRY_WARNING_DAYS = 7;
+
+export function getListingLifetimeDays(category?: string | null): number {
+  return (category && LISTING_LIFETIME_DAYS[category]) || DEFAULT_LISTING_LIFETIME_DAYS;
+}
+
+// When a listing in this category expires if it is not renewed
+export function getListingExpiresAt(category?: string | null, from: Date = new Date()): string {
+  return new Date(from.getTime() + getListingLifetimeDays(category) * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function isListingExpired(expiresAt?: string | null, now: Date = new Date()): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() <= now.getTime();
+}
@@ -0,0 +1,234 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { planTransition, TimelineEntry } from "./transactionStateMachine.ts";
+import { escrowPaidTransaction, getAmountMismatch, notifyPaymentCompleted } from "./webhooks.ts";
+import { gateways } from "./gateways/index.ts";
+import { PaymentGatewayAdapter, SettlementColumns, VerifyResult } from "./gateways/types.ts";
+
+// payment_initiated transactions untouched for this long are re-verified with
+// their gateway, and are not checked again sooner than this
+export const RECONCILE_STALE_MINUTES = 30;
+
+// Transactions checked per run, least recently checked first
+export const RECONCILE_BATCH_SIZE = 50;
+
+// Checkouts still unpaid this long after the buyer last started one are cancelled
+export const CHECKOUT_ABANDON_MINUTES = 60;
+
+export type MismatchKind = "missing" | "duplicate" | "amount_differs";
+
+// One row of payment_mismatches, shown in the admin reconciliation report
+export interface PaymentMismatch {
+  gateway: string;
+  kind: MismatchKind;
+  source: "reconciliation" | "settlement";
+  reference: string;
+  transaction_id?: string;
+  import_id?: string;
+  expected_amount?: number;
+  reported_amount?: number;
+  currency?: string;
+  message: string;
+}
+
+export interface SettlementRow {
+  // Data row number in the file, counting from 1 below the header
+  row: number;
+  reference: string;
+  amount: number;
+  currency: string;
+  settledAt?: string;
+  raw: Record<string, string>;
+}
+
+interface VerifiedTransaction {
+  id: string;
+  status: string;
+  timeline?: TimelineEntry[] | null;
+  amount: number;
+  currency: string;
+  buyer_id: string;
+  seller_id: string;
+  listing_id: string;
+  payment_details?: Record<string, unknown> | null;
+}
+
+export type VerifiedOutcome =
+  | { outcome: "completed" | "unchanged" }
+  | { outcome: "mismatch" | "rejected" | "failed"; message: string };
+
+// Move a transaction its gateway reports as paid to payment_completed, notify
+// both parties and hold the payment in escrow. Used by payment-verify and the reconciliation job; the
+// webhook router does the same for callbacks.
+export async function completeVerifiedPayment(
+  supabase: SupabaseClient,
+  gateway: PaymentGatewayAdapter,
+  transaction: VerifiedTransaction,
+  result: VerifyResult,
+  notes: string
+): Promise<VerifiedOutcome> {
+  // Gateways that report the paid amount must report this transaction's
+  const mismatch = result.amount !== undefined ? getAmountMismatch(transaction, result) : null;
+  if (mismatch) return { outcome: "mismatch", message: mismatch };
+
+  const transition = planTransition(transaction, "payment_completed", { role: "system" }, notes);
+  if (!transition.allowed) return { outcome: "rejected", message: transition.reason };
+  if (!transition.changed) return { outcome: "unchanged" };
+
+  const { data: updated, error } = await supabase
+    .from("transactions")
+    .update({
+      ...transition.update,
+      payment_method: gateway.name,
+      payment_details: {
+        ...transaction.payment_details,
+        gateway_response: result.data,
+        processed_at: new Date().toISOString(),
+      },
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", transaction.id)
+    .eq("status", transaction.status)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error completing ${gateway.label} payment for transaction ${transaction.id}:`, error);
+    return { outcome: "failed", message: "Failed to update transaction" };
+  }
+
+  // A webhook got there first
+  if (!updated) return { outcome: "unchanged" };
+
+  await notifyPaymentCompleted(supabase, transaction);
+  await escrowPaidTransaction(supabase, transaction.id, "Payment verified, funds held in escrow");
+  return { outcome: "completed" };
+}
+
+// Checkouts the buyer retried or switched away from keep their reference only
+// in payment_attempts. Ask their gateways, newest first, whether the buyer paid
+// one of them after all. The transaction returned carries the paid checkout's
+// reference, so completing it points refunds at that checkout.
+export async function findPaidEarlierAttempt<T extends VerifiedTransaction>(
+  supabase: SupabaseClient,
+  transaction: T
+): Promise<{ gateway: PaymentGatewayAdapter; transaction: T; result: VerifyResult } | null> {
+  const { data: attempts, error } = await supabase
+    .from("payment_attempts")
+    .select("payment_method, reference")
+    .eq("transaction_id", transaction.id)
+    .eq("status", "superseded")
+    .not("reference", "is", null)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  for (const attempt of attempts || []) {
+    const gateway = gateways[attempt.payment_method];
+    if (!gateway || !gateway.isConfigured()) continue;
+
+    const earlier = {
+      ...transaction,
+      payment_details: { gateway: gateway.name, [gateway.referenceField]: attempt.reference },
+    };
+    const result = await gateway.verify(earlier);
+
+    if (result.success && result.paid) return { gateway, transaction: earlier, result };
+  }
+
+  return null;
+}
+
+// Cancel a checkout the buyer never finished, closing its open attempt as
+// abandoned. Returns false when the transaction moved on in the meantime.
+export async function abandonCheckout(
+  supabase: SupabaseClient,
+  transaction: { id: string; status: string; timeline?: TimelineEntry[] | null }
+): Promise<boolean> {
+  const transition = planTransition(
+    transaction,
+    "cancelled",
+    { role: "system" },
+    `Checkout abandoned: not paid within ${CHECKOUT_ABANDON_MINUTES} minutes`
+  );
+
+  if (!transition.allowed || !transition.changed) return false;
+
+  const { error: attemptError } = await supabase
+    .from("payment_attempts")
+    .update({ status: "abandoned", ended_at: new Date().toISOString() })
+    .eq("transaction_id", transaction.id)
+    .eq("status", "started");
+
+  if (attemptError) throw attemptError;
+
+  const { data: cancelled, error } = await supabase
+    .from("transactions")
+    .update({ ...transition.update, updated_at: new Date().toISOString() })
+    .eq("id", transaction.id)
+    .eq("status", transaction.status)
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!cancelled;
+}
+
+// Add a mismatch found by the reconciliation job. Each run finds the same
+// problems again, so one that is already open is not recorded twice.
+export async function recordMismatch(supabase: SupabaseClient, mismatch: PaymentMismatch): Promise<void> {
+  const { error } = await supabase.from("payment_mismatches").insert(mismatch);
+
+  if (error && error.code !== "23505") throw error;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Read a gateway settlement export. Rows without a reference or a numeric
+// amount are skipped and reported by row number.
+export function readSettlement(
+  columns: SettlementColumns,
+  records: string[][]
+): { rows: SettlementRow[]; skipped: number[]; missingColumns: string[] } {
+  const [header = [], ...data] = records;
+  const headers = header.map(normalizeHeader);
+  const find = (candidates: string[]) => headers.findIndex((name) => candidates.includes(name));
+
+  const referenceIndex = find(columns.reference);
+  const amountIndex = find(columns.amount);
+  const currencyIndex = find(columns.currency);
+  const settledAtIndex = find(columns.settledAt);
+
+  const missingColumns = [
+    referenceIndex === -1 ? "reference" : null,
+    amountIndex === -1 ? "amount" : null,
+  ].filter((name): name is string => name !== null);
+
+  if (missingColumns.length > 0) return { rows: [], skipped: [], missingColumns };
+
+  const rows: SettlementRow[] = [];
+  const skipped: number[] = [];
+
+  data.forEach((record, index) => {
+    const cell = (i: number) => (i === -1 ? "" : (record[i] || "").trim());
+    const reference = cell(referenceIndex);
+    const amount = Number(cell(amountIndex).replace(/,/g, ""));
+
+    if (!reference || !cell(amountIndex) || Number.isNaN(amount)) {
+      skipped.push(index + 1);
+      return;
+    }
+
+    const settledAt = new Date(cell(settledAtIndex));
+
+    rows.push({
+      row: index + 1,
+      reference,
+      amount,
+      currency: (cell(currencyIndex) || "ETB").toUpperCase(),
+      settledAt: Number.isNaN(settledAt.getTime()) ? undefined : settledAt.toISOString(),
+      raw: Object.fromEntries(header.map((name, i) => [name, record[i] || ""])),
+    });
+  });
+
+  return { rows, skipped, missingColumns };
+}
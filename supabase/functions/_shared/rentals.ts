@@ -0,0 +1,107 @@
+// Rental terms shared by the web app and the rent-reminders edge function.
+// Keep this file free of imports so it runs unchanged in the browser and in Deno.
+
+export type RentPeriod = "daily" | "weekly" | "monthly" | "yearly";
+
+// Monthly and yearly rent is paid period by period; shorter stays are paid in one go
+export const RECURRING_RENT_PERIODS: RentPeriod[] = ["monthly", "yearly"];
+
+// Longest booking offered, in rent periods
+export const MAX_RENT_PERIODS: Record<RentPeriod, number> = {
+  daily: 90,
+  weekly: 26,
+  monthly: 36,
+  yearly: 5,
+};
+
+// How many days before rent is due the renter is reminded
+export const RENT_REMINDER_DAYS = 3;
+
+// Days after a stay ends that the owner has to claim against the security
+// deposit by disputing it. Unclaimed deposits are then queued for refund.
+export const DEPOSIT_CLAIM_DAYS = 7;
+
+export interface RentInstallment {
+  period_number: number;
+  period_start: string;
+  period_end: string;
+  due_date: string;
+  amount: number;
+}
+
+function toDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Add whole rent periods to a YYYY-MM-DD date. Month ends are clamped the way
+// Postgres does it, so this matches the schedule in SETUP_RENTAL_BOOKINGS.sql.
+export function addRentPeriods(date: string, period: RentPeriod, count: number): string {
+  const start = toDate(date);
+
+  if (period === "daily" || period === "weekly") {
+    const days = period === "daily" ? count : count * 7;
+    return toDateString(new Date(start.getTime() + days * 24 * 60 * 60 * 1000));
+  }
+
+  const months = period === "monthly" ? count : count * 12;
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  return toDateString(new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay))));
+}
+
+// Whether a day falls inside any of the booked stays. Dates are compared as
+// YYYY-MM-DD strings, which sort by date; end_date is the first free day.
+export function isDateBooked(date: string, booked: { start_date: string; end_date: string }[]): boolean {
+  return booked.some((range) => date >= range.start_date && date < range.end_date);
+}
+
+// Whether a stay overlaps any of the booked stays
+export function overlapsBooking(
+  startDate: string,
+  endDate: string,
+  booked: { start_date: string; end_date: string }[]
+): boolean {
+  return booked.some((range) => startDate < range.end_date && range.start_date < endDate);
+}
+
+// The security deposit is one period's rent unless the owner set another amount
+export function getSecurityDeposit(price: number, securityDeposit?: number | null): number {
+  return securityDeposit ?? price;
+}
+
+// Rent payments for a booking. Each installment is due on the day its period starts.
+export function getRentSchedule(
+  startDate: string,
+  period: RentPeriod,
+  count: number,
+  price: number
+): RentInstallment[] {
+  if (!RECURRING_RENT_PERIODS.includes(period)) {
+    return [{
+      period_number: 1,
+      period_start: startDate,
+      period_end: addRentPeriods(startDate, period, count),
+      due_date: startDate,
+      amount: price * count,
+    }];
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const periodStart = addRentPeriods(startDate, period, index);
+
+    return {
+      period_number: index + 1,
+      period_start: periodStart,
+      period_end: addRentPeriods(startDate, period, index + 1),
+      due_date: periodStart,
+      amount: price,
+    };
+  });
+}
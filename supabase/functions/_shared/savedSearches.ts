@@ -0,0 +1,104 @@
+// Saved search alerts shared by the web app and the saved-search-alerts edge function.
+// Keep this file free of imports so it runs unchanged in the browser and in Deno.
+
+export type SavedSearchFrequency = "instant" | "daily" | "weekly";
+
+export const SAVED_SEARCH_FREQUENCIES: SavedSearchFrequency[] = ["instant", "daily", "weekly"];
+
+export const SAVED_SEARCH_FREQUENCY_LABELS: Record<SavedSearchFrequency, string> = {
+  instant: "As soon as they are listed",
+  daily: "Once a day",
+  weekly: "Once a week",
+};
+
+// Minutes between checks of a saved search. Instant searches are checked on
+// every run of the job, which is scheduled every 15 minutes.
+export const SAVED_SEARCH_INTERVAL_MINUTES: Record<SavedSearchFrequency, number> = {
+  instant: 0,
+  daily: 24 * 60,
+  weekly: 7 * 24 * 60,
+};
+
+// Runs do not start on the exact minute, so a search is due a little early
+// rather than waiting for the next run
+const DUE_TOLERANCE_MINUTES = 10;
+
+// Most listings named in one alert; the rest are counted
+export const SAVED_SEARCH_ALERT_LIMIT = 5;
+
+// Most saved searches a user can keep
+export const MAX_SAVED_SEARCHES = 20;
+
+export interface SavedSearchAlertTarget {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: { type?: string };
+}
+
+export interface SavedSearchMatch {
+  id: string;
+  title: string;
+}
+
+export interface SavedSearchMatchNotification {
+  user_id: string;
+  type: "saved_search_match";
+  title: string;
+  message: string;
+  data: {
+    saved_search_id: string;
+    listing_ids: string[];
+  };
+  link: string;
+  priority: "medium";
+  channels: {
+    in_app: boolean;
+    email: boolean;
+    sms: boolean;
+    push: boolean;
+  };
+}
+
+// Searches last checked at or before this time are due for another check
+export function getSavedSearchDueBefore(frequency: SavedSearchFrequency, now: Date = new Date()): string {
+  const minutes = Math.max(SAVED_SEARCH_INTERVAL_MINUTES[frequency] - DUE_TOLERANCE_MINUTES, 0);
+  return new Date(now.getTime() - minutes * 60 * 1000).toISOString();
+}
+
+// The Buy or Rent page with the saved search's filters applied
+export function getSavedSearchLink(search: { id: string; filters: { type?: string } }): string {
+  return `/${search.filters.type === "rent" ? "rent" : "buy"}?saved=${search.id}`;
+}
+
+// The alert for listings newly matching a saved search. total counts every
+// match, which may be more than the listings passed in.
+export function buildSavedSearchMatchNotification(
+  search: SavedSearchAlertTarget,
+  listings: SavedSearchMatch[],
+  total: number = listings.length
+): SavedSearchMatchNotification {
+  const others = total - 1;
+  const message = total === 1
+    ? `"${listings[0].title}" matches your saved search "${search.name}".`
+    : `"${listings[0].title}" and ${others} other ${others === 1 ? "listing" : "listings"} match your saved search "${search.name}".`;
+
+  return {
+    user_id: search.user_id,
+    type: "saved_search_match",
+    title: total === 1 ? "New Listing for Your Search" : `${total} New Listings for Your Search`,
+    message,
+    data: {
+      saved_search_id: search.id,
+      listing_ids: listings.map((listing) => listing.id),
+    },
+    link: getSavedSearchLink(search),
+    priority: "medium",
+    channels: {
+      in_app: true,
+      email: true,
+      sms: false,
+      push: false,
+    },
+  };
+}
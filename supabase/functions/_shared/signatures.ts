@@ -0,0 +1,78 @@
+// Webhook signature checks built on Web Crypto, which Deno provides natively
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Compare without returning early, so timing does not reveal the expected value
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function sha256Hex(payload: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(payload)));
+}
+
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(payload)));
+}
+
+// Check a hex HMAC-SHA256 of the raw request body. Fails closed without a secret.
+export async function verifyHmacSignature(
+  secret: string | undefined,
+  payload: string,
+  signature: string | null
+): Promise<boolean> {
+  if (!secret || !signature) return false;
+
+  const expected = await hmacSha256Hex(secret, payload);
+  return timingSafeEqual(expected, signature.trim().toLowerCase());
+}
+
+// Check a base64 SHA256withRSA signature against a PEM public key
+export async function verifyRsaSha256Signature(
+  publicKeyPem: string | undefined,
+  payload: string,
+  signature: string | null
+): Promise<boolean> {
+  if (!publicKeyPem || !signature) return false;
+
+  try {
+    const body = publicKeyPem
+      .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, "")
+      .replace(/\s+/g, "");
+    const keyData = Uint8Array.from(atob(body), (c) => c.charCodeAt(0));
+
+    const key = await crypto.subtle.importKey(
+      "spki",
+      keyData,
+      { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+      false,
+      ["verify"]
+    );
+
+    const signatureBytes = Uint8Array.from(atob(signature), (c) => c.charCodeAt(0));
+    return await crypto.subtle.verify("RSASSA-PKCS1-v1_5", key, signatureBytes, encoder.encode(payload));
+  } catch (error) {
+    console.error("Error verifying RSA signature:", error);
+    return false;
+  }
+}
@@ -0,0 +1,146 @@
+// Transaction state machine shared by the web app and the payment edge functions.
+// Keep this file free of imports so it runs unchanged in the browser and in Deno.
+
+export type TransactionStatus =
+  | "pending"
+  | "payment_initiated"
+  | "payment_completed"
+  | "escrowed"
+  | "released"
+  | "refunded"
+  | "cancelled"
+  | "disputed"
+  | "paid";
+
+// "system" covers payment gateways, webhooks and scheduled jobs
+export type TransitionRole = "buyer" | "seller" | "admin" | "system";
+
+export interface TransitionActor {
+  id?: string;
+  role: TransitionRole;
+}
+
+export interface TimelineEntry {
+  status: string;
+  timestamp: string;
+  notes?: string;
+  updated_by?: string;
+}
+
+// Allowed moves and the roles that may make them. Statuses without entries are final.
+// The database enforces the same table (database/SETUP_TRANSACTION_TRANSITIONS.sql).
+export const TRANSACTION_TRANSITIONS: Record<
+  TransactionStatus,
+  Partial<Record<TransactionStatus, TransitionRole[]>>
+> = {
+  pending: {
+    payment_initiated: ["buyer", "system"],
+    cancelled: ["buyer", "admin", "system"],
+  },
+  payment_initiated: {
+    payment_completed: ["system"],
+    cancelled: ["buyer", "admin", "system"],
+  },
+  payment_completed: {
+    escrowed: ["system", "admin"],
+    refunded: ["admin"],
+  },
+  // Legacy status written by older payment flows, handled like payment_completed
+  paid: {
+    escrowed: ["system", "admin"],
+    refunded: ["admin"],
+  },
+  // Buyers release early by confirming receipt, the scheduler releases after the hold period
+  escrowed: {
+    released: ["buyer", "admin", "system"],
+    refunded: ["admin"],
+    disputed: ["buyer", "seller"],
+  },
+  disputed: {
+    escrowed: ["admin"],
+    released: ["admin"],
+    refunded: ["admin"],
+  },
+  released: {},
+  refunded: {},
+  cancelled: {},
+};
+
+export function isTransactionStatus(value: string): value is TransactionStatus {
+  return value in TRANSACTION_TRANSITIONS;
+}
+
+// Explain why a move is not allowed, or return null when it is
+export function getTransitionError(
+  from: string,
+  to: TransactionStatus,
+  role: TransitionRole
+): string | null {
+  if (!isTransactionStatus(from)) {
+    return `Unknown transaction status: ${from}`;
+  }
+
+  const allowedRoles = TRANSACTION_TRANSITIONS[from][to];
+
+  if (!allowedRoles) {
+    return `Cannot move a transaction from ${from} to ${to}`;
+  }
+
+  if (!allowedRoles.includes(role)) {
+    return `A ${role} cannot move a transaction from ${from} to ${to}`;
+  }
+
+  return null;
+}
+
+export function canTransition(from: string, to: TransactionStatus, role: TransitionRole): boolean {
+  return getTransitionError(from, to, role) === null;
+}
+
+// Statuses the given role can move a transaction to from its current status
+export function getAvailableTransitions(from: string, role: TransitionRole): TransactionStatus[] {
+  if (!isTransactionStatus(from)) return [];
+
+  return (Object.entries(TRANSACTION_TRANSITIONS[from]) as Array<[TransactionStatus, TransitionRole[]]>)
+    .filter(([, roles]) => roles.includes(role))
+    .map(([status]) => status);
+}
+
+// Validate a move and build the status and timeline columns to write
+export function planTransition(
+  current: { status: string; timeline?: TimelineEntry[] | null },
+  to: TransactionStatus,
+  actor: TransitionActor,
+  notes?: string
+):
+  | { allowed: true; changed: boolean; update: { status: TransactionStatus; timeline: TimelineEntry[] } }
+  | { allowed: false; reason: string } {
+  const timeline = current.timeline || [];
+
+  // Repeated gateway callbacks for the same status are accepted without a new entry
+  if (current.status === to) {
+    return { allowed: true, changed: false, update: { status: to, timeline } };
+  }
+
+  const reason = getTransitionError(current.status, to, actor.role);
+  if (reason) {
+    return { allowed: false, reason };
+  }
+
+  return {
+    allowed: true,
+    changed: true,
+    update: {
+      status: to,
+      timeline: [
+        ...timeline,
+        {
+          status: to,
+          timestamp: new Date().toISOString(),
+          notes,
+          updated_by: actor.id || actor.role,
+        },
+      ],
+    },
+  };
+}
@@ -0,0 +1,380 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { planTransition } from "./transactionStateMachine.ts";
+import { getEscrowReleaseAt } from "./escrowPolicy.ts";
+import { createServiceClient, jsonResponse } from "./http.ts";
+import { PaymentGatewayAdapter, WebhookEvent } from "./gateways/types.ts";
+
+type EventStatus = "processing" | "processed" | "rejected" | "failed";
+
+// Gateways report amounts as decimal strings, allow for rounding
+const AMOUNT_TOLERANCE = 0.01;
+
+// Statuses a transaction only reaches after its payment went through
+export const PAID_STATUSES = ["payment_completed", "paid", "escrowed", "released", "disputed", "refunded"];
+
+// Record the event before acting on it. Returns a response when the event was
+// seen before and must not be processed again.
+async function claimEvent(
+  supabase: SupabaseClient,
+  gateway: PaymentGatewayAdapter,
+  event: WebhookEvent,
+  payload: Record<string, unknown>
+): Promise<Response | null> {
+  const { error } = await supabase.from("payment_events").insert({
+    gateway: gateway.name,
+    event_id: event.eventId,
+    reference: event.reference,
+    gateway_status: event.gatewayStatus,
+    amount: event.amount,
+    currency: event.currency,
+    payload,
+    status: "processing",
+  });
+
+  if (!error) return null;
+  if (error.code !== "23505") throw error;
+
+  const { data: existing } = await supabase
+    .from("payment_events")
+    .select("status")
+    .eq("gateway", gateway.name)
+    .eq("event_id", event.eventId)
+    .single();
+
+  // A failed attempt may be retried, anything else is a duplicate
+  if (existing?.status === "failed") {
+    const { data: reclaimed } = await supabase
+      .from("payment_events")
+      .update({ status: "processing", error: null })
+      .eq("gateway", gateway.name)
+      .eq("event_id", event.eventId)
+      .eq("status", "failed")
+      .select("id")
+      .maybeSingle();
+
+    if (reclaimed) return null;
+  }
+
+  if (existing?.status === "processed" || existing?.status === "rejected") {
+    console.log(`Duplicate ${gateway.label} event ${event.eventId} ignored`);
+    return jsonResponse({ received: true, duplicate: true });
+  }
+
+  return jsonResponse({ error: "Event is already being processed" }, 409);
+}
+
+async function finishEvent(
+  supabase: SupabaseClient,
+  gateway: PaymentGatewayAdapter,
+  event: WebhookEvent,
+  status: EventStatus,
+  details: { transactionId?: string; error?: string } = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from("payment_events")
+    .update({
+      status,
+      transaction_id: details.transactionId,
+      error: details.error,
+      processed_at: new Date().toISOString(),
+    })
+    .eq("gateway", gateway.name)
+    .eq("event_id", event.eventId);
+
+  if (error) {
+    console.error(`Error recording ${gateway.label} event ${event.eventId}:`, error);
+  }
+}
+
+// Why a reported payment does not match the stored transaction, if it does not
+export function getAmountMismatch(
+  transaction: { amount: number; currency: string },
+  paid: { amount?: number; currency?: string }
+): string | null {
+  if (paid.amount === undefined || Number.isNaN(paid.amount) || !paid.currency) {
+    return "Payment amount or currency missing from gateway response";
+  }
+
+  if (Math.abs(paid.amount - Number(transaction.amount)) > AMOUNT_TOLERANCE) {
+    return `Paid amount ${paid.amount} does not match transaction amount ${transaction.amount}`;
+  }
+
+  if (paid.currency.toUpperCase() !== String(transaction.currency).toUpperCase()) {
+    return `Paid currency ${paid.currency} does not match transaction currency ${transaction.currency}`;
+  }
+
+  return null;
+}
+
+export async function notifyPaymentCompleted(
+  supabase: SupabaseClient,
+  transaction: { id: string; buyer_id: string; seller_id: string; listing_id: string; amount: number; currency: string }
+): Promise<void> {
+  // Notify buyer
+  await supabase.from("notifications").insert({
+    user_id: transaction.buyer_id,
+    type: "transaction_completed",
+    title: "Payment Successful",
+    message: "Your payment has been processed and is held in escrow.",
+    data: {
+      transaction_id: transaction.id,
+      listing_id: transaction.listing_id,
+    },
+    priority: "high",
+    channels: {
+      in_app: true,
+      email: true,
+      sms: false,
+      push: false,
+    },
+    status: "pending",
+    read: false,
+  });
+
+  // Notify seller
+  await supabase.from("notifications").insert({
+    user_id: transaction.seller_id,
+    type: "payment_received",
+    title: "Payment Received",
+    message: "Buyer has made payment for your listing.",
+    data: {
+      transaction_id: transaction.id,
+      listing_id: transaction.listing_id,
+      amount: transaction.amount,
+      currency: transaction.currency,
+    },
+    priority: "high",
+    channels: {
+      in_app: true,
+      email: true,
+      sms: false,
+      push: false,
+    },
+    status: "pending",
+    read: false,
+  });
+}
+
+// Find the transaction a gateway reference belongs to. Every checkout's
+// reference is kept in payment_attempts, so a payment made in a checkout the
+// buyer later retried or switched away from is still found. Transactions
+// started before payment_attempts existed only have it in payment_details.
+export async function findTransactionByReference(
+  supabase: SupabaseClient,
+  gateway: PaymentGatewayAdapter,
+  reference: string
+) {
+  const { data: attempt, error: attemptError } = await supabase
+    .from("payment_attempts")
+    .select("transaction_id")
+    .eq("payment_method", gateway.name)
+    .eq("reference", reference)
+    .limit(1)
+    .maybeSingle();
+
+  if (attemptError) throw attemptError;
+
+  const query = supabase.from("transactions").select("*");
+  const { data: transactions, error } = await (attempt
+    ? query.eq("id", attempt.transaction_id)
+    : query.eq(`payment_details->>${gateway.referenceField}`, reference)
+  ).limit(1);
+
+  if (error) throw error;
+  return transactions?.[0] ?? null;
+}
+
+// Hold a paid transaction in escrow until the buyer confirms receipt or the
+// category's hold period runs out, and tell the admins. Called wherever a
+// payment is completed, so escrow never waits for the buyer's return page.
+// Returns false when the transaction was not paid or moved on in the meantime.
+export async function escrowPaidTransaction(
+  supabase: SupabaseClient,
+  transactionId: string,
+  notes: string
+): Promise<boolean> {
+  const { data: transaction, error: fetchError } = await supabase
+    .from("transactions")
+    .select("id, status, timeline, refund_required_reason, listing:listings!transactions_listing_id_fkey(category)")
+    .eq("id", transactionId)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  const transition = planTransition(transaction, "escrowed", { role: "system" }, notes);
+  if (!transition.allowed || !transition.changed) return false;
+
+  const listing = transaction.listing as { category?: string } | null;
+
+  // Flagged payments wait for an admin to refund them, never for the hold period
+  const { data: escrowed, error } = await supabase
+    .from("transactions")
+    .update({
+      ...transition.update,
+      escrow_release_at: transaction.refund_required_reason ? null : getEscrowReleaseAt(listing?.category),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", transaction.id)
+    .eq("status", transaction.status)
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!escrowed) return false;
+
+  const { data: admins } = await supabase.from("users").select("id").eq("role", "admin");
+
+  if (admins && admins.length > 0) {
+    await supabase.from("notifications").insert(
+      admins.map((admin: { id: string }) => ({
+        user_id: admin.id,
+        type: "system_message",
+        title: transaction.refund_required_reason ? "Escrowed Payment Needs a Refund" : "New Escrow Transaction",
+        message: transaction.refund_required_reason
+          ? `A payment was held in escrow but must be refunded: ${transaction.refund_required_reason}.`
+          : "A new transaction is in escrow and requires admin attention.",
+        link: `/admin?tab=manage-escrow&transaction=${transaction.id}`,
+        priority: "urgent",
+        channels: {
+          in_app: true,
+          email: false,
+          sms: false,
+          push: false,
+        },
+        status: "pending",
+        read: false,
+      }))
+    );
+  }
+
+  return true;
+}
+
+// Process one gateway callback: verify the signature, record the event once,
+// check it against the stored transaction, then apply the status change
+// through the shared transition table.
+export async function processWebhook(gateway: PaymentGatewayAdapter, req: Request): Promise<Response> {
+  try {
+    const rawBody = await req.text();
+
+    if (!(await gateway.verifyWebhookSignature(req, rawBody))) {
+      console.error(`Rejected ${gateway.label} webhook with a missing or invalid signature`);
+      return jsonResponse({ error: "Invalid signature" }, 401);
+    }
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return jsonResponse({ error: "Invalid JSON body" }, 400);
+    }
+
+    console.log(`${gateway.label} webhook received:`, rawBody);
+
+    const event = gateway.parseWebhook(payload);
+
+    if (!event) {
+      console.error(`No reference found in ${gateway.label} webhook`);
+      return jsonResponse({ error: "Reference not found" }, 400);
+    }
+
+    const supabase = createServiceClient();
+
+    const duplicate = await claimEvent(supabase, gateway, event, payload);
+    if (duplicate) return duplicate;
+
+    const transaction = await findTransactionByReference(supabase, gateway, event.reference);
+
+    if (!transaction) {
+      console.error(`Transaction not found for ${gateway.label} reference ${event.reference}`);
+      await finishEvent(supabase, gateway, event, "rejected", { error: "Transaction not found" });
+      return jsonResponse({ error: "Transaction not found" }, 404);
+    }
+
+    // Never mark a payment complete unless it paid for exactly this transaction
+    if (event.status === "payment_completed") {
+      const mismatch = getAmountMismatch(transaction, event);
+
+      if (mismatch) {
+        console.error(`Rejected ${gateway.label} payment for transaction ${transaction.id}:`, mismatch);
+        await finishEvent(supabase, gateway, event, "rejected", { transactionId: transaction.id, error: mismatch });
+        return jsonResponse({ error: mismatch }, 409);
+      }
+    }
+
+    // The buyer's return page may have verified the payment before the webhook arrived
+    if (event.status === "payment_completed" && PAID_STATUSES.includes(transaction.status)) {
+      await finishEvent(supabase, gateway, event, "processed", { transactionId: transaction.id });
+      return jsonResponse({ received: true, transaction_id: transaction.id, status: transaction.status });
+    }
+
+    // A checkout the buyer replaced can still be paid, which settles the
+    // transaction, but its other outcomes say nothing about the live checkout
+    const isCurrentCheckout = transaction.payment_method === gateway.name
+      && String(transaction.payment_details?.[gateway.referenceField]) === event.reference;
+
+    if (!isCurrentCheckout && event.status !== "payment_completed") {
+      console.log(`Ignored ${event.gatewayStatus} for replaced checkout ${event.reference} of transaction ${transaction.id}`);
+      await finishEvent(supabase, gateway, event, "processed", { transactionId: transaction.id });
+      return jsonResponse({ received: true, transaction_id: transaction.id, status: transaction.status });
+    }
+
+    // Only apply moves allowed by the shared transition table
+    const transition = planTransition(
+      transaction,
+      event.status,
+      { role: "system" },
+      `${gateway.label} webhook: ${event.gatewayStatus}`
+    );
+
+    if (!transition.allowed) {
+      console.error(`Rejected status change for transaction ${transaction.id}:`, transition.reason);
+      await finishEvent(supabase, gateway, event, "rejected", { transactionId: transaction.id, error: transition.reason });
+      return jsonResponse({ error: transition.reason }, 409);
+    }
+
+    if (transition.changed) {
+      const { data: updated, error: updateError } = await supabase
+        .from("transactions")
+        .update({
+          ...transition.update,
+          // Refunds go through the checkout that was actually paid
+          payment_method: gateway.name,
+          payment_details: {
+            ...(isCurrentCheckout
+              ? transaction.payment_details
+              : { gateway: gateway.name, [gateway.referenceField]: event.reference }),
+            webhook_response: payload,
+            webhook_received_at: new Date().toISOString(),
+            processed_at: new Date().toISOString(),
+          },
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", transaction.id)
+        .eq("status", transaction.status)
+        .select("id")
+        .maybeSingle();
+
+      if (updateError || !updated) {
+        const reason = updateError ? "Failed to update transaction" : "Transaction changed while processing";
+        console.error(`${reason} ${transaction.id}:`, updateError);
+        await finishEvent(supabase, gateway, event, "failed", { transactionId: transaction.id, error: reason });
+        return jsonResponse({ error: reason }, updateError ? 500 : 409);
+      }
+
+      if (event.status === "payment_completed") {
+        await notifyPaymentCompleted(supabase, transaction);
+        await escrowPaidTransaction(supabase, transaction.id, "Payment confirmed, funds held in escrow");
+      }
+    }
+
+    await finishEvent(supabase, gateway, event, "processed", { transactionId: transaction.id });
+
+    console.log(`Transaction ${transaction.id} updated to ${event.status}`);
+
+    return jsonResponse({ received: true, transaction_id: transaction.id, status: event.status });
+  } catch (error) {
+    console.error(`Error processing ${gateway.label} webhook:`, error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+}
@@ -0,0 +1,73 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { ContractInput, getContractValues, renderContract } from "../_shared/contracts.ts";
+import { corsHeaders, createServiceClient, getRequestUser, jsonResponse } from "../_shared/http.ts";
+
+// Fills the transaction's contract template from the listing, the parties and
+// the transaction as stored in the database, and stores the text with its
+// hash. The text is never taken from the client, so neither party can put
+// their own terms in front of the other to sign.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const user = await getRequestUser(req, supabase);
+
+    if (!user) {
+      return jsonResponse({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    const { transactionId } = await req.json();
+
+    const { data: transaction, error: fetchError } = await supabase
+      .from("transactions")
+      .select(`
+        id,
+        buyer_id,
+        seller_id,
+        amount,
+        currency,
+        created_at,
+        contract,
+        listing:listings!transactions_listing_id_fkey(title, category, price, rent_period, location, features),
+        buyer:users!transactions_buyer_id_fkey(full_name, email, phone),
+        seller:users!transactions_seller_id_fkey(full_name, email, phone)
+      `)
+      .eq("id", transactionId)
+      .single();
+
+    if (fetchError || !transaction) {
+      return jsonResponse({ success: false, message: "Transaction not found" }, 404);
+    }
+
+    if (transaction.buyer_id !== user.id && transaction.seller_id !== user.id) {
+      return jsonResponse({ success: false, message: "Only the buyer or the seller can prepare this contract" }, 403);
+    }
+
+    const template = transaction.contract?.template;
+
+    if (!template) {
+      return jsonResponse({ success: false, message: "This transaction has no contract template" }, 409);
+    }
+
+    const terms = renderContract(template, getContractValues(transaction as ContractInput));
+
+    const { data: contract, error } = await supabase.rpc("prepare_transaction_contract", {
+      p_transaction_id: transaction.id,
+      p_terms: terms,
+      p_prepared_by: user.id,
+    });
+
+    // The database refuses closed transactions and contracts already signed
+    if (error) {
+      return jsonResponse({ success: false, message: error.message }, 409);
+    }
+
+    return jsonResponse({ success: true, data: contract });
+  } catch (error) {
+    console.error("Error preparing contract:", error);
+    return jsonResponse({ success: false, message: "Internal server error" }, 500);
+  }
+});
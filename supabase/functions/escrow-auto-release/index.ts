@@ -0,0 +1,158 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ESCROW_REMINDER_HOURS } from "../_shared/escrowPolicy.ts";
+import { hasRequiredSignatures } from "../_shared/contracts.ts";
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+// Runs on a schedule (see database/SETUP_ESCROW_AUTO_RELEASE.sql). Reminds buyers
+// a day before their escrow is released, then releases everything past its hold
+// period. Disputed transactions are never touched because they are not escrowed.
+serve(async (req) => {
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler, which calls with the service role key, may run this
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: jsonHeaders }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+    const reminderCutoff = new Date(now.getTime() + ESCROW_REMINDER_HOURS * 60 * 60 * 1000);
+
+    // Remind buyers whose escrow is released within the reminder window
+    const { data: upcoming, error: upcomingError } = await supabase
+      .from("transactions")
+      .select("id, buyer_id, escrow, contract, escrow_release_at, listing:listings!transactions_listing_id_fkey(title)")
+      .eq("status", "escrowed")
+      .gt("escrow_release_at", now.toISOString())
+      .lte("escrow_release_at", reminderCutoff.toISOString())
+      .is("escrow->>reminder_sent_at", null);
+
+    if (upcomingError) throw upcomingError;
+
+    let reminded = 0;
+
+    for (const transaction of upcoming || []) {
+      const { error: reminderError } = await supabase
+        .from("transactions")
+        .update({
+          escrow: { ...transaction.escrow, reminder_sent_at: now.toISOString() },
+        })
+        .eq("id", transaction.id)
+        .eq("status", "escrowed");
+
+      if (reminderError) {
+        console.error(`Error marking reminder for transaction ${transaction.id}:`, reminderError);
+        continue;
+      }
+
+      const listing = Array.isArray(transaction.listing) ? transaction.listing[0] : transaction.listing;
+      const title = listing?.title || "your purchase";
+
+      await supabase.from("notifications").insert({
+        user_id: transaction.buyer_id,
+        type: "escrow_release_reminder",
+        title: "Escrow Releases Tomorrow",
+        message: hasRequiredSignatures(transaction.contract)
+          ? `Funds for "${title}" will be released to the seller in ${ESCROW_REMINDER_HOURS} hours. Confirm receipt now, or open a dispute if something is wrong.`
+          : `The escrow hold for "${title}" ends in ${ESCROW_REMINDER_HOURS} hours. Funds are released to the seller once you and the seller have both signed the contract.`,
+        data: {
+          transaction_id: transaction.id,
+          release_at: transaction.escrow_release_at,
+        },
+        link: `/profile?tab=my-transactions&transaction=${transaction.id}`,
+        priority: "high",
+        channels: {
+          in_app: true,
+          email: true,
+          sms: false,
+          push: false,
+        },
+        status: "pending",
+        read: false,
+      });
+
+      reminded++;
+    }
+
+    // Release escrow that has reached the end of its hold period
+    const { data: due, error: dueError } = await supabase
+      .from("transactions")
+      .select("*, listing:listings!transactions_listing_id_fkey(title)")
+      .eq("status", "escrowed")
+      .lte("escrow_release_at", now.toISOString());
+
+    if (dueError) throw dueError;
+
+    let released = 0;
+    let awaitingSignatures = 0;
+
+    for (const transaction of due || []) {
+      if (transaction.dispute?.is_disputed) continue;
+
+      // Held until both parties sign; it is released on the first run after that
+      if (!hasRequiredSignatures(transaction.contract)) {
+        awaitingSignatures++;
+        continue;
+      }
+
+      // The database function locks the row and checks it is still escrowed, so
+      // this cannot race a dispute opened at the same moment. It also records
+      // the commission the same way an admin release does.
+      const { error: releaseError } = await supabase.rpc("handle_escrow_release", {
+        p_transaction_id: transaction.id,
+        p_reason: "auto_release",
+        p_notes: "Released automatically after the hold period",
+      });
+
+      if (releaseError) {
+        console.error(`Error releasing transaction ${transaction.id}:`, releaseError);
+        continue;
+      }
+
+      const listing = Array.isArray(transaction.listing) ? transaction.listing[0] : transaction.listing;
+
+      // Notify seller
+      await supabase.from("notifications").insert({
+        user_id: transaction.seller_id,
+        type: "escrow_released",
+        title: "Funds Released!",
+        message: `Funds of ${transaction.amount} ${transaction.currency} for "${listing?.title || "your listing"}" have been released to your account.`,
+        data: {
+          transaction_id: transaction.id,
+        },
+        link: `/profile?tab=my-transactions&transaction=${transaction.id}`,
+        priority: "high",
+        channels: {
+          in_app: true,
+          email: true,
+          sms: false,
+          push: false,
+        },
+        status: "pending",
+        read: false,
+      });
+
+      released++;
+    }
+
+    console.log(`Escrow run complete: ${reminded} reminded, ${released} released, ${awaitingSignatures} awaiting signatures`);
+
+    return new Response(
+      JSON.stringify({ reminded, released, awaitingSignatures }),
+      { status: 200, headers: jsonHeaders }
+    );
+  } catch (error) {
+    console.error("Error running escrow auto-release:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+});
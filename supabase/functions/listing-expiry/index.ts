@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { LISTING_EXPIRY_WARNING_DAYS } from "../_shared/listingExpiry.ts";
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+// Runs on a schedule (see database/SETUP_LISTING_EXPIRY.sql). Warns owners a
+// week before their listing expires, then takes expired listings off the market.
+serve(async (req) => {
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler, which calls with the service role key, may run this
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: jsonHeaders }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+    const warningCutoff = new Date(now.getTime() + LISTING_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+
+    // Warn owners whose listing expires within the warning window
+    const { data: expiring, error: expiringError } = await supabase
+      .from("listings")
+      .update({ expiry_warning_sent_at: now.toISOString() })
+      .eq("status", "approved")
+      .gt("expires_at", now.toISOString())
+      .lte("expires_at", warningCutoff.toISOString())
+      .is("expiry_warning_sent_at", null)
+      .select("id, owner_id, title, expires_at");
+
+    if (expiringError) throw expiringError;
+
+    for (const listing of expiring || []) {
+      await supabase.from("notifications").insert({
+        user_id: listing.owner_id,
+        type: "listing_expiring",
+        title: "Listing Expires Soon",
+        message: `Your listing "${listing.title}" expires on ${new Date(listing.expires_at).toDateString()}. Renew it to keep it visible to buyers.`,
+        data: {
+          listing_id: listing.id,
+          expires_at: listing.expires_at,
+        },
+        link: `/sell?listing=${listing.id}`,
+        priority: "medium",
+        channels: {
+          in_app: true,
+          email: true,
+          sms: false,
+          push: false,
+        },
+        status: "pending",
+        read: false,
+      });
+    }
+
+    // Take expired listings off the market, except those a buyer has already
+    // paid for, which are marked sold or rented when escrow is released
+    const { data: expired, error: expiredError } = await supabase
+      .from("listings")
+      .update({ status: "inactive", is_active: false })
+      .eq("status", "approved")
+      .lte("expires_at", now.toISOString())
+      .or("reserved_by.is.null,reserved_until.not.is.null")
+      .select("id, owner_id, title");
+
+    if (expiredError) throw expiredError;
+
+    for (const listing of expired || []) {
+      await supabase.from("notifications").insert({
+        user_id: listing.owner_id,
+        type: "listing_expired",
+        title: "Listing Expired",
+        message: `Your listing "${listing.title}" has expired and is no longer shown to buyers. Renew it from your dashboard to put it back on the market.`,
+        data: {
+          listing_id: listing.id,
+        },
+        link: `/sell?listing=${listing.id}`,
+        priority: "high",
+        channels: {
+          in_app: true,
+          email: true,
+          sms: false,
+          push: false,
+        },
+        status: "pending",
+        read: false,
+      });
+    }
+
+    const warned = expiring?.length || 0;
+    const deactivated = expired?.length || 0;
+
+    console.log(`Listing expiry run complete: ${warned} warned, ${deactivated} deactivated`);
+
+    return new Response(
+      JSON.stringify({ warned, deactivated }),
+      { status: 200, headers: jsonHeaders }
+    );
+  } catch (error) {
+    console.error("Error running listing expiry:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+});
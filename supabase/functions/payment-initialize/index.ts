@@ -0,0 +1,212 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { planTransition } from "../_shared/transactionStateMachine.ts";
+import { gateways, getWebhookUrl } from "../_shared/gateways/index.ts";
+import { corsHeaders, createServiceClient, getRequestUser, jsonResponse } from "../_shared/http.ts";
+import { completeVerifiedPayment, findPaidEarlierAttempt } from "../_shared/reconciliation.ts";
+
+// Record one attempt to pay for a transaction in payment_attempts
+async function recordAttempt(
+  supabase: SupabaseClient,
+  attempt: { transaction_id: string; payment_method: string; reference?: unknown; status: "started" | "failed"; error?: string }
+): Promise<void> {
+  const { error } = await supabase.from("payment_attempts").insert({
+    ...attempt,
+    reference: attempt.reference === undefined ? null : String(attempt.reference),
+    ended_at: attempt.status === "failed" ? new Date().toISOString() : null,
+  });
+
+  if (error) {
+    console.error(`Error recording payment attempt for transaction ${attempt.transaction_id}:`, error);
+  }
+}
+
+// Starts checkout for the signed-in buyer's transaction. The amount, currency
+// and customer details come from the database, never from the request.
+// Retries reuse the same transaction, optionally with another payment method.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const user = await getRequestUser(req, supabase);
+
+    if (!user) {
+      return jsonResponse({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    const { transactionId, paymentMethod } = await req.json();
+
+    const { data: transaction, error: fetchError } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("id", transactionId)
+      .single();
+
+    if (fetchError || !transaction) {
+      return jsonResponse({ success: false, message: "Transaction not found" }, 404);
+    }
+
+    if (transaction.buyer_id !== user.id) {
+      return jsonResponse({ success: false, message: "Only the buyer can pay for this transaction" }, 403);
+    }
+
+    // The buyer may switch to another gateway until the transaction is paid
+    const gateway = gateways[paymentMethod || transaction.payment_method];
+
+    if (!gateway) {
+      return jsonResponse({ success: false, message: "Invalid payment method" }, 400);
+    }
+
+    if (!gateway.isConfigured()) {
+      console.error(`Missing ${gateway.name} credentials in function secrets`);
+      return jsonResponse({ success: false, message: "This payment method is not available. Please contact support." }, 503);
+    }
+
+    const transition = planTransition(
+      transaction,
+      "payment_initiated",
+      { role: "system" },
+      `Checkout started with ${gateway.name}`
+    );
+
+    if (!transition.allowed) {
+      return jsonResponse({ success: false, message: transition.reason }, 409);
+    }
+
+    // A buyer who comes back to pay again may already have paid in an earlier checkout
+    const previousGateway = gateways[transaction.payment_method];
+
+    if (transaction.status === "payment_initiated" && previousGateway?.isConfigured()) {
+      const latest = await previousGateway.verify(transaction);
+      const previous = latest.success && latest.paid
+        ? { gateway: previousGateway, transaction, result: latest }
+        : await findPaidEarlierAttempt(supabase, transaction);
+
+      if (previous) {
+        const completion = await completeVerifiedPayment(
+          supabase,
+          previous.gateway,
+          previous.transaction,
+          previous.result,
+          `Verified with ${previous.gateway.label} before starting a new checkout`
+        );
+
+        return jsonResponse({
+          success: false,
+          message: completion.outcome === "mismatch"
+            ? "Your earlier payment for this transaction needs to be checked by support before you pay again"
+            : "Your earlier payment for this transaction went through, so there is nothing more to pay",
+        }, 409);
+      }
+    }
+
+    if (transaction.rental_booking_id) {
+      // Rental checkouts pay for dates the booking already holds. A booking
+      // that was abandoned or has ended takes no more payments.
+      const { data: booking } = await supabase
+        .from("rental_bookings")
+        .select("status")
+        .eq("id", transaction.rental_booking_id)
+        .single();
+
+      const payable = transaction.rent_payment_id ? ["confirmed"] : ["pending"];
+
+      if (!booking || !payable.includes(booking.status)) {
+        return jsonResponse({ success: false, message: "This booking can no longer be paid" }, 409);
+      }
+    } else {
+      // Hold the listing for this checkout. Its reservation may have lapsed and
+      // been taken by another buyer since the transaction was created.
+      const { error: reserveError } = await supabase.rpc("reserve_listing", {
+        p_transaction_id: transaction.id,
+      });
+
+      if (reserveError) {
+        return jsonResponse({ success: false, message: reserveError.message }, 409);
+      }
+    }
+
+    // Only the newest checkout is live; an earlier one left open is replaced
+    await supabase
+      .from("payment_attempts")
+      .update({ status: "superseded", ended_at: new Date().toISOString() })
+      .eq("transaction_id", transaction.id)
+      .eq("status", "started");
+
+    const [{ data: buyer }, { data: listing }] = await Promise.all([
+      supabase.from("users").select("email, phone, full_name").eq("id", transaction.buyer_id).single(),
+      supabase.from("listings").select("title").eq("id", transaction.listing_id).single(),
+    ]);
+
+    const siteUrl = Deno.env.get("SITE_URL") || req.headers.get("origin") || "";
+
+    const result = await gateway.initialize({
+      transactionId: transaction.id,
+      listingId: transaction.listing_id,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      customer: {
+        email: buyer?.email,
+        phone: buyer?.phone,
+        name: buyer?.full_name,
+      },
+      description: `SebahLync Payment - ${listing?.title || transaction.listing_id}`,
+      callbackUrl: getWebhookUrl(gateway.name),
+      returnUrl: `${siteUrl}/payment/success?transaction=${transaction.id}`,
+    });
+
+    if (!result.success) {
+      await recordAttempt(supabase, {
+        transaction_id: transaction.id,
+        payment_method: gateway.name,
+        status: "failed",
+        error: result.message,
+      });
+      return jsonResponse({ success: false, message: result.message }, 502);
+    }
+
+    // Earlier attempts keep their references in payment_attempts, where
+    // webhooks and reconciliation still find them
+    const { error: updateError } = await supabase
+      .from("transactions")
+      .update({
+        ...transition.update,
+        payment_method: gateway.name,
+        payment_details: {
+          ...result.paymentDetails,
+          gateway: gateway.name,
+          checkout_url: result.checkoutUrl,
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", transaction.id)
+      .eq("status", transaction.status);
+
+    if (updateError) {
+      console.error("Error saving payment reference:", updateError);
+      await recordAttempt(supabase, {
+        transaction_id: transaction.id,
+        payment_method: gateway.name,
+        reference: result.paymentDetails?.[gateway.referenceField],
+        status: "failed",
+        error: "Failed to save payment reference",
+      });
+      return jsonResponse({ success: false, message: "Failed to start checkout" }, 500);
+    }
+
+    await recordAttempt(supabase, {
+      transaction_id: transaction.id,
+      payment_method: gateway.name,
+      reference: result.paymentDetails?.[gateway.referenceField],
+      status: "started",
+    });
+
+    return jsonResponse({ success: true, checkoutUrl: result.checkoutUrl });
+  } catch (error) {
+    console.error("Error initializing payment:", error);
+    return jsonResponse({ success: false, message: "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,206 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { planTransition } from "../_shared/transactionStateMachine.ts";
+import { gateways } from "../_shared/gateways/index.ts";
+import { corsHeaders, createServiceClient, getRequestUser, jsonResponse } from "../_shared/http.ts";
+import {
+  abandonCheckout,
+  CHECKOUT_ABANDON_MINUTES,
+  completeVerifiedPayment,
+  findPaidEarlierAttempt,
+  RECONCILE_BATCH_SIZE,
+  RECONCILE_STALE_MINUTES,
+  recordMismatch,
+} from "../_shared/reconciliation.ts";
+import { escrowPaidTransaction } from "../_shared/webhooks.ts";
+
+// Runs on a schedule (see database/SETUP_PAYMENT_RECONCILIATION.sql), and from
+// the admin panel on demand. Re-verifies transactions stuck in
+// payment_initiated with their gateway, so a missed webhook does not leave a
+// paid transaction waiting forever, escrows paid transactions that did not get
+// there, and cancels checkouts the buyer abandoned.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const isScheduler = req.headers.get("Authorization") === `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`;
+
+    if (!isScheduler) {
+      const user = await getRequestUser(req, supabase);
+
+      if (!user) {
+        return jsonResponse({ success: false, message: "Unauthorized" }, 401);
+      }
+
+      if (user.role !== "admin") {
+        return jsonResponse({ success: false, message: "Only admins can run reconciliation" }, 403);
+      }
+    }
+
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - RECONCILE_STALE_MINUTES * 60 * 1000).toISOString();
+    const abandonBefore = new Date(now.getTime() - CHECKOUT_ABANDON_MINUTES * 60 * 1000).toISOString();
+
+    const { data: stale, error: staleError } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("status", "payment_initiated")
+      .lt("updated_at", staleBefore)
+      .or(`last_reconciled_at.is.null,last_reconciled_at.lt.${staleBefore}`)
+      .order("last_reconciled_at", { ascending: true, nullsFirst: true })
+      .limit(RECONCILE_BATCH_SIZE);
+
+    if (staleError) throw staleError;
+
+    const summary = { checked: 0, completed: 0, escrowed: 0, cancelled: 0, abandoned: 0, mismatched: 0, pending: 0, failed: 0 };
+
+    for (const transaction of stale || []) {
+      summary.checked++;
+
+      try {
+        await supabase
+          .from("transactions")
+          .update({ last_reconciled_at: now.toISOString() })
+          .eq("id", transaction.id);
+
+        const gateway = gateways[transaction.payment_method];
+
+        if (!gateway || !gateway.isConfigured()) {
+          console.error(`No configured gateway to reconcile transaction ${transaction.id}`);
+          summary.failed++;
+          continue;
+        }
+
+        const result = await gateway.verify(transaction);
+
+        if (!result.success) {
+          console.error(`${gateway.label} verification failed for transaction ${transaction.id}:`, result.message);
+          summary.failed++;
+          continue;
+        }
+
+        // The buyer may have paid a checkout they later retried or switched away from
+        const paid = result.paid
+          ? { gateway, transaction, result }
+          : await findPaidEarlierAttempt(supabase, transaction);
+
+        if (paid) {
+          const completion = await completeVerifiedPayment(
+            supabase,
+            paid.gateway,
+            paid.transaction,
+            paid.result,
+            `Reconciled with ${paid.gateway.label}`
+          );
+
+          if (completion.outcome === "completed") {
+            summary.completed++;
+          } else if (completion.outcome === "mismatch") {
+            summary.mismatched++;
+            await recordMismatch(supabase, {
+              gateway: paid.gateway.name,
+              kind: "amount_differs",
+              source: "reconciliation",
+              reference: String(paid.transaction.payment_details?.[paid.gateway.referenceField] ?? transaction.id),
+              transaction_id: transaction.id,
+              expected_amount: transaction.amount,
+              reported_amount: paid.result.amount,
+              currency: paid.result.currency || transaction.currency,
+              message: completion.message,
+            });
+          } else if (completion.outcome !== "unchanged") {
+            console.error(`Transaction ${transaction.id} not reconciled:`, completion.message);
+            summary.failed++;
+          }
+          continue;
+        }
+
+        // The gateway says the payment failed or was cancelled
+        if (result.status && gateway.mapStatus(result.status) === "cancelled") {
+          const transition = planTransition(
+            transaction,
+            "cancelled",
+            { role: "system" },
+            `Reconciled with ${gateway.label}: ${result.status}`
+          );
+
+          if (transition.allowed && transition.changed) {
+            const { error: cancelError } = await supabase
+              .from("transactions")
+              .update({ ...transition.update, updated_at: now.toISOString() })
+              .eq("id", transaction.id)
+              .eq("status", transaction.status);
+
+            if (cancelError) throw cancelError;
+            summary.cancelled++;
+          }
+          continue;
+        }
+
+        // Still open at the gateway, but the buyer has long stopped paying
+        if (new Date(transaction.updated_at) < new Date(abandonBefore)) {
+          if (await abandonCheckout(supabase, transaction)) summary.abandoned++;
+          continue;
+        }
+
+        summary.pending++;
+      } catch (error) {
+        console.error(`Error reconciling transaction ${transaction.id}:`, error);
+        summary.failed++;
+      }
+    }
+
+    // Paid transactions are escrowed as soon as the payment completes; pick up
+    // any that failed to get there
+    const { data: paid, error: paidError } = await supabase
+      .from("transactions")
+      .select("id")
+      .in("status", ["payment_completed", "paid"])
+      .limit(RECONCILE_BATCH_SIZE);
+
+    if (paidError) throw paidError;
+
+    for (const transaction of paid || []) {
+      try {
+        if (await escrowPaidTransaction(supabase, transaction.id, "Reconciled: funds held in escrow")) {
+          summary.escrowed++;
+        }
+      } catch (error) {
+        console.error(`Error escrowing transaction ${transaction.id}:`, error);
+        summary.failed++;
+      }
+    }
+
+    // Checkouts the gateway never accepted have nothing to verify
+    const { data: unstarted, error: unstartedError } = await supabase
+      .from("transactions")
+      .select("id, status, timeline")
+      .eq("status", "pending")
+      .lt("updated_at", abandonBefore)
+      .limit(RECONCILE_BATCH_SIZE);
+
+    if (unstartedError) throw unstartedError;
+
+    for (const transaction of unstarted || []) {
+      try {
+        if (await abandonCheckout(supabase, transaction)) summary.abandoned++;
+      } catch (error) {
+        console.error(`Error cancelling abandoned transaction ${transaction.id}:`, error);
+        summary.failed++;
+      }
+    }
+
+    console.log(
+      `Payment reconciliation run complete: ${summary.checked} checked, ${summary.completed} completed, ` +
+        `${summary.cancelled} cancelled, ${summary.abandoned} abandoned, ${summary.mismatched} mismatched, ` +
+        `${summary.pending} pending, ${summary.failed} failed`
+    );
+
+    return jsonResponse({ success: true, data: summary });
+  } catch (error) {
+    console.error("Error running payment reconciliation:", error);
+    return jsonResponse({ success: false, message: "Internal server error" }, 500);
+  }
+});
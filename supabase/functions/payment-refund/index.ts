@@ -0,0 +1,214 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getTransitionError, planTransition } from "../_shared/transactionStateMachine.ts";
+import { getRefundableAmount } from "../_shared/commissionSplit.ts";
+import { gateways } from "../_shared/gateways/index.ts";
+import { corsHeaders, createServiceClient, getRequestUser, jsonResponse } from "../_shared/http.ts";
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// Refunds a buyer through the gateway and records it on the transaction.
+// Admins only. The amount is reserved on the transaction before the gateway
+// is called, so two refunds at once cannot both pass the refundable check.
+// A full refund moves the transaction to refunded; a partial one keeps its
+// status and is added to the refund history.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req, createServiceClient());
+
+    if (!user) {
+      return jsonResponse({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      return jsonResponse({ success: false, message: "Only admins can refund payments" }, 403);
+    }
+
+    // Written as the admin, so the audit log names them
+    const supabase = createServiceClient(user.id);
+
+    const { transactionId, amount, reason } = await req.json();
+
+    const { data: transaction, error: fetchError } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("id", transactionId)
+      .single();
+
+    if (fetchError || !transaction) {
+      return jsonResponse({ success: false, message: "Transaction not found" }, 404);
+    }
+
+    const transitionError = getTransitionError(transaction.status, "refunded", "admin");
+    if (transitionError) {
+      return jsonResponse({ success: false, message: transitionError }, 409);
+    }
+
+    const previous = transaction.refund || {};
+
+    if (previous.pending) {
+      return jsonResponse({
+        success: false,
+        message: `A refund of ${previous.pending.amount} ${transaction.currency} is still being processed`,
+      }, 409);
+    }
+
+    const refundable = getRefundableAmount(transaction);
+    const refundAmount = roundAmount(Number(amount ?? refundable));
+
+    if (!(refundAmount > 0) || refundAmount > refundable) {
+      return jsonResponse({
+        success: false,
+        message: `Refund amount must be between 0 and ${refundable} ${transaction.currency}`,
+      }, 400);
+    }
+
+    const gateway = gateways[transaction.payment_method];
+
+    if (!gateway) {
+      return jsonResponse({ success: false, message: "Invalid payment method" }, 400);
+    }
+
+    if (!gateway.isConfigured()) {
+      console.error(`Missing ${gateway.name} credentials in function secrets`);
+      return jsonResponse({ success: false, message: `${gateway.name} is not configured` }, 503);
+    }
+
+    // Reserve the amount, only if no other refund changed the refunded total
+    // since it was read. Until the refund is recorded it counts as refunded.
+    const refundedBefore = previous.amount || 0;
+    const requestedAt = new Date().toISOString();
+    let reserve = supabase
+      .from("transactions")
+      .update({
+        refund: {
+          ...previous,
+          amount: roundAmount(refundedBefore + refundAmount),
+          pending: { amount: refundAmount, reason, requested_by: user.id, requested_at: requestedAt },
+        },
+        updated_at: requestedAt,
+      })
+      .eq("id", transaction.id)
+      .eq("status", transaction.status);
+
+    reserve = refundedBefore > 0
+      ? reserve.eq("refund->amount", refundedBefore)
+      : reserve.or("refund.is.null,refund->amount.is.null,refund->amount.eq.0");
+
+    const { data: reserved, error: reserveError } = await reserve.select("id").maybeSingle();
+
+    if (reserveError) throw reserveError;
+
+    if (!reserved) {
+      return jsonResponse({
+        success: false,
+        message: "Transaction changed while refunding, please try again",
+      }, 409);
+    }
+
+    const result = await gateway.refund(transaction, refundAmount, reason);
+
+    if (!result.success) {
+      // Nothing was sent, so give the reserved amount back
+      const { error: releaseError } = await supabase
+        .from("transactions")
+        .update({ refund: Object.keys(previous).length > 0 ? previous : null, updated_at: new Date().toISOString() })
+        .eq("id", transaction.id)
+        .eq("refund->pending->>requested_at", requestedAt);
+
+      if (releaseError) {
+        console.error(`Error releasing refund reservation on transaction ${transaction.id}:`, releaseError);
+      }
+
+      return jsonResponse({ success: false, message: result.message }, 502);
+    }
+
+    console.log(`Refunded ${refundAmount} ${transaction.currency} for transaction ${transaction.id}: ${result.reference}`);
+
+    const now = new Date().toISOString();
+    const isFull = refundAmount === refundable;
+    const refund = {
+      amount: roundAmount(refundedBefore + refundAmount),
+      reason,
+      processed_at: now,
+      processed_by: user.id,
+      refund_method: transaction.payment_method,
+      refund_reference: result.reference,
+      partial: !isFull,
+      history: [
+        ...(previous.history || []),
+        {
+          amount: refundAmount,
+          reason,
+          refund_method: transaction.payment_method,
+          refund_reference: result.reference,
+          processed_at: now,
+          processed_by: user.id,
+        },
+      ],
+    };
+
+    const transition = planTransition(transaction, "refunded", { id: user.id, role: "admin" }, reason);
+    const timeline = isFull && transition.allowed
+      ? transition.update.timeline
+      : [
+          ...(transaction.timeline || []),
+          {
+            status: transaction.status,
+            timestamp: now,
+            notes: `Partial refund of ${refundAmount} ${transaction.currency}${reason ? `: ${reason}` : ""}`,
+            updated_by: user.id,
+          },
+        ];
+
+    const { data: updated, error: recordError } = await supabase
+      .from("transactions")
+      .update({
+        refund,
+        timeline,
+        ...(isFull && { status: "refunded" }),
+        admin_id: user.id,
+        updated_at: now,
+      })
+      .eq("id", transaction.id)
+      .eq("refund->pending->>requested_at", requestedAt)
+      .select("*")
+      .maybeSingle();
+
+    // The money has gone back; the reservation stays on the transaction with
+    // the amount counted as refunded until support records it by hand
+    if (recordError || !updated) {
+      console.error(
+        `Refund ${result.reference} on transaction ${transaction.id} was sent but not recorded:`,
+        recordError || "reservation changed"
+      );
+      return jsonResponse({
+        success: false,
+        message: `Refund ${result.reference || ""} was sent but could not be recorded. It is held as pending on the transaction.`,
+      }, 500);
+    }
+
+    // The commission is kept on a full refund, recorded as a release records it
+    if (isFull) {
+      const { error: commissionError } = await supabase.rpc("record_admin_commission", {
+        p_transaction_id: transaction.id,
+        p_processed_by: user.id,
+      });
+
+      if (commissionError) {
+        console.error(`Error recording commission for transaction ${transaction.id}:`, commissionError);
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      data: updated,
+    });
+  } catch (error) {
+    console.error("Error refunding payment:", error);
+    return jsonResponse({ success: false, message: "Internal server error" }, 500);
+  }
+});
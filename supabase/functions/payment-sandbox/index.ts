@@ -0,0 +1,133 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getWebhookUrl } from "../_shared/gateways/index.ts";
+import { isSandboxEnabled, signSandboxWebhook } from "../_shared/gateways/sandbox.ts";
+import { corsHeaders, createServiceClient, getRequestUser, jsonResponse } from "../_shared/http.ts";
+
+// Plays the payment gateway for sandbox transactions. The buyer picks a
+// scenario on the sandbox checkout page and this function settles the
+// payment accordingly and posts the webhook(s) to payment-webhook/sandbox.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+type SandboxScenario = "success" | "failure" | "delay" | "duplicate" | "amount_mismatch";
+
+const SCENARIOS: SandboxScenario[] = ["success", "failure", "delay", "duplicate", "amount_mismatch"];
+
+// How long the "delay" scenario holds back its webhook. Longer than the return
+// page waits, so the buyer's verify call settles the payment first.
+const DELAY_MS = Number(Deno.env.get("PAYMENT_SANDBOX_DELAY_MS") || 15000);
+
+interface SandboxWebhook {
+  event_id: string;
+  reference: string;
+  status: "paid" | "failed";
+  amount: number;
+  currency: string;
+}
+
+async function deliver(webhook: SandboxWebhook): Promise<{ status: number; body: unknown }> {
+  const rawBody = JSON.stringify(webhook);
+
+  const response = await fetch(getWebhookUrl("sandbox"), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+      "x-sandbox-signature": await signSandboxWebhook(rawBody),
+    },
+    body: rawBody,
+  });
+
+  const body = await response.json().catch(() => null);
+  console.log(`Sandbox webhook ${webhook.event_id} -> ${response.status}`, body);
+
+  return { status: response.status, body };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    if (!isSandboxEnabled()) {
+      return jsonResponse({ success: false, message: "The payment sandbox is not enabled" }, 404);
+    }
+
+    const supabase = createServiceClient();
+    const user = await getRequestUser(req, supabase);
+
+    if (!user) {
+      return jsonResponse({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    const { transactionId, scenario } = await req.json();
+
+    if (!SCENARIOS.includes(scenario)) {
+      return jsonResponse({ success: false, message: `Scenario must be one of: ${SCENARIOS.join(", ")}` }, 400);
+    }
+
+    const { data: transaction, error: fetchError } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("id", transactionId)
+      .single();
+
+    if (fetchError || !transaction || transaction.buyer_id !== user.id) {
+      return jsonResponse({ success: false, message: "Transaction not found" }, 404);
+    }
+
+    const reference = transaction.payment_details?.sandbox_reference;
+
+    if (transaction.payment_method !== "sandbox" || !reference) {
+      return jsonResponse({ success: false, message: "Start checkout with the sandbox gateway first" }, 409);
+    }
+
+    const paid = scenario !== "failure";
+    const paidAmount = scenario === "amount_mismatch" ? Number(transaction.amount) + 1 : Number(transaction.amount);
+
+    // What the sandbox "settled", reported by the sandbox adapter's verify
+    const { error: updateError } = await supabase
+      .from("transactions")
+      .update({
+        payment_details: {
+          ...transaction.payment_details,
+          sandbox_status: paid ? "paid" : "failed",
+          sandbox_amount: paid ? paidAmount : null,
+          sandbox_scenario: scenario,
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", transaction.id);
+
+    if (updateError) throw updateError;
+
+    const webhook: SandboxWebhook = {
+      event_id: crypto.randomUUID(),
+      reference,
+      status: paid ? "paid" : "failed",
+      amount: paidAmount,
+      currency: transaction.currency,
+    };
+
+    if (scenario === "delay") {
+      EdgeRuntime.waitUntil(
+        new Promise((resolve) => setTimeout(resolve, DELAY_MS)).then(() => deliver(webhook))
+      );
+
+      return jsonResponse({ success: true, data: { scenario, delayed_ms: DELAY_MS, deliveries: [] } });
+    }
+
+    const deliveries = [await deliver(webhook)];
+
+    // Gateways retry deliveries, the second one must be ignored
+    if (scenario === "duplicate") {
+      deliveries.push(await deliver(webhook));
+    }
+
+    return jsonResponse({ success: true, data: { scenario, deliveries } });
+  } catch (error) {
+    console.error("Error running sandbox payment:", error);
+    return jsonResponse({ success: false, message: "Internal server error" }, 500);
+  }
+});
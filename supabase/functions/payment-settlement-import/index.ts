@@ -0,0 +1,291 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { gateways } from "../_shared/gateways/index.ts";
+import { corsHeaders, createServiceClient, getRequestUser, jsonResponse } from "../_shared/http.ts";
+import { parseCsv } from "../_shared/csv.ts";
+import { sha256Hex } from "../_shared/signatures.ts";
+import { getAmountMismatch, PAID_STATUSES } from "../_shared/webhooks.ts";
+import { PaymentMismatch, readSettlement } from "../_shared/reconciliation.ts";
+import { TimelineEntry } from "../_shared/transactionStateMachine.ts";
+
+// PostgREST puts filter values in the URL, so references are looked up in batches
+const LOOKUP_BATCH_SIZE = 100;
+
+// A payment can be settled a few days after the transaction was created
+const SETTLEMENT_LOOKBACK_DAYS = 7;
+
+interface SettledTransaction {
+  id: string;
+  status: string;
+  amount: number;
+  currency: string;
+  created_at: string;
+  timeline?: TimelineEntry[] | null;
+  payment_details?: Record<string, unknown> | null;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Compares a gateway's settlement CSV export with our transactions and records
+// every reference that is missing on either side, settled twice, or settled
+// for a different amount
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req, createServiceClient());
+
+    if (!user) {
+      return jsonResponse({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    if (user.role !== "admin") {
+      return jsonResponse({ success: false, message: "Only admins can import settlements" }, 403);
+    }
+
+    // Written as the admin, so the audit log names them
+    const supabase = createServiceClient(user.id);
+
+    const { gateway: method, fileName, csv } = await req.json();
+    const gateway = gateways[method];
+
+    if (!gateway) {
+      return jsonResponse({ success: false, message: "Invalid payment method" }, 400);
+    }
+
+    if (typeof csv !== "string" || !csv.trim()) {
+      return jsonResponse({ success: false, message: "Settlement file is empty" }, 400);
+    }
+
+    const { rows, skipped, missingColumns } = readSettlement(gateway.settlementColumns, parseCsv(csv));
+
+    if (missingColumns.length > 0) {
+      return jsonResponse(
+        { success: false, message: `Settlement file has no ${missingColumns.join(" or ")} column for ${gateway.label}` },
+        400
+      );
+    }
+
+    if (rows.length === 0) {
+      return jsonResponse({ success: false, message: "Settlement file has no payments" }, 400);
+    }
+
+    const settledDays = rows
+      .map((row) => row.settledAt?.slice(0, 10))
+      .filter((day): day is string => !!day)
+      .sort();
+    const periodStart = settledDays[0] || null;
+    const periodEnd = settledDays[settledDays.length - 1] || null;
+
+    const { data: settlementImport, error: importError } = await supabase
+      .from("payment_settlement_imports")
+      .insert({
+        gateway: gateway.name,
+        file_name: fileName || "settlement.csv",
+        file_hash: await sha256Hex(csv),
+        row_count: rows.length,
+        skipped_count: skipped.length,
+        period_start: periodStart,
+        period_end: periodEnd,
+        imported_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (importError?.code === "23505") {
+      return jsonResponse({ success: false, message: "This settlement file has already been imported" }, 409);
+    }
+
+    if (importError) throw importError;
+
+    try {
+      const references = [...new Set(rows.map((row) => row.reference))];
+      const transactionsByReference = new Map<string, SettledTransaction>();
+      const settledBefore = new Set<string>();
+
+      for (const batch of chunk(references, LOOKUP_BATCH_SIZE)) {
+        const { data: transactions, error: transactionsError } = await supabase
+          .from("transactions")
+          .select("id, status, amount, currency, created_at, payment_details")
+          .in(`payment_details->>${gateway.referenceField}`, batch);
+
+        if (transactionsError) throw transactionsError;
+
+        for (const transaction of transactions || []) {
+          transactionsByReference.set(String(transaction.payment_details?.[gateway.referenceField]), transaction);
+        }
+
+        // Checkouts the buyer retried or switched away from keep their
+        // reference only in payment_attempts
+        const { data: attempts, error: attemptsError } = await supabase
+          .from("payment_attempts")
+          .select("reference, transaction:transactions(id, status, amount, currency, created_at, payment_details)")
+          .eq("payment_method", gateway.name)
+          .in("reference", batch);
+
+        if (attemptsError) throw attemptsError;
+
+        for (const attempt of attempts || []) {
+          const transaction: SettledTransaction | null = attempt.transaction;
+          if (transaction && !transactionsByReference.has(attempt.reference)) {
+            transactionsByReference.set(attempt.reference, transaction);
+          }
+        }
+
+        // References already settled in an earlier export
+        const { data: earlier, error: earlierError } = await supabase
+          .from("payment_settlement_rows")
+          .select("reference")
+          .eq("gateway", gateway.name)
+          .in("reference", batch);
+
+        if (earlierError) throw earlierError;
+
+        for (const row of earlier || []) {
+          settledBefore.add(row.reference);
+        }
+      }
+
+      const mismatches: PaymentMismatch[] = [];
+      const settled = new Set<string>();
+      let matched = 0;
+
+      for (const row of rows) {
+        const transaction = transactionsByReference.get(row.reference);
+        const mismatch = {
+          gateway: gateway.name,
+          source: "settlement" as const,
+          reference: row.reference,
+          transaction_id: transaction?.id,
+          import_id: settlementImport.id,
+          expected_amount: transaction?.amount,
+          reported_amount: row.amount,
+          currency: row.currency,
+        };
+
+        if (settled.has(row.reference) || settledBefore.has(row.reference)) {
+          mismatches.push({
+            ...mismatch,
+            kind: "duplicate",
+            message: settled.has(row.reference)
+              ? `Settled more than once in this file (row ${row.row})`
+              : "Already settled in an earlier settlement file",
+          });
+          continue;
+        }
+
+        settled.add(row.reference);
+
+        if (!transaction) {
+          mismatches.push({ ...mismatch, kind: "missing", message: "Settled by the gateway but no transaction has this reference" });
+          continue;
+        }
+
+        const amountMismatch = getAmountMismatch(transaction, row);
+
+        if (amountMismatch) {
+          mismatches.push({ ...mismatch, kind: "amount_differs", message: amountMismatch });
+          continue;
+        }
+
+        if (!PAID_STATUSES.includes(transaction.status)) {
+          mismatches.push({
+            ...mismatch,
+            kind: "missing",
+            message: `Settled by the gateway but the transaction is still ${transaction.status}`,
+          });
+          continue;
+        }
+
+        matched++;
+      }
+
+      // Paid transactions the gateway should have settled within the file's period
+      if (periodStart && periodEnd) {
+        const createdAfter = new Date(new Date(periodStart).getTime() - SETTLEMENT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+        const { data: paid, error: paidError } = await supabase
+          .from("transactions")
+          .select("id, status, amount, currency, created_at, timeline, payment_details")
+          .eq("payment_method", gateway.name)
+          .in("status", PAID_STATUSES)
+          .gte("created_at", createdAfter.toISOString())
+          .lte("created_at", `${periodEnd}T23:59:59.999Z`);
+
+        if (paidError) throw paidError;
+
+        for (const transaction of (paid || []) as SettledTransaction[]) {
+          const reference = transaction.payment_details?.[gateway.referenceField];
+          if (!reference || settled.has(String(reference))) continue;
+
+          const paidAt = (transaction.timeline || []).find((entry) => entry.status === "payment_completed")?.timestamp
+            || transaction.created_at;
+          const paidDay = paidAt.slice(0, 10);
+          if (paidDay < periodStart || paidDay > periodEnd) continue;
+
+          mismatches.push({
+            gateway: gateway.name,
+            kind: "missing",
+            source: "settlement",
+            reference: String(reference),
+            transaction_id: transaction.id,
+            import_id: settlementImport.id,
+            expected_amount: transaction.amount,
+            currency: transaction.currency,
+            message: "Paid transaction is not in the settlement file",
+          });
+        }
+      }
+
+      const { error: rowsError } = await supabase.from("payment_settlement_rows").insert(
+        rows.map((row) => ({
+          import_id: settlementImport.id,
+          gateway: gateway.name,
+          reference: row.reference,
+          amount: row.amount,
+          currency: row.currency,
+          settled_at: row.settledAt,
+          transaction_id: transactionsByReference.get(row.reference)?.id,
+          raw: row.raw,
+        }))
+      );
+
+      if (rowsError) throw rowsError;
+
+      if (mismatches.length > 0) {
+        const { error: mismatchesError } = await supabase.from("payment_mismatches").insert(mismatches);
+        if (mismatchesError) throw mismatchesError;
+      }
+
+      const { data: completedImport, error: updateError } = await supabase
+        .from("payment_settlement_imports")
+        .update({ matched_count: matched, mismatch_count: mismatches.length })
+        .eq("id", settlementImport.id)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      console.log(
+        `${gateway.label} settlement ${completedImport.file_name} imported: ${rows.length} rows, ` +
+          `${matched} matched, ${mismatches.length} mismatches, ${skipped.length} skipped`
+      );
+
+      return jsonResponse({ success: true, data: { ...completedImport, skipped_rows: skipped } });
+    } catch (error) {
+      // Leave nothing half imported, so the same file can be imported again
+      await supabase.from("payment_settlement_imports").delete().eq("id", settlementImport.id);
+      throw error;
+    }
+  } catch (error) {
+    console.error("Error importing settlement:", error);
+    return jsonResponse({ success: false, message: "Internal server error" }, 500);
+  }
+});
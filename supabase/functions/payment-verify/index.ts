@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { gateways } from "../_shared/gateways/index.ts";
+import { corsHeaders, createServiceClient, getRequestUser, jsonResponse } from "../_shared/http.ts";
+import { completeVerifiedPayment, findPaidEarlierAttempt } from "../_shared/reconciliation.ts";
+
+// Asks the gateway whether a transaction has been paid, for when the buyer
+// returns from checkout before the webhook has arrived
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createServiceClient();
+    const user = await getRequestUser(req, supabase);
+
+    if (!user) {
+      return jsonResponse({ success: false, message: "Unauthorized" }, 401);
+    }
+
+    const { transactionId } = await req.json();
+
+    const { data: transaction, error: fetchError } = await supabase
+      .from("transactions")
+      .select("*")
+      .eq("id", transactionId)
+      .single();
+
+    if (fetchError || !transaction) {
+      return jsonResponse({ success: false, message: "Transaction not found" }, 404);
+    }
+
+    const isParty = transaction.buyer_id === user.id || transaction.seller_id === user.id;
+    if (!isParty && user.role !== "admin") {
+      return jsonResponse({ success: false, message: "Transaction not found" }, 404);
+    }
+
+    const gateway = gateways[transaction.payment_method];
+
+    if (!gateway) {
+      return jsonResponse({ success: false, message: "Invalid payment method" }, 400);
+    }
+
+    const result = await gateway.verify(transaction);
+
+    if (!result.success) {
+      return jsonResponse({ success: false, message: result.message }, 502);
+    }
+
+    // The buyer may have paid a checkout they later retried or switched away from
+    const paid = result.paid
+      ? { gateway, transaction, result }
+      : await findPaidEarlierAttempt(supabase, transaction);
+
+    if (paid) {
+      const completion = await completeVerifiedPayment(
+        supabase,
+        paid.gateway,
+        paid.transaction,
+        paid.result,
+        `Verified with ${paid.gateway.label}`
+      );
+
+      if (completion.outcome === "mismatch") {
+        console.error(`Verified ${paid.gateway.label} payment for transaction ${transaction.id} does not match:`, completion.message);
+        return jsonResponse({ success: false, message: completion.message }, 409);
+      }
+
+      if (completion.outcome === "rejected") {
+        console.warn(`Transaction ${transaction.id} not moved to payment_completed:`, completion.message);
+      }
+    }
+
+    const reported = paid?.result || result;
+
+    return jsonResponse({
+      success: true,
+      data: {
+        verified: !!paid,
+        status: reported.status,
+        amount: reported.amount,
+        currency: reported.currency,
+      },
+    });
+  } catch (error) {
+    console.error("Error verifying payment:", error);
+    return jsonResponse({ success: false, message: "Internal server error" }, 500);
+  }
+});
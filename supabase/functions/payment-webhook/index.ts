@@ -0,0 +1,27 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { gateways } from "../_shared/gateways/index.ts";
+import { corsHeaders, jsonResponse } from "../_shared/http.ts";
+import { processWebhook } from "../_shared/webhooks.ts";
+
+// Single entry point for gateway callbacks. Gateways post to
+// /payment-webhook/<payment_method>, see getWebhookUrl.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const url = new URL(req.url);
+  const method = url.pathname.split("/").filter(Boolean).pop() || "";
+  const gateway = gateways[method] || gateways[url.searchParams.get("gateway") || ""];
+
+  if (!gateway) {
+    console.error(`Webhook received for unknown gateway: ${url.pathname}`);
+    return jsonResponse({ error: "Unknown payment gateway" }, 404);
+  }
+
+  return processWebhook(gateway, req);
+});
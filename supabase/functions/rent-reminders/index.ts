@@ -0,0 +1,330 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEPOSIT_CLAIM_DAYS, RENT_REMINDER_DAYS } from "../_shared/rentals.ts";
+import { CHECKOUT_ABANDON_MINUTES } from "../_shared/reconciliation.ts";
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+interface RentalNotification {
+  user_id: string;
+  type: "rent_due" | "rent_overdue" | "rental_ended" | "system_message";
+  title: string;
+  message: string;
+  booking_id: string;
+  priority: "medium" | "high";
+}
+
+async function notify(supabase: SupabaseClient, notification: RentalNotification): Promise<void> {
+  const { booking_id, ...rest } = notification;
+
+  const { error } = await supabase.from("notifications").insert({
+    ...rest,
+    data: {
+      booking_id,
+    },
+    link: `/profile?booking=${booking_id}`,
+    channels: {
+      in_app: true,
+      email: true,
+      sms: false,
+      push: false,
+    },
+    status: "pending",
+    read: false,
+  });
+
+  if (error) {
+    console.error(`Error notifying user ${notification.user_id} about booking ${booking_id}:`, error);
+  }
+}
+
+// Stamp the notice column on payments that do not have it yet and return those,
+// so a run that overlaps another never sends the same notice twice
+async function claimPayments<T extends { id: string }>(
+  supabase: SupabaseClient,
+  payments: T[],
+  column: "reminder_sent_at" | "overdue_notice_sent_at",
+  now: Date
+): Promise<T[]> {
+  if (payments.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("rent_payments")
+    .update({ [column]: now.toISOString() })
+    .in("id", payments.map((payment) => payment.id))
+    .is(column, null)
+    .select("id");
+
+  if (error) throw error;
+
+  const claimed = new Set((data || []).map((row: { id: string }) => row.id));
+  return payments.filter((payment) => claimed.has(payment.id));
+}
+
+function listingTitle(booking: { listing?: { title?: string } | { title?: string }[] | null }): string {
+  const listing = Array.isArray(booking.listing) ? booking.listing[0] : booking.listing;
+  return listing?.title || "your rental";
+}
+
+// Runs on a schedule (see database/SETUP_RENTAL_BOOKINGS.sql). Reminds renters
+// before rent is due, tells both parties when rent is overdue, closes bookings
+// whose stay has ended, queues deposits nobody claimed for refund and frees
+// dates held by bookings that were never paid for.
+serve(async (req) => {
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler, which calls with the service role key, may run this
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: jsonHeaders }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+    const today = now.toISOString().slice(0, 10);
+    const reminderCutoff = new Date(now.getTime() + RENT_REMINDER_DAYS * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+    const paymentSelect =
+      "id, due_date, amount, currency, booking:rental_bookings!inner(id, renter_id, owner_id, status, listing:listings(title))";
+
+    // Remind renters whose rent falls due within the reminder window
+    const { data: upcomingCandidates, error: upcomingError } = await supabase
+      .from("rent_payments")
+      .select(paymentSelect)
+      .eq("status", "scheduled")
+      .gte("due_date", today)
+      .lte("due_date", reminderCutoff)
+      .is("reminder_sent_at", null)
+      .eq("booking.status", "confirmed");
+
+    if (upcomingError) throw upcomingError;
+
+    const upcoming = await claimPayments(supabase, upcomingCandidates || [], "reminder_sent_at", now);
+
+    for (const payment of upcoming) {
+      const booking = Array.isArray(payment.booking) ? payment.booking[0] : payment.booking;
+
+      await notify(supabase, {
+        user_id: booking.renter_id,
+        type: "rent_due",
+        title: "Rent Due Soon",
+        message: `Rent of ${payment.amount} ${payment.currency} for "${listingTitle(booking)}" is due on ${payment.due_date}. Pay it from your rent ledger.`,
+        booking_id: booking.id,
+        priority: "medium",
+      });
+    }
+
+    // Rent still unpaid after its due date, for stays that are running or have ended
+    const { data: overdueCandidates, error: overdueError } = await supabase
+      .from("rent_payments")
+      .select(paymentSelect)
+      .eq("status", "scheduled")
+      .lt("due_date", today)
+      .is("overdue_notice_sent_at", null)
+      .in("booking.status", ["confirmed", "completed"]);
+
+    if (overdueError) throw overdueError;
+
+    const overdue = await claimPayments(supabase, overdueCandidates || [], "overdue_notice_sent_at", now);
+
+    for (const payment of overdue) {
+      const booking = Array.isArray(payment.booking) ? payment.booking[0] : payment.booking;
+      const title = listingTitle(booking);
+
+      await notify(supabase, {
+        user_id: booking.renter_id,
+        type: "rent_overdue",
+        title: "Rent Overdue",
+        message: `Rent of ${payment.amount} ${payment.currency} for "${title}" was due on ${payment.due_date} and has not been paid.`,
+        booking_id: booking.id,
+        priority: "high",
+      });
+
+      await notify(supabase, {
+        user_id: booking.owner_id,
+        type: "rent_overdue",
+        title: "Rent Overdue",
+        message: `The renter of "${title}" has not paid rent of ${payment.amount} ${payment.currency} that was due on ${payment.due_date}.`,
+        booking_id: booking.id,
+        priority: "high",
+      });
+    }
+
+    // Close bookings whose stay is over. The deposit stays in escrow while the
+    // owner can claim against it by opening a dispute.
+    const { data: ended, error: endedError } = await supabase
+      .from("rental_bookings")
+      .update({ status: "completed", completed_at: now.toISOString(), updated_at: now.toISOString() })
+      .eq("status", "confirmed")
+      .lte("end_date", today)
+      .select("id, renter_id, owner_id, listing:listings(title)");
+
+    if (endedError) throw endedError;
+
+    for (const booking of ended || []) {
+      const title = listingTitle(booking);
+
+      await notify(supabase, {
+        user_id: booking.renter_id,
+        type: "rental_ended",
+        title: "Rental Ended",
+        message: `Your stay at "${title}" has ended. Your security deposit will be returned unless the owner raises a dispute about it within ${DEPOSIT_CLAIM_DAYS} days.`,
+        booking_id: booking.id,
+        priority: "medium",
+      });
+
+      await notify(supabase, {
+        user_id: booking.owner_id,
+        type: "rental_ended",
+        title: "Rental Ended",
+        message: `The rental of "${title}" has ended. If you have a claim against the security deposit, open a dispute on the deposit transaction within ${DEPOSIT_CLAIM_DAYS} days.`,
+        booking_id: booking.id,
+        priority: "medium",
+      });
+    }
+
+    // Deposits the owner has not disputed by the end of the claim window are
+    // due back to the renter in full. Refunds go through the gateway, which
+    // only admins can do, so they are asked to refund each one.
+    const claimCutoff = new Date(now.getTime() - DEPOSIT_CLAIM_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const { data: settledCandidates, error: settledError } = await supabase
+      .from("rental_bookings")
+      .select(
+        "id, renter_id, deposit_amount, currency, listing:listings(title), " +
+          "transactions:transactions!transactions_rental_booking_id_fkey(id, status, rent_payment_id)"
+      )
+      .eq("status", "completed")
+      .lte("completed_at", claimCutoff)
+      .is("deposit_refund_requested_at", null);
+
+    if (settledError) throw settledError;
+
+    const depositOf = (booking: { transactions?: { id: string; status: string; rent_payment_id: string | null }[] | null }) =>
+      (booking.transactions || []).find((transaction) => !transaction.rent_payment_id && transaction.status === "escrowed");
+
+    const unclaimed = (settledCandidates || []).filter((booking) => depositOf(booking));
+    let refundsRequested = 0;
+
+    if (unclaimed.length > 0) {
+      // Stamp first, so an overlapping run does not ask twice
+      const { data: claimed, error: claimError } = await supabase
+        .from("rental_bookings")
+        .update({ deposit_refund_requested_at: now.toISOString() })
+        .in("id", unclaimed.map((booking) => booking.id))
+        .is("deposit_refund_requested_at", null)
+        .select("id");
+
+      if (claimError) throw claimError;
+
+      const claimedIds = new Set((claimed || []).map((row: { id: string }) => row.id));
+      const { data: admins } = await supabase.from("users").select("id").eq("role", "admin");
+
+      for (const booking of unclaimed.filter((candidate) => claimedIds.has(candidate.id))) {
+        const deposit = depositOf(booking)!;
+        const title = listingTitle(booking);
+
+        for (const admin of admins || []) {
+          const { error: adminError } = await supabase.from("notifications").insert({
+            user_id: admin.id,
+            type: "system_message",
+            title: "Security Deposit to Refund",
+            message: `The owner of "${title}" did not claim against the ${booking.deposit_amount} ${booking.currency} deposit within ${DEPOSIT_CLAIM_DAYS} days of the stay ending. Refund it to the renter in full.`,
+            data: {
+              booking_id: booking.id,
+              transaction_id: deposit.id,
+            },
+            link: `/admin?tab=manage-escrow&transaction=${deposit.id}`,
+            priority: "high",
+            channels: {
+              in_app: true,
+              email: true,
+              sms: false,
+              push: false,
+            },
+            status: "pending",
+            read: false,
+          });
+
+          if (adminError) {
+            console.error(`Error asking admin ${admin.id} to refund the deposit of booking ${booking.id}:`, adminError);
+          }
+        }
+
+        await notify(supabase, {
+          user_id: booking.renter_id,
+          type: "system_message",
+          title: "Deposit Refund on Its Way",
+          message: `No claim was made against your deposit for "${title}". It is being refunded to you in full.`,
+          booking_id: booking.id,
+          priority: "medium",
+        });
+
+        refundsRequested++;
+      }
+    }
+
+    // Bookings whose deposit checkout was never created still hold their dates.
+    // Those with a checkout are cancelled with it by payment-reconcile.
+    const abandonBefore = new Date(now.getTime() - CHECKOUT_ABANDON_MINUTES * 60 * 1000).toISOString();
+
+    const { data: stale, error: staleError } = await supabase
+      .from("rental_bookings")
+      .select("id, transactions:transactions!transactions_rental_booking_id_fkey(id)")
+      .eq("status", "pending")
+      .lt("created_at", abandonBefore);
+
+    if (staleError) throw staleError;
+
+    const unpaid = (stale || []).filter((booking) => (booking.transactions || []).length === 0).map((booking) => booking.id);
+    let abandoned = 0;
+
+    if (unpaid.length > 0) {
+      const { data: cancelled, error: cancelError } = await supabase
+        .from("rental_bookings")
+        .update({ status: "cancelled", cancelled_at: now.toISOString(), updated_at: now.toISOString() })
+        .in("id", unpaid)
+        .eq("status", "pending")
+        .select("id");
+
+      if (cancelError) throw cancelError;
+
+      await supabase
+        .from("rent_payments")
+        .update({ status: "cancelled" })
+        .in("booking_id", unpaid)
+        .eq("status", "scheduled");
+
+      abandoned = cancelled?.length || 0;
+    }
+
+    const summary = {
+      reminded: upcoming.length,
+      overdue: overdue.length,
+      completed: ended?.length || 0,
+      refundsRequested,
+      abandoned,
+    };
+
+    console.log(
+      `Rent reminders run complete: ${summary.reminded} reminded, ${summary.overdue} overdue, ` +
+        `${summary.completed} completed, ${summary.refundsRequested} deposit refunds requested, ${summary.abandoned} abandoned`
+    );
+
+    return new Response(
+      JSON.stringify(summary),
+      { status: 200, headers: jsonHeaders }
+    );
+  } catch (error) {
+    console.error("Error running rent reminders:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+});
@@ -0,0 +1,133 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  SAVED_SEARCH_ALERT_LIMIT,
+  SAVED_SEARCH_FREQUENCIES,
+  SavedSearchAlertTarget,
+  SavedSearchMatch,
+  buildSavedSearchMatchNotification,
+  getSavedSearchDueBefore,
+} from "../_shared/savedSearches.ts";
+
+const jsonHeaders = { "Content-Type": "application/json" };
+
+// Searches checked per frequency in one run; the rest stay due for the next
+const BATCH_SIZE = 500;
+
+interface DueSearch extends SavedSearchAlertTarget {
+  last_checked_at: string;
+}
+
+// Move the search's check time on to now, unless another run already has,
+// so overlapping runs never send the same alert twice
+async function claimSearch(supabase: SupabaseClient, search: DueSearch, now: Date): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("saved_searches")
+    .update({ last_checked_at: now.toISOString() })
+    .eq("id", search.id)
+    .eq("last_checked_at", search.last_checked_at)
+    .select("id");
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+// Alert the user about listings approved since the search was last checked.
+// Returns whether an alert was sent.
+async function checkSearch(supabase: SupabaseClient, search: DueSearch, now: Date): Promise<boolean> {
+  const { data: matches, error: matchError } = await supabase.rpc("saved_search_new_matches", {
+    p_search_id: search.id,
+    p_since: search.last_checked_at,
+    p_until: now.toISOString(),
+    p_limit: SAVED_SEARCH_ALERT_LIMIT,
+  });
+
+  if (matchError) throw matchError;
+
+  const listings = (matches || []) as (SavedSearchMatch & { total_count: number })[];
+  if (listings.length === 0) return false;
+
+  const { error: notifyError } = await supabase.from("notifications").insert({
+    ...buildSavedSearchMatchNotification(search, listings, Number(listings[0].total_count)),
+    status: "pending",
+    read: false,
+  });
+
+  if (notifyError) throw notifyError;
+
+  await supabase
+    .from("saved_searches")
+    .update({ last_notified_at: now.toISOString() })
+    .eq("id", search.id);
+
+  return true;
+}
+
+// Runs on a schedule (see database/SETUP_SAVED_SEARCHES.sql). Checks each due
+// saved search for newly approved listings and alerts its owner: instant
+// searches on every run, daily and weekly ones once a day or week.
+serve(async (req) => {
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler, which calls with the service role key, may run this
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: jsonHeaders }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+    let checked = 0;
+    let notified = 0;
+    let failed = 0;
+
+    for (const frequency of SAVED_SEARCH_FREQUENCIES) {
+      const { data: due, error: dueError } = await supabase
+        .from("saved_searches")
+        .select("id, user_id, name, filters, last_checked_at")
+        .eq("is_active", true)
+        .eq("frequency", frequency)
+        .lte("last_checked_at", getSavedSearchDueBefore(frequency, now))
+        .order("last_checked_at", { ascending: true })
+        .limit(BATCH_SIZE);
+
+      if (dueError) throw dueError;
+
+      for (const search of (due || []) as DueSearch[]) {
+        if (!(await claimSearch(supabase, search, now))) continue;
+
+        checked++;
+
+        try {
+          if (await checkSearch(supabase, search, now)) notified++;
+        } catch (error) {
+          // Put the check time back so the next run covers these listings again
+          console.error(`Error checking saved search ${search.id}:`, error);
+          failed++;
+          await supabase
+            .from("saved_searches")
+            .update({ last_checked_at: search.last_checked_at })
+            .eq("id", search.id)
+            .eq("last_checked_at", now.toISOString());
+        }
+      }
+    }
+
+    console.log(`Saved search alerts run complete: ${checked} checked, ${notified} notified, ${failed} failed`);
+
+    return new Response(
+      JSON.stringify({ checked, notified, failed }),
+      { status: 200, headers: jsonHeaders }
+    );
+  } catch (error) {
+    console.error("Error running saved search alerts:", error);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: jsonHeaders }
+    );
+  }
+});
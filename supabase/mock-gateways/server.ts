@@ -0,0 +1,254 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { hmacSha256Hex } from "../functions/_shared/signatures.ts";
+
+// Offline stand-in for the CBE Birr and M-Pesa APIs, so checkout can be run
+// end to end against `supabase functions serve` without merchant accounts.
+//
+//   deno run --allow-net --allow-env supabase/mock-gateways/server.ts
+//
+// See supabase/functions/README.md for the function settings that point the
+// adapters here.
+
+const PORT = Number(Deno.env.get("MOCK_GATEWAY_PORT") || 8787);
+
+// Callback URLs are built inside the functions container, where Supabase is
+// http://kong:8000. Rewrite them to where this server can reach Supabase.
+const SUPABASE_URL = (Deno.env.get("MOCK_SUPABASE_URL") || "http://localhost:54321").replace(/\/$/, "");
+
+const CBE_BIRR_WEBHOOK_SECRET = Deno.env.get("CBE_BIRR_WEBHOOK_SECRET") || "mock-cbe-birr-secret";
+
+// ResultCode the mock M-Pesa reports: 0 paid, 1032 cancelled by the buyer
+const MPESA_RESULT_CODE = Deno.env.get("MOCK_MPESA_RESULT_CODE") || "0";
+const MPESA_CONFIRM_DELAY_MS = Number(Deno.env.get("MOCK_MPESA_CONFIRM_DELAY_MS") || 5000);
+
+interface MockPayment {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  callbackUrl: string;
+  returnUrl?: string;
+}
+
+const cbeBirrPayments = new Map<string, MockPayment>();
+const mpesaPayments = new Map<string, MockPayment>();
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function toReachableUrl(url: string): string {
+  const parsed = new URL(url);
+  return `${SUPABASE_URL}${parsed.pathname}${parsed.search}`;
+}
+
+async function postCallback(url: string, body: unknown, headers: Record<string, string> = {}) {
+  const rawBody = JSON.stringify(body);
+
+  try {
+    const response = await fetch(toReachableUrl(url), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: rawBody,
+    });
+    console.log(`Callback ${url} -> ${response.status} ${await response.text()}`);
+  } catch (error) {
+    console.error(`Callback ${url} failed:`, error);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CBE Birr: hosted checkout page, signed webhook
+// ---------------------------------------------------------------------------
+
+async function sendCbeBirrWebhook(payment: MockPayment) {
+  const body = {
+    eventId: crypto.randomUUID(),
+    orderId: payment.id,
+    paymentId: `CBE_${payment.id}`,
+    status: payment.status,
+    amount: payment.amount.toFixed(2),
+    currency: payment.currency,
+  };
+
+  await postCallback(payment.callbackUrl, body, {
+    "x-cbe-signature": await hmacSha256Hex(CBE_BIRR_WEBHOOK_SECRET, JSON.stringify(body)),
+  });
+}
+
+function renderCheckout(payment: MockPayment): Response {
+  const html = `<!doctype html>
+<html>
+  <head><title>CBE Birr (mock)</title></head>
+  <body style="font-family: sans-serif; max-width: 420px; margin: 80px auto;">
+    <h1>CBE Birr (mock)</h1>
+    <p>Order <code>${payment.id}</code></p>
+    <p><strong>${payment.amount.toFixed(2)} ${payment.currency}</strong></p>
+    <form method="post">
+      <button name="action" value="pay">Pay</button>
+      <button name="action" value="cancel">Cancel</button>
+    </form>
+  </body>
+</html>`;
+
+  return new Response(html, { headers: { "Content-Type": "text/html" } });
+}
+
+async function handleCbeBirr(req: Request, path: string[]): Promise<Response> {
+  const origin = new URL(req.url).origin;
+
+  // POST /cbe-birr/payments
+  if (req.method === "POST" && path.length === 1 && path[0] === "payments") {
+    const body = await req.json();
+    const payment: MockPayment = {
+      id: body.orderId,
+      amount: Number(body.amount),
+      currency: body.currency,
+      status: "PENDING",
+      callbackUrl: body.callbackUrl,
+      returnUrl: body.returnUrl,
+    };
+    cbeBirrPayments.set(payment.id, payment);
+
+    return json({
+      status: "success",
+      data: {
+        paymentId: `CBE_${payment.id}`,
+        checkoutUrl: `${origin}/cbe-birr/checkout/${encodeURIComponent(payment.id)}`,
+      },
+    });
+  }
+
+  const payment = cbeBirrPayments.get(decodeURIComponent(path[1] || ""));
+  if (!payment) return json({ status: "error", message: "Payment not found" }, 404);
+
+  // GET /cbe-birr/payments/:orderId
+  if (req.method === "GET" && path[0] === "payments" && path.length === 2) {
+    return json({
+      status: "success",
+      data: { orderId: payment.id, status: payment.status, amount: payment.amount.toFixed(2), currency: payment.currency },
+    });
+  }
+
+  // POST /cbe-birr/payments/:orderId/refunds
+  if (req.method === "POST" && path[0] === "payments" && path[2] === "refunds") {
+    const body = await req.json();
+    return json({ status: "success", data: { refundId: `CBE_RF_${Date.now()}`, amount: body.amount } });
+  }
+
+  // GET /cbe-birr/checkout/:orderId
+  if (req.method === "GET" && path[0] === "checkout") {
+    return renderCheckout(payment);
+  }
+
+  // POST /cbe-birr/checkout/:orderId, from the checkout page buttons
+  if (req.method === "POST" && path[0] === "checkout") {
+    const form = await req.formData();
+    payment.status = form.get("action") === "pay" ? "PAID" : "CANCELLED";
+    await sendCbeBirrWebhook(payment);
+
+    return Response.redirect(payment.returnUrl || origin, 303);
+  }
+
+  return json({ status: "error", message: "Not found" }, 404);
+}
+
+// ---------------------------------------------------------------------------
+// M-Pesa: STK push confirmed after a delay, unsigned callback
+// ---------------------------------------------------------------------------
+
+function sendMpesaCallback(payment: MockPayment) {
+  payment.status = MPESA_RESULT_CODE;
+
+  const paid = MPESA_RESULT_CODE === "0";
+  const body = {
+    Body: {
+      stkCallback: {
+        MerchantRequestID: `MOCK_${payment.id}`,
+        CheckoutRequestID: payment.id,
+        ResultCode: Number(MPESA_RESULT_CODE),
+        ResultDesc: paid ? "The service request is processed successfully." : "Request cancelled by user",
+        CallbackMetadata: paid
+          ? {
+            Item: [
+              { Name: "Amount", Value: payment.amount },
+              { Name: "MpesaReceiptNumber", Value: `MOCK${Date.now()}` },
+              { Name: "TransactionDate", Value: Date.now() },
+            ],
+          }
+          : undefined,
+      },
+    },
+  };
+
+  return postCallback(payment.callbackUrl, body);
+}
+
+async function handleMpesa(req: Request, path: string): Promise<Response> {
+  if (req.method === "GET" && path === "/v1/token/generate") {
+    return json({ access_token: "mock-mpesa-token", token_type: "Bearer", expires_in: "3599" });
+  }
+
+  if (req.method === "POST" && path === "/mpesa/stkpush/v3/processrequest") {
+    const body = await req.json();
+    const payment: MockPayment = {
+      id: `ws_CO_${Date.now()}`,
+      amount: Number(body.Amount),
+      currency: "ETB",
+      status: "pending",
+      callbackUrl: body.CallBackURL,
+    };
+    mpesaPayments.set(payment.id, payment);
+
+    console.log(`STK push to ${body.PhoneNumber} for ${payment.amount} ETB, confirming in ${MPESA_CONFIRM_DELAY_MS}ms`);
+    setTimeout(() => sendMpesaCallback(payment), MPESA_CONFIRM_DELAY_MS);
+
+    return json({
+      MerchantRequestID: body.MerchantRequestID,
+      CheckoutRequestID: payment.id,
+      ResponseCode: "0",
+      ResponseDescription: "Success. Request accepted for processing",
+      CustomerMessage: "Success. Request accepted for processing",
+    });
+  }
+
+  if (req.method === "POST" && path === "/mpesa/stkpushquery/v1/query") {
+    const body = await req.json();
+    const payment = mpesaPayments.get(body.CheckoutRequestID);
+
+    if (!payment) return json({ errorCode: "400.002.02", errorMessage: "Invalid CheckoutRequestID" }, 400);
+
+    if (payment.status === "pending") {
+      return json({ errorCode: "500.001.1001", errorMessage: "The transaction is being processed" }, 500);
+    }
+
+    return json({
+      ResponseCode: "0",
+      CheckoutRequestID: payment.id,
+      ResultCode: payment.status,
+      ResultDesc: payment.status === "0" ? "The service request is processed successfully." : "Request cancelled by user",
+    });
+  }
+
+  return json({ errorCode: "404.001.01", errorMessage: "Not found" }, 404);
+}
+
+serve(async (req) => {
+  const { pathname } = new URL(req.url);
+  const segments = pathname.split("/").filter(Boolean);
+
+  console.log(`${req.method} ${pathname}`);
+
+  if (segments[0] === "cbe-birr") {
+    return handleCbeBirr(req, segments.slice(1));
+  }
+
+  if (segments[0] === "mpesa") {
+    return handleMpesa(req, pathname.slice("/mpesa".length));
+  }
+
+  return json({ error: "Unknown mock gateway. Use /cbe-birr or /mpesa." }, 404);
+}, { port: PORT });
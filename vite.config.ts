@@ -8,6 +8,9 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Rules shared with the edge functions, so the web app and the scheduled
+      // jobs agree on them
+      '@shared': path.resolve(__dirname, './supabase/functions/_shared'),
     },
   },
   optimizeDeps: {